@@ -1,66 +1,180 @@
-import React, { useState, useReducer, useMemo, createContext, useContext } from 'react';
+import React, { useState, useReducer, useMemo, useRef, useEffect, createContext, useContext } from 'react';
 import './App.css';
-
-// TypeScript interfaces for type safety
-interface ShippingFormData {
-  shippingMethod: 'standard' | 'express' | 'overnight';
-  weight: number;
-  dimensions: {
-    length: number;
-    width: number;
-    height: number;
-  };
-  destinationZone: 'local' | 'domestic' | 'international';
-}
-
-interface ValidationErrors {
-  [key: string]: string;
-}
-
-interface ShippingResult {
-  shippingCost: number;
-  estimatedDeliveryDays: number;
-  breakdown: {
-    baseRate: number;
-    zoneMultiplier: number;
-    sizeMultiplier: number;
-    packageSizeCategory: string;
-    weightSurcharge: number;
-    weight: number;
-    shippingMethod: string;
-    destinationZone: string;
-  };
-}
+import {
+  AddOnId,
+  Address,
+  DESTINATION_ZONES,
+  ExchangeRateTable,
+  PackageDetails,
+  packageErrorKey,
+  SHIPPING_METHODS,
+  ShippingFormData,
+  ShippingMethod,
+  ShippingResult,
+  ValidationErrors,
+} from './types';
+import { createShippingClient, ShippingClient } from './api/shippingClient';
+import { createExchangeRateClient, ExchangeRateClient } from './api/exchangeRateClient';
+import { createRateCardClient, RateCardClient } from './api/rateCardClient';
+import { isAbortError, ShippingApiError } from './api/request';
+import { createQuoteCache, withQuoteCache } from './api/quoteCache';
+import {
+  AsyncValidationRule,
+  DEFAULT_VALIDATION_RULES,
+  getFieldHint,
+  getWeightLimits,
+  MAX_PACKAGES,
+  RuleField,
+  runValidationRulesAsync,
+  validateShipment,
+  validateShippingForm,
+  ValidationMessages,
+  ValidationReport,
+  ValidationRuleSet,
+  withWeightLimits,
+} from './validation';
+import { getChargeableWeight } from './pricing/engine';
+import { AddOnRate, RATE_CARDS, RateCard, selectRateCard } from './pricing/rateCard';
+import { normaliseAccountNumber } from './pricing/accounts';
+import { checkAddOns, listAddOns } from './pricing/addOns';
+import { checkPromoCode, normalisePromoCode } from './pricing/promoCodes';
+import { compareShippingOptions, ComparisonOption, getBlockingErrors } from './comparison';
+import {
+  fromMetricLength,
+  fromMetricVolume,
+  fromMetricWeight,
+  roundTo,
+  toMetricLength,
+  toMetricWeight,
+  UNIT_LABELS,
+  UNIT_SYSTEMS,
+  UnitSystem,
+} from './units';
+import { BUNDLED_EXCHANGE_RATES, PRICE_CURRENCY, SUPPORTED_CURRENCIES } from './currency/exchangeRates';
+import { convertAmount, convertQuote, formatMoney, getExchangeRate } from './currency/money';
+import {
+  addToHistory,
+  createHistoryEntry,
+  diffQuotes,
+  loadQuoteHistory,
+  QuoteFieldChange,
+  QuoteHistoryEntry,
+  saveQuoteHistory,
+} from './history/quoteHistory';
+import { parseQuoteLink, QuoteLinkResult, serializeQuoteLink } from './share/quoteLink';
+import {
+  BUILT_IN_PRESETS,
+  checkPresetWeight,
+  createPreset,
+  getPresetFileName,
+  loadSavedPresets,
+  mergePresets,
+  PackagePreset,
+  parsePresetFile,
+  savePresets,
+  toPresetFile,
+} from './presets/packagePresets';
+import { DELIVERY_CALENDAR, DeliveryCalendar, estimateDelivery, formatDeliveryDate } from './delivery/deliveryDate';
+import { getCountry, resolveZone, SUPPORTED_COUNTRIES } from './zones/zoneResolver';
+import { createQuoteExport, downloadFile, getQuoteFileName, readFileText, toQuoteCsv, toQuoteJson } from './export/quoteExport';
+import { BrowserRouter, NavLink, Route, Routes, useLocation, useNavigate } from 'react-router-dom';
+import TrackingView from './components/TrackingView';
+import ServicesPage from './components/ServicesPage';
+import BatchQuotePage from './components/BatchQuotePage';
+import RateCardEditorPage from './components/RateCardEditorPage';
+import ContactPage from './components/ContactPage';
+import NotFoundPage from './components/NotFoundPage';
+import { formatErrors, isLocale, LOCALES, Translate } from './i18n';
+import { I18nProvider, useI18n } from './i18n/I18nProvider';
 
 // Context interfaces
 interface ShippingContextType {
   // Form data state
   formData: ShippingFormData;
   errors: ValidationErrors;
+  warnings: ValidationErrors; // advisory only, keyed like errors
   
   // API state
   loading: boolean;
   shippingResult: ShippingResult | null;
   showValidation: boolean;
+  apiErrors: string[];
+  comparison: ComparisonOption[] | null;
+  unitSystem: UnitSystem; // units the form is shown in; formData is always metric
+  currency: string; // currency prices are shown in; quotes are always in PRICE_CURRENCY
+  exchangeRates: ExchangeRateTable;
+  rateCard: RateCard; // in effect: the pricing service's, or the bundled one until it answers
+  deliveryCalendar: DeliveryCalendar; // in effect, like rateCard: transit days, dispatch cutoff and holidays
+  validationRules: ValidationRuleSet; // the rules with the rate card's weight limits
+  history: QuoteHistoryEntry[]; // past quotes, newest first
+  currentQuote: QuoteHistoryEntry | null; // the shown result as it was quoted, for export
+  failedSubmits: number; // bumped each time a quote is refused for invalid input, to move focus to it
+  liveQuotes: boolean; // price the shipment in the background as it's typed
+  liveQuote: LiveQuote | null; // for the current shipment; null while it isn't valid or live quotes are off
+  presets: PackagePreset[]; // the user's own package templates (built-in boxes are BUILT_IN_PRESETS)
   
-  // Actions
-  updateField: (field: string, value: any) => void;
-  updateDimensions: (dimension: string, value: number) => void;
+  // Actions (pass packageIndex for package fields such as weight)
+  updateField: (field: string, value: any, packageIndex?: number) => void;
+  updateDimensions: (dimension: string, value: number, packageIndex?: number) => void;
+  updateAddress: (side: AddressSide, address: Address) => void;
+  setZoneOverride: (override: boolean) => void; // staff only: choose the zone instead of the addresses
+  addPackage: () => void;
+  removePackage: (packageIndex: number) => void;
+  duplicatePackage: (packageIndex: number) => void;
   setErrors: (errors: ValidationErrors) => void;
   calculateShipping: () => Promise<void>;
   resetForm: () => void;
   clearResults: () => void;
+  clearApiErrors: () => void;
+  compareOptions: (allZones: boolean) => Promise<void>;
+  selectOption: (option: ComparisonOption) => void;
+  clearComparison: () => void;
+  setUnitSystem: (units: UnitSystem) => void;
+  setCurrency: (currency: string) => void;
+  refreshExchangeRates: () => Promise<ExchangeRateTable>;
+  loadQuote: (entry: QuoteHistoryEntry) => void;
+  rerunQuote: (entry: QuoteHistoryEntry) => Promise<ShippingResult | null>;
+  clearHistory: () => void;
+  setLiveQuotes: (on: boolean) => void;
+  savePreset: (name: string, packageIndex: number) => void; // with the form's method as the preferred one
+  deletePreset: (id: string) => void;
+  importPresets: (presets: PackagePreset[]) => void; // replacing saved presets of the same name
 }
 
+// Background quote for the shipment in the form. While a new one is pending the last price is kept.
+interface LiveQuote {
+  formData: ShippingFormData;
+  status: 'pending' | 'ready' | 'failed';
+  result?: ShippingResult;
+}
+
+type AddressSide = 'origin' | 'destination';
+
 // Form state management with useReducer
 interface FormAction {
-  type: 'UPDATE_FIELD' | 'UPDATE_DIMENSIONS' | 'RESET_FORM' | 'SET_ERRORS' | 'SET_LOADING' | 'SET_RESULT' | 'CLEAR_RESULTS' | 'SET_VALIDATION';
+  type: 'UPDATE_FIELD' | 'UPDATE_DIMENSIONS' | 'UPDATE_ADDRESS' | 'SET_ZONE_OVERRIDE' | 'ADD_PACKAGE' | 'REMOVE_PACKAGE' | 'DUPLICATE_PACKAGE' | 'RESET_FORM' | 'SET_ERRORS' | 'SET_LOADING' | 'SET_RESULT' | 'CLEAR_RESULTS' | 'SET_VALIDATION' | 'SET_API_ERRORS' | 'SET_COMPARISON' | 'SELECT_OPTION' | 'SET_UNIT_SYSTEM' | 'SET_CURRENCY' | 'SET_EXCHANGE_RATES' | 'SET_RATE_CARD' | 'SET_DELIVERY_CALENDAR' | 'ADD_TO_HISTORY' | 'LOAD_QUOTE' | 'CLEAR_HISTORY' | 'SET_ASYNC_WARNINGS' | 'SUBMIT_FAILED' | 'SET_LIVE_QUOTES' | 'SET_LIVE_QUOTE' | 'ADD_PRESETS' | 'DELETE_PRESET';
   field?: string;
+  side?: AddressSide;
+  address?: Address;
+  index?: number; // package index for package-level actions
   value?: any;
   errors?: ValidationErrors;
   loading?: boolean;
   result?: ShippingResult | null;
   showValidation?: boolean;
+  apiErrors?: string[];
+  comparison?: ComparisonOption[] | null;
+  option?: ComparisonOption;
+  units?: UnitSystem;
+  currency?: string;
+  exchangeRates?: ExchangeRateTable;
+  rateCard?: RateCard;
+  deliveryCalendar?: DeliveryCalendar;
+  entry?: QuoteHistoryEntry;
+  warnings?: ValidationErrors;
+  formData?: ShippingFormData;
+  liveQuote?: LiveQuote | null;
+  presets?: PackagePreset[];
 }
 
 interface FormState {
@@ -69,14 +183,36 @@ interface FormState {
   loading: boolean;
   shippingResult: ShippingResult | null;
   showValidation: boolean;
+  apiErrors: string[]; // Form-level errors from the API (not tied to one field)
+  comparison: ComparisonOption[] | null;
+  unitSystem: UnitSystem;
+  currency: string;
+  exchangeRates: ExchangeRateTable;
+  rateCard: RateCard;
+  deliveryCalendar: DeliveryCalendar;
+  history: QuoteHistoryEntry[];
+  quote: QuoteHistoryEntry | null; // the most recent quote given, kept after the history is cleared
+  asyncWarnings: { formData: ShippingFormData; warnings: ValidationErrors } | null; // from the last async validation
+  failedSubmits: number;
+  liveQuotes: boolean;
+  liveQuote: LiveQuote | null;
+  presets: PackagePreset[];
 }
 
 // Initial form data
-const initialFormData: ShippingFormData = {
-  shippingMethod: 'standard',
+const emptyPackage: PackageDetails = {
   weight: 0,
   dimensions: { length: 0, width: 0, height: 0 },
+};
+
+const emptyAddress: Address = { country: 'US', postcode: '' };
+
+const initialFormData: ShippingFormData = {
+  shippingMethod: 'standard',
+  packages: [emptyPackage],
   destinationZone: 'local',
+  origin: emptyAddress,
+  destination: emptyAddress,
 };
 
 const initialState: FormState = {
@@ -85,19 +221,105 @@ const initialState: FormState = {
   loading: false,
   shippingResult: null,
   showValidation: false,
+  apiErrors: [],
+  comparison: null,
+  unitSystem: 'metric',
+  currency: PRICE_CURRENCY,
+  exchangeRates: BUNDLED_EXCHANGE_RATES,
+  rateCard: selectRateCard(RATE_CARDS),
+  deliveryCalendar: DELIVERY_CALENDAR,
+  history: [],
+  quote: null,
+  asyncWarnings: null,
+  failedSubmits: 0,
+  liveQuotes: false,
+  liveQuote: null,
+  presets: [],
+};
+
+// Display preferences (unit system, currency) are remembered between visits
+const PREFERENCE_STORAGE_KEYS = {
+  unitSystem: 'zzzShipping.unitSystem',
+  currency: 'zzzShipping.currency',
+  liveQuotes: 'zzzShipping.liveQuotes',
+};
+
+const loadPreference = <T extends string>(key: string, allowed: T[], fallback: T): T => {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return allowed.includes(stored as T) ? (stored as T) : fallback;
+  } catch (error) {
+    return fallback; // storage unavailable (e.g. disabled cookies)
+  }
+};
+
+const savePreference = (key: string, value: string) => {
+  try {
+    window.localStorage.setItem(key, value);
+  } catch (error) {
+    // Not remembered, but still applied for this visit
+  }
+};
+
+// Start from a shared quote link: a readable link replaces the form, with any validation errors showing
+const applyQuoteLink = (state: FormState, link: QuoteLinkResult, t: Translate): FormState => {
+  if (link.status === 'ok') {
+    return { ...state, formData: link.formData, errors: link.errors, showValidation: Object.keys(link.errors).length > 0 };
+  }
+  if (link.status === 'invalid') {
+    return { ...state, apiErrors: [t('quoteLink.invalid', { reason: link.reason })] };
+  }
+  return state;
 };
 
-// Weight limits for each shipping method
-const WEIGHT_LIMITS = {
-  standard: { min: 0.1, max: 20 },
-  express: { min: 0.1, max: 10 },
-  overnight: { min: 0.1, max: 5 },
-} as const;
+// Initial state with everything remembered from earlier visits
+const loadStoredState = (state: FormState): FormState => ({
+  ...state,
+  unitSystem: loadPreference(PREFERENCE_STORAGE_KEYS.unitSystem, UNIT_SYSTEMS, state.unitSystem),
+  currency: loadPreference(PREFERENCE_STORAGE_KEYS.currency, SUPPORTED_CURRENCIES, state.currency),
+  liveQuotes: loadPreference(PREFERENCE_STORAGE_KEYS.liveQuotes, ['on', 'off'], 'off') === 'on',
+  history: loadQuoteHistory(),
+  presets: loadSavedPresets(),
+});
+
+const PACKAGE_ERROR_KEY = /^packages\.(\d+)\.(.+)$/;
+
+// Move package-keyed errors to new indices after the list changes (null drops them)
+const reindexPackageErrors = (errors: ValidationErrors, mapIndex: (index: number) => number | null): ValidationErrors =>
+  Object.entries(errors).reduce<ValidationErrors>((result, [key, message]) => {
+    const match = PACKAGE_ERROR_KEY.exec(key);
+    if (!match) {
+      result[key] = message;
+    } else {
+      const index = mapIndex(Number(match[1]));
+      if (index !== null) result[packageErrorKey(index, match[2])] = message;
+    }
+    return result;
+  }, {});
+
+// Once both addresses can be placed they decide the zone, unless staff overrode it
+const withDerivedZone = (formData: ShippingFormData): ShippingFormData => {
+  const resolved = formData.zoneOverride ? null : resolveZone(formData.origin, formData.destination);
+  return resolved && resolved.zone !== formData.destinationZone ? { ...formData, destinationZone: resolved.zone } : formData;
+};
+
+const updatePackage = (packages: PackageDetails[], index: number, update: (pkg: PackageDetails) => PackageDetails) =>
+  packages.map((pkg, i) => (i === index ? update(pkg) : pkg));
 
 // Form reducer for all state management
 const shippingReducer = (state: FormState, action: FormAction): FormState => {
   switch (action.type) {
     case 'UPDATE_FIELD':
+      if (action.index !== undefined) {
+        return {
+          ...state,
+          formData: {
+            ...state.formData,
+            packages: updatePackage(state.formData.packages, action.index, (pkg) => ({ ...pkg, [action.field!]: action.value })),
+          },
+          errors: { ...state.errors, [packageErrorKey(action.index, action.field!)]: '' },
+        };
+      }
       return {
         ...state,
         formData: { ...state.formData, [action.field!]: action.value },
@@ -108,22 +330,139 @@ const shippingReducer = (state: FormState, action: FormAction): FormState => {
         ...state,
         formData: {
           ...state.formData,
-          dimensions: { ...state.formData.dimensions, [action.field!]: action.value },
+          packages: updatePackage(state.formData.packages, action.index!, (pkg) => ({
+            ...pkg,
+            dimensions: { ...pkg.dimensions, [action.field!]: action.value },
+          })),
         },
-        errors: { ...state.errors, [action.field!]: '' },
+        errors: { ...state.errors, [packageErrorKey(action.index!, action.field!)]: '' },
+      };
+    case 'UPDATE_ADDRESS':
+      // Shipments loaded without addresses get both once one is entered
+      return {
+        ...state,
+        formData: withDerivedZone({
+          ...state.formData,
+          origin: state.formData.origin || emptyAddress,
+          destination: state.formData.destination || emptyAddress,
+          [action.side!]: action.address!,
+        }),
+        errors: { ...state.errors, [`${action.side}.country`]: '', [`${action.side}.postcode`]: '', destinationZone: '' },
+      };
+    case 'SET_ZONE_OVERRIDE': {
+      const { zoneOverride, ...formData } = state.formData;
+      return {
+        ...state,
+        formData: withDerivedZone(action.value ? { ...formData, zoneOverride: true } : formData),
+        errors: { ...state.errors, destinationZone: '' },
+      };
+    }
+    case 'ADD_PACKAGE':
+      if (state.formData.packages.length >= MAX_PACKAGES) return state;
+      return {
+        ...state,
+        formData: { ...state.formData, packages: [...state.formData.packages, emptyPackage] },
+      };
+    case 'DUPLICATE_PACKAGE': {
+      if (state.formData.packages.length >= MAX_PACKAGES) return state;
+      const packages = [...state.formData.packages];
+      packages.splice(action.index! + 1, 0, packages[action.index!]);
+      return {
+        ...state,
+        formData: { ...state.formData, packages },
+        errors: reindexPackageErrors(state.errors, (i) => (i > action.index! ? i + 1 : i)),
+      };
+    }
+    case 'REMOVE_PACKAGE':
+      if (state.formData.packages.length <= 1) return state;
+      return {
+        ...state,
+        formData: { ...state.formData, packages: state.formData.packages.filter((_, i) => i !== action.index) },
+        errors: reindexPackageErrors(state.errors, (i) => (i === action.index ? null : i > action.index! ? i - 1 : i)),
       };
     case 'SET_ERRORS':
       return { ...state, errors: action.errors! };
     case 'SET_LOADING':
       return { ...state, loading: action.loading! };
     case 'SET_RESULT':
-      return { ...state, shippingResult: action.result!, loading: false };
+      return { ...state, shippingResult: action.result!, loading: false, apiErrors: [], comparison: null };
     case 'CLEAR_RESULTS':
       return { ...state, shippingResult: null };
     case 'SET_VALIDATION':
       return { ...state, showValidation: action.showValidation! };
+    case 'SET_API_ERRORS':
+      return { ...state, apiErrors: action.apiErrors! };
+    case 'SET_COMPARISON':
+      return { ...state, comparison: action.comparison!, loading: false };
+    case 'SELECT_OPTION':
+      // Continue with the chosen option as if it had been calculated directly
+      return {
+        ...state,
+        formData: {
+          ...state.formData,
+          shippingMethod: action.option!.shippingMethod,
+          destinationZone: action.option!.destinationZone,
+        },
+        shippingResult: action.option!.result || null,
+        comparison: null,
+        errors: {},
+      };
+    case 'SET_UNIT_SYSTEM':
+      return { ...state, unitSystem: action.units! };
+    case 'SET_CURRENCY':
+      return { ...state, currency: action.currency! };
+    case 'SET_EXCHANGE_RATES':
+      return { ...state, exchangeRates: action.exchangeRates! };
+    case 'SET_RATE_CARD':
+      return { ...state, rateCard: action.rateCard! };
+    case 'SET_DELIVERY_CALENDAR':
+      return { ...state, deliveryCalendar: action.deliveryCalendar! };
+    case 'ADD_TO_HISTORY':
+      return { ...state, history: addToHistory(state.history, action.entry!), quote: action.entry! };
+    case 'LOAD_QUOTE':
+      return {
+        ...state,
+        formData: action.entry!.formData,
+        shippingResult: action.entry!.result,
+        quote: action.entry!,
+        errors: {},
+        apiErrors: [],
+        comparison: null,
+        showValidation: false,
+        loading: false,
+      };
+    case 'CLEAR_HISTORY':
+      return { ...state, history: [] };
+    case 'SET_ASYNC_WARNINGS':
+      return { ...state, asyncWarnings: { formData: action.formData!, warnings: action.warnings! } };
+    case 'SUBMIT_FAILED':
+      return { ...state, failedSubmits: state.failedSubmits + 1 };
+    case 'SET_LIVE_QUOTES':
+      return { ...state, liveQuotes: action.value!, liveQuote: null };
+    case 'SET_LIVE_QUOTE': {
+      const liveQuote = action.liveQuote || null;
+      return {
+        ...state,
+        liveQuote: liveQuote?.status === 'pending' ? { ...liveQuote, result: state.liveQuote?.result } : liveQuote,
+      };
+    }
+    case 'ADD_PRESETS':
+      return { ...state, presets: mergePresets(state.presets, action.presets!) };
+    case 'DELETE_PRESET':
+      return { ...state, presets: state.presets.filter((preset) => preset.id !== action.value) };
     case 'RESET_FORM':
-      return { ...initialState };
+      // Display preferences, exchange rates, the rate card and calendar, quote history and presets are not form input
+      return {
+        ...initialState,
+        unitSystem: state.unitSystem,
+        currency: state.currency,
+        exchangeRates: state.exchangeRates,
+        rateCard: state.rateCard,
+        deliveryCalendar: state.deliveryCalendar,
+        history: state.history,
+        liveQuotes: state.liveQuotes,
+        presets: state.presets,
+      };
     default:
       return state;
   }
@@ -141,195 +480,345 @@ const useShipping = (): ShippingContextType => {
   return context;
 };
 
-// Custom hook for comprehensive form validation with shipping method-specific rules
-const useFormValidation = (formData: ShippingFormData) => {
-  return useMemo((): ValidationErrors => {
-    const errors: ValidationErrors = {};
+// Error keys that have an input to show them next to; anything else from the API is form-level
+const FORM_FIELDS = [
+  'shippingMethod',
+  'destinationZone',
+  'packages',
+  'origin.country',
+  'origin.postcode',
+  'destination.country',
+  'destination.postcode',
+  'addOns',
+  'declaredValue',
+  'accountNumber',
+  'promoCode',
+];
+const PACKAGE_FIELDS = ['weight', 'length', 'width', 'height', 'dimensions'];
 
-    // Shipping method validation
-    if (!formData.shippingMethod) {
-      errors.shippingMethod = 'Please select a shipping method';
-    }
+const isFormFieldKey = (key: string, packageCount: number): boolean => {
+  const match = PACKAGE_ERROR_KEY.exec(key);
+  return match ? Number(match[1]) < packageCount && PACKAGE_FIELDS.includes(match[2]) : FORM_FIELDS.includes(key);
+};
 
-    // Weight validation with method-specific limits
-    const weightLimits = WEIGHT_LIMITS[formData.shippingMethod];
-    
-    if (!formData.weight || formData.weight <= 0) {
-      errors.weight = 'Weight must be a positive number';
-    } else if (formData.weight < weightLimits.min) {
-      errors.weight = `Weight must be at least ${weightLimits.min}kg for ${formData.shippingMethod} shipping`;
-    } else if (formData.weight > weightLimits.max) {
-      errors.weight = `Weight cannot exceed ${weightLimits.max}kg for ${formData.shippingMethod} shipping`;
-    }
+// Add-ons and the promo code are checked against the rate card in effect, and the reasons worded by t.
+// The account number is checked by the pricing service, which only it has the accounts for.
+const checkPricingNow = (formData: ShippingFormData, t: Translate, rateCard: RateCard): ValidationErrors =>
+  formatErrors({ ...checkAddOns(formData, rateCard), ...checkPromoCode(formData, rateCard) }, t);
 
-    // Dimensions validation - all must be positive
-    if (!formData.dimensions.length || formData.dimensions.length <= 0) {
-      errors.length = 'Length must be a positive number';
-    } else if (formData.dimensions.length > 200) {
-      errors.length = 'Length cannot exceed 200cm';
-    }
+// The rule set (see src/validation/rules.json) with a rate card's weight limits
+const rulesFor = (rateCard: RateCard): ValidationRuleSet => withWeightLimits(DEFAULT_VALIDATION_RULES, rateCard.weightLimits);
 
-    if (!formData.dimensions.width || formData.dimensions.width <= 0) {
-      errors.width = 'Width must be a positive number';
-    } else if (formData.dimensions.width > 200) {
-      errors.width = 'Width cannot exceed 200cm';
-    }
+// Custom hook for form validation against the rules, the add-ons on offer and the promo code,
+// worded in the chosen language
+const useFormValidation = (
+  formData: ShippingFormData,
+  units: UnitSystem,
+  messages: ValidationMessages,
+  t: Translate,
+  rateCard: RateCard,
+  rules: ValidationRuleSet
+) => {
+  return useMemo((): ValidationReport => {
+    const report = validateShipment(formData, units, rules, messages);
+    return { ...report, errors: { ...report.errors, ...checkPricingNow(formData, t, rateCard) } };
+  }, [formData, units, messages, t, rateCard, rules]);
+};
 
-    if (!formData.dimensions.height || formData.dimensions.height <= 0) {
-      errors.height = 'Height must be a positive number';
-    } else if (formData.dimensions.height > 200) {
-      errors.height = 'Height cannot exceed 200cm';
-    }
+// Errors already on screen, reworded (e.g. in other units or another language) where the rules
+// still report them
+const rewordErrors = (errors: ValidationErrors, reworded: ValidationErrors): ValidationErrors =>
+  Object.entries(errors).reduce<ValidationErrors>(
+    (result, [key, message]) => ({ ...result, [key]: message && reworded[key] ? reworded[key] : message }),
+    {}
+  );
 
-    // Destination zone validation
-    if (!formData.destinationZone) {
-      errors.destinationZone = 'Please select a destination zone';
-    }
+// Clients used when the provider is not given them (mode comes from REACT_APP_SHIPPING_API_MODE).
+// The rate card client is shared with the admin page (see AppRoutes).
+const defaultShippingClient = createShippingClient();
+const defaultExchangeRateClient = createExchangeRateClient();
+const defaultRateCardClient = createRateCardClient();
+const noAsyncRules: AsyncValidationRule[] = [];
+
+// How long typing has to pause before a live quote is requested
+const LIVE_QUOTE_DELAY_MS = 400;
 
-    // Combined dimensions validation (total size limit)
-    const totalDimension = formData.dimensions.length + formData.dimensions.width + formData.dimensions.height;
-    if (totalDimension > 400) {
-      errors.dimensions = 'Combined dimensions (L+W+H) cannot exceed 400cm';
+// Shipping Context Provider Component
+const ShippingProvider: React.FC<{
+  children: React.ReactNode;
+  client?: ShippingClient;
+  exchangeRateClient?: ExchangeRateClient;
+  rateCardClient?: RateCardClient;
+  asyncRules?: AsyncValidationRule[]; // checked before each quote is requested
+}> = ({
+  children,
+  client = defaultShippingClient,
+  exchangeRateClient = defaultExchangeRateClient,
+  rateCardClient = defaultRateCardClient,
+  asyncRules = noAsyncRules,
+}) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { t, validationMessages } = useI18n();
+
+  // Quote link the calculator was opened with (?v=1&...), read once on first render
+  const quoteLinkRef = useRef<QuoteLinkResult>({ status: 'none' });
+  const [state, dispatch] = useReducer(shippingReducer, initialState, (initial) => {
+    const stored = loadStoredState(initial);
+    if (location.pathname === '/') {
+      quoteLinkRef.current = parseQuoteLink(location.search, stored.unitSystem, { t, messages: validationMessages, rateCard: stored.rateCard });
     }
+    return applyQuoteLink(stored, quoteLinkRef.current, t);
+  });
+  const { rateCard, deliveryCalendar } = state;
+  const validationRules = useMemo(() => rulesFor(rateCard), [rateCard]);
+  const validation = useFormValidation(state.formData, state.unitSystem, validationMessages, t, rateCard, validationRules);
 
-    return errors;
-  }, [formData]);
-};
+  // Quotes for the same shipment are reused (see src/api/quoteCache) for as long as this provider lives
+  const [quoteCache] = useState(() => createQuoteCache());
+  const quotingClient = useMemo(() => withQuoteCache(client, quoteCache), [client, quoteCache]);
 
-// Shipping Context Provider Component
-const ShippingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [state, dispatch] = useReducer(shippingReducer, initialState);
-  const validationErrors = useFormValidation(state.formData);
+  // In-flight quote request; a newer request or a reset aborts it so it can't overwrite state
+  const requestRef = useRef<AbortController | null>(null);
 
-  // API call function
-  const callShippingAPI = async (formData: ShippingFormData): Promise<ShippingResult> => {
-    try {
-      // Make API call to calculate shipping
-      const response = await fetch('/api/calculate-shipping', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          shippingMethod: formData.shippingMethod,
-          weight: formData.weight,
-          dimensions: formData.dimensions,
-          destinationZone: formData.destinationZone,
-        }),
+  const abortPendingRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+  };
+
+  useEffect(() => abortPendingRequest, []);
+
+  // Keep the quote history across visits
+  useEffect(() => saveQuoteHistory(state.history), [state.history]);
+
+  // ...and the user's package presets
+  useEffect(() => savePresets(state.presets), [state.presets]);
+
+  // Check and estimate on the rate card and delivery calendar the pricing service has in effect,
+  // asked again each time a page is opened so a card or transit days published meanwhile are
+  // used; the ones in use stay if they can't be had. Versions are never reused, so the same
+  // version is the same card or calendar. Quotes cached on the old ones are dropped.
+  const { pathname } = location;
+  const versionsRef = useRef({ rateCard: rateCard.version, calendar: deliveryCalendar.version });
+  versionsRef.current = { rateCard: rateCard.version, calendar: deliveryCalendar.version };
+  useEffect(() => {
+    const controller = new AbortController();
+    rateCardClient
+      .getActiveRateCard(controller.signal)
+      .then((active) => {
+        if (active.version === versionsRef.current.rateCard) return;
+        quoteCache.clear();
+        dispatch({ type: 'SET_RATE_CARD', rateCard: active });
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) console.warn('Using the bundled rate cards:', error);
+      });
+    rateCardClient
+      .getDeliveryCalendar(controller.signal)
+      .then((calendar) => {
+        if (calendar.version === versionsRef.current.calendar) return;
+        quoteCache.clear();
+        dispatch({ type: 'SET_DELIVERY_CALENDAR', deliveryCalendar: calendar });
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) console.warn('Using the bundled delivery calendar:', error);
       });
+    return () => controller.abort();
+  }, [rateCardClient, pathname, quoteCache]);
+
+  // Live quotes: once the shipment is valid, price it after a pause in typing. Every change
+  // cancels the wait and any request still in flight, so only the latest shipment is priced.
+  const { liveQuotes, formData } = state;
+  const isValid = Object.keys(validation.errors).length === 0;
+  useEffect(() => {
+    if (!liveQuotes || !isValid) {
+      dispatch({ type: 'SET_LIVE_QUOTE', liveQuote: null });
+      return;
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    // A shipment priced a moment ago (e.g. a change undone) needs no wait
+    const cached = quoteCache.get(formData);
+    if (cached) {
+      dispatch({ type: 'SET_LIVE_QUOTE', liveQuote: { formData, status: 'ready', result: cached } });
+      return;
+    }
+
+    const controller = new AbortController();
+    dispatch({ type: 'SET_LIVE_QUOTE', liveQuote: { formData, status: 'pending' } });
+    const timer = setTimeout(async () => {
+      try {
+        const result = await quotingClient.calculateShipping(formData, controller.signal, rateCard, deliveryCalendar);
+        if (!controller.signal.aborted) {
+          dispatch({ type: 'SET_LIVE_QUOTE', liveQuote: { formData, status: 'ready', result } });
+        }
+      } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) return;
+        console.error('❌ Live quote failed:', error);
+        dispatch({ type: 'SET_LIVE_QUOTE', liveQuote: { formData, status: 'failed' } });
       }
+    }, LIVE_QUOTE_DELAY_MS);
 
-      const data = await response.json();
-      return data;
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [liveQuotes, isValid, formData, quoteCache, quotingClient, rateCard, deliveryCalendar]);
 
-    } catch (error) {
-      // Mock data for demo when API is not available
-      console.warn('Using mock data due to API unavailability:', error);
-      
-      // Calculate mock shipping cost with method-specific pricing
-      const baseRate = 15.00;
-      const zoneMultiplier = formData.destinationZone === 'local' ? 1.0 : 
-                           formData.destinationZone === 'domestic' ? 1.5 : 2.0;
-      const volume = (formData.dimensions.length * formData.dimensions.width * formData.dimensions.height) / 1000;
-      const sizeMultiplier = volume <= 5 ? 1.0 : volume <= 20 ? 1.2 : volume <= 50 ? 1.5 : 2.0;
-      const weightSurcharge = Math.max(0, (formData.weight - 1) * 2.5);
-      const packageSizeCategory = volume <= 5 ? 'Small' : volume <= 20 ? 'Medium' : volume <= 50 ? 'Large' : 'Extra Large';
-      
-      // Method-specific multipliers
-      const methodMultiplier = {
-        standard: 1.0,
-        express: 1.8,
-        overnight: 2.5,
-      }[formData.shippingMethod];
-
-      // Delivery days based on method
-      const deliveryDays = {
-        standard: 7,
-        express: 3,
-        overnight: 1,
-      }[formData.shippingMethod];
-      
-      const totalCost = parseFloat((baseRate * zoneMultiplier * sizeMultiplier * methodMultiplier + weightSurcharge).toFixed(2));
-      
-      return {
-        shippingCost: totalCost,
-        estimatedDeliveryDays: deliveryDays,
-        breakdown: {
-          baseRate: baseRate,
-          zoneMultiplier: zoneMultiplier,
-          sizeMultiplier: sizeMultiplier,
-          packageSizeCategory: packageSizeCategory,
-          weightSurcharge: weightSurcharge,
-          weight: formData.weight,
-          shippingMethod: formData.shippingMethod,
-          destinationZone: formData.destinationZone,
-        },
-      };
+  // Once a quote link is in the form, drop it from the URL so reloading doesn't undo later edits,
+  // and calculate straight away if the link asks for it and the shipment is valid
+  useEffect(() => {
+    const link = quoteLinkRef.current;
+    if (link.status === 'none') return;
+    navigate({ search: '' }, { replace: true });
+    if (link.status === 'ok' && link.autoRun && Object.keys(link.errors).length === 0) {
+      runQuote(link.formData);
     }
-  };
+    // Mount only: the link is read once
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   // Context actions
-  const updateField = (field: string, value: any) => {
-    dispatch({ type: 'UPDATE_FIELD', field, value });
-    // Clear validation errors when user starts typing (if validation was shown)
-    if (state.showValidation && state.errors[field]) {
-      dispatch({ type: 'SET_ERRORS', errors: { ...state.errors, [field]: '' } });
-    }
+  const updateField = (field: string, value: any, packageIndex?: number) => {
+    // The reducer clears the field's error, so updates in a row (e.g. a preset) can't bring one back
+    dispatch({ type: 'UPDATE_FIELD', field, value, index: packageIndex });
   };
 
-  const updateDimensions = (dimension: string, value: number) => {
-    dispatch({ type: 'UPDATE_DIMENSIONS', field: dimension, value });
-    // Clear validation errors when user starts typing (if validation was shown)
-    if (state.showValidation && state.errors[dimension]) {
-      dispatch({ type: 'SET_ERRORS', errors: { ...state.errors, [dimension]: '' } });
-    }
+  const updateDimensions = (dimension: string, value: number, packageIndex = 0) => {
+    dispatch({ type: 'UPDATE_DIMENSIONS', field: dimension, value, index: packageIndex });
+  };
+
+  const updateAddress = (side: AddressSide, address: Address) => {
+    dispatch({ type: 'UPDATE_ADDRESS', side, address });
+  };
+
+  const setZoneOverride = (override: boolean) => {
+    dispatch({ type: 'SET_ZONE_OVERRIDE', value: override });
+  };
+
+  const addPackage = () => {
+    dispatch({ type: 'ADD_PACKAGE' });
+  };
+
+  const removePackage = (packageIndex: number) => {
+    dispatch({ type: 'REMOVE_PACKAGE', index: packageIndex });
+  };
+
+  const duplicatePackage = (packageIndex: number) => {
+    dispatch({ type: 'DUPLICATE_PACKAGE', index: packageIndex });
   };
 
   const setErrors = (errors: ValidationErrors) => {
     dispatch({ type: 'SET_ERRORS', errors });
   };
 
-  // Get weight limit info for current shipping method
-  const getWeightLimitInfo = (): string => {
-    const limits = WEIGHT_LIMITS[state.formData.shippingMethod];
-    return `${limits.min}kg - ${limits.max}kg`;
-  };
+  // Validate and price a shipment, keeping the result in the quote history.
+  // Resolves to the result, or null if the shipment was invalid, rejected or superseded.
+  const runQuote = async (formData: ShippingFormData): Promise<ShippingResult | null> => {
+    const formErrors =
+      formData === state.formData
+        ? validation.errors
+        : { ...validateShippingForm(formData, state.unitSystem, validationRules, validationMessages), ...checkPricingNow(formData, t, rateCard) };
 
-  const calculateShipping = async () => {
     // Enable validation display
     dispatch({ type: 'SET_VALIDATION', showValidation: true });
     
     // Validate form first
-    setErrors(validationErrors);
+    setErrors(formErrors);
+    dispatch({ type: 'SET_API_ERRORS', apiErrors: [] });
     
-    if (Object.keys(validationErrors).length === 0) {
+    if (Object.keys(formErrors).length === 0) {
       // Form is valid - make API call
+      abortPendingRequest();
+      const controller = new AbortController();
+      requestRef.current = controller;
       dispatch({ type: 'SET_LOADING', loading: true });
       
       try {
-        console.log('🚀 Calculating shipping cost...', state.formData);
-        const result = await callShippingAPI(state.formData);
+        if (asyncRules.length > 0) {
+          const report = await runValidationRulesAsync(formData, validationRules, asyncRules, {
+            units: state.unitSystem,
+            signal: controller.signal,
+            messages: validationMessages,
+          });
+          if (controller.signal.aborted) return null;
+          dispatch({ type: 'SET_ASYNC_WARNINGS', formData, warnings: report.warnings });
+          if (Object.keys(report.errors).length > 0) {
+            setErrors(report.errors);
+            dispatch({ type: 'SET_LOADING', loading: false });
+            dispatch({ type: 'SUBMIT_FAILED' });
+            return null;
+          }
+        }
+
+        console.log('🚀 Calculating shipping cost...', formData);
+        const result = await quotingClient.calculateShipping(formData, controller.signal, rateCard, deliveryCalendar);
+        if (controller.signal.aborted) return null;
         console.log('✅ Shipping calculated:', result);
         
         dispatch({ type: 'SET_RESULT', result });
+        dispatch({ type: 'ADD_TO_HISTORY', entry: createHistoryEntry(formData, result) });
+        return result;
         
       } catch (error) {
+        // Superseded by a newer request or a reset - that one owns the state now
+        if (isAbortError(error)) return null;
         console.error('❌ Shipping calculation failed:', error);
         dispatch({ type: 'SET_LOADING', loading: false });
-        alert('Failed to calculate shipping cost. Please try again.');
+
+        // Show server-side rejections next to the inputs they belong to
+        const fieldErrors: ValidationErrors = {};
+        const apiErrors: string[] = [];
+        if (error instanceof ShippingApiError && (error.fieldErrors || error.formErrors)) {
+          Object.entries(error.fieldErrors || {}).forEach(([field, message]) => {
+            if (isFormFieldKey(field, formData.packages.length)) {
+              fieldErrors[field] = message;
+            } else {
+              apiErrors.push(message);
+            }
+          });
+          apiErrors.push(...(error.formErrors || []));
+        } else {
+          apiErrors.push(error instanceof Error ? error.message : t('form.apiError.default'));
+        }
+        setErrors(fieldErrors);
+        dispatch({ type: 'SET_API_ERRORS', apiErrors });
+        if (Object.keys(fieldErrors).length > 0) dispatch({ type: 'SUBMIT_FAILED' });
+        return null;
+      } finally {
+        if (requestRef.current === controller) {
+          requestRef.current = null;
+        }
       }
     } else {
-      // Show validation errors count
-      const errorCount = Object.keys(validationErrors).length;
-      alert(`❌ Please fix ${errorCount} validation error${errorCount > 1 ? 's' : ''} before calculating shipping cost.\n\nCheck the highlighted fields below for details.`);
-      console.log('❌ Validation Errors:', validationErrors);
+      // The form lists the errors and moves focus to the first invalid field
+      dispatch({ type: 'SUBMIT_FAILED' });
+      console.log('❌ Validation Errors:', formErrors);
+      return null;
     }
   };
 
+  const calculateShipping = async () => {
+    await runQuote(state.formData);
+  };
+
+  // Put a past quote back in the form as it was given
+  const loadQuote = (entry: QuoteHistoryEntry) => {
+    abortPendingRequest();
+    dispatch({ type: 'LOAD_QUOTE', entry });
+  };
+
+  // Price a past quote's shipment again at today's rates
+  const rerunQuote = (entry: QuoteHistoryEntry): Promise<ShippingResult | null> => {
+    loadQuote(entry);
+    return runQuote(entry.formData);
+  };
+
+  const clearHistory = () => {
+    dispatch({ type: 'CLEAR_HISTORY' });
+  };
+
   const resetForm = () => {
+    abortPendingRequest();
     dispatch({ type: 'RESET_FORM' });
   };
 
@@ -337,19 +826,168 @@ const ShippingProvider: React.FC<{ children: React.ReactNode }> = ({ children })
     dispatch({ type: 'CLEAR_RESULTS' });
   };
 
+  const clearApiErrors = () => {
+    dispatch({ type: 'SET_API_ERRORS', apiErrors: [] });
+  };
+
+  const compareOptions = async (allZones: boolean) => {
+    // Enable validation display
+    dispatch({ type: 'SET_VALIDATION', showValidation: true });
+    dispatch({ type: 'SET_API_ERRORS', apiErrors: [] });
+
+    // Method-specific errors (e.g. weight limits) grey out a row instead of blocking
+    const blockingErrors = getBlockingErrors(state.formData, state.unitSystem, validationMessages, t, rateCard);
+    setErrors(blockingErrors);
+    if (Object.keys(blockingErrors).length > 0) {
+      dispatch({ type: 'SET_COMPARISON', comparison: null });
+      return;
+    }
+
+    abortPendingRequest();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    dispatch({ type: 'CLEAR_RESULTS' });
+    dispatch({ type: 'SET_LOADING', loading: true });
+
+    try {
+      const comparison = await compareShippingOptions(state.formData, quotingClient, {
+        allZones,
+        signal: controller.signal,
+        units: state.unitSystem,
+        messages: validationMessages,
+        t,
+        rateCard,
+        calendar: deliveryCalendar,
+      });
+      if (controller.signal.aborted) return;
+      dispatch({ type: 'SET_COMPARISON', comparison });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('❌ Shipping comparison failed:', error);
+      dispatch({ type: 'SET_LOADING', loading: false });
+      dispatch({ type: 'SET_API_ERRORS', apiErrors: [error instanceof Error ? error.message : String(error)] });
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+      }
+    }
+  };
+
+  const selectOption = (option: ComparisonOption) => {
+    dispatch({ type: 'SELECT_OPTION', option });
+    if (option.result) {
+      const { shippingMethod, destinationZone } = option;
+      dispatch({ type: 'ADD_TO_HISTORY', entry: createHistoryEntry({ ...state.formData, shippingMethod, destinationZone }, option.result) });
+    }
+  };
+
+  const clearComparison = () => {
+    dispatch({ type: 'SET_COMPARISON', comparison: null });
+  };
+
+  const setUnitSystem = (units: UnitSystem) => {
+    dispatch({ type: 'SET_UNIT_SYSTEM', units });
+    savePreference(PREFERENCE_STORAGE_KEYS.unitSystem, units);
+    // Reword validation errors already on screen in the new units
+    setErrors(rewordErrors(state.errors, validateShippingForm(state.formData, units, validationRules, validationMessages)));
+  };
+
+  // ...in a new language, and once the rate card in effect is known (its limits may differ)
+  const rewordedForRef = useRef({ validationMessages, rateCard });
+  useEffect(() => {
+    if (rewordedForRef.current.validationMessages === validationMessages && rewordedForRef.current.rateCard === rateCard) return;
+    rewordedForRef.current = { validationMessages, rateCard };
+    const reworded = {
+      ...validateShippingForm(state.formData, state.unitSystem, validationRules, validationMessages),
+      ...checkPricingNow(state.formData, t, rateCard),
+    };
+    setErrors(rewordErrors(state.errors, reworded));
+    // Only when the language or card changes; the errors and shipment are read as they are then
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [validationMessages, rateCard]);
+
+  const setCurrency = (currency: string) => {
+    dispatch({ type: 'SET_CURRENCY', currency });
+    savePreference(PREFERENCE_STORAGE_KEYS.currency, currency);
+  };
+
+  const setLiveQuotes = (on: boolean) => {
+    dispatch({ type: 'SET_LIVE_QUOTES', value: on });
+    savePreference(PREFERENCE_STORAGE_KEYS.liveQuotes, on ? 'on' : 'off');
+  };
+
+  const savePreset = (name: string, packageIndex: number) => {
+    const preset = createPreset(name, state.formData.packages[packageIndex], state.formData.shippingMethod);
+    dispatch({ type: 'ADD_PRESETS', presets: [preset] });
+  };
+
+  const deletePreset = (id: string) => {
+    dispatch({ type: 'DELETE_PRESET', value: id });
+  };
+
+  const importPresets = (presets: PackagePreset[]) => {
+    dispatch({ type: 'ADD_PRESETS', presets });
+  };
+
+  // Fetch the latest rates; the bundled table stays in use if the API can't be reached
+  const refreshExchangeRates = async (): Promise<ExchangeRateTable> => {
+    const exchangeRates = await exchangeRateClient.getExchangeRates();
+    dispatch({ type: 'SET_EXCHANGE_RATES', exchangeRates });
+    return exchangeRates;
+  };
+
   // Context value
   const contextValue: ShippingContextType = {
     formData: state.formData,
     errors: state.errors,
+    // Async warnings only describe the shipment they were checked for
+    warnings: state.asyncWarnings?.formData === state.formData
+      ? { ...validation.warnings, ...state.asyncWarnings.warnings }
+      : validation.warnings,
     loading: state.loading,
     shippingResult: state.shippingResult,
     showValidation: state.showValidation,
+    apiErrors: state.apiErrors,
+    comparison: state.comparison,
+    unitSystem: state.unitSystem,
+    // Fall back to the price currency if newer rates stop listing the chosen one
+    currency: state.exchangeRates.rates[state.currency] ? state.currency : PRICE_CURRENCY,
+    exchangeRates: state.exchangeRates,
+    rateCard,
+    deliveryCalendar,
+    validationRules,
+    history: state.history,
+    // Only while that quote is still the result on screen
+    currentQuote: state.quote && state.quote.result === state.shippingResult ? state.quote : null,
+    failedSubmits: state.failedSubmits,
+    liveQuotes: state.liveQuotes,
+    liveQuote: state.liveQuote,
+    presets: state.presets,
     updateField,
     updateDimensions,
+    updateAddress,
+    setZoneOverride,
+    addPackage,
+    removePackage,
+    duplicatePackage,
     setErrors,
     calculateShipping,
     resetForm,
     clearResults,
+    clearApiErrors,
+    compareOptions,
+    selectOption,
+    clearComparison,
+    setUnitSystem,
+    setCurrency,
+    refreshExchangeRates,
+    loadQuote,
+    rerunQuote,
+    clearHistory,
+    setLiveQuotes,
+    savePreset,
+    deletePreset,
+    importPresets,
   };
 
   return (
@@ -361,19 +999,29 @@ const ShippingProvider: React.FC<{ children: React.ReactNode }> = ({ children })
 
 // Header Component
 const Header: React.FC = () => {
+  const { t, locale, setLocale } = useI18n();
   return (
     <header className="app-header">
       <div className="header-content">
         <div className="logo-section">
           <h1>🚚 ZZZ Shipping</h1>
-          <p className="tagline">Global Logistics Solutions</p>
+          <p className="tagline">{t('header.tagline')}</p>
         </div>
         <nav className="nav-menu">
-          <a href="#calculator">Calculator</a>
-          <a href="#tracking">Tracking</a>
-          <a href="#services">Services</a>
-          <a href="#contact">Contact</a>
+          <NavLink to="/" end>{t('nav.calculator')}</NavLink>
+          <NavLink to="/batch">{t('nav.batch')}</NavLink>
+          <NavLink to="/tracking">{t('nav.tracking')}</NavLink>
+          <NavLink to="/services">{t('nav.services')}</NavLink>
+          <NavLink to="/contact">{t('nav.contact')}</NavLink>
         </nav>
+        <div className="locale-switcher">
+          <label htmlFor="locale">🌐 {t('header.language')}</label>
+          <select id="locale" value={locale} onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}>
+            {LOCALES.map(({ code, name }) => (
+              <option key={code} value={code} lang={code}>{name}</option>
+            ))}
+          </select>
+        </div>
       </div>
     </header>
   );
@@ -381,82 +1029,1157 @@ const Header: React.FC = () => {
 
 // Footer Component
 const Footer: React.FC = () => {
+  const { t } = useI18n();
   return (
     <footer className="app-footer">
       <div className="footer-content">
         <div className="footer-section">
           <h3>🚚 ZZZ Shipping</h3>
-          <p>Your trusted partner for global logistics solutions. Fast, reliable, and secure shipping worldwide.</p>
+          <p>{t('footer.about')}</p>
         </div>
         
         <div className="footer-section">
-          <h4>Services</h4>
+          <h4>{t('footer.services')}</h4>
           <ul>
-            <li>Express Delivery</li>
-            <li>International Shipping</li>
-            <li>Freight Services</li>
-            <li>Package Tracking</li>
+            <li>{t('footer.services.express')}</li>
+            <li>{t('footer.services.international')}</li>
+            <li>{t('footer.services.freight')}</li>
+            <li>{t('footer.services.tracking')}</li>
           </ul>
         </div>
         
         <div className="footer-section">
-          <h4>Support</h4>
+          <h4>{t('footer.support')}</h4>
         </div>
         
         <div className="footer-section">
-          <h4>Contact Info</h4>
+          <h4>{t('footer.contact')}</h4>
           <p>📞 1-800-ZZZ-SHIP</p>
           <p>✉️ support@zzzshipping.com</p>
           <p>🌐 www.zzzshipping.com</p>
-          <p>📍 Available 24/7 Worldwide</p>
+          <p>{t('footer.available')}</p>
         </div>
       </div>
       
       <div className="footer-bottom">
-        <p>&copy; 2025 ZZZ Shipping Company. All rights reserved. | Privacy Policy | Terms of Service</p>
+        <p>{t('footer.legal')}</p>
       </div>
     </footer>
   );
 };
 
+// Export the quote on screen: printable PDF for customers, CSV/JSON for the ERP
+const QuoteExportActions: React.FC = () => {
+  const { currentQuote, unitSystem, currency, exchangeRates, deliveryCalendar } = useShipping();
+  const { t } = useI18n();
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  if (!currentQuote) return null;
+  const quote = createQuoteExport(currentQuote, deliveryCalendar);
+
+  const exportPdf = async () => {
+    setExportError(null);
+    try {
+      // jsPDF is only loaded when someone asks for a PDF
+      const { buildQuotePdf } = await import('./export/quotePdf');
+      const pdf = buildQuotePdf(quote, { units: unitSystem, currency, exchangeRates });
+      downloadFile(getQuoteFileName(quote, 'pdf'), pdf.output('blob'), 'application/pdf');
+    } catch (error) {
+      console.error('❌ PDF export failed:', error);
+      setExportError(t('export.pdfError'));
+    }
+  };
+
+  return (
+    <div className="quote-export">
+      <span className="quote-id">{t('export.quoteId', { quoteId: quote.quoteId })}</span>
+      <div className="quote-export-actions">
+        <button type="button" onClick={exportPdf} className="export-btn">{t('export.pdf')}</button>
+        <button
+          type="button"
+          onClick={() => downloadFile(getQuoteFileName(quote, 'csv'), toQuoteCsv(quote), 'text/csv')}
+          className="export-btn"
+        >
+          {t('export.csv')}
+        </button>
+        <button
+          type="button"
+          onClick={() => downloadFile(getQuoteFileName(quote, 'json'), toQuoteJson(quote), 'application/json')}
+          className="export-btn"
+        >
+          {t('export.json')}
+        </button>
+      </div>
+      {exportError && <div className="export-error" role="alert">{exportError}</div>}
+    </div>
+  );
+};
+
+// When a shipment ordered at orderedAt would arrive on the calendar in effect (dispatch cutoff,
+// transit days, weekends and holidays in src/delivery)
+const estimateDeliveryAt = (
+  calendar: DeliveryCalendar,
+  formData: ShippingFormData,
+  orderedAt: Date,
+  option: Pick<ShippingFormData, 'shippingMethod' | 'destinationZone'> = formData
+) =>
+  estimateDelivery(
+    {
+      orderedAt,
+      shippingMethod: option.shippingMethod,
+      destinationZone: option.destinationZone,
+      originRegion: formData.origin?.country,
+      destinationRegion: formData.destination?.country,
+    },
+    calendar
+  );
+
+// The shown result's dates: as of when it was quoted, so a quote loaded from the history keeps the
+// dates it was given (and its export shows). The form's shipment, as of now, until it's quoted.
+const estimateShownDelivery = (calendar: DeliveryCalendar, currentQuote: QuoteHistoryEntry | null, formData: ShippingFormData) =>
+  currentQuote
+    ? estimateDeliveryAt(calendar, currentQuote.formData, new Date(currentQuote.savedAt))
+    : estimateDeliveryAt(calendar, formData, new Date());
+
+// Closing a panel (the result, the comparison) with its close button or Escape. If focus was in the
+// panel it goes back to the button that opened it instead of being lost with the panel.
+const usePanelClose = (open: boolean, close: () => void, returnFocusRef?: React.RefObject<HTMLElement | null>) => {
+  const panelRef = useRef<HTMLElement>(null);
+
+  const dismiss = () => {
+    const hadFocus = !!panelRef.current?.contains(document.activeElement);
+    close();
+    if (hadFocus) returnFocusRef?.current?.focus();
+  };
+
+  // The listener outlives renders, so it calls the latest dismiss
+  const dismissRef = useRef(dismiss);
+  dismissRef.current = dismiss;
+
+  useEffect(() => {
+    if (!open) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !event.defaultPrevented) dismissRef.current();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [open]);
+
+  return { panelRef, dismiss };
+};
+
 // Shipping Results Component using Context
-const ShippingResults: React.FC = () => {
-  const { shippingResult, clearResults } = useShipping();
+const ShippingResults: React.FC<{ returnFocusRef?: React.RefObject<HTMLElement | null> }> = ({ returnFocusRef }) => {
+  const { shippingResult, clearResults, unitSystem, currency, exchangeRates, formData, currentQuote, deliveryCalendar } = useShipping();
+  const { t, intlLocale } = useI18n();
+  const { panelRef, dismiss } = usePanelClose(!!shippingResult, clearResults, returnFocusRef);
 
   if (!shippingResult) return null;
 
+  // The shipment as quoted, which the form may have moved on from
+  const delivery = estimateShownDelivery(deliveryCalendar, currentQuote, formData);
+  const date = (isoDate: string) => formatDeliveryDate(isoDate, intlLocale);
+
+  // Money is converted as a whole so the converted figures still add up
+  const converted = convertQuote(shippingResult, currency, exchangeRates);
+  const money = (amount: number) => formatMoney(amount, currency, intlLocale);
+
+  const weightUnit = UNIT_LABELS[unitSystem].weight;
+  const showWeight = (kg: number) => roundTo(fromMetricWeight(kg, unitSystem), 3);
+
+  const { breakdown } = shippingResult;
+  const { packages } = breakdown;
+  const isMultiPiece = packages.length > 1;
+
   return (
-    <div className="shipping-results">
-      <h3>✅ Shipping Cost Calculated</h3>
+    <section className="shipping-results" ref={panelRef} aria-labelledby="shipping-results-title">
+      <h3 id="shipping-results-title">{t('results.title')}</h3>
+
+      {shippingResult.source && shippingResult.source !== 'live' && (
+        <div className="estimate-banner">{t('results.estimate', { source: shippingResult.source })}</div>
+      )}
       
       <div className="result-summary">
         <div className="main-cost">
-          <strong>Total Cost: ${shippingResult.shippingCost.toFixed(2)}</strong>
+          <strong>{t('results.total', { amount: money(converted.shippingCost) })}</strong>
         </div>
         <div className="delivery-info">
-          Estimated Delivery: {shippingResult.estimatedDeliveryDays} business days
+          <span className="delivery-days">{t('results.arrivesBy', { date: date(delivery.latest) })}</span>
+          <span className="delivery-window">
+            {t(delivery.earliest === delivery.latest ? 'results.window' : 'results.windowRange', {
+              earliest: date(delivery.earliest),
+              latest: date(delivery.latest),
+              dispatched: date(delivery.dispatchDate),
+            })}
+          </span>
         </div>
+        {currency !== PRICE_CURRENCY && (
+          <div className="currency-note">
+            {t('results.converted', {
+              from: PRICE_CURRENCY,
+              to: currency,
+              rate: parseFloat(converted.rate.toFixed(4)).toLocaleString(intlLocale, { maximumFractionDigits: 4 }),
+              asOf: exchangeRates.asOf,
+              charged: formatMoney(shippingResult.shippingCost, PRICE_CURRENCY, intlLocale),
+            })}
+          </div>
+        )}
       </div>
 
       <div className="breakdown-section">
-        <h4>Cost Breakdown:</h4>
+        <h4>{t('results.breakdown')}</h4>
         <div className="breakdown-list">
-          <div>• Base Rate: ${shippingResult.breakdown.baseRate.toFixed(2)}</div>
-          <div>• Zone Multiplier: {shippingResult.breakdown.zoneMultiplier}x ({shippingResult.breakdown.destinationZone})</div>
-          <div>• Size Multiplier: {shippingResult.breakdown.sizeMultiplier}x ({shippingResult.breakdown.packageSizeCategory})</div>
-          <div>• Package Size Category: {shippingResult.breakdown.packageSizeCategory}</div>
-          <div>• Weight Surcharge: ${shippingResult.breakdown.weightSurcharge.toFixed(2)}</div>
-          <div>• Weight: {shippingResult.breakdown.weight}kg</div>
-          <div>• Shipping Method: {shippingResult.breakdown.shippingMethod.toUpperCase()}</div>
-          <div>• Destination Zone: {shippingResult.breakdown.destinationZone.toUpperCase()}</div>
+          <div>{t('results.baseRate', { amount: money(converted.baseRate) })}</div>
+          <div>{t('results.zoneMultiplier', { multiplier: breakdown.zoneMultiplier, zone: breakdown.destinationZone })}</div>
+          {packages.map((pkg, index) => (
+            <div key={index} className={isMultiPiece ? 'package-breakdown' : undefined}>
+              {isMultiPiece && <strong>{t('results.package', { number: index + 1, amount: money(converted.packages[index].cost) })}</strong>}
+              <div>{t('results.sizeMultiplier', { multiplier: pkg.sizeMultiplier, category: pkg.packageSizeCategory })}</div>
+              <div>{t('results.sizeCategory', { category: pkg.packageSizeCategory })}</div>
+              <div>{t('results.weightSurcharge', { amount: money(converted.packages[index].weightSurcharge) })}</div>
+              <div>{t('results.actualWeight', { weight: showWeight(pkg.weight), unit: weightUnit })}</div>
+              <div>{t('results.volumetricWeight', { weight: showWeight(pkg.volumetricWeight), unit: weightUnit })}</div>
+              <div>
+                {t('results.chargeableWeight', { weight: showWeight(pkg.chargeableWeight), unit: weightUnit, basis: pkg.weightBasis })}
+              </div>
+            </div>
+          ))}
+          {isMultiPiece && <div>{t('results.subtotal', { count: packages.length, amount: money(converted.subtotal) })}</div>}
+          {breakdown.multiPieceDiscount > 0 && (
+            <div>{t('results.multiPieceDiscount', { amount: money(converted.multiPieceDiscount) })}</div>
+          )}
+          {breakdown.accountDiscount && (
+            <div className="account-discount">
+              {t('results.account', {
+                accountNumber: breakdown.accountDiscount.accountNumber,
+                name: breakdown.accountDiscount.name,
+                percent: breakdown.accountDiscount.percent,
+                amount: money(converted.accountDiscount),
+              })}
+            </div>
+          )}
+          {(breakdown.addOns || []).map((addOn, index) => (
+            <div key={addOn.id}>{t('results.addOn', { label: addOn.label, amount: money(converted.addOns[index].cost) })}</div>
+          ))}
+          {breakdown.promoDiscount && (
+            <div className="promo-discount">
+              {t('results.promo', {
+                code: breakdown.promoDiscount.code,
+                description: breakdown.promoDiscount.description,
+                amount: money(converted.promoDiscount),
+              })}
+            </div>
+          )}
+          <div>{t('results.method', { method: breakdown.shippingMethod.toUpperCase() })}</div>
+          <div>{t('results.zone', { zone: breakdown.destinationZone.toUpperCase() })}</div>
         </div>
       </div>
+
+      <QuoteExportActions />
       
-      <button onClick={clearResults} className="close-result-btn">Close</button>
+      <button onClick={dismiss} className="close-result-btn">{t('common.close')}</button>
+    </section>
+  );
+};
+
+// Side-by-side matrix of every shipping method (and optionally every zone) for the current shipment
+const ShippingComparison: React.FC<{ returnFocusRef?: React.RefObject<HTMLElement | null> }> = ({ returnFocusRef }) => {
+  const { comparison, formData, selectOption, clearComparison, currency, exchangeRates, deliveryCalendar } = useShipping();
+  const { t, intlLocale } = useI18n();
+  const { panelRef, dismiss } = usePanelClose(!!comparison, clearComparison, returnFocusRef);
+
+  if (!comparison) return null;
+
+  const rate = getExchangeRate(exchangeRates, currency);
+
+  const zones = DESTINATION_ZONES.filter((zone) => comparison.some((option) => option.destinationZone === zone));
+  // Other zones are shown for comparison, but the addresses decide which one can be chosen
+  const addressZone = formData.zoneOverride ? undefined : resolveZone(formData.origin, formData.destination)?.zone;
+  const findOption = (method: string, zone: string) =>
+    comparison.find((option) => option.shippingMethod === method && option.destinationZone === zone);
+
+  return (
+    <section className="shipping-comparison" ref={panelRef} aria-labelledby="shipping-comparison-title">
+      <h3 id="shipping-comparison-title">{t('comparison.title')}</h3>
+      <table className="comparison-table">
+        <thead>
+          <tr>
+            <th scope="col">{t('comparison.method')}</th>
+            {zones.map((zone) => (
+              <th scope="col" key={zone}>{zone.toUpperCase()}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {SHIPPING_METHODS.map((method) => (
+            <tr key={method}>
+              <th scope="row">{method.toUpperCase()}</th>
+              {zones.map((zone) => {
+                const option = findOption(method, zone);
+                if (!option) return <td key={zone} />;
+                const isCurrent = method === formData.shippingMethod && zone === formData.destinationZone;
+
+                return (
+                  <td
+                    key={zone}
+                    className={`comparison-option ${option.status}${isCurrent ? ' current' : ''}`}
+                  >
+                    {option.status === 'quoted' && option.result ? (
+                      <>
+                        <strong>{formatMoney(convertAmount(option.result.shippingCost, rate, currency), currency, intlLocale)}</strong>
+                        <span>
+                          {t('comparison.arrivesBy', { date: formatDeliveryDate(estimateDeliveryAt(deliveryCalendar, formData, new Date(), option).latest, intlLocale) })}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => selectOption(option)}
+                          className="select-option-btn"
+                          disabled={!!addressZone && zone !== addressZone}
+                          title={addressZone && zone !== addressZone ? t('comparison.otherZone', { zone: addressZone }) : undefined}
+                        >
+                          {t('comparison.select')}
+                        </button>
+                      </>
+                    ) : (
+                      <span className="option-reason">
+                        {option.status === 'unavailable' ? '🚫 ' : '⚠️ '}{option.reason}
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={dismiss} className="close-result-btn">{t('common.close')}</button>
+    </section>
+  );
+};
+
+// Polite live region telling screen readers a quote is being worked out and what it came to
+const QuoteStatus: React.FC = () => {
+  const { loading, shippingResult, comparison, currentQuote, formData, currency, exchangeRates, deliveryCalendar } = useShipping();
+  const { t, intlLocale } = useI18n();
+
+  let message = '';
+  if (loading) {
+    message = t('form.calculating');
+  } else if (shippingResult) {
+    const delivery = estimateShownDelivery(deliveryCalendar, currentQuote, formData);
+    message = t('results.announcement', {
+      amount: formatMoney(convertQuote(shippingResult, currency, exchangeRates).shippingCost, currency, intlLocale),
+      date: formatDeliveryDate(delivery.latest, intlLocale),
+    });
+  } else if (comparison) {
+    message = t('comparison.announcement', { count: comparison.filter((option) => option.status === 'quoted').length });
+  }
+
+  return (
+    <div className="visually-hidden" role="status" aria-live="polite">
+      {message}
     </div>
   );
 };
 
+// A metric quantity as a number input value in the chosen units ('' while not entered)
+const toInputValue = (metricValue: number, fromMetric: (value: number, units: UnitSystem) => number, units: UnitSystem) =>
+  metricValue ? roundTo(fromMetric(metricValue, units), 4) : '';
+
+// Messages shown under an input: its error (once validation shows), its advisory warning, and the
+// hint worded by the validation rule set for the current shipment and units. Each has an id made
+// from the input's ("weight-0-error") so the input can be described by it.
+interface FieldMessagesInfo {
+  error: string;
+  warning: string;
+  hint: string;
+  ids: { error: string; warning: string; hint: string };
+}
+
+const useFieldMessages = (inputId: string, errorKey: string, hintField?: RuleField): FieldMessagesInfo => {
+  const { formData, errors, warnings, showValidation, unitSystem, validationRules } = useShipping();
+  const { validationMessages } = useI18n();
+  return {
+    error: (showValidation && errors[errorKey]) || '',
+    warning: warnings[errorKey] || '',
+    hint: (hintField && getFieldHint(validationRules, hintField, formData, unitSystem, validationMessages)) || '',
+    ids: { error: `${inputId}-error`, warning: `${inputId}-warning`, hint: `${inputId}-hint` },
+  };
+};
+
+// ARIA for an input with messages under it (and any shared with its group, e.g. the dimensions):
+// invalid while one of the errors shows, described by every message showing
+const fieldAria = (...messages: FieldMessagesInfo[]) => {
+  const describedBy = messages.flatMap(({ error, warning, hint, ids }) =>
+    [error && ids.error, warning && ids.warning, hint && ids.hint].filter(Boolean)
+  );
+  return {
+    'aria-invalid': messages.some(({ error }) => error) || undefined,
+    'aria-describedby': describedBy.join(' ') || undefined,
+  };
+};
+
+const FieldMessages: React.FC<{ messages: FieldMessagesInfo }> = ({ messages: { error, warning, hint, ids } }) => (
+  <>
+    {error && <span className="error-text" id={ids.error}>{error}</span>}
+    {warning && <span className="warning-text" id={ids.warning}>{warning}</span>}
+    {hint && <small className="field-hint" id={ids.hint}>{hint}</small>}
+  </>
+);
+
+// Number input in the chosen language's format ("2,5" in German). What's typed is kept as typed
+// so "2," isn't cut back to "2"; it's rewritten when the value changes from outside (units
+// switched, form reset, a quote loaded) or the language changes.
+const NumberInput: React.FC<
+  { value: number | ''; onValueChange: (value: number | undefined) => void } & Omit<
+    React.InputHTMLAttributes<HTMLInputElement>,
+    'value' | 'onChange' | 'type'
+  >
+> = ({ value, onValueChange, ...inputProps }) => {
+  const { locale, parseNumber, formatInput } = useI18n();
+  const [text, setText] = useState(() => (value === '' ? '' : formatInput(value)));
+  const localeRef = useRef(locale);
+
+  useEffect(() => {
+    const typed = parseNumber(text);
+    const shown = isNaN(typed) ? 0 : roundTo(typed, 4);
+    if (localeRef.current !== locale || shown !== (value || 0)) {
+      localeRef.current = locale;
+      setText(value === '' ? '' : formatInput(value));
+    }
+    // The text is only compared, not watched: typing must not reformat it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value, locale]);
+
+  return (
+    <input
+      {...inputProps}
+      type="text"
+      inputMode="decimal"
+      autoComplete="off"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parseNumber(e.target.value);
+        onValueChange(isNaN(parsed) ? undefined : parsed);
+      }}
+    />
+  );
+};
+
+// Presets as shown in the form: name, size, typical weight and preferred method in the chosen units,
+// and the weight limit a preset breaks for the method it would ship by (null when it's within them)
+const usePresetText = () => {
+  const { formData, unitSystem, validationRules } = useShipping();
+  const { t } = useI18n();
+  const { weight: weightUnit, length: lengthUnit } = UNIT_LABELS[unitSystem];
+  const showLength = (cm: number) => roundTo(fromMetricLength(cm, unitSystem), 2);
+  const showWeight = (kg: number) => roundTo(fromMetricWeight(kg, unitSystem), 2);
+
+  return {
+    describe: (preset: PackagePreset) =>
+      t('form.presets.option', {
+        name: preset.name,
+        length: showLength(preset.dimensions.length),
+        width: showLength(preset.dimensions.width),
+        height: showLength(preset.dimensions.height),
+        lengthUnit,
+        weight: showWeight(preset.weight),
+        weightUnit,
+        method: preset.shippingMethod || 'none',
+      }),
+    flag: (preset: PackagePreset): string | null => {
+      const broken = checkPresetWeight(preset, formData.shippingMethod, validationRules);
+      return broken
+        ? t('form.presets.flagged', {
+            name: preset.name,
+            weight: showWeight(preset.weight),
+            check: broken.check,
+            method: broken.shippingMethod,
+            limit: getWeightLimits(broken.shippingMethod, unitSystem, validationRules)[broken.check],
+            unit: weightUnit,
+          })
+        : null;
+    },
+  };
+};
+
+const matchesPreset = (pkg: PackageDetails, preset: PackagePreset) =>
+  pkg.weight === preset.weight && (['length', 'width', 'height'] as const).every((side) => pkg.dimensions[side] === preset.dimensions[side]);
+
+// Box presets for one package: pick a standard box or a saved template to fill in its size, weight
+// and preferred method, or save the package as a template. The picker shows the preset for as long
+// as the package is still as the preset left it, with a warning if its weight breaks the limits.
+const PresetPicker: React.FC<{ index: number }> = ({ index }) => {
+  const { formData, presets, updateField, updateDimensions, savePreset } = useShipping();
+  const { t } = useI18n();
+  const { describe, flag } = usePresetText();
+  const [appliedId, setAppliedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+
+  const pkg = formData.packages[index];
+  const number = index + 1;
+  const allPresets = [...BUILT_IN_PRESETS, ...presets];
+  const applied = allPresets.find((preset) => preset.id === appliedId && matchesPreset(pkg, preset));
+  const warning = applied ? flag(applied) : null;
+  const canSave = pkg.weight > 0 && Object.values(pkg.dimensions).every((value) => value > 0);
+
+  const applyPreset = (id: string) => {
+    const preset = allPresets.find((entry) => entry.id === id);
+    if (!preset) return;
+    (['length', 'width', 'height'] as const).forEach((side) => updateDimensions(side, preset.dimensions[side], index));
+    updateField('weight', preset.weight, index);
+    if (preset.shippingMethod) {
+      updateField('shippingMethod', preset.shippingMethod);
+    }
+    setAppliedId(preset.id);
+  };
+
+  const confirmSave = () => {
+    savePreset(name.trim(), index);
+    setSaving(false);
+    setName('');
+  };
+
+  const presetOption = (preset: PackagePreset) => (
+    <option key={preset.id} value={preset.id}>
+      {flag(preset) ? `${describe(preset)} ⚠️` : describe(preset)}
+    </option>
+  );
+
+  return (
+    <div className="form-group preset-picker">
+      <label htmlFor={`preset-${index}`}>{t('form.presets.choose')}</label>
+      <select
+        id={`preset-${index}`}
+        value={applied?.id || ''}
+        onChange={(e) => applyPreset(e.target.value)}
+        aria-describedby={warning ? `preset-${index}-warning` : undefined}
+      >
+        <option value="">{t('form.presets.placeholder')}</option>
+        <optgroup label={t('form.presets.builtIn')}>{BUILT_IN_PRESETS.map(presetOption)}</optgroup>
+        {presets.length > 0 && <optgroup label={t('form.presets.saved')}>{presets.map(presetOption)}</optgroup>}
+      </select>
+      {warning && <span className="warning-text" id={`preset-${index}-warning`}>{warning}</span>}
+
+      {saving ? (
+        <div className="preset-save">
+          <label htmlFor={`preset-name-${index}`}>{t('form.presets.name')}</label>
+          <input
+            id={`preset-name-${index}`}
+            type="text"
+            value={name}
+            maxLength={40}
+            placeholder={t('form.presets.namePlaceholder')}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button type="button" onClick={confirmSave} disabled={!name.trim()}>
+            {t('form.presets.confirmSave')}
+          </button>
+          <button type="button" onClick={() => setSaving(false)}>
+            {t('form.presets.cancel')}
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          className="preset-save-btn"
+          onClick={() => setSaving(true)}
+          disabled={!canSave}
+          aria-label={t('form.presets.saveLabel', { number })}
+        >
+          {t('form.presets.save')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Weight and dimension inputs for one package of the shipment
+const PackageFields: React.FC<{ index: number }> = ({ index }) => {
+  const {
+    formData,
+    updateField,
+    updateDimensions,
+    removePackage,
+    duplicatePackage,
+    unitSystem,
+  } = useShipping();
+
+  const { t } = useI18n();
+
+  const pkg = formData.packages[index];
+  const packageCount = formData.packages.length;
+  const number = index + 1;
+  const errorKey = (field: string) => packageErrorKey(index, field);
+  const { weight: weightUnit, length: lengthUnit } = UNIT_LABELS[unitSystem];
+
+  const weightMessages = useFieldMessages(`weight-${index}`, errorKey('weight'), 'weight');
+  const lengthMessages = useFieldMessages(`length-${index}`, errorKey('length'));
+  const widthMessages = useFieldMessages(`width-${index}`, errorKey('width'));
+  const heightMessages = useFieldMessages(`height-${index}`, errorKey('height'));
+  // Messages about the dimensions as a whole describe all three inputs
+  const dimensionsMessages = useFieldMessages(`dimensions-${index}`, errorKey('dimensions'), 'dimensions');
+
+  // Inputs are in the chosen units; the form stores metric
+  const changeDimension = (dimension: string, value: number | undefined) =>
+    updateDimensions(dimension, toMetricLength(value || 0, unitSystem), index);
+
+  return (
+    <fieldset className="package-fields">
+      <legend>{t('form.package', { number })}</legend>
+      <div className="package-actions">
+        <button
+          type="button"
+          onClick={() => duplicatePackage(index)}
+          disabled={packageCount >= MAX_PACKAGES}
+          aria-label={t('form.package.duplicateLabel', { number })}
+        >
+          {t('form.package.duplicate')}
+        </button>
+        <button
+          type="button"
+          onClick={() => removePackage(index)}
+          disabled={packageCount <= 1}
+          aria-label={t('form.package.removeLabel', { number })}
+        >
+          {t('form.package.remove')}
+        </button>
+      </div>
+
+      <PresetPicker index={index} />
+
+      <div className="form-group">
+        <label htmlFor={`weight-${index}`}>{t('form.weight', { unit: weightUnit })}</label>
+        <NumberInput
+          id={`weight-${index}`}
+          placeholder={t('form.weight.placeholder')}
+          value={toInputValue(pkg.weight, fromMetricWeight, unitSystem)}
+          onValueChange={(value) => updateField('weight', toMetricWeight(value || 0, unitSystem), index)}
+          className={weightMessages.error ? 'error' : ''}
+          {...fieldAria(weightMessages)}
+        />
+        <FieldMessages messages={weightMessages} />
+      </div>
+
+      <fieldset className="form-group dimensions-group">
+        <legend>{t('form.dimensions', { unit: lengthUnit })}</legend>
+        <div className="dimensions-container">
+          <div className="dimension-input">
+            <label htmlFor={`length-${index}`}>{t('form.length')}</label>
+            <NumberInput
+              id={`length-${index}`}
+              placeholder="0"
+              value={toInputValue(pkg.dimensions.length, fromMetricLength, unitSystem)}
+              onValueChange={(value) => changeDimension('length', value)}
+              className={lengthMessages.error ? 'error' : ''}
+              {...fieldAria(lengthMessages, dimensionsMessages)}
+            />
+            <FieldMessages messages={lengthMessages} />
+          </div>
+          
+          <div className="dimension-input">
+            <label htmlFor={`width-${index}`}>{t('form.width')}</label>
+            <NumberInput
+              id={`width-${index}`}
+              placeholder="0"
+              value={toInputValue(pkg.dimensions.width, fromMetricLength, unitSystem)}
+              onValueChange={(value) => changeDimension('width', value)}
+              className={widthMessages.error ? 'error' : ''}
+              {...fieldAria(widthMessages, dimensionsMessages)}
+            />
+            <FieldMessages messages={widthMessages} />
+          </div>
+          
+          <div className="dimension-input">
+            <label htmlFor={`height-${index}`}>{t('form.height')}</label>
+            <NumberInput
+              id={`height-${index}`}
+              placeholder="0"
+              value={toInputValue(pkg.dimensions.height, fromMetricLength, unitSystem)}
+              onValueChange={(value) => changeDimension('height', value)}
+              className={heightMessages.error ? 'error' : ''}
+              {...fieldAria(heightMessages, dimensionsMessages)}
+            />
+            <FieldMessages messages={heightMessages} />
+          </div>
+        </div>
+        <FieldMessages messages={dimensionsMessages} />
+      </fieldset>
+    </fieldset>
+  );
+};
+
+// The user's saved presets, and a presets file to move them to another browser or colleague
+const PresetLibrary: React.FC = () => {
+  const { presets, deletePreset, importPresets } = useShipping();
+  const { t } = useI18n();
+  const { describe, flag } = usePresetText();
+  const [importStatus, setImportStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after it's been edited
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await readFileText(file), { t });
+      importPresets(imported);
+      setImportStatus({ ok: true, message: t('form.presets.imported', { count: imported.length }) });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      setImportStatus({ ok: false, message: t('form.presets.importFailed', { file: file.name, reason }) });
+    }
+  };
+
+  return (
+    <fieldset className="preset-library">
+      <legend>{t('form.presets.library')}</legend>
+      {presets.length === 0 ? (
+        <p className="field-hint">{t('form.presets.empty')}</p>
+      ) : (
+        <ul>
+          {presets.map((preset) => {
+            const warning = flag(preset);
+            return (
+              <li key={preset.id}>
+                <span>
+                  {describe(preset)}
+                  {warning && <small className="warning-text">{warning}</small>}
+                </span>
+                <button type="button" onClick={() => deletePreset(preset.id)} aria-label={t('form.presets.deleteLabel', { name: preset.name })}>
+                  {t('form.presets.delete')}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="preset-library-actions">
+        <button
+          type="button"
+          className="export-btn"
+          onClick={() => downloadFile(getPresetFileName(), toPresetFile(presets), 'application/json')}
+          disabled={presets.length === 0}
+        >
+          {t('form.presets.export')}
+        </button>
+        <label className="preset-import">
+          {t('form.presets.import')}
+          <input type="file" accept=".json,application/json" onChange={handleImport} />
+        </label>
+      </div>
+      {importStatus && (
+        <p className={importStatus.ok ? 'preset-import-status' : 'error-text'} role="status">
+          {importStatus.message}
+        </p>
+      )}
+    </fieldset>
+  );
+};
+
+// Country and postcode for one end of the shipment
+const AddressFields: React.FC<{ side: AddressSide }> = ({ side }) => {
+  const { formData, updateAddress } = useShipping();
+  const { t } = useI18n();
+  const address = formData[side] || emptyAddress;
+  const country = getCountry(address.country);
+  const countryMessages = useFieldMessages(`${side}Country`, `${side}.country`);
+  const postcodeMessages = useFieldMessages(`${side}Postcode`, `${side}.postcode`);
+
+  return (
+    <fieldset className="address-fields">
+      <legend>{t('form.address.legend', { side })}</legend>
+      <div className="form-group">
+        <label htmlFor={`${side}Country`}>{t('form.address.country', { side })}</label>
+        <select
+          id={`${side}Country`}
+          value={address.country}
+          onChange={(e) => updateAddress(side, { ...address, country: e.target.value })}
+          className={countryMessages.error ? 'error' : ''}
+          {...fieldAria(countryMessages)}
+        >
+          {/* A country from a link that we can't zone stays visible until it's changed */}
+          {!country && <option value={address.country}>{address.country}</option>}
+          {SUPPORTED_COUNTRIES.map(({ code, name }) => (
+            <option key={code} value={code}>{name}</option>
+          ))}
+        </select>
+        <FieldMessages messages={countryMessages} />
+      </div>
+      <div className="form-group">
+        <label htmlFor={`${side}Postcode`}>{t('form.address.postcode', { side })}</label>
+        <input
+          type="text"
+          id={`${side}Postcode`}
+          value={address.postcode}
+          onChange={(e) => updateAddress(side, { ...address, postcode: e.target.value })}
+          placeholder={country && t('form.address.example', { example: country.postcode.example })}
+          autoComplete={`${side === 'origin' ? 'billing' : 'shipping'} postal-code`}
+          className={postcodeMessages.error ? 'error' : ''}
+          {...fieldAria(postcodeMessages)}
+        />
+        <FieldMessages messages={postcodeMessages} />
+      </div>
+    </fieldset>
+  );
+};
+
+// The zone comes from the addresses. Staff tools (REACT_APP_STAFF_TOOLS=true) can override it;
+// shipments without addresses (older links and history) keep the zone they were given.
+const DestinationZoneField: React.FC = () => {
+  const { formData, updateField, setZoneOverride } = useShipping();
+  const { t } = useI18n();
+  const messages = useFieldMessages('destinationZone', 'destinationZone', 'destinationZone');
+  const staffTools = process.env.REACT_APP_STAFF_TOOLS === 'true';
+  const resolved = resolveZone(formData.origin, formData.destination);
+  const hasAddresses = !!formData.origin && !!formData.destination;
+  const describeArea = ({ area, region, countryName }: { area: string; region?: string; countryName: string }) =>
+    `${region || area}, ${countryName}`;
+
+  let detail = t('form.zone.pending');
+  if (formData.zoneOverride) {
+    detail = t('form.zone.staff');
+  } else if (resolved) {
+    detail = `${describeArea(resolved.origin)} → ${describeArea(resolved.destination)}`;
+  } else if (!hasAddresses) {
+    detail = t('form.zone.saved');
+  }
+  const known = formData.zoneOverride || resolved || !hasAddresses;
+
+  return (
+    <div className="form-group">
+      <label htmlFor="destinationZone">{t('form.zone')}</label>
+      {staffTools && formData.zoneOverride ? (
+        <select
+          id="destinationZone"
+          value={formData.destinationZone}
+          onChange={(e) => updateField('destinationZone', e.target.value as 'local' | 'domestic' | 'international')}
+          className={messages.error ? 'error' : ''}
+          {...fieldAria(messages)}
+        >
+          {DESTINATION_ZONES.map((zone) => (
+            <option key={zone} value={zone}>{t('zone.name', { zone })}</option>
+          ))}
+        </select>
+      ) : (
+        <output
+          id="destinationZone"
+          className={`zone-value${known ? '' : ' pending'}`}
+          aria-describedby={fieldAria(messages)['aria-describedby']}
+        >
+          {known ? t('zone.name', { zone: formData.destinationZone }) : '—'}
+        </output>
+      )}
+      <small className="zone-detail">{detail}</small>
+      {staffTools && (
+        <label className="zone-override">
+          <input
+            type="checkbox"
+            checked={!!formData.zoneOverride}
+            onChange={(e) => setZoneOverride(e.target.checked)}
+          />
+          {t('form.zone.override')}
+        </label>
+      )}
+      <FieldMessages messages={messages} />
+    </div>
+  );
+};
+
+// Optional services the current rate card lists; ones it doesn't offer for this method and zone are
+// greyed out, but stay ticked (and reported) if they were chosen before the shipment changed
+const AddOnFields: React.FC = () => {
+  const { formData, updateField, currency, exchangeRates, rateCard } = useShipping();
+  const { t, intlLocale } = useI18n();
+  const addOnMessages = useFieldMessages('addOns', 'addOns');
+  const declaredValueMessages = useFieldMessages('declaredValue', 'declaredValue');
+  const addOns = listAddOns(rateCard, formData);
+  if (addOns.length === 0) return null;
+
+  const chosen = formData.addOns || [];
+  const rate = getExchangeRate(exchangeRates, currency);
+  const money = (amount: number) => formatMoney(convertAmount(amount, rate, currency), currency, intlLocale);
+
+  const toggle = (id: AddOnId, checked: boolean) =>
+    updateField('addOns', checked ? [...chosen, id] : chosen.filter((chosenId) => chosenId !== id));
+
+  const describePrice = (addOn: AddOnRate): string => {
+    const parts = [
+      addOn.fee ? money(addOn.fee) : '',
+      addOn.perPackageFee ? t('form.addOns.perPackage', { amount: money(addOn.perPackageFee) }) : '',
+      addOn.declaredValuePercent ? t('form.addOns.declaredValuePercent', { percent: addOn.declaredValuePercent }) : '',
+    ].filter(Boolean);
+    return `+${parts.join(' + ')}${addOn.minimumFee ? ` ${t('form.addOns.minimum', { amount: money(addOn.minimumFee) })}` : ''}`;
+  };
+
+  return (
+    <fieldset className="add-on-fields" aria-describedby={fieldAria(addOnMessages)['aria-describedby']}>
+      <legend>{t('form.addOns')}</legend>
+      {addOns.map(({ id, rate: addOn, available }) => {
+        const checked = chosen.includes(id);
+        return (
+          <label key={id} className={`add-on-option${available ? '' : ' unavailable'}`}>
+            <input
+              type="checkbox"
+              checked={checked}
+              disabled={!available && !checked}
+              onChange={(e) => toggle(id, e.target.checked)}
+            />
+            <span className="add-on-label">{addOn.label}</span>
+            <span className="add-on-price">
+              {available
+                ? describePrice(addOn)
+                : t('form.addOns.unavailable', { method: formData.shippingMethod, zone: formData.destinationZone })}
+            </span>
+          </label>
+        );
+      })}
+      <FieldMessages messages={addOnMessages} />
+      {chosen.includes('insurance') && (
+        <div className="form-group">
+          <label htmlFor="declaredValue">{t('form.declaredValue', { currency: PRICE_CURRENCY })}</label>
+          <NumberInput
+            id="declaredValue"
+            value={formData.declaredValue ?? ''}
+            onValueChange={(value) => updateField('declaredValue', value)}
+            placeholder={t('form.declaredValue.placeholder')}
+            className={declaredValueMessages.error ? 'error' : ''}
+            {...fieldAria(declaredValueMessages)}
+          />
+          <FieldMessages messages={declaredValueMessages} />
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+// Business account number; an account that doesn't cover this shipment says why under it
+const AccountNumberField: React.FC = () => {
+  const { formData, updateField } = useShipping();
+  const { t } = useI18n();
+  const messages = useFieldMessages('accountNumber', 'accountNumber');
+
+  return (
+    <div className="form-group">
+      <label htmlFor="accountNumber">{t('form.accountNumber')}</label>
+      <input
+        type="text"
+        id="accountNumber"
+        value={formData.accountNumber || ''}
+        onChange={(e) => updateField('accountNumber', normaliseAccountNumber(e.target.value) || undefined)}
+        placeholder={t('form.accountNumber.placeholder', { example: 'ZZA10001' })}
+        maxLength={32}
+        autoComplete="off"
+        className={messages.error ? 'error' : ''}
+        {...fieldAria(messages)}
+      />
+      <FieldMessages messages={messages} />
+    </div>
+  );
+};
+
+// Promo code box; a code that can't be used on this shipment says why under it
+const PromoCodeField: React.FC = () => {
+  const { formData, updateField } = useShipping();
+  const { t } = useI18n();
+  const messages = useFieldMessages('promoCode', 'promoCode');
+
+  return (
+    <div className="form-group">
+      <label htmlFor="promoCode">{t('form.promoCode')}</label>
+      <input
+        type="text"
+        id="promoCode"
+        value={formData.promoCode || ''}
+        onChange={(e) => updateField('promoCode', normalisePromoCode(e.target.value) || undefined)}
+        placeholder={t('form.promoCode.placeholder', { example: 'WELCOME10' })}
+        maxLength={32}
+        autoComplete="off"
+        className={messages.error ? 'error' : ''}
+        {...fieldAria(messages)}
+      />
+      <FieldMessages messages={messages} />
+    </div>
+  );
+};
+
+// Display currency, with the date of the rates in use and a way to fetch newer ones
+const CurrencySelector: React.FC = () => {
+  const { currency, setCurrency, exchangeRates, refreshExchangeRates } = useShipping();
+  const { t } = useI18n();
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setRefreshing(true);
+    setRefreshError(null);
+    try {
+      const table = await refreshExchangeRates();
+      if (table.source === 'fallback') {
+        setRefreshError(t('form.currency.unavailable'));
+      }
+    } catch (error) {
+      console.error('❌ Exchange rate refresh failed:', error);
+      setRefreshError(error instanceof Error ? error.message : t('form.currency.failed'));
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="currency-selector">
+      <label htmlFor="currency">{t('form.currency')}</label>
+      <select id="currency" value={currency} onChange={(e) => setCurrency(e.target.value)}>
+        {SUPPORTED_CURRENCIES.filter((code) => exchangeRates.rates[code]).map((code) => (
+          <option key={code} value={code}>{code}</option>
+        ))}
+      </select>
+      <small className="field-hint">
+        {t(exchangeRates.source === 'live' ? 'form.currency.asOf' : 'form.currency.asOfBundled', { asOf: exchangeRates.asOf })}
+      </small>
+      <button type="button" onClick={refresh} className="refresh-rates-btn" disabled={refreshing}>
+        {refreshing ? t('form.currency.refreshing') : t('form.currency.refresh')}
+      </button>
+      {refreshError && <span className="error-text" role="alert">{refreshError}</span>}
+    </div>
+  );
+};
+
+// Link that opens the calculator with the current shipment and prices it
+const ShareQuoteLink: React.FC = () => {
+  const { formData, unitSystem, validationRules } = useShipping();
+  const { t } = useI18n();
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const canShare = Object.keys(validateShippingForm(formData, unitSystem, validationRules)).length === 0;
+
+  // A link only describes the shipment it was made for
+  useEffect(() => setLink(null), [formData]);
+
+  const share = async () => {
+    const url = `${window.location.origin}/?${serializeQuoteLink(formData)}`;
+    setLink(url);
+    setCopied(false);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      // No clipboard access (e.g. insecure context) - the link is shown to copy by hand
+    }
+  };
+
+  return (
+    <div className="share-quote">
+      <button
+        type="button"
+        onClick={share}
+        className="compare-btn"
+        disabled={!canShare}
+        title={canShare ? undefined : t('form.share.disabled')}
+      >
+        {t('form.share')}
+      </button>
+      {link && (
+        <>
+          <input
+            type="text"
+            readOnly
+            value={link}
+            aria-label={t('form.share.linkLabel')}
+            onFocus={(e) => e.target.select()}
+          />
+          <small className="field-hint">{copied ? t('form.share.copied') : t('form.share.copy')}</small>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Running price in the package summary while live quotes are on
+const LivePrice: React.FC = () => {
+  const { liveQuotes, liveQuote, currency, exchangeRates } = useShipping();
+  const { t, intlLocale } = useI18n();
+  if (!liveQuotes) return null;
+
+  const pending = liveQuote?.status === 'pending';
+  let price = t('form.summary.price.incomplete');
+  if (liveQuote?.result) {
+    price = formatMoney(convertQuote(liveQuote.result, currency, exchangeRates).shippingCost, currency, intlLocale);
+  } else if (pending) {
+    price = t('form.summary.price.pending');
+  } else if (liveQuote?.status === 'failed') {
+    price = t('form.summary.price.unavailable');
+  }
+
+  return (
+    <div className="preview-item live-price">
+      <span className="label">{t('form.summary.price')}</span>
+      <span className="value" aria-live="polite" aria-busy={pending}>
+        {price}
+        {pending && liveQuote?.result && <small className="live-price-updating"> {t('form.summary.price.updating')}</small>}
+      </span>
+    </div>
+  );
+};
+
+// The input an error is shown next to, for the error summary's links. Errors about the package
+// list, the add-ons or a zone worked out from the addresses have none.
+const errorInputId = (key: string): string | undefined => {
+  const match = PACKAGE_ERROR_KEY.exec(key);
+  if (match) return `${match[2] === 'dimensions' ? 'length' : match[2]}-${match[1]}`;
+  const [side, part] = key.split('.');
+  if (part) return `${side}${part.charAt(0).toUpperCase()}${part.slice(1)}`;
+  return ['shippingMethod', 'declaredValue', 'accountNumber', 'promoCode'].includes(key) ? key : undefined;
+};
+
+// Every error on the form, each linking to its input. When a quote is refused focus moves to the
+// first invalid input, or to the summary if none of the errors belongs to one.
+const ErrorSummary: React.FC = () => {
+  const { errors, showValidation, failedSubmits } = useShipping();
+  const { t } = useI18n();
+  const summaryRef = useRef<HTMLElement>(null);
+  const shown = showValidation ? Object.entries(errors).filter(([, message]) => message) : [];
+
+  useEffect(() => {
+    if (failedSubmits === 0) return;
+    const form = summaryRef.current?.closest('.shipping-form-container');
+    const firstInvalid = form?.querySelector<HTMLElement>('[aria-invalid="true"]');
+    (firstInvalid || summaryRef.current)?.focus();
+  }, [failedSubmits]);
+
+  if (shown.length === 0) return null;
+
+  const focusInput = (event: React.MouseEvent, inputId: string) => {
+    event.preventDefault();
+    document.getElementById(inputId)?.focus();
+  };
+
+  return (
+    <section className="error-summary" ref={summaryRef} tabIndex={-1} aria-labelledby="error-summary-title">
+      <h3 id="error-summary-title">{t('form.fixErrors', { count: shown.length })}</h3>
+      <ul>
+        {shown.map(([key, message]) => {
+          const inputId = errorInputId(key);
+          return (
+            <li key={key}>
+              {inputId ? (
+                <a href={`#${inputId}`} onClick={(event) => focusInput(event, inputId)}>
+                  {message}
+                </a>
+              ) : (
+                message
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
 // Main Shipping Form Component using Context
 const ShippingForm: React.FC = () => {
   const {
@@ -465,191 +2188,219 @@ const ShippingForm: React.FC = () => {
     loading,
     showValidation,
     updateField,
-    updateDimensions,
+    addPackage,
+    apiErrors,
     calculateShipping,
     resetForm,
+    clearApiErrors,
+    compareOptions,
+    unitSystem,
+    setUnitSystem,
+    liveQuotes,
+    setLiveQuotes,
+    rateCard,
+    validationRules,
   } = useShipping();
+  const { t, intlLocale } = useI18n();
+
+  // Whether "Compare Options" should also quote every destination zone
+  const [compareAllZones, setCompareAllZones] = useState(false);
+
+  // Focus goes back to these when the result or comparison they opened is closed
+  const calculateButtonRef = useRef<HTMLButtonElement>(null);
+  const compareButtonRef = useRef<HTMLButtonElement>(null);
+
+  const methodMessages = useFieldMessages('shippingMethod', 'shippingMethod', 'shippingMethod');
+  const packagesMessages = useFieldMessages('packages', 'packages');
+
+  const units = UNIT_LABELS[unitSystem];
+  const showNumber = (value: number) => value.toLocaleString(intlLocale, { maximumFractionDigits: 3 });
+  const showWeight = (kg: number) => showNumber(roundTo(fromMetricWeight(kg, unitSystem), 3));
+  const showLength = (cm: number) => showNumber(roundTo(fromMetricLength(cm, unitSystem), 2));
+
+  // Weight range for a shipping method, in the chosen units
+  const getMethodRange = (method: ShippingMethod): string => {
+    const limits = getWeightLimits(method, unitSystem, validationRules);
+    return `${showNumber(limits.min)}-${showNumber(limits.max)}${units.weight}`;
+  };
 
   // Get weight limit info for current shipping method
   const getWeightLimitInfo = (): string => {
-    const limits = WEIGHT_LIMITS[formData.shippingMethod];
-    return `${limits.min}kg - ${limits.max}kg`;
+    const limits = getWeightLimits(formData.shippingMethod, unitSystem, validationRules);
+    return t('form.summary.limit', { min: showNumber(limits.min), max: showNumber(limits.max), unit: units.weight });
   };
 
+  // Preview which weight will be billed, using the rate card currently in effect
+  const billedWeights = formData.packages.map((pkg) =>
+    getChargeableWeight({ ...pkg, shippingMethod: formData.shippingMethod, destinationZone: formData.destinationZone }, rateCard)
+  );
+  const sum = (values: number[]) => parseFloat(values.reduce((total, value) => total + value, 0).toFixed(3));
+  const totalWeight = sum(formData.packages.map((pkg) => pkg.weight || 0));
+  const volumetricWeight = sum(billedWeights.map((billed) => billed.volumetricWeight));
+  const chargeableWeight = sum(billedWeights.map((billed) => billed.chargeableWeight));
+  const weightBases = Array.from(new Set(billedWeights.map((billed) => billed.weightBasis)));
+  const weightBasis = weightBases.length === 1 ? weightBases[0] : 'mixed';
+  const totalVolume = formData.packages.reduce(
+    (total, pkg) => total + (pkg.dimensions.length || 0) * (pkg.dimensions.width || 0) * (pkg.dimensions.height || 0) / 1000,
+    0
+  );
+
   return (
     <div className="shipping-form-container">
+      {/* The page title comes before the result so headings stay in order */}
+      <div className="form-header">
+        <h2>{t('form.title')}</h2>
+        <p>{t('form.subtitle')}</p>
+        {loading && <div className="loading">{t('form.calculating')}</div>}
+      </div>
+
+      <QuoteStatus />
+
       {/* Results Component */}
-      <ShippingResults />
+      <ShippingResults returnFocusRef={calculateButtonRef} />
+      <ShippingComparison returnFocusRef={compareButtonRef} />
+
+      {apiErrors.length > 0 && (
+        <div className="api-error" role="alert">
+          <h3>{t('form.apiError.title')}</h3>
+          {apiErrors.map((message) => (
+            <p key={message}>{message}</p>
+          ))}
+          <button type="button" onClick={clearApiErrors} className="dismiss-error-btn">{t('form.apiError.dismiss')}</button>
+        </div>
+      )}
       
-      <div className="form-header">
-        <h2>📦 Shipping Cost Calculator</h2>
-        <p>Enter your package details to calculate shipping costs</p>
-        {loading && <div className="loading">🔄 Calculating...</div>}
+      <ErrorSummary />
+
+      <div className="form-preferences">
+        <fieldset className="unit-toggle">
+          <legend>{t('form.units')}</legend>
+          {UNIT_SYSTEMS.map((system) => (
+            <label key={system}>
+              <input
+                type="radio"
+                name="unitSystem"
+                value={system}
+                checked={unitSystem === system}
+                onChange={() => setUnitSystem(system)}
+              />
+              {t('form.units.system', { system })}
+            </label>
+          ))}
+        </fieldset>
+        <CurrencySelector />
+        <label className="live-quotes-toggle">
+          <input type="checkbox" checked={liveQuotes} onChange={(e) => setLiveQuotes(e.target.checked)} />
+          {t('form.liveQuotes')}
+        </label>
       </div>
       
       <div className="form-content">
         {/* Left Column */}
         <div className="form-column left-column">
           <div className="form-group">
-            <label htmlFor="shippingMethod">Shipping Method *</label>
+            <label htmlFor="shippingMethod">{t('form.method')}</label>
             <select
               id="shippingMethod"
               value={formData.shippingMethod}
               onChange={(e) => updateField('shippingMethod', e.target.value as 'standard' | 'express' | 'overnight')}
-              className={showValidation && errors.shippingMethod ? 'error' : ''}
+              className={methodMessages.error ? 'error' : ''}
+              {...fieldAria(methodMessages)}
             >
-              <option value="standard">Standard Shipping (0.1-20kg)</option>
-              <option value="express">Express Shipping (0.1-10kg)</option>
-              <option value="overnight">Overnight Shipping (0.1-5kg)</option>
+              {SHIPPING_METHODS.map((method) => (
+                <option key={method} value={method}>{t('form.method.option', { method, range: getMethodRange(method) })}</option>
+              ))}
             </select>
-            {showValidation && errors.shippingMethod && (
-              <span className="error-text">{errors.shippingMethod}</span>
-            )}
-            <small className="field-hint">
-              Weight limit: {getWeightLimitInfo()}
-            </small>
-          </div>
-
-          <div className="form-group">
-            <label htmlFor="weight">Weight (kg) *</label>
-            <input
-              type="number"
-              id="weight"
-              min="0.1"
-              step="0.1"
-              placeholder="Enter package weight"
-              value={formData.weight || ''}
-              onChange={(e) => updateField('weight', parseFloat(e.target.value) || 0)}
-              className={showValidation && errors.weight ? 'error' : ''}
-            />
-            {showValidation && errors.weight && (
-              <span className="error-text">{errors.weight}</span>
-            )}
-            <small className="field-hint">
-              Allowed range for {formData.shippingMethod}: {getWeightLimitInfo()}
-            </small>
+            <FieldMessages messages={methodMessages} />
           </div>
 
-          <div className="form-group dimensions-group">
-            <label>Dimensions (cubic cm) *</label>
-            <div className="dimensions-container">
-              <div className="dimension-input">
-                <label htmlFor="length">Length</label>
-                <input
-                  type="number"
-                  id="length"
-                  min="1"
-                  placeholder="0"
-                  value={formData.dimensions.length || ''}
-                  onChange={(e) => updateDimensions('length', parseFloat(e.target.value) || 0)}
-                  className={showValidation && errors.length ? 'error' : ''}
-                />
-                {showValidation && errors.length && (
-                  <span className="error-text">{errors.length}</span>
-                )}
-              </div>
-              
-              <div className="dimension-input">
-                <label htmlFor="width">Width</label>
-                <input
-                  type="number"
-                  id="width"
-                  min="1"
-                  placeholder="0"
-                  value={formData.dimensions.width || ''}
-                  onChange={(e) => updateDimensions('width', parseFloat(e.target.value) || 0)}
-                  className={showValidation && errors.width ? 'error' : ''}
-                />
-                {showValidation && errors.width && (
-                  <span className="error-text">{errors.width}</span>
-                )}
-              </div>
-              
-              <div className="dimension-input">
-                <label htmlFor="height">Height</label>
-                <input
-                  type="number"
-                  id="height"
-                  min="1"
-                  placeholder="0"
-                  value={formData.dimensions.height || ''}
-                  onChange={(e) => updateDimensions('height', parseFloat(e.target.value) || 0)}
-                  className={showValidation && errors.height ? 'error' : ''}
-                />
-                {showValidation && errors.height && (
-                  <span className="error-text">{errors.height}</span>
-                )}
-              </div>
-            </div>
-            {showValidation && errors.dimensions && (
-              <span className="error-text">{errors.dimensions}</span>
-            )}
-            <small className="field-hint">Each dimension max 200cm, total max 400cm</small>
-          </div>
+          {formData.packages.map((_, index) => (
+            <PackageFields key={index} index={index} />
+          ))}
+          <FieldMessages messages={packagesMessages} />
+          <button
+            type="button"
+            onClick={addPackage}
+            className="add-package-btn"
+            disabled={formData.packages.length >= MAX_PACKAGES}
+            aria-describedby={fieldAria(packagesMessages)['aria-describedby']}
+          >
+            {t('form.package.add')}
+          </button>
+          <PresetLibrary />
         </div>
 
         {/* Right Column */}
         <div className="form-column right-column">
-          <div className="form-group">
-            <label htmlFor="destinationZone">Destination Zone *</label>
-            <select
-              id="destinationZone"
-              value={formData.destinationZone}
-              onChange={(e) => updateField('destinationZone', e.target.value as 'local' | 'domestic' | 'international')}
-              className={showValidation && errors.destinationZone ? 'error' : ''}
-            >
-              <option value="local">Local</option>
-              <option value="domestic">Domestic</option>
-              <option value="international">International</option>
-            </select>
-            {showValidation && errors.destinationZone && (
-              <span className="error-text">{errors.destinationZone}</span>
-            )}
-            <small className="field-hint">Select your delivery zone for accurate pricing</small>
-          </div>
+          <AddressFields side="origin" />
+          <AddressFields side="destination" />
+          <DestinationZoneField />
+          <AddOnFields />
+          <AccountNumberField />
+          <PromoCodeField />
 
           {/* Package Preview */}
           <div className="package-preview">
-            <h4>📦 Package Summary</h4>
+            <h3>{t('form.summary')}</h3>
             <div className="preview-content">
+              <LivePrice />
               <div className="preview-item">
-                <span className="label">Method:</span>
-                <span className="value">{formData.shippingMethod?.toUpperCase() || 'Not selected'}</span>
+                <span className="label">{t('form.summary.method')}</span>
+                <span className="value">{formData.shippingMethod?.toUpperCase() || t('form.summary.notSelected')}</span>
               </div>
+              {formData.packages.length > 1 && (
+                <div className="preview-item">
+                  <span className="label">{t('form.summary.packages')}</span>
+                  <span className="value">{formData.packages.length}</span>
+                </div>
+              )}
               <div className="preview-item">
-                <span className="label">Weight:</span>
+                <span className="label">{t('form.summary.weight')}</span>
                 <span className="value">
-                  {formData.weight || 0} kg
+                  {showWeight(totalWeight)} {units.weight}
                   {formData.shippingMethod && (
                     <small style={{display: 'block', fontSize: '12px', opacity: 0.8}}>
-                      (Limit: {getWeightLimitInfo()})
+                      {getWeightLimitInfo()}
                     </small>
                   )}
                 </span>
               </div>
               <div className="preview-item">
-                <span className="label">Dimensions:</span>
+                <span className="label">{t('form.summary.volumetricWeight')}</span>
+                <span className="value">{showWeight(volumetricWeight)} {units.weight}</span>
+              </div>
+              <div className="preview-item">
+                <span className="label">{t('form.summary.billedWeight')}</span>
+                <span className="value">
+                  {showWeight(chargeableWeight)} {units.weight} {t('form.summary.basis', { basis: weightBasis })}
+                </span>
+              </div>
+              <div className="preview-item">
+                <span className="label">{t('form.summary.dimensions')}</span>
                 <span className="value">
-                  {formData.dimensions.length || 0} × {formData.dimensions.width || 0} × {formData.dimensions.height || 0} cubic cm
+                  {formData.packages.map((pkg, index) => (
+                    <span key={index} style={{display: 'block'}}>
+                      {showLength(pkg.dimensions.length || 0)} × {showLength(pkg.dimensions.width || 0)} × {showLength(pkg.dimensions.height || 0)} {units.length}
+                    </span>
+                  ))}
                 </span>
               </div>
               <div className="preview-item">
-                <span className="label">Zone:</span>
-                <span className="value">{formData.destinationZone?.toUpperCase() || 'Not selected'}</span>
+                <span className="label">{t('form.summary.zone')}</span>
+                <span className="value">{formData.destinationZone?.toUpperCase() || t('form.summary.notSelected')}</span>
               </div>
               <div className="preview-item">
-                <span className="label">Volume:</span>
+                <span className="label">{t('form.summary.volume')}</span>
                 <span className="value">
-                  {((formData.dimensions.length || 0) * 
-                    (formData.dimensions.width || 0) * 
-                    (formData.dimensions.height || 0) / 1000).toFixed(2)} L
+                  {fromMetricVolume(totalVolume, unitSystem).toLocaleString(intlLocale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}{' '}
+                  {units.volume}
                 </span>
               </div>
               {showValidation && Object.keys(errors).length > 0 && (
                 <div className="preview-item validation-status">
-                  <span className="label">Status:</span>
+                  <span className="label">{t('form.summary.status')}</span>
                   <span className="value error-status">
-                    ❌ {Object.keys(errors).length} Error{Object.keys(errors).length > 1 ? 's' : ''}
+                    {t('form.summary.errors', { count: Object.keys(errors).length })}
                   </span>
                 </div>
               )}
@@ -659,6 +2410,28 @@ const ShippingForm: React.FC = () => {
         </div>
       </div>
 
+      <div className="comparison-controls">
+        <label>
+          <input
+            type="checkbox"
+            checked={compareAllZones}
+            onChange={(e) => setCompareAllZones(e.target.checked)}
+          />
+          {t('form.compare.allZones')}
+        </label>
+        <button
+          type="button"
+          ref={compareButtonRef}
+          onClick={() => compareOptions(compareAllZones)}
+          className="compare-btn"
+          disabled={loading}
+        >
+          {t('form.compare')}
+        </button>
+      </div>
+
+      <ShareQuoteLink />
+
       {/* Full-width buttons at bottom */}
       <div className="form-actions">
         <button 
@@ -666,33 +2439,190 @@ const ShippingForm: React.FC = () => {
           onClick={resetForm}
           className="reset-btn"
         >
-          🔄 Reset Form
+          {t('form.reset')}
         </button>
         
         <button 
           type="button" 
+          ref={calculateButtonRef}
           onClick={calculateShipping}
           className={loading ? 'calculate-btn loading' : 'calculate-btn'}
+          aria-busy={loading}
         >
-          {loading ? '🔄 Calculating...' : '💰 Calculate Shipping Cost'}
+          {loading ? t('form.calculating') : t('form.calculate')}
         </button>
       </div>
     </div>
   );
 };
 
-// Main App Component with Context Provider
+// Field-by-field diff of a past quote against the same shipment priced today
+const QuoteDiff: React.FC<{ changes: QuoteFieldChange[] }> = ({ changes }) => {
+  const { currency, exchangeRates, unitSystem } = useShipping();
+  const { t, intlLocale } = useI18n();
+  const rate = getExchangeRate(exchangeRates, currency);
+
+  const formatValue = (change: QuoteFieldChange, value: number | string | undefined): string => {
+    if (value === undefined) return '—';
+    if (typeof value === 'string') return value;
+    if (change.kind === 'money') return formatMoney(convertAmount(value, rate, currency), currency, intlLocale);
+    const shown = change.kind === 'weight' ? roundTo(fromMetricWeight(value, unitSystem), 3) : value;
+    return `${shown.toLocaleString(intlLocale, { maximumFractionDigits: 3 })}${change.kind === 'weight' ? UNIT_LABELS[unitSystem].weight : ''}`;
+  };
+
+  const changed = changes.filter((change) => change.changed);
+  if (changed.length === 0) {
+    return <p className="history-note">{t('history.noChanges')}</p>;
+  }
+
+  return (
+    <table className="quote-diff">
+      <caption>{t('history.diff.caption')}</caption>
+      <thead>
+        <tr>
+          <th scope="col">{t('history.diff.field')}</th>
+          <th scope="col">{t('history.diff.then')}</th>
+          <th scope="col">{t('history.diff.today')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changed.map((change) => (
+          <tr key={change.field}>
+            <th scope="row">{t(change.label.key, change.label.values)}</th>
+            <td>{formatValue(change, change.before)}</td>
+            <td>{formatValue(change, change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr>
+          <td colSpan={3}>{t('history.diff.unchanged', { count: changes.length - changed.length })}</td>
+        </tr>
+      </tfoot>
+    </table>
+  );
+};
+
+// Past quotes kept in localStorage: load one back into the form, or re-run it at today's prices
+const QuoteHistoryPanel: React.FC = () => {
+  const { history, loadQuote, rerunQuote, clearHistory, currency, exchangeRates, loading } = useShipping();
+  const { t, intlLocale } = useI18n();
+  // The quote last re-run, with the diff against its original price
+  const [rerun, setRerun] = useState<{ entry: QuoteHistoryEntry; changes: QuoteFieldChange[] } | null>(null);
+
+  const rate = getExchangeRate(exchangeRates, currency);
+
+  const rerunEntry = async (entry: QuoteHistoryEntry) => {
+    setRerun(null);
+    const result = await rerunQuote(entry);
+    if (result) {
+      setRerun({ entry, changes: diffQuotes(entry.result, result) });
+    }
+  };
+
+  return (
+    <aside className="quote-history" aria-label={t('history.label')}>
+      <h3>{t('history.title')}</h3>
+      {history.length === 0 ? (
+        <p className="history-note">{t('history.empty')}</p>
+      ) : (
+        <>
+          <ol className="history-list">
+            {history.map((entry, index) => (
+              <li key={entry.id} className="history-entry">
+                <div className="history-summary">
+                  <strong>{formatMoney(convertAmount(entry.result.shippingCost, rate, currency), currency, intlLocale)}</strong>
+                  <span>
+                    {t('history.summary', {
+                      method: entry.formData.shippingMethod.toUpperCase(),
+                      zone: entry.formData.destinationZone.toUpperCase(),
+                      count: entry.formData.packages.length,
+                    })}
+                  </span>
+                  <small>
+                    <time dateTime={entry.savedAt}>{new Date(entry.savedAt).toLocaleString(intlLocale)}</time>
+                    {entry.rateCardVersion && ` · ${t('history.rateCard', { version: entry.rateCardVersion })}`}
+                  </small>
+                </div>
+                <div className="history-actions">
+                  <button type="button" onClick={() => loadQuote(entry)} aria-label={t('history.loadLabel', { number: index + 1 })}>
+                    {t('history.load')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => rerunEntry(entry)}
+                    disabled={loading}
+                    aria-label={t('history.rerunLabel', { number: index + 1 })}
+                  >
+                    {t('history.rerun')}
+                  </button>
+                </div>
+                {rerun?.entry.id === entry.id && <QuoteDiff changes={rerun.changes} />}
+              </li>
+            ))}
+          </ol>
+          <button type="button" onClick={clearHistory} className="clear-history-btn">
+            {t('history.clear')}
+          </button>
+        </>
+      )}
+    </aside>
+  );
+};
+
+// Calculator page: the form with the quote history beside it
+const CalculatorPage: React.FC = () => {
+  return (
+    <div className="calculator-layout">
+      <ShippingForm />
+      <QuoteHistoryPanel />
+    </div>
+  );
+};
+
+// A page that dates shipments or lists transit days, on the delivery calendar in effect
+const CalendarPage: React.FC<{ page: React.ComponentType<{ calendar?: DeliveryCalendar }> }> = ({ page: Page }) => {
+  const { deliveryCalendar } = useShipping();
+  return <Page calendar={deliveryCalendar} />;
+};
+
+// Page layout and routes. The providers sit above the routes so the chosen language and the
+// calculator's form, quote and comparison survive a visit to another page. The calculator and the
+// admin page share one rate card client, so cards published there are quoted on here.
+export const AppRoutes: React.FC<{ rateCardClient?: RateCardClient }> = ({ rateCardClient = defaultRateCardClient }) => {
+  return (
+    <I18nProvider>
+      <ShippingProvider rateCardClient={rateCardClient}>
+        <div className="app-container">
+          <Header />
+          <main className="main-content">
+            <Routes>
+              <Route path="/" element={<CalculatorPage />} />
+              <Route path="/batch" element={<CalendarPage page={BatchQuotePage} />} />
+              <Route path="/tracking" element={<TrackingView />} />
+              <Route path="/tracking/:trackingNumber" element={<TrackingView />} />
+              <Route path="/services" element={<CalendarPage page={ServicesPage} />} />
+              <Route path="/contact" element={<ContactPage />} />
+              <Route path="/admin/rate-cards" element={<RateCardEditorPage client={rateCardClient} />} />
+              <Route path="*" element={<NotFoundPage />} />
+            </Routes>
+          </main>
+          <Footer />
+        </div>
+      </ShippingProvider>
+    </I18nProvider>
+  );
+};
+
+// Opt in to React Router v7 behaviour now so the upgrade is a no-op
+export const ROUTER_FUTURE_FLAGS = { v7_startTransition: true, v7_relativeSplatPath: true };
+
+// Main App Component
 const ShippingCalculatorApp: React.FC = () => {
   return (
-    <ShippingProvider>
-      <div className="app-container">
-        <Header />
-        <main className="main-content">
-          <ShippingForm />
-        </main>
-        <Footer />
-      </div>
-    </ShippingProvider>
+    <BrowserRouter future={ROUTER_FUTURE_FLAGS}>
+      <AppRoutes />
+    </BrowserRouter>
   );
 };
 
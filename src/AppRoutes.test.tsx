@@ -0,0 +1,610 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { AppRoutes, ROUTER_FUTURE_FLAGS } from './App';
+import { calculateQuote } from './pricing/engine';
+import { RATE_CARDS, RateCard } from './pricing/rateCard';
+import { calculatePromotedQuote } from './pricing/promoCodes';
+import { createRateCardStore } from './pricing/rateCardStore';
+import { createRateCardClient } from './api/rateCardClient';
+import { CALCULATE_SHIPPING_PATH, DELIVERY_CALENDAR_PATH, RATE_CARDS_PATH, ShippingFormData, ShippingResult } from './types';
+import { DELIVERY_CALENDAR } from './delivery/deliveryDate';
+import { QUOTE_HISTORY_STORAGE_KEY } from './history/quoteHistory';
+
+/**
+ * COMPONENT TESTS: Page routing
+ *
+ * PURPOSE: Check that each URL shows its page, the header marks the current
+ * page, unknown URLs get a not-found page, calculator input survives a
+ * visit to another page, shared quote links fill in the calculator, the
+ * zone is worked out from the addresses, add-ons follow the method and zone, the
+ * quote on screen can be downloaded, a quote loaded from the history keeps its
+ * delivery dates, live quotes keep a running price, box
+ * presets fill in a package and are kept, the form follows the rate card the
+ * pricing service has in effect (including one just published from the admin
+ * page), and the language can be switched.
+ */
+
+// The pricing service: the bundled rate cards and delivery calendar, and quotes priced by `price`
+// on the card in effect
+const mockPricingService = (price: (formData: ShippingFormData, rateCard: RateCard) => ShippingResult) => {
+  global.fetch = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) =>
+    ({
+      ok: true,
+      status: 200,
+      json: async () =>
+        url === RATE_CARDS_PATH
+          ? createRateCardStore().list()
+          : url === DELIVERY_CALENDAR_PATH
+          ? DELIVERY_CALENDAR
+          : price(JSON.parse(String(init?.body)), RATE_CARDS[2]),
+    } as Response)
+  );
+};
+
+// The calculator also asks for the rate card in effect when it opens
+const quoteRequests = () => (global.fetch as jest.Mock).mock.calls.filter(([url]) => url === CALCULATE_SHIPPING_PATH);
+
+describe('App routes', () => {
+  const renderAt = (path: string) =>
+    render(
+      <MemoryRouter initialEntries={[path]} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+  const navLink = (name: string) => screen.getByRole('link', { name });
+
+  test('shows the page for each nav entry and marks it active', () => {
+    renderAt('/services');
+
+    expect(screen.getByRole('heading', { name: /our services/i })).toBeInTheDocument();
+    expect(navLink('Services')).toHaveClass('active');
+    expect(navLink('Calculator')).not.toHaveClass('active');
+
+    fireEvent.click(navLink('Contact'));
+    expect(screen.getByRole('heading', { name: /contact us/i })).toBeInTheDocument();
+    expect(navLink('Contact')).toHaveClass('active');
+
+    fireEvent.click(navLink('Tracking'));
+    expect(screen.getByRole('heading', { name: /track your shipment/i })).toBeInTheDocument();
+    expect(navLink('Tracking')).toHaveClass('active');
+  });
+
+  test('shows a not-found page for unknown URLs', () => {
+    renderAt('/no-such-page');
+
+    expect(screen.getByRole('heading', { name: /page not found/i })).toBeInTheDocument();
+    expect(screen.getByText('/no-such-page')).toBeInTheDocument();
+  });
+
+  test('keeps calculator input when navigating away and back', () => {
+    renderAt('/');
+
+    fireEvent.change(screen.getByLabelText(/weight/i), { target: { value: '4.5' } });
+
+    fireEvent.click(navLink('Services'));
+    expect(screen.queryByLabelText(/weight/i)).not.toBeInTheDocument();
+
+    fireEvent.click(navLink('Calculator'));
+    expect(screen.getByLabelText(/weight/i)).toHaveValue('4.5');
+  });
+});
+
+describe('shared quote links', () => {
+  const renderAt = (path: string) =>
+    render(
+      <MemoryRouter initialEntries={[path]} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockPricingService(calculateQuote);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('fills in the calculator and prices the shipment', async () => {
+    renderAt('/?v=1&m=express&z=domestic&p=2x30x20x10&run=1');
+
+    expect(screen.getByLabelText(/shipping method/i)).toHaveValue('express');
+    expect(screen.getByLabelText(/weight/i)).toHaveValue('2');
+    expect(await screen.findByText(/total cost/i)).toBeInTheDocument();
+    expect(screen.getByText(/📅 arrives by \w{3} \d{1,2} \w{3}/i)).toBeInTheDocument();
+  });
+
+  test('shows out-of-range values as validation errors instead of pricing them', () => {
+    renderAt('/?v=1&m=overnight&z=local&p=8x30x20x10&run=1');
+
+    expect(screen.getByLabelText(/weight/i)).toHaveAccessibleDescription(/^Weight cannot exceed 5kg for overnight shipping/);
+    expect(quoteRequests()).toHaveLength(0);
+  });
+
+  test('explains links that cannot be read', () => {
+    renderAt('/?v=1&m=teleport&z=local&p=1x1x1x1');
+
+    expect(screen.getByText(/this quote link can't be used: the shipping method is not recognised/i)).toBeInTheDocument();
+  });
+
+  test('builds a link for the current shipment', async () => {
+    renderAt('/?v=1&m=express&z=domestic&p=2x30x20x10');
+
+    fireEvent.click(screen.getByRole('button', { name: /share quote link/i }));
+
+    expect(await screen.findByLabelText(/shareable quote link/i)).toHaveValue(
+      `${window.location.origin}/?v=1&m=express&z=domestic&p=2x30x20x10&run=1`
+    );
+  });
+});
+
+describe('addresses', () => {
+  const originalStaffTools = process.env.REACT_APP_STAFF_TOOLS;
+
+  const renderCalculator = () =>
+    render(
+      <MemoryRouter initialEntries={['/']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+  const enterAddresses = (originPostcode: string, destinationCountry: string, destinationPostcode: string) => {
+    fireEvent.change(screen.getByLabelText(/origin postcode/i), { target: { value: originPostcode } });
+    fireEvent.change(screen.getByLabelText(/destination country/i), { target: { value: destinationCountry } });
+    fireEvent.change(screen.getByLabelText(/destination postcode/i), { target: { value: destinationPostcode } });
+  };
+
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    process.env.REACT_APP_STAFF_TOOLS = originalStaffTools;
+    jest.restoreAllMocks();
+  });
+
+  test('works out the destination zone from the postcodes', () => {
+    renderCalculator();
+
+    expect(screen.getByLabelText(/^destination zone/i)).toHaveTextContent('—');
+
+    enterAddresses('10001', 'GB', 'SW1A 1AA');
+    expect(screen.getByLabelText(/^destination zone/i)).toHaveTextContent('International');
+    expect(screen.getByText('New York & Pennsylvania, United States → London, United Kingdom')).toBeInTheDocument();
+
+    enterAddresses('10001', 'US', '10016');
+    expect(screen.getByLabelText(/^destination zone/i)).toHaveTextContent('Local');
+    expect(screen.queryByRole('checkbox', { name: /override zone/i })).not.toBeInTheDocument();
+  });
+
+  test('checks postcodes against the country format', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    renderCalculator();
+
+    enterAddresses('10001', 'GB', '12345');
+    fireEvent.click(screen.getByRole('button', { name: /calculate shipping cost/i }));
+
+    expect(screen.getByLabelText(/destination postcode/i)).toHaveAccessibleDescription('Enter a valid United Kingdom postcode, e.g. SW1A 1AA');
+  });
+
+  test('lets staff choose the zone by hand', () => {
+    process.env.REACT_APP_STAFF_TOOLS = 'true';
+    renderCalculator();
+
+    enterAddresses('10001', 'US', '10016');
+    fireEvent.click(screen.getByRole('checkbox', { name: /override zone/i }));
+    fireEvent.change(screen.getByLabelText(/^destination zone/i), { target: { value: 'domestic' } });
+
+    expect(screen.getByLabelText(/^destination zone/i)).toHaveValue('domestic');
+    expect(screen.getByText('Set by staff')).toBeInTheDocument();
+  });
+});
+
+describe('add-on services', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockPricingService(calculateQuote);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('offers add-ons for the method and prices each as its own line', async () => {
+    render(
+      <MemoryRouter initialEntries={['/?v=1&m=express&z=domestic&p=2x30x20x10']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+    const saturday = screen.getByRole('checkbox', { name: /saturday delivery/i });
+    fireEvent.change(screen.getByLabelText(/shipping method/i), { target: { value: 'standard' } });
+    expect(saturday).toBeDisabled();
+    fireEvent.change(screen.getByLabelText(/shipping method/i), { target: { value: 'express' } });
+    expect(saturday).toBeEnabled();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: /signature on delivery/i }));
+    fireEvent.click(screen.getByRole('checkbox', { name: /declared-value insurance/i }));
+    fireEvent.change(screen.getByLabelText(/^declared value/i), { target: { value: '400' } });
+    fireEvent.click(screen.getByRole('button', { name: /calculate shipping cost/i }));
+
+    expect(await screen.findByText('• Signature on delivery: +$4.50')).toBeInTheDocument();
+    expect(screen.getByText('• Declared-value insurance: +$6.00')).toBeInTheDocument();
+  });
+});
+
+describe('promo codes', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockPricingService(calculatePromotedQuote);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('shows an accepted code as a negative line', async () => {
+    render(
+      <MemoryRouter initialEntries={['/?v=1&m=express&z=domestic&p=2x30x20x10']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByLabelText(/promo code/i), { target: { value: 'welcome10' } });
+    expect(screen.getByLabelText(/promo code/i)).toHaveValue('WELCOME10');
+    fireEvent.click(screen.getByRole('button', { name: /calculate shipping cost/i }));
+
+    expect(await screen.findByText('• Promo WELCOME10 (10% off your shipment): -$5.11')).toBeInTheDocument();
+  });
+
+  test('gives the reason a code is rejected next to the field', () => {
+    render(
+      <MemoryRouter initialEntries={['/?v=1&m=express&z=domestic&p=2x30x20x10']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByLabelText(/promo code/i), { target: { value: 'NOPE' } });
+    fireEvent.click(screen.getByRole('button', { name: /calculate shipping cost/i }));
+
+    expect(screen.getByLabelText(/promo code/i)).toHaveAccessibleDescription('Promo code NOPE is not recognised');
+    expect(quoteRequests()).toHaveLength(0);
+  });
+});
+
+describe('quote export', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockPricingService(calculateQuote);
+    // jsdom has no object URLs
+    URL.createObjectURL = jest.fn(() => 'blob:quote');
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('downloads the quote on screen as CSV and JSON under its quote ID', async () => {
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    render(
+      <MemoryRouter initialEntries={['/?v=1&m=express&z=domestic&p=2x30x20x10&run=1']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+    const quoteId = (await screen.findByText(/quote id:/i)).textContent!.replace('Quote ID: ', '');
+    expect(quoteId).toMatch(/^ZZZ-\d{8}-[A-Z0-9]+$/);
+
+    fireEvent.click(screen.getByRole('button', { name: /download csv/i }));
+    fireEvent.click(screen.getByRole('button', { name: /download json/i }));
+
+    const [csvLink, jsonLink] = click.mock.instances as unknown as HTMLAnchorElement[];
+    expect(csvLink.download).toBe(`zzz-shipping-quote-${quoteId}.csv`);
+    expect(jsonLink.download).toBe(`zzz-shipping-quote-${quoteId}.json`);
+    expect(URL.createObjectURL).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('quote history', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockPricingService(calculateQuote);
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  test('shows a loaded quote with the delivery dates from when it was quoted', () => {
+    const formData: ShippingFormData = {
+      shippingMethod: 'express',
+      destinationZone: 'domestic',
+      packages: [{ weight: 2, dimensions: { length: 30, width: 20, height: 10 } }],
+    };
+    // Tuesday 25 November 2025, before the cutoff: dispatched that day, then three business days
+    // around Thanksgiving
+    const savedAt = new Date(2025, 10, 25, 10, 0).toISOString();
+    const entry = { id: 'quote-1', savedAt, formData, result: calculateQuote(formData, RATE_CARDS[2]), rateCardVersion: RATE_CARDS[2].version };
+    window.localStorage.setItem(QUOTE_HISTORY_STORAGE_KEY, JSON.stringify([entry]));
+    render(
+      <MemoryRouter future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Load quote 1' }));
+
+    expect(screen.getByText('📅 Arrives by Mon 1 Dec')).toBeInTheDocument();
+  });
+});
+
+describe('live quotes', () => {
+  const renderCalculator = () =>
+    render(
+      <MemoryRouter initialEntries={['/?v=1&m=express&z=domestic&p=2x30x20x10']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+  const priceFor = (weight: number) =>
+    `$${calculateQuote(
+      { shippingMethod: 'express', destinationZone: 'domestic', packages: [{ weight, dimensions: { length: 30, width: 20, height: 10 } }] },
+      RATE_CARDS[2]
+    ).shippingCost.toFixed(2)}`;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockPricingService(calculateQuote);
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  test('shows a running price in the summary and reuses quotes for the same shipment', async () => {
+    renderCalculator();
+    expect(screen.queryByText('Price:')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: /live prices/i }));
+    expect(await screen.findByText(priceFor(2))).toBeInTheDocument();
+    expect(window.localStorage.getItem('zzzShipping.liveQuotes')).toBe('on');
+
+    fireEvent.change(screen.getByLabelText(/weight/i), { target: { value: '3' } });
+    expect(await screen.findByText(priceFor(3))).toBeInTheDocument();
+
+    // Back to a shipment priced a moment ago: straight from the cache
+    fireEvent.change(screen.getByLabelText(/weight/i), { target: { value: '2' } });
+    expect(screen.getByText(priceFor(2))).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /calculate shipping cost/i }));
+    expect(await screen.findByText(/total cost/i)).toBeInTheDocument();
+
+    expect(quoteRequests()).toHaveLength(2);
+  });
+
+  test('waits for typing to pause and only prices valid shipments', async () => {
+    window.localStorage.setItem('zzzShipping.liveQuotes', 'on');
+    renderCalculator();
+    expect(await screen.findByText(priceFor(2))).toBeInTheDocument();
+
+    ['4', '4.', '4.5', ''].forEach((value) => fireEvent.change(screen.getByLabelText(/weight/i), { target: { value } }));
+    expect(screen.getByText('Complete the form for a price')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/weight/i), { target: { value: '3' } });
+    expect(await screen.findByText(priceFor(3))).toBeInTheDocument();
+    expect(quoteRequests()).toHaveLength(2);
+  });
+});
+
+describe('rate card in effect', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("checks shipments against the weight limits of the pricing service's card", async () => {
+    const published = {
+      ...RATE_CARDS[2],
+      version: '2026.1',
+      effectiveDate: '2026-01-01',
+      weightLimits: { minKg: 0.1, maxKg: { standard: 30, express: 20, overnight: 10 } },
+    };
+    global.fetch = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) =>
+      ({
+        ok: true,
+        status: 200,
+        json: async () =>
+          url === RATE_CARDS_PATH
+            ? { activeVersion: '2026.1', cards: [...RATE_CARDS, published] }
+            : url === DELIVERY_CALENDAR_PATH
+            ? DELIVERY_CALENDAR
+            : calculateQuote(JSON.parse(String(init?.body)), published),
+      } as Response)
+    );
+    render(
+      <MemoryRouter initialEntries={['/?v=1&m=overnight&z=local&p=2x30x20x10']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByText('(Limit: 0.1kg - 10kg)')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText(/weight/i), { target: { value: '8' } });
+    fireEvent.click(screen.getByRole('button', { name: /calculate shipping cost/i }));
+
+    expect(await screen.findByText(/total cost/i)).toBeInTheDocument();
+    expect(quoteRequests()).toHaveLength(1);
+  });
+
+  test('quotes on a card published from the admin page', async () => {
+    render(
+      <MemoryRouter initialEntries={['/admin/rate-cards']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes rateCardClient={createRateCardClient({ mode: 'mock' })} />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(await screen.findByLabelText('Overnight max weight'), { target: { value: '10' } });
+    fireEvent.click(screen.getByRole('button', { name: /publish as/i }));
+    expect(await screen.findByText(/✅ Published version/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('link', { name: 'Calculator' }));
+    fireEvent.change(screen.getByLabelText(/shipping method/i), { target: { value: 'overnight' } });
+
+    expect(await screen.findByText(/- 10kg\)$/)).toBeInTheDocument();
+  });
+
+  test('lists transit days published from the admin page', async () => {
+    render(
+      <MemoryRouter initialEntries={['/admin/rate-cards']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes rateCardClient={createRateCardClient({ mode: 'mock' })} />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(await screen.findByLabelText('Overnight Local most transit days'), { target: { value: '2' } });
+    fireEvent.click(screen.getByRole('button', { name: /publish transit days/i }));
+    expect(await screen.findByText(/✅ Published delivery calendar/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('link', { name: 'Services' }));
+
+    // Standard, express, then overnight
+    await waitFor(() => expect(screen.getAllByText(/^Delivery Local:/)[2]).toHaveTextContent('Delivery Local: 1-2 business days'));
+  });
+});
+
+describe('box presets', () => {
+  const renderCalculator = () =>
+    render(
+      <MemoryRouter initialEntries={['/?v=1&m=express&z=domestic&p=2x30x20x10']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // jsdom has no object URLs
+    URL.createObjectURL = jest.fn(() => 'blob:presets');
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  test('fills in a package from a standard box and flags one too heavy for the method', () => {
+    renderCalculator();
+    const picker = screen.getByLabelText(/box preset/i);
+    expect(screen.getByRole('option', { name: /^Carton L – 60 × 40 × 40 cm, 15 kg ⚠️$/ })).toBeInTheDocument();
+
+    fireEvent.change(picker, { target: { value: 'carton-l' } });
+    expect(screen.getByLabelText(/weight/i)).toHaveValue('15');
+    expect(screen.getByLabelText(/length/i)).toHaveValue('60');
+    expect(screen.getByLabelText(/height/i)).toHaveValue('40');
+    expect(picker).toHaveValue('carton-l');
+    expect(picker).toHaveAccessibleDescription('Carton L at 15 kg is over the Express shipping limit of 10 kg');
+
+    // Once the package is changed it's no longer the preset
+    fireEvent.change(screen.getByLabelText(/weight/i), { target: { value: '9' } });
+    expect(picker).toHaveValue('');
+    expect(picker).not.toHaveAccessibleDescription();
+  });
+
+  test('saves a package as a preset that lasts between visits and moves between browsers as a file', async () => {
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const { unmount } = renderCalculator();
+    fireEvent.click(screen.getByRole('button', { name: 'Save package 1 as a preset' }));
+    fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: 'Mug box' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    unmount();
+
+    renderCalculator();
+    expect(screen.getByRole('option', { name: 'Mug box – 30 × 20 × 10 cm, 2 kg, Express' })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /export presets/i }));
+    expect((click.mock.instances[0] as unknown as HTMLAnchorElement).download).toMatch(/^package-presets-\d{4}-\d{2}-\d{2}\.json$/);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete preset Mug box' }));
+    expect(screen.queryByRole('option', { name: /mug box/i })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /export presets/i })).toBeDisabled();
+
+    const file = (text: string, name: string) => new File([text], name, { type: 'application/json' });
+    const presetsFile = JSON.stringify({ version: 1, presets: [{ name: 'Mug box', dimensions: { length: 30, width: 20, height: 10 }, weight: 2 }] });
+    fireEvent.change(screen.getByLabelText(/import presets/i), { target: { files: [file(presetsFile, 'presets.json')] } });
+    expect(await screen.findByText('✅ Imported 1 preset')).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Mug box – 30 × 20 × 10 cm, 2 kg' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/import presets/i), { target: { files: [file('{"presets": "all"}', 'broken.json')] } });
+    expect(await screen.findByText('broken.json could not be imported: The file has no presets list')).toBeInTheDocument();
+  });
+});
+
+describe('language', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  test('switches the calculator and its validation messages to another language', () => {
+    const { unmount } = render(
+      <MemoryRouter initialEntries={['/']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /calculate shipping cost/i }));
+    expect(screen.getByLabelText(/weight/i)).toHaveAccessibleDescription(/^Weight must be a positive number/);
+    expect(screen.getByRole('heading', { name: /^❌ Please fix \d+ validation errors before/ })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/language/i), { target: { value: 'de' } });
+
+    expect(screen.getByRole('link', { name: 'Rechner' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /versandkosten berechnen/i })).toBeInTheDocument();
+    // Errors already shown are reworded
+    expect(screen.getByLabelText(/gewicht/i)).toHaveAccessibleDescription(/^Gewicht muss eine positive Zahl sein/);
+    expect(screen.getByText(/^❌ \d+ Fehler$/)).toBeInTheDocument();
+    expect(document.documentElement.lang).toBe('de');
+
+    // The choice is remembered
+    unmount();
+    render(
+      <MemoryRouter initialEntries={['/']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+    expect(screen.getByLabelText(/sprache/i)).toHaveValue('de');
+  });
+
+  test('reads decimal commas in number inputs', () => {
+    window.localStorage.setItem('zzzShipping.locale', 'de');
+    render(
+      <MemoryRouter initialEntries={['/']} future={ROUTER_FUTURE_FLAGS}>
+        <AppRoutes />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByLabelText(/gewicht \(kg\)/i), { target: { value: '2,5' } });
+
+    expect(screen.getByLabelText(/gewicht \(kg\)/i)).toHaveValue('2,5');
+    expect(screen.getByText('2,5 kg')).toBeInTheDocument();
+    expect(screen.getByText('(Grenze: 0,1 kg – 20 kg)')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,117 @@
+import { ADD_ON_IDS, AddOnId, ApiErrorResponse, DESTINATION_ZONES, ExchangeRateTable, SHIPPING_METHODS, ShippingFormData, ShippingResult, TRACKING_STATUSES, TrackingInfo, ValidationErrors } from '../types';
+
+// Runtime checks for API payloads - the server is another process, so its JSON is untrusted
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isStringRecord = (value: unknown): value is ValidationErrors =>
+  isObject(value) && Object.values(value).every((message) => typeof message === 'string');
+
+// Returns the result if it matches the ShippingResult contract, otherwise null
+export const decodeShippingResult = (body: unknown): ShippingResult | null => {
+  if (!isObject(body) || !isObject(body.breakdown)) return null;
+  const { breakdown } = body;
+
+  const validPackage = (pkg: unknown) =>
+    isObject(pkg) &&
+    ['sizeMultiplier', 'weightSurcharge', 'weight', 'volumetricWeight', 'chargeableWeight', 'cost'].every((key) => isNumber(pkg[key])) &&
+    typeof pkg.packageSizeCategory === 'string' &&
+    ['actual', 'volumetric'].includes(pkg.weightBasis);
+
+  const validAddOn = (addOn: unknown) =>
+    isObject(addOn) && ADD_ON_IDS.includes(addOn.id) && typeof addOn.label === 'string' && isNumber(addOn.cost);
+
+  const validPromo = (promo: unknown) =>
+    isObject(promo) && typeof promo.code === 'string' && typeof promo.description === 'string' && isNumber(promo.amount);
+
+  const validAccount = (account: unknown) =>
+    isObject(account) &&
+    typeof account.accountNumber === 'string' &&
+    typeof account.name === 'string' &&
+    isNumber(account.percent) &&
+    isNumber(account.amount);
+
+  const valid =
+    isNumber(body.shippingCost) &&
+    isNumber(body.estimatedDeliveryDays) &&
+    (body.rateCardVersion === undefined || typeof body.rateCardVersion === 'string') &&
+    ['baseRate', 'zoneMultiplier', 'subtotal', 'multiPieceDiscount'].every((key) => isNumber(breakdown[key])) &&
+    ['shippingMethod', 'destinationZone'].every((key) => typeof breakdown[key] === 'string') &&
+    Array.isArray(breakdown.packages) &&
+    breakdown.packages.length > 0 &&
+    breakdown.packages.every(validPackage) &&
+    (breakdown.addOns === undefined || (Array.isArray(breakdown.addOns) && breakdown.addOns.every(validAddOn))) &&
+    (breakdown.accountDiscount === undefined || validAccount(breakdown.accountDiscount)) &&
+    (breakdown.promoDiscount === undefined || validPromo(breakdown.promoDiscount));
+
+  return valid ? (body as ShippingResult) : null;
+};
+
+const isAddress = (value: unknown): boolean =>
+  isObject(value) && typeof value.country === 'string' && typeof value.postcode === 'string';
+
+// Returns the shipment if it matches the ShippingFormData shape, otherwise null
+export const decodeShippingFormData = (body: unknown): ShippingFormData | null => {
+  if (!isObject(body) || !Array.isArray(body.packages)) return null;
+
+  const valid =
+    SHIPPING_METHODS.includes(body.shippingMethod) &&
+    DESTINATION_ZONES.includes(body.destinationZone) &&
+    body.packages.every((pkg: unknown) =>
+      isObject(pkg) && isNumber(pkg.weight) && isObject(pkg.dimensions) &&
+      ['length', 'width', 'height'].every((key) => isNumber(pkg.dimensions[key]))
+    ) &&
+    (body.origin === undefined || isAddress(body.origin)) &&
+    (body.destination === undefined || isAddress(body.destination)) &&
+    (body.zoneOverride === undefined || typeof body.zoneOverride === 'boolean') &&
+    (body.addOns === undefined || (Array.isArray(body.addOns) && body.addOns.every((id: unknown) => ADD_ON_IDS.includes(id as AddOnId)))) &&
+    (body.declaredValue === undefined || isNumber(body.declaredValue)) &&
+    (body.promoCode === undefined || typeof body.promoCode === 'string') &&
+    (body.accountNumber === undefined || typeof body.accountNumber === 'string');
+
+  return valid ? (body as ShippingFormData) : null;
+};
+
+const isIsoDate = (value: unknown): value is string => typeof value === 'string' && !isNaN(Date.parse(value));
+
+// Returns the tracking info if it matches the TrackingInfo contract, otherwise null
+export const decodeTrackingInfo = (body: unknown): TrackingInfo | null => {
+  if (!isObject(body) || !Array.isArray(body.events)) return null;
+
+  const valid =
+    typeof body.trackingNumber === 'string' &&
+    SHIPPING_METHODS.includes(body.shippingMethod) &&
+    DESTINATION_ZONES.includes(body.destinationZone) &&
+    (body.estimatedDelivery === undefined || isIsoDate(body.estimatedDelivery)) &&
+    body.events.every((event: unknown) =>
+      isObject(event) && TRACKING_STATUSES.includes(event.status) && isIsoDate(event.timestamp) && typeof event.location === 'string'
+    );
+
+  return valid ? (body as TrackingInfo) : null;
+};
+
+// Returns the exchange-rate table if it matches the ExchangeRateTable contract, otherwise null
+export const decodeExchangeRates = (body: unknown): ExchangeRateTable | null => {
+  if (!isObject(body) || !isObject(body.rates)) return null;
+
+  const valid =
+    typeof body.base === 'string' &&
+    isIsoDate(body.asOf) &&
+    body.rates[body.base] === 1 &&
+    Object.values(body.rates).every((rate) => isNumber(rate) && rate > 0);
+
+  return valid ? (body as ExchangeRateTable) : null;
+};
+
+// Returns the structured error body of a failed request, or null if it has none
+export const decodeApiError = (body: unknown): ApiErrorResponse | null => {
+  if (!isObject(body) || typeof body.message !== 'string') return null;
+  if (body.fieldErrors !== undefined && !isStringRecord(body.fieldErrors)) return null;
+  if (body.formErrors !== undefined && !(Array.isArray(body.formErrors) && body.formErrors.every((e: unknown) => typeof e === 'string'))) {
+    return null;
+  }
+  return body as ApiErrorResponse;
+};
@@ -0,0 +1,49 @@
+import { createExchangeRateClient } from './exchangeRateClient';
+import { BUNDLED_EXCHANGE_RATES } from '../currency/exchangeRates';
+
+/**
+ * UNIT TESTS: Exchange-rate API client
+ *
+ * PURPOSE: Check that refreshed rates come from the API when it answers and
+ * that the bundled table is used when it can't, or sends something invalid.
+ */
+const jsonResponse = (status: number, body: unknown) =>
+  ({ ok: status >= 200 && status < 300, status, json: async () => body } as Response);
+
+describe('createExchangeRateClient', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('live mode fetches the exchange-rate endpoint', async () => {
+    const published = { base: 'USD', asOf: '2025-11-03', rates: { USD: 1, EUR: 0.87 } };
+    fetchMock.mockResolvedValue(jsonResponse(200, published));
+
+    const table = await createExchangeRateClient({ mode: 'live' }).getExchangeRates();
+
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/exchange-rates');
+    expect(table).toEqual({ ...published, source: 'live' });
+  });
+
+  test('falls back to the bundled rates when the API is unreachable', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const table = await createExchangeRateClient({ mode: 'live-with-fallback', retries: 0 }).getExchangeRates();
+
+    expect(table).toEqual({ ...BUNDLED_EXCHANGE_RATES, source: 'fallback' });
+  });
+
+  test('rejects rate tables that are not in the contract', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { base: 'USD', asOf: '2025-11-03', rates: { USD: 1, EUR: -1 } }));
+
+    await expect(createExchangeRateClient({ mode: 'live' }).getExchangeRates()).rejects.toThrow('invalid rates');
+  });
+});
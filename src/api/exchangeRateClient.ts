@@ -0,0 +1,27 @@
+import { EXCHANGE_RATES_PATH, ExchangeRateTable } from '../types';
+import { BUNDLED_EXCHANGE_RATES } from '../currency/exchangeRates';
+import { decodeExchangeRates } from './decode';
+import { ApiClientConfig, DEFAULT_CLIENT_CONFIG, requestJson, ShippingApiError, withFallback } from './request';
+
+export interface ExchangeRateClient {
+  getExchangeRates: (signal?: AbortSignal) => Promise<ExchangeRateTable>;
+}
+
+export const createExchangeRateClient = (overrides: Partial<ApiClientConfig> = {}): ExchangeRateClient => {
+  const config: ApiClientConfig = { ...DEFAULT_CLIENT_CONFIG, ...overrides };
+
+  const fetchRates = async (signal?: AbortSignal): Promise<ExchangeRateTable> => {
+    const body = await requestJson(EXCHANGE_RATES_PATH, { method: 'GET' }, config, signal);
+
+    const table = decodeExchangeRates(body);
+    if (!table) {
+      throw new ShippingApiError('The exchange-rate service returned invalid rates');
+    }
+    return { ...table, source: 'live' };
+  };
+
+  return {
+    getExchangeRates: (signal) =>
+      withFallback(config, () => fetchRates(signal), (source) => ({ ...BUNDLED_EXCHANGE_RATES, source })),
+  };
+};
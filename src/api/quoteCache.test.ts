@@ -0,0 +1,104 @@
+import { createQuoteCache, quoteCacheKey, withQuoteCache } from './quoteCache';
+import { ShippingClient } from './shippingClient';
+import { calculateQuote } from '../pricing/engine';
+import { RATE_CARDS } from '../pricing/rateCard';
+import { ShippingFormData, ShippingResult } from '../types';
+
+/**
+ * UNIT TESTS: Quote cache
+ *
+ * PURPOSE: Check that shipments priced the same share a cache key, that the least
+ * recently used quote is dropped when the cache is full and old quotes expire, and
+ * that a cached client only asks the pricing service once per shipment.
+ */
+const shipment: ShippingFormData = {
+  shippingMethod: 'express',
+  packages: [{ weight: 2, dimensions: { length: 30, width: 20, height: 10 } }],
+  destinationZone: 'domestic',
+  origin: { country: 'GB', postcode: 'SW1A 1AA' },
+  destination: { country: 'GB', postcode: 'M1 1AE' },
+  addOns: ['signature', 'fragile'],
+  promoCode: 'WELCOME10',
+};
+
+const quote = (formData: ShippingFormData, source: ShippingResult['source'] = 'live'): ShippingResult => ({
+  ...calculateQuote(formData, RATE_CARDS[2]),
+  source,
+});
+
+describe('quoteCacheKey', () => {
+  test('is the same for shipments that are priced the same', () => {
+    const sameShipment: ShippingFormData = {
+      ...shipment,
+      packages: [{ weight: 2.00000001, dimensions: { length: 30, width: 20, height: 10 } }],
+      destination: { country: 'gb', postcode: ' m1  1ae ' },
+      addOns: ['fragile', 'signature'],
+      promoCode: ' welcome10',
+      declaredValue: undefined,
+    };
+    expect(quoteCacheKey(sameShipment)).toBe(quoteCacheKey(shipment));
+  });
+
+  test('differs when anything priced differs', () => {
+    const key = quoteCacheKey(shipment);
+    expect(quoteCacheKey({ ...shipment, shippingMethod: 'standard' })).not.toBe(key);
+    expect(quoteCacheKey({ ...shipment, packages: [...shipment.packages, shipment.packages[0]] })).not.toBe(key);
+    expect(quoteCacheKey({ ...shipment, addOns: ['signature'] })).not.toBe(key);
+    expect(quoteCacheKey({ ...shipment, promoCode: undefined })).not.toBe(key);
+    expect(quoteCacheKey({ ...shipment, declaredValue: 400 })).not.toBe(key);
+  });
+});
+
+describe('createQuoteCache', () => {
+  const shipments = [1, 2, 3].map((weight): ShippingFormData => ({ ...shipment, packages: [{ ...shipment.packages[0], weight }] }));
+
+  test('drops the least recently used quote when full', () => {
+    const cache = createQuoteCache({ maxEntries: 2 });
+    cache.set(shipments[0], quote(shipments[0]));
+    cache.set(shipments[1], quote(shipments[1]));
+    // Reading the first makes the second the least recently used
+    expect(cache.get(shipments[0])).toEqual(quote(shipments[0]));
+    cache.set(shipments[2], quote(shipments[2]));
+
+    expect(cache.size()).toBe(2);
+    expect(cache.get(shipments[1])).toBeUndefined();
+    expect(cache.get(shipments[0])).toBeDefined();
+    expect(cache.get(shipments[2])).toBeDefined();
+  });
+
+  test('stops reusing quotes once they are too old', () => {
+    let now = 0;
+    const cache = createQuoteCache({ maxAgeMs: 1000 }, () => now);
+    cache.set(shipment, quote(shipment));
+
+    now = 1000;
+    expect(cache.get(shipment)).toBeDefined();
+    now = 1001;
+    expect(cache.get(shipment)).toBeUndefined();
+    expect(cache.size()).toBe(0);
+  });
+});
+
+describe('withQuoteCache', () => {
+  test('asks the pricing service once per shipment', async () => {
+    const client: ShippingClient = { calculateShipping: jest.fn(async (formData) => quote(formData)) };
+    const cached = withQuoteCache(client, createQuoteCache());
+
+    const first = await cached.calculateShipping(shipment);
+    const again = await cached.calculateShipping({ ...shipment, addOns: ['fragile', 'signature'] });
+    await cached.calculateShipping({ ...shipment, shippingMethod: 'standard' });
+
+    expect(again).toBe(first);
+    expect(client.calculateShipping).toHaveBeenCalledTimes(2);
+  });
+
+  test('does not keep local estimates made while the service was down', async () => {
+    const client: ShippingClient = { calculateShipping: jest.fn(async (formData) => quote(formData, 'fallback')) };
+    const cached = withQuoteCache(client, createQuoteCache());
+
+    await cached.calculateShipping(shipment);
+    await cached.calculateShipping(shipment);
+
+    expect(client.calculateShipping).toHaveBeenCalledTimes(2);
+  });
+});
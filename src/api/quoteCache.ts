@@ -0,0 +1,96 @@
+import { Address, ShippingFormData, ShippingResult } from '../types';
+import { normalisePromoCode } from '../pricing/promoCodes';
+import { normaliseAccountNumber } from '../pricing/accounts';
+import { ShippingClient } from './shippingClient';
+
+// In-memory cache of recent quotes, so pricing the same shipment again (live quotes while
+// typing, a second click, a comparison) doesn't go back to the pricing service.
+// The least recently used quote is dropped once the cache is full, and quotes older than
+// maxAgeMs are not reused: prices follow the rate card in effect.
+
+export interface QuoteCacheOptions {
+  maxEntries: number;
+  maxAgeMs: number;
+}
+
+export const DEFAULT_QUOTE_CACHE_OPTIONS: QuoteCacheOptions = {
+  maxEntries: 50,
+  maxAgeMs: 5 * 60 * 1000,
+};
+
+export interface QuoteCache {
+  get: (formData: ShippingFormData) => ShippingResult | undefined;
+  set: (formData: ShippingFormData, result: ShippingResult) => void;
+  clear: () => void;
+  size: () => number;
+}
+
+// Unit conversion leaves values like 2.0000000001 kg; they price the same as 2
+const roundValue = (value: number | undefined): number | null =>
+  typeof value === 'number' && isFinite(value) ? parseFloat(value.toFixed(4)) : null;
+
+const normaliseAddress = (address: Address | undefined) =>
+  address ? [address.country.trim().toUpperCase(), address.postcode.trim().toUpperCase().replace(/\s+/g, ' ')] : null;
+
+// The same key for shipments that would be priced the same: add-ons in any order, the promo code
+// and account number in any case, postcodes however they're spaced, and no fields left undefined
+export const quoteCacheKey = (formData: ShippingFormData): string =>
+  JSON.stringify([
+    formData.shippingMethod,
+    formData.destinationZone,
+    formData.packages.map(({ weight, dimensions }) =>
+      [weight, dimensions.length, dimensions.width, dimensions.height].map(roundValue)
+    ),
+    normaliseAddress(formData.origin),
+    normaliseAddress(formData.destination),
+    !!formData.zoneOverride,
+    Array.from(new Set(formData.addOns || [])).sort(),
+    roundValue(formData.declaredValue),
+    normalisePromoCode(formData.promoCode || '') || null,
+    normaliseAccountNumber(formData.accountNumber || '') || null,
+  ]);
+
+export const createQuoteCache = (
+  overrides: Partial<QuoteCacheOptions> = {},
+  now: () => number = Date.now
+): QuoteCache => {
+  const { maxEntries, maxAgeMs } = { ...DEFAULT_QUOTE_CACHE_OPTIONS, ...overrides };
+  // Map keeps insertion order, so the first key is the least recently used
+  const entries = new Map<string, { result: ShippingResult; storedAt: number }>();
+
+  return {
+    get: (formData) => {
+      const key = quoteCacheKey(formData);
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (now() - entry.storedAt > maxAgeMs) return undefined;
+      entries.set(key, entry);
+      return entry.result;
+    },
+    set: (formData, result) => {
+      const key = quoteCacheKey(formData);
+      entries.delete(key);
+      entries.set(key, { result, storedAt: now() });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    clear: () => entries.clear(),
+    size: () => entries.size,
+  };
+};
+
+// A client that answers from the cache when it can. Local estimates made because the service was
+// down aren't kept, so the next request tries the service again.
+export const withQuoteCache = (client: ShippingClient, cache: QuoteCache): ShippingClient => ({
+  calculateShipping: async (formData, signal, rateCard, calendar) => {
+    const cached = cache.get(formData);
+    if (cached) return cached;
+    const result = await client.calculateShipping(formData, signal, rateCard, calendar);
+    if (result.source !== 'fallback') {
+      cache.set(formData, result);
+    }
+    return result;
+  },
+});
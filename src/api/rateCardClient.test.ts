@@ -0,0 +1,100 @@
+import { createRateCardClient } from './rateCardClient';
+import { RATE_CARDS } from '../pricing/rateCard';
+import { DELIVERY_CALENDAR } from '../delivery/deliveryDate';
+
+/**
+ * UNIT TESTS: Rate card API client
+ *
+ * PURPOSE: Check that rate cards are listed, published and rolled back through
+ * /api/rate-cards, that publishes are never retried, that the server's reasons for
+ * refusing a card reach the caller, that the calculator gets the card in effect (or the
+ * bundled one while the API is down), that transit days are published to the delivery
+ * calendar through /api/delivery-calendar, and that mock mode keeps both in the page.
+ */
+const jsonResponse = (status: number, body: unknown) =>
+  ({ ok: status >= 200 && status < 300, status, json: async () => body } as Response);
+
+const current = RATE_CARDS[RATE_CARDS.length - 1];
+const { version, ...draft } = current;
+
+describe('createRateCardClient', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  test('lists rate cards from the API', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { activeVersion: version, cards: RATE_CARDS }));
+
+    const list = await createRateCardClient({ mode: 'live' }).listRateCards();
+
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/rate-cards');
+    expect(list).toEqual({ activeVersion: version, cards: RATE_CARDS });
+  });
+
+  test('gets the card in effect, falling back to the bundled one while the API is down', async () => {
+    const published = { ...current, version: '2026.1', baseRate: 20 };
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { activeVersion: '2026.1', cards: [...RATE_CARDS, published] }));
+    expect(await createRateCardClient({ mode: 'live-with-fallback' }).getActiveRateCard()).toEqual(published);
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(jsonResponse(503, { message: 'Unavailable' }));
+    expect(await createRateCardClient({ mode: 'live-with-fallback', retries: 0 }).getActiveRateCard()).toEqual(current);
+
+    fetchMock.mockResolvedValue(jsonResponse(200, { activeVersion: '2026.9', cards: RATE_CARDS }));
+    await expect(createRateCardClient({ mode: 'live-with-fallback' }).getActiveRateCard()).rejects.toThrow('(2026.9)');
+    jest.restoreAllMocks();
+  });
+
+  test('publishes and rolls back with a single POST each', async () => {
+    const client = createRateCardClient({ mode: 'live', retries: 3, retryDelayMs: 0 });
+    fetchMock.mockResolvedValueOnce(jsonResponse(201, { ...current, version: '2026.1' }));
+
+    expect(await client.publishRateCard(draft)).toMatchObject({ version: '2026.1' });
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ method: 'POST', body: JSON.stringify(draft) });
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }));
+    await expect(client.rollbackRateCard('2025.1')).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toBe('/api/rate-cards/2025.1/rollback');
+  });
+
+  test("passes on the server's reasons for refusing a card, and refuses invalid answers", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(422, { message: 'Rate card rejected', formErrors: ['Rate card baseRate must be a non-negative number'] }));
+    await expect(createRateCardClient({ mode: 'live' }).publishRateCard(draft)).rejects.toMatchObject({
+      status: 422,
+      formErrors: ['Rate card baseRate must be a non-negative number'],
+    });
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { activeVersion: version, cards: [{ version }] }));
+    await expect(createRateCardClient({ mode: 'live' }).listRateCards()).rejects.toThrow('invalid rate card');
+  });
+
+  test('gets the delivery calendar and publishes transit days to it', async () => {
+    const client = createRateCardClient({ mode: 'live-with-fallback', retries: 0 });
+    const transitDays = { ...DELIVERY_CALENDAR.transitDays, express: { ...DELIVERY_CALENDAR.transitDays.express, local: { min: 2, max: 2 } } };
+    fetchMock.mockResolvedValueOnce(jsonResponse(201, { ...DELIVERY_CALENDAR, version: '2026.10.1', transitDays }));
+
+    expect(await client.publishTransitDays(transitDays)).toMatchObject({ version: '2026.10.1', transitDays });
+    expect(fetchMock.mock.calls[0]).toEqual(['/api/delivery-calendar/transit-days', expect.objectContaining({ method: 'POST', body: JSON.stringify(transitDays) })]);
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(jsonResponse(503, { message: 'Unavailable' }));
+    expect(await client.getDeliveryCalendar()).toBe(DELIVERY_CALENDAR);
+    await expect(client.publishTransitDays(transitDays)).rejects.toMatchObject({ status: 503 });
+    jest.restoreAllMocks();
+  });
+
+  test('mock mode publishes to a store in the page', async () => {
+    const client = createRateCardClient({ mode: 'mock' });
+
+    const published = await client.publishRateCard({ ...draft, effectiveDate: new Date().toISOString().slice(0, 10), baseRate: 20 });
+    expect((await client.listRateCards()).activeVersion).toBe(published.version);
+    await expect(client.rollbackRateCard('1999.1')).rejects.toMatchObject({ status: 404 });
+    const calendar = await client.publishTransitDays(DELIVERY_CALENDAR.transitDays);
+    expect(await client.getDeliveryCalendar()).toBe(calendar);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
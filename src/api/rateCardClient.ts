@@ -0,0 +1,99 @@
+import { DELIVERY_CALENDAR_PATH, RATE_CARDS_PATH } from '../types';
+import { parseRateCard, RATE_CARDS, RateCard, selectRateCard } from '../pricing/rateCard';
+import { createRateCardStore, RateCardDraft, RateCardList } from '../pricing/rateCardStore';
+import { DELIVERY_CALENDAR, DeliveryCalendar, parseDeliveryCalendar } from '../delivery/deliveryDate';
+import { createDeliveryCalendarStore, TransitTable } from '../delivery/calendarStore';
+import { ApiClientConfig, DEFAULT_CLIENT_CONFIG, requestJson, ShippingApiError, withFallback } from './request';
+
+// Access to the rate cards and the delivery calendar's transit days. In mock mode they're kept in
+// this page (what's published is gone on reload); otherwise the pricing service is the only copy,
+// so the admin calls have no local fallback: a card published here would price nothing. The
+// calculator only needs the card and calendar in effect, and makes do with the bundled ones while
+// the service can't be reached.
+export interface RateCardClient {
+  getActiveRateCard: (signal?: AbortSignal) => Promise<RateCard>;
+  listRateCards: (signal?: AbortSignal) => Promise<RateCardList>;
+  publishRateCard: (draft: RateCardDraft) => Promise<RateCard>;
+  rollbackRateCard: (version: string) => Promise<RateCard>;
+  getDeliveryCalendar: (signal?: AbortSignal) => Promise<DeliveryCalendar>;
+  publishTransitDays: (transitDays: TransitTable) => Promise<DeliveryCalendar>;
+}
+
+const decodeRateCard = (body: unknown): RateCard => {
+  try {
+    return parseRateCard(body);
+  } catch (error) {
+    throw new ShippingApiError(`The pricing service returned an invalid rate card: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+const decodeDeliveryCalendar = (body: unknown): DeliveryCalendar => {
+  try {
+    return parseDeliveryCalendar(body);
+  } catch (error) {
+    throw new ShippingApiError(`The pricing service returned an invalid delivery calendar: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+const decodeRateCardList = (body: unknown): RateCardList => {
+  const list = body as RateCardList;
+  if (typeof body !== 'object' || body === null || !Array.isArray(list.cards) || typeof list.activeVersion !== 'string') {
+    throw new ShippingApiError('The pricing service returned an invalid rate card list');
+  }
+  return { activeVersion: list.activeVersion, cards: list.cards.map(decodeRateCard) };
+};
+
+const activeRateCard = ({ activeVersion, cards }: RateCardList): RateCard => {
+  const card = cards.find((listed) => listed.version === activeVersion);
+  if (!card) {
+    throw new ShippingApiError(`The pricing service did not list the rate card in effect (${activeVersion})`);
+  }
+  return card;
+};
+
+export const createRateCardClient = (overrides: Partial<ApiClientConfig> = {}): RateCardClient => {
+  const config: ApiClientConfig = { ...DEFAULT_CLIENT_CONFIG, ...overrides };
+
+  if (config.mode === 'mock') {
+    const store = createRateCardStore();
+    const calendarStore = createDeliveryCalendarStore();
+    return {
+      getActiveRateCard: async () => activeRateCard(store.list()),
+      listRateCards: async () => store.list(),
+      publishRateCard: async (draft) => store.publish(draft),
+      rollbackRateCard: async (version) => {
+        const card = store.rollback(version);
+        if (!card) throw new ShippingApiError(`No rate card with version ${version}`, { status: 404 });
+        return card;
+      },
+      getDeliveryCalendar: async () => calendarStore.get(),
+      publishTransitDays: async (transitDays) => calendarStore.publishTransitDays(transitDays),
+    };
+  }
+
+  // A publish that timed out may still have gone through: never send it twice
+  const post = (path: string, body?: unknown) =>
+    requestJson(
+      path,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body ?? {}) },
+      { ...config, retries: 0 }
+    );
+
+  const listRateCards = async (signal?: AbortSignal) =>
+    decodeRateCardList(await requestJson(RATE_CARDS_PATH, { method: 'GET' }, config, signal));
+
+  return {
+    getActiveRateCard: (signal) =>
+      withFallback(config, async () => activeRateCard(await listRateCards(signal)), () => selectRateCard(RATE_CARDS)),
+    listRateCards,
+    publishRateCard: async (draft) => decodeRateCard(await post(RATE_CARDS_PATH, draft)),
+    rollbackRateCard: async (version) => decodeRateCard(await post(`${RATE_CARDS_PATH}/${encodeURIComponent(version)}/rollback`)),
+    getDeliveryCalendar: (signal) =>
+      withFallback(
+        config,
+        async () => decodeDeliveryCalendar(await requestJson(DELIVERY_CALENDAR_PATH, { method: 'GET' }, config, signal)),
+        () => DELIVERY_CALENDAR
+      ),
+    publishTransitDays: async (transitDays) => decodeDeliveryCalendar(await post(`${DELIVERY_CALENDAR_PATH}/transit-days`, transitDays)),
+  };
+};
@@ -0,0 +1,156 @@
+import { ValidationErrors } from '../types';
+import { decodeApiError } from './decode';
+
+// live: API only, mock: local data only, live-with-fallback: API then local data
+export type ApiMode = 'live' | 'mock' | 'live-with-fallback';
+
+export interface ApiClientConfig {
+  mode: ApiMode;
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number; // doubled after every failed attempt
+}
+
+interface ShippingApiErrorDetails {
+  status?: number;
+  retryable?: boolean;
+  fieldErrors?: ValidationErrors;
+  formErrors?: string[];
+}
+
+// Error raised for failed API calls; `status` is set when the server answered,
+// field/form errors when it explained why it rejected the request
+export class ShippingApiError extends Error {
+  status?: number;
+  retryable: boolean;
+  fieldErrors?: ValidationErrors;
+  formErrors?: string[];
+
+  constructor(message: string, { status, retryable = false, fieldErrors, formErrors }: ShippingApiErrorDetails = {}) {
+    super(message);
+    Object.setPrototypeOf(this, ShippingApiError.prototype);
+    this.name = 'ShippingApiError';
+    this.status = status;
+    this.retryable = retryable;
+    this.fieldErrors = fieldErrors;
+    this.formErrors = formErrors;
+  }
+}
+
+const API_MODES: ApiMode[] = ['live', 'mock', 'live-with-fallback'];
+
+const readMode = (value: string | undefined): ApiMode =>
+  API_MODES.includes(value as ApiMode) ? (value as ApiMode) : 'live-with-fallback';
+
+// Defaults can be overridden at build time through REACT_APP_* environment variables
+export const DEFAULT_CLIENT_CONFIG: ApiClientConfig = {
+  mode: readMode(process.env.REACT_APP_SHIPPING_API_MODE),
+  timeoutMs: Number(process.env.REACT_APP_SHIPPING_API_TIMEOUT_MS) || 8000,
+  retries: 2,
+  retryDelayMs: 300,
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+const abortError = () => {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Resolve after `ms`, or reject straight away if the caller aborts
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// A single request with its own timeout, chained to the caller's signal
+const requestOnce = async (path: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<unknown> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(path, { ...init, signal: controller.signal });
+
+    if (!response.ok) {
+      const apiError = decodeApiError(await response.json().catch(() => null));
+      throw new ShippingApiError(apiError?.message || `HTTP error! status: ${response.status}`, {
+        status: response.status,
+        retryable: response.status >= 500,
+        fieldErrors: apiError?.fieldErrors,
+        formErrors: apiError?.formErrors,
+      });
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (timedOut) {
+      throw new ShippingApiError(`Request timed out after ${timeoutMs}ms`, { retryable: true });
+    }
+    if (isAbortError(error) || error instanceof ShippingApiError) {
+      throw error;
+    }
+    // Network failures and unreadable JSON
+    throw new ShippingApiError(error instanceof Error ? error.message : String(error), { retryable: true });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Request JSON with bounded retries and exponential backoff; 4xx responses are never retried
+export const requestJson = async (path: string, init: RequestInit, config: ApiClientConfig, signal?: AbortSignal): Promise<unknown> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestOnce(path, init, config.timeoutMs, signal);
+    } catch (error) {
+      const retryable = error instanceof ShippingApiError && error.retryable;
+      if (!retryable || attempt >= config.retries) {
+        throw error;
+      }
+      await delay(config.retryDelayMs * 2 ** attempt, signal);
+    }
+  }
+};
+
+// Run `live` or `local` according to the configured mode
+export const withFallback = async <T>(
+  config: ApiClientConfig,
+  live: () => Promise<T>,
+  local: (source: 'mock' | 'fallback') => T
+): Promise<T> => {
+  if (config.mode === 'mock') {
+    return local('mock');
+  }
+
+  try {
+    return await live();
+  } catch (error) {
+    // Only fall back when the API is unreachable - a rejected request is never replaced by a guess
+    const unavailable = error instanceof ShippingApiError && error.retryable;
+    if (config.mode === 'live' || !unavailable) {
+      throw error;
+    }
+    console.warn('Using local data due to API unavailability:', error);
+    return local('fallback');
+  }
+};
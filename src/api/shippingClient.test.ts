@@ -0,0 +1,195 @@
+import { createShippingClient } from './shippingClient';
+import { ShippingApiError } from './request';
+import { ShippingFormData } from '../types';
+import { RATE_CARDS } from '../pricing/rateCard';
+
+/**
+ * UNIT TESTS: Shipping API client
+ *
+ * PURPOSE: Check each API mode, the retry/timeout policy, that every
+ * result is tagged with where it came from, and that local estimates refuse
+ * what the service would (mock mode knowing only its fake account).
+ */
+const formData: ShippingFormData = {
+  shippingMethod: 'standard',
+  packages: [{ weight: 2, dimensions: { length: 10, width: 10, height: 10 } }],
+  destinationZone: 'local',
+};
+
+const liveResult = {
+  shippingCost: 99,
+  estimatedDeliveryDays: 7,
+  breakdown: {
+    baseRate: 15, zoneMultiplier: 1, shippingMethod: 'standard', destinationZone: 'local',
+    packages: [
+      {
+        sizeMultiplier: 1, packageSizeCategory: 'Small', weightSurcharge: 2.5, weight: 2,
+        volumetricWeight: 0.2, chargeableWeight: 2, weightBasis: 'actual', cost: 17.5,
+      },
+    ],
+    subtotal: 17.5, multiPieceDiscount: 0,
+  },
+};
+
+const jsonResponse = (status: number, body: unknown) =>
+  ({ ok: status >= 200 && status < 300, status, json: async () => body } as Response);
+
+describe('createShippingClient', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('mock mode prices locally without calling the API', async () => {
+    const result = await createShippingClient({ mode: 'mock' }).calculateShipping(formData);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.source).toBe('mock');
+    expect(result.shippingCost).toBe(17.5);
+  });
+
+  test('live mode tags API results as live', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, liveResult));
+
+    const result = await createShippingClient({ mode: 'live' }).calculateShipping(formData);
+
+    expect(result).toEqual({ ...liveResult, source: 'live' });
+  });
+
+  test('sends the addresses and add-ons with the shipment', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, liveResult));
+    const shipment: ShippingFormData = {
+      ...formData,
+      origin: { country: 'US', postcode: '10001' },
+      destination: { country: 'US', postcode: '10016' },
+      addOns: ['insurance'],
+      declaredValue: 250,
+    };
+
+    await createShippingClient({ mode: 'live' }).calculateShipping(shipment);
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual(shipment);
+  });
+
+  test('retries server errors with backoff, then gives up in live mode', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503, {}));
+
+    const client = createShippingClient({ mode: 'live', retries: 2, retryDelayMs: 1 });
+
+    await expect(client.calculateShipping(formData)).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not retry or fall back on client errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(422, {}));
+
+    const client = createShippingClient({ mode: 'live-with-fallback', retries: 2, retryDelayMs: 1 });
+
+    await expect(client.calculateShipping(formData)).rejects.toBeInstanceOf(ShippingApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('decodes structured field and form errors from rejected requests', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(422, {
+      message: 'This shipment cannot be quoted',
+      fieldErrors: { shippingMethod: 'Overnight shipping is not available for international destinations' },
+      formErrors: ['Destination is embargoed'],
+    }));
+
+    const error = await createShippingClient({ mode: 'live-with-fallback' }).calculateShipping(formData).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ShippingApiError);
+    expect(error.message).toBe('This shipment cannot be quoted');
+    expect(error.fieldErrors).toEqual({ shippingMethod: 'Overnight shipping is not available for international destinations' });
+    expect(error.formErrors).toEqual(['Destination is embargoed']);
+  });
+
+  test('rejects malformed results instead of returning them', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { ...liveResult, shippingCost: '99.00' }));
+
+    const client = createShippingClient({ mode: 'live-with-fallback' });
+
+    await expect(client.calculateShipping(formData)).rejects.toThrow('The pricing service returned an invalid quote');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('falls back to a local estimate when the API is unreachable', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValue(jsonResponse(500, {}));
+
+    const client = createShippingClient({ mode: 'live-with-fallback', retries: 1, retryDelayMs: 1 });
+    const result = await client.calculateShipping(formData);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.source).toBe('fallback');
+  });
+
+  test('refuses to estimate shipments the service would reject', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    const embargoed = { ...formData, destinationZone: 'international' as const, origin: { country: 'US', postcode: '10001' }, destination: { country: 'KP', postcode: '12345' } };
+
+    const client = createShippingClient({ mode: 'live-with-fallback', retries: 0 });
+    const error = await client.calculateShipping(embargoed).catch((caught) => caught);
+    expect(error).toBeInstanceOf(ShippingApiError);
+    expect(error).toMatchObject({ status: 422, fieldErrors: { 'destination.country': 'We cannot ship to this country: it is under a trade embargo' } });
+
+    await expect(createShippingClient({ mode: 'mock' }).calculateShipping({ ...formData, shippingMethod: 'overnight', destinationZone: 'international' })).rejects.toMatchObject({
+      fieldErrors: { shippingMethod: 'Overnight shipping is not available for international destinations' },
+    });
+  });
+
+  test('mock mode knows only its fake account, and a fallback estimates at the public rates', async () => {
+    const mock = createShippingClient({ mode: 'mock' });
+    const discounted = await mock.calculateShipping({ ...formData, accountNumber: 'ZZA00001' });
+    expect(discounted.breakdown.accountDiscount).toMatchObject({ accountNumber: 'ZZA00001', percent: 10, amount: 1.75 });
+    await expect(mock.calculateShipping({ ...formData, accountNumber: 'ZZA10001' })).rejects.toMatchObject({
+      status: 422,
+      fieldErrors: { accountNumber: 'Account ZZA10001 is not recognised' },
+    });
+
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    const fallback = await createShippingClient({ mode: 'live-with-fallback', retries: 0 }).calculateShipping({ ...formData, accountNumber: 'ZZA10001' });
+    expect(fallback.source).toBe('fallback');
+    expect(fallback.breakdown.accountDiscount).toBeUndefined();
+  });
+
+  test('estimates on the rate card it is given', async () => {
+    const rateCard = { ...RATE_CARDS[RATE_CARDS.length - 1], version: '2026.1', baseRate: 30 };
+
+    const result = await createShippingClient({ mode: 'mock' }).calculateShipping(formData, undefined, rateCard);
+
+    expect(result).toMatchObject({ rateCardVersion: '2026.1', shippingCost: 32.5 });
+  });
+
+  test('times out hanging requests', async () => {
+    fetchMock.mockImplementation((url: string, init: RequestInit) =>
+      new Promise((resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+      })
+    );
+
+    const client = createShippingClient({ mode: 'live', timeoutMs: 10, retries: 0 });
+
+    await expect(client.calculateShipping(formData)).rejects.toThrow(/timed out after 10ms/);
+  });
+
+  test('propagates caller aborts without falling back', async () => {
+    fetchMock.mockImplementation((url: string, init: RequestInit) =>
+      new Promise((resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+      })
+    );
+
+    const controller = new AbortController();
+    const pending = createShippingClient({ mode: 'live-with-fallback' }).calculateShipping(formData, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
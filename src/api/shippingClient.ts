@@ -0,0 +1,86 @@
+import { CALCULATE_SHIPPING_PATH, ShippingFormData, ShippingResult } from '../types';
+import { calculatePromotedQuote } from '../pricing/promoCodes';
+import { RATE_CARDS, RateCard, selectRateCard } from '../pricing/rateCard';
+import { DeliveryCalendar } from '../delivery/deliveryDate';
+import { DEFAULT_VALIDATION_RULES, validateShippingForm, withWeightLimits } from '../validation';
+import { AccountTable, checkAccount, NO_ACCOUNTS, parseAccounts } from '../pricing/accounts';
+import { formatErrors, translateEnglish } from '../i18n';
+import { decodeShippingResult } from './decode';
+import { ApiClientConfig, DEFAULT_CLIENT_CONFIG, requestJson, ShippingApiError, withFallback } from './request';
+
+export type ShippingClientConfig = ApiClientConfig;
+
+// rateCard and calendar are the card and delivery calendar in effect as last heard from the
+// service, for local estimates; the bundled ones otherwise
+export interface ShippingClient {
+  calculateShipping: (formData: ShippingFormData, signal?: AbortSignal, rateCard?: RateCard, calendar?: DeliveryCalendar) => Promise<ShippingResult>;
+}
+
+// Accounts are only known to the pricing service. Mock mode stands in for it with an obviously
+// fake account (ZZA00001), which production builds leave out.
+const MOCK_ACCOUNTS: AccountTable =
+  process.env.NODE_ENV === 'production' ? NO_ACCOUNTS : parseAccounts(require('./mockAccounts.json'));
+
+// Only shipments the service would accept are estimated: the same rules, with the card's weight
+// limits, so an embargoed destination or a service we don't provide is refused offline too.
+// A fallback can't check an account, so it estimates at the public rates.
+const estimateLocally = (
+  formData: ShippingFormData,
+  source: 'mock' | 'fallback',
+  rateCard: RateCard = selectRateCard(RATE_CARDS),
+  calendar?: DeliveryCalendar
+): ShippingResult => {
+  const fieldErrors = validateShippingForm(formData, 'metric', withWeightLimits(DEFAULT_VALIDATION_RULES, rateCard.weightLimits));
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ShippingApiError('Shipping request failed validation', { status: 422, fieldErrors });
+  }
+  if (source === 'mock') {
+    const accountErrors = formatErrors(checkAccount(formData, { accounts: MOCK_ACCOUNTS }), translateEnglish);
+    if (Object.keys(accountErrors).length > 0) {
+      throw new ShippingApiError('Account rejected', { status: 422, fieldErrors: accountErrors });
+    }
+  }
+  const accounts = source === 'mock' ? MOCK_ACCOUNTS : NO_ACCOUNTS;
+  return { ...calculatePromotedQuote(formData, rateCard, { accounts, calendar }), source };
+};
+
+export const createShippingClient = (overrides: Partial<ShippingClientConfig> = {}): ShippingClient => {
+  const config: ShippingClientConfig = { ...DEFAULT_CLIENT_CONFIG, ...overrides };
+
+  const postQuote = async (formData: ShippingFormData, signal?: AbortSignal): Promise<ShippingResult> => {
+    const body = await requestJson(
+      CALCULATE_SHIPPING_PATH,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          shippingMethod: formData.shippingMethod,
+          packages: formData.packages,
+          destinationZone: formData.destinationZone,
+          origin: formData.origin,
+          destination: formData.destination,
+          zoneOverride: formData.zoneOverride,
+          addOns: formData.addOns,
+          declaredValue: formData.declaredValue,
+          promoCode: formData.promoCode,
+          accountNumber: formData.accountNumber,
+        }),
+      },
+      config,
+      signal
+    );
+
+    const result = decodeShippingResult(body);
+    if (!result) {
+      throw new ShippingApiError('The pricing service returned an invalid quote');
+    }
+    return { ...result, source: 'live' };
+  };
+
+  return {
+    calculateShipping: (formData, signal, rateCard, calendar) =>
+      withFallback(config, () => postQuote(formData, signal), (source) => estimateLocally(formData, source, rateCard, calendar)),
+  };
+};
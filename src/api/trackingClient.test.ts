@@ -0,0 +1,67 @@
+import { createTrackingClient } from './trackingClient';
+import { TRACKING_FIXTURES } from '../tracking/fixtures';
+
+/**
+ * UNIT TESTS: Tracking API client
+ *
+ * PURPOSE: Check the live/mock split, unknown numbers and malformed input.
+ */
+const jsonResponse = (status: number, body: unknown) =>
+  ({ ok: status >= 200 && status < 300, status, json: async () => body } as Response);
+
+describe('createTrackingClient', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('mock mode answers from the fixtures, normalising the number', async () => {
+    const info = await createTrackingClient({ mode: 'mock' }).trackShipment(' zzz-100000001 ');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(info).toEqual({ ...TRACKING_FIXTURES[0], source: 'mock' });
+  });
+
+  test('live mode fetches the tracking endpoint', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, TRACKING_FIXTURES[1]));
+
+    const info = await createTrackingClient({ mode: 'live' }).trackShipment('ZZZ100000002');
+
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/tracking/ZZZ100000002');
+    expect(info?.source).toBe('live');
+  });
+
+  test('resolves unknown numbers to null', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404, { message: 'No shipment found' }));
+
+    await expect(createTrackingClient({ mode: 'live' }).trackShipment('ZZZ999999999')).resolves.toBeNull();
+    await expect(createTrackingClient({ mode: 'mock' }).trackShipment('ZZZ999999999')).resolves.toBeNull();
+  });
+
+  test('rejects malformed numbers without calling the API', async () => {
+    await expect(createTrackingClient({ mode: 'live' }).trackShipment('ABC123')).rejects.toThrow(/start with ZZZ/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('rejects invalid tracking payloads', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { ...TRACKING_FIXTURES[0], events: [{ status: 'lost' }] }));
+
+    await expect(createTrackingClient({ mode: 'live-with-fallback' }).trackShipment('ZZZ100000001')).rejects.toThrow(/invalid data/);
+  });
+
+  test('falls back to the fixtures when the API is unreachable', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const info = await createTrackingClient({ mode: 'live-with-fallback', retries: 0 }).trackShipment('ZZZ100000003');
+
+    expect(info?.source).toBe('fallback');
+    expect(info?.events).toHaveLength(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { TRACKING_PATH, TrackingInfo } from '../types';
+import { findTrackingFixture, normaliseTrackingNumber, validateTrackingNumber } from '../tracking/fixtures';
+import { decodeTrackingInfo } from './decode';
+import { ApiClientConfig, DEFAULT_CLIENT_CONFIG, requestJson, ShippingApiError, withFallback } from './request';
+import { formatErrors, translateEnglish } from '../i18n';
+
+export interface TrackingClient {
+  // Resolves to null when no shipment has this tracking number
+  trackShipment: (trackingNumber: string, signal?: AbortSignal) => Promise<TrackingInfo | null>;
+}
+
+// Local lookup against the deterministic fixture service
+const lookUpLocally = (trackingNumber: string, source: 'mock' | 'fallback'): TrackingInfo | null => {
+  const fixture = findTrackingFixture(trackingNumber);
+  return fixture && { ...fixture, source };
+};
+
+export const createTrackingClient = (overrides: Partial<ApiClientConfig> = {}): TrackingClient => {
+  const config: ApiClientConfig = { ...DEFAULT_CLIENT_CONFIG, ...overrides };
+
+  const fetchTracking = async (trackingNumber: string, signal?: AbortSignal): Promise<TrackingInfo | null> => {
+    let body: unknown;
+    try {
+      body = await requestJson(`${TRACKING_PATH}/${encodeURIComponent(trackingNumber)}`, { method: 'GET' }, config, signal);
+    } catch (error) {
+      if (error instanceof ShippingApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    const info = decodeTrackingInfo(body);
+    if (!info) {
+      throw new ShippingApiError('The tracking service returned invalid data');
+    }
+    return { ...info, source: 'live' };
+  };
+
+  return {
+    trackShipment: async (input, signal) => {
+      // Malformed numbers never reach the API
+      const formatError = validateTrackingNumber(input);
+      if (formatError) {
+        const fieldErrors = formatErrors({ trackingNumber: formatError }, translateEnglish);
+        throw new ShippingApiError(fieldErrors.trackingNumber, { fieldErrors });
+      }
+
+      const trackingNumber = normaliseTrackingNumber(input);
+      return withFallback(config, () => fetchTracking(trackingNumber, signal), (source) => lookUpLocally(trackingNumber, source));
+    },
+  };
+};
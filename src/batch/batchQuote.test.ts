@@ -0,0 +1,121 @@
+import { parseBatchCsv, quoteBatch, startBatch, toBatchCsv } from './batchQuote';
+import { createShippingClient, ShippingClient } from '../api/shippingClient';
+import { ShippingApiError } from '../api/request';
+import { createTranslator, getValidationMessages } from '../i18n';
+
+/**
+ * UNIT TESTS: Batch quoting
+ *
+ * PURPOSE: Check that an uploaded CSV is read row by row with the form's rules,
+ * that valid rows are quoted with limited concurrency while invalid ones are
+ * skipped, and that the results come back out as CSV.
+ */
+const HEADER = 'shipping_method,weight_kg,length_cm,width_cm,height_cm,destination_zone';
+
+const mockClient = createShippingClient({ mode: 'mock' });
+
+describe('parseBatchCsv', () => {
+  test('reads each row as a single-package shipment', () => {
+    const [row] = parseBatchCsv(`${HEADER}\r\nExpress,2,30,20,10,Domestic\r\n`);
+
+    expect(row.line).toBe(2);
+    expect(row.formData).toEqual({
+      shippingMethod: 'express',
+      destinationZone: 'domestic',
+      packages: [{ weight: 2, dimensions: { length: 30, width: 20, height: 10 } }],
+    });
+    expect(row.errors).toEqual({});
+  });
+
+  test('finds the columns by name and skips blank lines', () => {
+    const rows = parseBatchCsv('Destination Zone,Shipping Method,Weight KG,Length CM,Width CM,Height CM\n\nlocal,standard,1,10,10,10\n');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ line: 3, formData: { shippingMethod: 'standard', destinationZone: 'local' }, errors: {} });
+  });
+
+  test('keeps the errors from the rules and from unreadable values on each row', () => {
+    const rows = parseBatchCsv(`${HEADER}\nexpress,12,30,20,10,domestic\nteleport,heavy,30,20,10,domestic\nstandard,,30,20,10,local`);
+
+    expect(rows.map((row) => row.errors)).toEqual([
+      { 'packages.0.weight': 'Weight cannot exceed 10kg for express shipping' },
+      { shippingMethod: 'Shipping method must be one of standard, express, or overnight', 'packages.0.weight': 'Weight must be a number' },
+      { 'packages.0.weight': 'Weight must be a positive number' },
+    ]);
+  });
+
+  test('words the errors in the language it is given', () => {
+    const [row] = parseBatchCsv(`${HEADER}\nexpress,12,30,20,10,domestic`, { t: createTranslator('de'), messages: getValidationMessages('de') });
+
+    expect(row.errors['packages.0.weight']).toBe('Das Gewicht darf beim Expressversand höchstens 10 kg betragen');
+    expect(() => parseBatchCsv('', { t: createTranslator('de') })).toThrow('Die CSV-Datei ist leer');
+  });
+
+  test('rejects files it cannot read as a batch', () => {
+    expect(() => parseBatchCsv('')).toThrow('The CSV is empty');
+    expect(() => parseBatchCsv('shipping_method,weight_kg\nexpress,2')).toThrow(
+      'The CSV is missing the length_cm, width_cm, height_cm, destination_zone columns'
+    );
+    expect(() => parseBatchCsv(HEADER)).toThrow('The CSV has no rows to quote');
+    expect(() => parseBatchCsv(`${HEADER}\n"express,2,30,20,10,local`)).toThrow('The CSV has a quote on line 2 that is never closed');
+    expect(() => parseBatchCsv(`${HEADER}\n${'standard,1,10,10,10,local\n'.repeat(1001)}`)).toThrow('A batch can have at most 1,000 rows');
+  });
+});
+
+describe('quoteBatch', () => {
+  const csv = [HEADER, ...Array(6).fill('standard,1,10,10,10,local'), 'standard,0,10,10,10,local'].join('\n');
+
+  test('quotes valid rows with limited concurrency and skips invalid ones', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const client: ShippingClient = {
+      calculateShipping: async (formData) => {
+        inFlight++;
+        mostInFlight = Math.max(mostInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return mockClient.calculateShipping(formData);
+      },
+    };
+    const onResult = jest.fn();
+
+    const results = await quoteBatch(startBatch(parseBatchCsv(csv)), client, { concurrency: 2, onResult });
+
+    expect(mostInFlight).toBe(2);
+    expect(onResult).toHaveBeenCalledTimes(6);
+    expect(results.map((row) => row.status)).toEqual([...Array(6).fill('quoted'), 'invalid']);
+    expect(results[0].result?.shippingCost).toBe(15);
+  });
+
+  test('records rows the API refuses or fails on', async () => {
+    const client: ShippingClient = {
+      calculateShipping: async (formData) => {
+        if (formData.shippingMethod === 'express') {
+          throw new ShippingApiError('This shipment cannot be quoted', { status: 422, formErrors: ['Not offered'] });
+        }
+        throw new ShippingApiError('The pricing service is unavailable', { status: 503 });
+      },
+    };
+
+    const results = await quoteBatch(startBatch(parseBatchCsv(`${HEADER}\nexpress,1,10,10,10,local\nstandard,1,10,10,10,local`)), client);
+
+    expect(results[0]).toMatchObject({ status: 'invalid', errors: { form: 'Not offered' } });
+    expect(results[1]).toMatchObject({ status: 'failed', reason: 'The pricing service is unavailable' });
+  });
+});
+
+test('toBatchCsv writes the uploaded values with each outcome', async () => {
+  const results = await quoteBatch(
+    startBatch(parseBatchCsv(`${HEADER}\nstandard,1,10,10,10,local\nteleport,1,10,10,10,local`)),
+    mockClient
+  );
+  const [header, quoted, invalid] = toBatchCsv(results, new Date('2025-10-01T09:30:00')).trim().split('\r\n');
+
+  expect(header).toBe(
+    'line,shipping_method,weight_kg,length_cm,width_cm,height_cm,destination_zone,status,size_category,chargeable_weight_kg,' +
+      'estimated_delivery_days,estimated_delivery_date,rate_card_version,source,currency,total_cost,errors'
+  );
+  // Standard local: 3 business days at most from a Wednesday morning dispatch
+  expect(quoted).toMatch(/^2,standard,1,10,10,10,local,quoted,Small,1,3,2025-10-06,[\d.]+,mock,USD,15,$/);
+  expect(invalid).toBe('3,teleport,1,10,10,10,local,invalid,,,,,,,,,"Shipping method must be one of standard, express, or overnight"');
+});
@@ -0,0 +1,270 @@
+import {
+  DESTINATION_ZONES,
+  DestinationZone,
+  packageErrorKey,
+  SHIPPING_METHODS,
+  ShippingFormData,
+  ShippingMethod,
+  ShippingResult,
+  ValidationErrors,
+} from '../types';
+import { validateShippingForm, ValidationMessages } from '../validation';
+import { ShippingClient } from '../api/shippingClient';
+import { isAbortError, ShippingApiError } from '../api/request';
+import { PRICE_CURRENCY } from '../currency/exchangeRates';
+import { CsvValue, escapeCsv } from '../export/quoteExport';
+import { DELIVERY_CALENDAR, DeliveryCalendar, DeliveryEstimate, estimateDelivery } from '../delivery/deliveryDate';
+import { Translate, translateEnglish } from '../i18n';
+
+// Batch quoting: a CSV with one single-package shipment per row, checked against the same
+// rule set as the form and quoted a few rows at a time.
+// Upload columns (any order, header row required; weights kg, lengths cm):
+//   shipping_method,weight_kg,length_cm,width_cm,height_cm,destination_zone
+
+export const BATCH_CSV_COLUMNS = ['shipping_method', 'weight_kg', 'length_cm', 'width_cm', 'height_cm', 'destination_zone'] as const;
+type BatchColumn = typeof BATCH_CSV_COLUMNS[number];
+
+// Most rows one upload can hold
+export const MAX_BATCH_ROWS = 1000;
+
+// Requests in flight at once, so a big batch doesn't flood the pricing service
+export const BATCH_CONCURRENCY = 4;
+
+// One row of the upload: its line in the file, the values as written and the shipment they make
+export interface BatchRow {
+  line: number;
+  values: Record<BatchColumn, string>;
+  formData: ShippingFormData;
+  errors: ValidationErrors; // keyed like the form's errors; empty when the row can be quoted
+}
+
+// pending: waiting for its quote; invalid: errors from the rules or the API; failed: no answer
+export type BatchRowStatus = 'pending' | 'quoted' | 'invalid' | 'failed';
+
+export interface BatchResult extends BatchRow {
+  status: BatchRowStatus;
+  result?: ShippingResult;
+  reason?: string; // why a failed row failed
+}
+
+// Split CSV text into records of fields with the line each starts on. Quoted fields may hold
+// commas, doubled quotes and line breaks (RFC 4180).
+const parseCsv = (text: string, t: Translate): { line: number; fields: string[] }[] => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(t('batch.file.unclosedQuote', { line: recordLine }));
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+
+  return records.filter((record) => record.fields.some((value) => value.trim() !== ''));
+};
+
+const NUMBER_COLUMNS: { column: BatchColumn; field: 'weight' | 'length' | 'width' | 'height' }[] = [
+  { column: 'weight_kg', field: 'weight' },
+  { column: 'length_cm', field: 'length' },
+  { column: 'width_cm', field: 'width' },
+  { column: 'height_cm', field: 'height' },
+];
+
+// How errors are worded: t for the file and its values, messages for the rule set
+export interface BatchParseOptions {
+  t?: Translate;
+  messages?: ValidationMessages;
+}
+
+// Turn one record into a shipment. Values that aren't even the right kind (a method we don't
+// offer, a weight of "heavy") are errors here; everything else is left to the rule set.
+const parseRow = (line: number, values: Record<BatchColumn, string>, { t = translateEnglish, messages }: BatchParseOptions): BatchRow => {
+  const errors: ValidationErrors = {};
+  const shippingMethod = values.shipping_method.toLowerCase();
+  const destinationZone = values.destination_zone.toLowerCase();
+  if (shippingMethod && !SHIPPING_METHODS.includes(shippingMethod as ShippingMethod)) {
+    errors.shippingMethod = t('batch.error.method', { methods: SHIPPING_METHODS });
+  }
+  if (destinationZone && !DESTINATION_ZONES.includes(destinationZone as DestinationZone)) {
+    errors.destinationZone = t('batch.error.zone', { zones: DESTINATION_ZONES });
+  }
+
+  const numbers = NUMBER_COLUMNS.reduce<Record<string, number | undefined>>((parsed, { column, field }) => {
+    const text = values[column];
+    const value = text === '' ? undefined : Number(text);
+    if (value !== undefined && !Number.isFinite(value)) {
+      errors[packageErrorKey(0, field)] = t('batch.error.number', { field });
+    }
+    return { ...parsed, [field]: value };
+  }, {});
+
+  const formData = {
+    shippingMethod,
+    destinationZone,
+    packages: [{ weight: numbers.weight, dimensions: { length: numbers.length, width: numbers.width, height: numbers.height } }],
+  } as ShippingFormData;
+
+  return {
+    line,
+    values,
+    formData,
+    errors: Object.keys(errors).length > 0 ? errors : validateShippingForm(formData, 'metric', undefined, messages),
+  };
+};
+
+// Read an uploaded batch. Problems with the file as a whole throw; problems with a row are kept
+// on the row so the rest of the batch can still be quoted. Both are worded as the options say
+// (English by default) when the file is read.
+export const parseBatchCsv = (text: string, options: BatchParseOptions = {}): BatchRow[] => {
+  const { t = translateEnglish } = options;
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''), t);
+  if (!header) {
+    throw new Error(t('batch.file.empty'));
+  }
+
+  const names = header.fields.map((name) => name.trim().toLowerCase().replace(/\s+/g, '_'));
+  const missing = BATCH_CSV_COLUMNS.filter((column) => !names.includes(column));
+  if (missing.length > 0) {
+    throw new Error(t('batch.file.missingColumns', { columns: missing.join(', '), count: missing.length }));
+  }
+  if (records.length === 0) {
+    throw new Error(t('batch.file.noRows'));
+  }
+  if (records.length > MAX_BATCH_ROWS) {
+    throw new Error(t('batch.file.tooManyRows', { max: MAX_BATCH_ROWS, count: records.length }));
+  }
+
+  return records.map(({ line, fields }) => {
+    const values = BATCH_CSV_COLUMNS.reduce(
+      (row, column) => ({ ...row, [column]: (fields[names.indexOf(column)] || '').trim() }),
+      {} as Record<BatchColumn, string>
+    );
+    return parseRow(line, values, options);
+  });
+};
+
+// Rows with errors are settled straight away; the rest wait for a quote
+export const startBatch = (rows: BatchRow[]): BatchResult[] =>
+  rows.map((row) => ({ ...row, status: Object.keys(row.errors).length > 0 ? 'invalid' : 'pending' }));
+
+const quoteRow = async (row: BatchResult, client: ShippingClient, signal?: AbortSignal, calendar?: DeliveryCalendar): Promise<BatchResult> => {
+  try {
+    return { ...row, status: 'quoted', result: await client.calculateShipping(row.formData, signal, undefined, calendar) };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // The API explained why it won't quote the row: treat it like a rule the row breaks
+    if (error instanceof ShippingApiError && (error.fieldErrors || error.formErrors)) {
+      const errors: ValidationErrors = { ...error.fieldErrors };
+      if (error.formErrors?.length) errors.form = error.formErrors.join('; ');
+      return { ...row, status: 'invalid', errors };
+    }
+    return { ...row, status: 'failed', reason: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Quote every pending row, at most `concurrency` at a time, in file order. onResult sees each row
+// as it settles; the promise resolves to the whole batch, or rejects if the signal aborts. calendar
+// is the delivery calendar in effect, for local estimates' transit days.
+export const quoteBatch = async (
+  batch: BatchResult[],
+  client: ShippingClient,
+  {
+    concurrency = BATCH_CONCURRENCY,
+    signal,
+    onResult,
+    calendar,
+  }: { concurrency?: number; signal?: AbortSignal; onResult?: (result: BatchResult, index: number) => void; calendar?: DeliveryCalendar } = {}
+): Promise<BatchResult[]> => {
+  const results = [...batch];
+  const queue = results.flatMap((row, index) => (row.status === 'pending' ? [index] : []));
+
+  const worker = async () => {
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      results[index] = await quoteRow(results[index], client, signal, calendar);
+      onResult?.(results[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+  return results;
+};
+
+// When a row's parcel would arrive if sent at orderedAt (batches have no addresses)
+export const estimateBatchDelivery = (row: BatchRow, orderedAt: Date = new Date(), calendar: DeliveryCalendar = DELIVERY_CALENDAR): DeliveryEstimate =>
+  estimateDelivery({ orderedAt, shippingMethod: row.formData.shippingMethod, destinationZone: row.formData.destinationZone }, calendar);
+
+// Download columns: the uploaded values, then the outcome. Money is in the price currency;
+// errors holds every reason a row wasn't quoted.
+export const BATCH_RESULT_COLUMNS = [
+  'line',
+  ...BATCH_CSV_COLUMNS,
+  'status',
+  'size_category',
+  'chargeable_weight_kg',
+  'estimated_delivery_days',
+  'estimated_delivery_date',
+  'rate_card_version',
+  'source',
+  'currency',
+  'total_cost',
+  'errors',
+] as const;
+
+// Delivery dates are for parcels sent at orderedAt on the calendar in effect, as the batch grid shows them
+export const toBatchCsv = (results: BatchResult[], orderedAt: Date = new Date(), calendar: DeliveryCalendar = DELIVERY_CALENDAR): string => {
+  const rows = results.map((row): Record<typeof BATCH_RESULT_COLUMNS[number], CsvValue> => {
+    const pkg = row.result?.breakdown.packages[0];
+    return {
+      line: row.line,
+      ...row.values,
+      status: row.status,
+      size_category: pkg?.packageSizeCategory,
+      chargeable_weight_kg: pkg?.chargeableWeight,
+      estimated_delivery_days: row.result?.estimatedDeliveryDays,
+      estimated_delivery_date: row.result && estimateBatchDelivery(row, orderedAt, calendar).latest,
+      rate_card_version: row.result?.rateCardVersion,
+      source: row.result?.source,
+      currency: row.result ? PRICE_CURRENCY : undefined,
+      total_cost: row.result?.shippingCost,
+      errors: [...Object.values(row.errors).filter(Boolean), ...(row.reason ? [row.reason] : [])].join('; ') || undefined,
+    };
+  });
+
+  return [BATCH_RESULT_COLUMNS.join(','), ...rows.map((row) => BATCH_RESULT_COLUMNS.map((column) => escapeCsv(row[column])).join(','))]
+    .join('\r\n') + '\r\n';
+};
@@ -0,0 +1,136 @@
+import { compareShippingOptions, getBlockingErrors } from './comparison';
+import { createShippingClient, ShippingClient } from './api/shippingClient';
+import { ShippingApiError } from './api/request';
+import { ShippingFormData } from './types';
+import { RATE_CARDS } from './pricing/rateCard';
+
+/**
+ * UNIT TESTS: Shipping option comparison
+ *
+ * PURPOSE: Check that every method is quoted, that the weight limits (the rate card's
+ * when it has its own) and services we don't provide grey out methods with a reason without
+ * being priced, that only shared errors block the comparison, and that
+ * other zones are quoted without the addresses that fix the zone, or a promo code they can't use or an
+ * account the pricing service refuses for them.
+ */
+const shipment = (weight: number): ShippingFormData => ({
+  shippingMethod: 'standard',
+  packages: [{ weight, dimensions: { length: 10, width: 10, height: 10 } }],
+  destinationZone: 'local',
+});
+
+const mockClient = createShippingClient({ mode: 'mock' });
+
+describe('getBlockingErrors', () => {
+  test('ignores method-specific weight limits', () => {
+    expect(getBlockingErrors(shipment(8))).toEqual({});
+  });
+
+  test('keeps errors that apply to every method', () => {
+    expect(getBlockingErrors(shipment(0))).toEqual({ 'packages.0.weight': 'Weight must be a positive number' });
+  });
+});
+
+describe('compareShippingOptions', () => {
+  test('quotes every method for the current zone', async () => {
+    const options = await compareShippingOptions(shipment(2), mockClient);
+
+    expect(options.map((option) => [option.shippingMethod, option.destinationZone, option.status])).toEqual([
+      ['standard', 'local', 'quoted'],
+      ['express', 'local', 'quoted'],
+      ['overnight', 'local', 'quoted'],
+    ]);
+  });
+
+  test('greys out methods the weight rules out, with the reason', async () => {
+    const options = await compareShippingOptions(shipment(8), mockClient, { allZones: true });
+
+    expect(options).toHaveLength(9);
+    const overnight = options.filter((option) => option.shippingMethod === 'overnight');
+    expect(overnight.every((option) => option.status === 'unavailable')).toBe(true);
+    expect(overnight[0].reason).toBe('Weight cannot exceed 5kg for overnight shipping');
+    expect(options.filter((option) => option.status === 'quoted')).toHaveLength(6);
+  });
+
+  test("greys out services we don't provide without pricing them", async () => {
+    const calculateShipping = jest.fn(mockClient.calculateShipping);
+    const options = await compareShippingOptions(shipment(2), { calculateShipping }, { allZones: true });
+
+    expect(options.find((option) => option.shippingMethod === 'overnight' && option.destinationZone === 'international')).toMatchObject({
+      status: 'unavailable',
+      reason: 'Overnight shipping is not available for international destinations',
+    });
+    expect(calculateShipping).toHaveBeenCalledTimes(8);
+  });
+
+  test('uses the weight limits and prices of the rate card it is given', async () => {
+    const rateCard = {
+      ...RATE_CARDS[RATE_CARDS.length - 1],
+      version: '2026.1',
+      weightLimits: { minKg: 0.1, maxKg: { standard: 30, express: 10, overnight: 10 } },
+    };
+    const options = await compareShippingOptions(shipment(8), mockClient, { rateCard });
+
+    expect(options.map((option) => option.status)).toEqual(['quoted', 'quoted', 'quoted']);
+    expect(options.every((option) => option.result?.rateCardVersion === '2026.1')).toBe(true);
+  });
+
+  test('marks options the API refuses as unavailable', async () => {
+    const client: ShippingClient = {
+      calculateShipping: async (formData) => {
+        if (formData.shippingMethod === 'express') {
+          throw new ShippingApiError('This shipment cannot be quoted', { status: 422, formErrors: ['Not offered'] });
+        }
+        return mockClient.calculateShipping(formData);
+      },
+    };
+
+    const options = await compareShippingOptions(shipment(2), client);
+
+    expect(options[1]).toMatchObject({ shippingMethod: 'express', status: 'unavailable', reason: 'Not offered' });
+  });
+
+  test('quotes other zones without the addresses that fix the zone', async () => {
+    const calculateShipping = jest.fn(mockClient.calculateShipping);
+    const addressed: ShippingFormData = {
+      ...shipment(2),
+      origin: { country: 'US', postcode: '10001' },
+      destination: { country: 'US', postcode: '10016' },
+    };
+
+    await compareShippingOptions(addressed, { calculateShipping }, { allZones: true });
+
+    const sent = calculateShipping.mock.calls.map(([formData]) => formData);
+    expect(sent.filter((formData) => formData.destinationZone === 'local').every((formData) => formData.destination)).toBe(true);
+    expect(sent.filter((formData) => formData.destinationZone !== 'local').some((formData) => formData.destination)).toBe(false);
+  });
+
+  test('quotes options at the public rates where the pricing service refuses the account', async () => {
+    const calculateShipping = jest.fn(async (formData: ShippingFormData) => {
+      if (formData.accountNumber && formData.shippingMethod === 'overnight') {
+        throw new ShippingApiError('Account rejected', { status: 422, fieldErrors: { accountNumber: 'The rates of account ZZA10002 only cover standard or express shipping' } });
+      }
+      return mockClient.calculateShipping({ ...formData, accountNumber: undefined });
+    });
+
+    const options = await compareShippingOptions({ ...shipment(2), accountNumber: 'ZZA10002' }, { calculateShipping });
+
+    expect(options.map((option) => option.status)).toEqual(['quoted', 'quoted', 'quoted']);
+    expect(calculateShipping.mock.calls.map(([formData]) => [formData.shippingMethod, formData.accountNumber])).toEqual([
+      ['standard', 'ZZA10002'],
+      ['express', 'ZZA10002'],
+      ['overnight', 'ZZA10002'],
+      ['overnight', undefined],
+    ]);
+  });
+
+  test('quotes options with the promo code only where it can be used', async () => {
+    const calculateShipping = jest.fn(mockClient.calculateShipping);
+
+    await compareShippingOptions({ ...shipment(2), promoCode: 'WELCOME10' }, { calculateShipping });
+    await compareShippingOptions({ ...shipment(2), promoCode: 'NOPE' }, { calculateShipping });
+
+    const sent = calculateShipping.mock.calls.map(([formData]) => formData.promoCode);
+    expect(sent).toEqual(['WELCOME10', 'WELCOME10', 'WELCOME10', undefined, undefined, undefined]);
+  });
+});
@@ -0,0 +1,155 @@
+import { DESTINATION_ZONES, DestinationZone, SHIPPING_METHODS, ShippingFormData, ShippingMethod, ShippingResult, ValidationErrors } from './types';
+import { DEFAULT_VALIDATION_RULES, validateShippingForm, ValidationMessages, withWeightLimits } from './validation';
+import { ShippingClient } from './api/shippingClient';
+import { isAbortError, ShippingApiError } from './api/request';
+import { UnitSystem } from './units';
+import { checkAddOns } from './pricing/addOns';
+import { checkPromoCode } from './pricing/promoCodes';
+import { RATE_CARDS, RateCard, selectRateCard } from './pricing/rateCard';
+import { DeliveryCalendar } from './delivery/deliveryDate';
+import { formatErrors, Translate, translateEnglish } from './i18n';
+
+// One cell of the comparison matrix
+export interface ComparisonOption {
+  shippingMethod: ShippingMethod;
+  destinationZone: DestinationZone;
+  status: 'quoted' | 'unavailable' | 'failed';
+  result?: ShippingResult;
+  reason?: string; // why the option is unavailable or failed
+}
+
+// The shipment sent to another zone. Its addresses fix the zone, so what-if zones are quoted
+// without them.
+const withZone = (formData: ShippingFormData, destinationZone: DestinationZone): ShippingFormData => {
+  if (destinationZone === formData.destinationZone) return formData;
+  const { origin, destination, ...rest } = formData;
+  return { ...rest, destinationZone };
+};
+
+// The shipment's errors under another method (and zone), as it would be quoted there: the rules
+// with the rate card's weight limits (services we don't provide among them), then add-ons the card
+// doesn't offer there, worded by t. The card defaults to the bundled one in effect.
+const validateFor = (
+  formData: ShippingFormData,
+  shippingMethod: ShippingMethod,
+  units?: UnitSystem,
+  destinationZone: DestinationZone = formData.destinationZone,
+  messages?: ValidationMessages,
+  t: Translate = translateEnglish,
+  rateCard: RateCard = selectRateCard(RATE_CARDS)
+): ValidationErrors => {
+  const shipment = { ...withZone(formData, destinationZone), shippingMethod };
+  return {
+    ...validateShippingForm(shipment, units, withWeightLimits(DEFAULT_VALIDATION_RULES, rateCard.weightLimits), messages),
+    ...formatErrors(checkAddOns(shipment, rateCard), t),
+  };
+};
+
+
+// A promo code restricted to some methods or zones would turn every other option away, so
+// those options are quoted without it
+const withUsablePromo = (formData: ShippingFormData, rateCard: RateCard): ShippingFormData => {
+  if (!formData.promoCode || !checkPromoCode(formData, rateCard).promoCode) return formData;
+  const { promoCode, ...rest } = formData;
+  return rest;
+};
+
+// An account whose rates only cover some methods or zones: the pricing service, which has the
+// accounts, refuses it for the other options, and those are quoted at the public rates
+const quoteWithUsableAccount = async (
+  shipment: ShippingFormData,
+  client: ShippingClient,
+  signal: AbortSignal | undefined,
+  rateCard: RateCard,
+  calendar: DeliveryCalendar | undefined
+): Promise<ShippingResult> => {
+  try {
+    return await client.calculateShipping(shipment, signal, rateCard, calendar);
+  } catch (error) {
+    if (!shipment.accountNumber || !(error instanceof ShippingApiError) || !error.fieldErrors?.accountNumber) throw error;
+    const { accountNumber, ...rest } = shipment;
+    return client.calculateShipping(rest, signal, rateCard, calendar);
+  }
+};
+
+// Errors every method shares (e.g. a missing dimension) - these block the whole comparison
+export const getBlockingErrors = (
+  formData: ShippingFormData,
+  units?: UnitSystem,
+  messages?: ValidationMessages,
+  t?: Translate,
+  rateCard?: RateCard
+): ValidationErrors => {
+  const [first, ...rest] = SHIPPING_METHODS.map((method) => validateFor(formData, method, units, undefined, messages, t, rateCard));
+  return Object.entries(first)
+    .filter(([key, message]) => rest.every((errors) => errors[key] === message))
+    .reduce<ValidationErrors>((errors, [key, message]) => ({ ...errors, [key]: message }), {});
+};
+
+// Why a method can't carry this shipment (e.g. its WEIGHT_LIMITS, or an add-on it doesn't offer),
+// or null if it can. The zone defaults to the shipment's.
+export const getMethodRestriction = (
+  formData: ShippingFormData,
+  shippingMethod: ShippingMethod,
+  units?: UnitSystem,
+  destinationZone?: DestinationZone,
+  messages?: ValidationMessages,
+  t?: Translate,
+  rateCard?: RateCard
+): string | null => {
+  const reasons = Object.values(validateFor(formData, shippingMethod, units, destinationZone, messages, t, rateCard)).filter(Boolean);
+  return reasons.length > 0 ? reasons[0] : null;
+};
+
+// Quote every method (and optionally every zone) for the current shipment in parallel, checked
+// against rateCard (the bundled card in effect unless given the service's); calendar is for local
+// estimates' transit days, like rateCard
+export const compareShippingOptions = async (
+  formData: ShippingFormData,
+  client: ShippingClient,
+  {
+    allZones = false,
+    signal,
+    units,
+    messages,
+    t,
+    rateCard = selectRateCard(RATE_CARDS),
+    calendar,
+  }: {
+    allZones?: boolean;
+    signal?: AbortSignal;
+    units?: UnitSystem;
+    messages?: ValidationMessages;
+    t?: Translate;
+    rateCard?: RateCard;
+    calendar?: DeliveryCalendar;
+  } = {}
+): Promise<ComparisonOption[]> => {
+  const zones = allZones ? DESTINATION_ZONES : [formData.destinationZone];
+
+  const options = SHIPPING_METHODS.flatMap((shippingMethod) =>
+    zones.map(async (destinationZone): Promise<ComparisonOption> => {
+      const option = { shippingMethod, destinationZone };
+      const restriction = getMethodRestriction(formData, shippingMethod, units, destinationZone, messages, t, rateCard);
+      if (restriction) {
+        return { ...option, status: 'unavailable', reason: restriction };
+      }
+
+      try {
+        const shipment = withUsablePromo({ ...withZone(formData, destinationZone), shippingMethod }, rateCard);
+        const result = await quoteWithUsableAccount(shipment, client, signal, rateCard, calendar);
+        return { ...option, status: 'quoted', result };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // A rejection with reasons means the service isn't offered; anything else is a failure
+        if (error instanceof ShippingApiError && (error.fieldErrors || error.formErrors)) {
+          const reasons = [...Object.values(error.fieldErrors || {}), ...(error.formErrors || [])];
+          return { ...option, status: 'unavailable', reason: reasons[0] || error.message };
+        }
+        return { ...option, status: 'failed', reason: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+
+  return Promise.all(options);
+};
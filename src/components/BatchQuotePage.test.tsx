@@ -0,0 +1,76 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import BatchQuotePage from './BatchQuotePage';
+import { createShippingClient } from '../api/shippingClient';
+import { I18nProvider } from '../i18n/I18nProvider';
+
+/**
+ * COMPONENT TESTS: Batch quote page
+ *
+ * PURPOSE: Check that an uploaded CSV fills the results grid with a price for
+ * each valid row and the reasons for each invalid one, that unreadable files
+ * are reported, that the results can be downloaded, and that the page is worded
+ * in the chosen language.
+ */
+describe('BatchQuotePage', () => {
+  const client = createShippingClient({ mode: 'mock' });
+
+  const upload = (content: string, name = 'parcels.csv') =>
+    fireEvent.change(screen.getByLabelText(/csv file/i), { target: { files: [new File([content], name, { type: 'text/csv' })] } });
+
+  beforeEach(() => {
+    // jsdom has no object URLs
+    URL.createObjectURL = jest.fn(() => 'blob:batch');
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('quotes valid rows and shows why the others were not quoted', async () => {
+    render(<BatchQuotePage client={client} />);
+
+    upload('shipping_method,weight_kg,length_cm,width_cm,height_cm,destination_zone\nstandard,1,10,10,10,local\novernight,8,10,10,10,local\n');
+
+    expect(await screen.findByText('$15.00')).toBeInTheDocument();
+    expect(screen.getByText('Weight cannot exceed 5kg for overnight shipping')).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('2 rows · 1 quoted · 1 not quoted · 0 failed');
+  });
+
+  test('downloads the results as CSV named after the upload', async () => {
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    render(<BatchQuotePage client={client} />);
+
+    upload('shipping_method,weight_kg,length_cm,width_cm,height_cm,destination_zone\nexpress,2,30,20,10,domestic\n');
+    await screen.findByText('✅ Quoted');
+    fireEvent.click(screen.getByRole('button', { name: /download results csv/i }));
+
+    expect((click.mock.instances[0] as unknown as HTMLAnchorElement).download).toBe('parcels-quotes.csv');
+  });
+
+  test('shows the grid and the row errors in the chosen language', async () => {
+    render(
+      <I18nProvider locale="de">
+        <BatchQuotePage client={client} />
+      </I18nProvider>
+    );
+
+    fireEvent.change(screen.getByLabelText(/csv-datei/i), {
+      target: { files: [new File(['shipping_method,weight_kg,length_cm,width_cm,height_cm,destination_zone\nteleport,1,10,10,10,local\n'], 'parcels.csv')] },
+    });
+
+    expect(await screen.findByText('❌ Nicht berechnet')).toBeInTheDocument();
+    expect(screen.getByRole('columnheader', { name: 'Versandart' })).toBeInTheDocument();
+    expect(screen.getByText('Die Versandart muss standard, express oder overnight sein')).toBeInTheDocument();
+  });
+
+  test('reports a file that is not a batch', async () => {
+    render(<BatchQuotePage client={client} />);
+
+    upload('name,weight\nbox,2\n');
+
+    expect(await screen.findByText(/the csv is missing the shipping_method/i)).toBeInTheDocument();
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+  });
+});
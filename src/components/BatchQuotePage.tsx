@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createShippingClient, ShippingClient } from '../api/shippingClient';
+import { isAbortError } from '../api/request';
+import {
+  BATCH_CSV_COLUMNS,
+  BatchResult,
+  estimateBatchDelivery,
+  MAX_BATCH_ROWS,
+  parseBatchCsv,
+  quoteBatch,
+  startBatch,
+  toBatchCsv,
+} from '../batch/batchQuote';
+import { DELIVERY_CALENDAR, DeliveryCalendar, formatDeliveryDate } from '../delivery/deliveryDate';
+import { formatMoney } from '../currency/money';
+import { PRICE_CURRENCY } from '../currency/exchangeRates';
+import { downloadFile, readFileText } from '../export/quoteExport';
+import { useI18n } from '../i18n/I18nProvider';
+
+// Client used when the page is not given one (mode comes from REACT_APP_SHIPPING_API_MODE)
+const defaultShippingClient = createShippingClient();
+
+// What a row came to: its price, or every reason it has none
+const BatchOutcome: React.FC<{ row: BatchResult; calendar: DeliveryCalendar }> = ({ row, calendar }) => {
+  const { t, intlLocale } = useI18n();
+  if (row.status === 'quoted' && row.result) {
+    return (
+      <>
+        <strong>{formatMoney(row.result.shippingCost, PRICE_CURRENCY, intlLocale)}</strong>
+        <span>
+          {t('batch.outcome', {
+            size: row.result.breakdown.packages[0].packageSizeCategory,
+            date: formatDeliveryDate(estimateBatchDelivery(row, new Date(), calendar).latest, intlLocale),
+            offline: String(!!row.result.source && row.result.source !== 'live'),
+          })}
+        </span>
+      </>
+    );
+  }
+  const reasons = [...Object.values(row.errors).filter(Boolean), ...(row.reason ? [row.reason] : [])];
+  return reasons.length > 0 ? (
+    <ul className="batch-errors">
+      {reasons.map((reason) => (
+        <li key={reason}>{reason}</li>
+      ))}
+    </ul>
+  ) : null;
+};
+
+// Batch page: upload a CSV of parcels, quote every valid row and download the priced results.
+// Arrival dates are on the delivery calendar in effect (the bundled one unless given the service's).
+const BatchQuotePage: React.FC<{ client?: ShippingClient; calendar?: DeliveryCalendar }> = ({
+  client = defaultShippingClient,
+  calendar = DELIVERY_CALENDAR,
+}) => {
+  const { t, validationMessages } = useI18n();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const batchRef = useRef<AbortController | null>(null);
+
+  // Stop quoting when the page is left
+  useEffect(() => () => batchRef.current?.abort(), []);
+
+  const runBatch = async (file: File) => {
+    batchRef.current?.abort();
+    const controller = new AbortController();
+    batchRef.current = controller;
+    setFileName(file.name);
+    setFileError(null);
+    setResults([]);
+
+    let batch: BatchResult[];
+    try {
+      batch = startBatch(parseBatchCsv(await readFileText(file), { t, messages: validationMessages }));
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : t('batch.readError'));
+      return;
+    }
+    if (controller.signal.aborted) return;
+
+    setResults(batch);
+    setRunning(true);
+    try {
+      await quoteBatch(batch, client, {
+        signal: controller.signal,
+        calendar,
+        onResult: (result, index) => {
+          if (!controller.signal.aborted) {
+            setResults((current) => current.map((row, i) => (i === index ? result : row)));
+          }
+        },
+      });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('❌ Batch quote failed:', error);
+        setFileError(error instanceof Error ? error.message : t('batch.failed'));
+      }
+    } finally {
+      if (batchRef.current === controller) {
+        batchRef.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after it's been edited
+    e.target.value = '';
+    if (file) runBatch(file);
+  };
+
+  const downloadResults = () => {
+    const baseName = (fileName || 'batch').replace(/\.csv$/i, '');
+    downloadFile(`${baseName}-quotes.csv`, toBatchCsv(results, new Date(), calendar), 'text/csv');
+  };
+
+  const count = (status: BatchResult['status']) => results.filter((row) => row.status === status).length;
+  const settled = results.length - count('pending');
+  // The column list is set as code, so the hint is split around its placeholder
+  const [hintBefore, hintAfter] = t('batch.hint').split('{columns}');
+
+  return (
+    <div className="shipping-form-container batch-page">
+      <div className="form-header">
+        <h2>{t('batch.title')}</h2>
+        <p>{t('batch.intro', { max: MAX_BATCH_ROWS })}</p>
+      </div>
+
+      <div className="batch-upload">
+        <div className="form-group">
+          <label htmlFor="batchFile">{t('batch.file')}</label>
+          <input type="file" id="batchFile" accept=".csv,text/csv" onChange={handleFileChange} className={fileError ? 'error' : ''} />
+          {fileError && <span className="error-text">{fileError}</span>}
+          <span className="batch-hint">
+            {hintBefore}
+            <code>{BATCH_CSV_COLUMNS.join(',')}</code>
+            {hintAfter}
+          </span>
+        </div>
+      </div>
+
+      {results.length > 0 && (
+        <div className="batch-results">
+          <div className="batch-summary" role="status">
+            {running ? t('batch.progress', { settled, count: results.length }) : t('batch.rows', { count: results.length })}
+            {' · '}
+            {t('batch.counts', { quoted: count('quoted'), invalid: count('invalid'), failed: count('failed') })}
+          </div>
+
+          <table className="batch-table">
+            <thead>
+              <tr>
+                <th>{t('batch.column.line')}</th>
+                <th>{t('batch.column.method')}</th>
+                <th>{t('batch.column.weight')}</th>
+                <th>{t('batch.column.dimensions')}</th>
+                <th>{t('batch.column.zone')}</th>
+                <th>{t('batch.column.status')}</th>
+                <th>{t('batch.column.quote')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((row) => (
+                <tr key={row.line} className={`batch-row ${row.status}`}>
+                  <td>{row.line}</td>
+                  <td>{row.values.shipping_method}</td>
+                  <td>{row.values.weight_kg}</td>
+                  <td>
+                    {row.values.length_cm} × {row.values.width_cm} × {row.values.height_cm}
+                  </td>
+                  <td>{row.values.destination_zone}</td>
+                  <td>{t('batch.status', { status: row.status })}</td>
+                  <td className="batch-outcome">
+                    <BatchOutcome row={row} calendar={calendar} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <button type="button" className="export-btn" onClick={downloadResults} disabled={running}>
+            {t('batch.download')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchQuotePage;
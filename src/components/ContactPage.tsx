@@ -0,0 +1,33 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+
+// Contact page
+const ContactPage: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <div className="shipping-form-container info-page">
+      <div className="form-header">
+        <h2>{t('contact.title')}</h2>
+        <p>{t('contact.intro')}</p>
+      </div>
+
+      <div className="service-cards">
+        <div className="service-card">
+          <h3>{t('contact.phone')}</h3>
+          <p><a href="tel:1-800-999-7447">1-800-ZZZ-SHIP</a></p>
+        </div>
+        <div className="service-card">
+          <h3>{t('contact.email')}</h3>
+          <p><a href="mailto:support@zzzshipping.com">support@zzzshipping.com</a></p>
+        </div>
+        <div className="service-card">
+          <h3>{t('contact.web')}</h3>
+          <p>www.zzzshipping.com</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContactPage;
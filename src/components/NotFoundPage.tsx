@@ -0,0 +1,30 @@
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useI18n } from '../i18n/I18nProvider';
+
+// Fallback for any URL without a route
+const NotFoundPage: React.FC = () => {
+  const location = useLocation();
+  const { t } = useI18n();
+  // The path is set as code, so the message is split around its placeholder
+  const [before, after] = t('notFound.text').split('{path}');
+
+  return (
+    <div className="shipping-form-container info-page">
+      <div className="form-header">
+        <h2>{t('notFound.title')}</h2>
+        <p>
+          {before}
+          <code>{location.pathname}</code>
+          {after}
+        </p>
+      </div>
+
+      <div className="info-actions">
+        <Link to="/" className="calculate-btn">{t('notFound.home')}</Link>
+      </div>
+    </div>
+  );
+};
+
+export default NotFoundPage;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import RateCardEditorPage from './RateCardEditorPage';
+import { createRateCardClient } from '../api/rateCardClient';
+import { RATE_CARDS } from '../pricing/rateCard';
+import { DELIVERY_CALENDAR } from '../delivery/deliveryDate';
+import { I18nProvider } from '../i18n/I18nProvider';
+import { toLocaleInput } from '../i18n';
+
+/**
+ * COMPONENT TESTS: Rate card editor page
+ *
+ * PURPOSE: Check that edits are previewed on the sample shipments before they can
+ * be published, that edited transit days are previewed and published to the
+ * delivery calendar, that cards the schema rejects can't be published, that an
+ * earlier version can be previewed and rolled back to, and that the page is shown
+ * and its numbers read in the reader's language.
+ */
+describe('RateCardEditorPage', () => {
+  const active = RATE_CARDS[RATE_CARDS.length - 1];
+
+  test('previews and publishes edited rates as a new version', async () => {
+    render(<RateCardEditorPage client={createRateCardClient({ mode: 'mock' })} />);
+
+    const publish = await screen.findByRole('button', { name: /publish as/i });
+    expect(publish).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Base rate (USD)'), { target: { value: String(active.baseRate * 2) } });
+    const preview = screen.getByRole('table', { name: /sample shipments/i });
+    expect(within(preview).getAllByText(/^\+\d+\.\d%$/)).toHaveLength(7);
+
+    fireEvent.click(publish);
+
+    expect(await screen.findByText(/✅ Published version \d{4}\.1, in effect from/)).toBeInTheDocument();
+    expect(screen.getByText(/Prices are quoted on version/)).toHaveTextContent(/\d{4}\.1/);
+    expect(screen.getByLabelText('Base rate (USD)')).toHaveValue(String(active.baseRate * 2));
+  });
+
+  test('previews and publishes edited transit days to the delivery calendar', async () => {
+    render(<RateCardEditorPage client={createRateCardClient({ mode: 'mock' })} />);
+
+    const publishTransit = await screen.findByRole('button', { name: /publish transit days/i });
+    expect(publishTransit).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Overnight Local most transit days'), { target: { value: '2' } });
+    const preview = screen.getByRole('table', { name: /sample shipments/i });
+    const document = within(preview).getByRole('row', { name: /document, local overnight/i });
+    expect(within(document).getByRole('cell', { name: '1 → 1-2' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /publish as/i })).toBeDisabled();
+
+    fireEvent.click(publishTransit);
+
+    expect(await screen.findByText(`✅ Published delivery calendar ${DELIVERY_CALENDAR.version}.1, with its transit days in effect now`)).toBeInTheDocument();
+    expect(within(document).getByRole('cell', { name: '1-2' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /publish transit days/i })).toBeDisabled();
+  });
+
+  test("transit days the calendar schema rejects can't be published", async () => {
+    render(<RateCardEditorPage client={createRateCardClient({ mode: 'mock' })} />);
+
+    fireEvent.change(await screen.findByLabelText('Express Domestic fewest transit days'), { target: { value: '9' } });
+    expect(screen.getByRole('alert')).toHaveTextContent('transitDays.express.domestic');
+    expect(screen.queryByRole('button', { name: /publish transit days/i })).not.toBeInTheDocument();
+  });
+
+  test("shows why a card can't be published and the samples it won't carry", async () => {
+    render(<RateCardEditorPage client={createRateCardClient({ mode: 'mock' })} />);
+
+    fireEvent.change(await screen.findByLabelText('Express multiplier'), { target: { value: 'abc' } });
+    expect(screen.getByRole('alert')).toHaveTextContent('methodMultipliers.express');
+    expect(screen.queryByRole('button', { name: /publish as/i })).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Express multiplier'), { target: { value: String(active.methodMultipliers.express) } });
+    fireEvent.change(screen.getByLabelText('Standard max weight'), { target: { value: '10' } });
+    expect(screen.getByText('Not accepted: Weight cannot exceed 10kg for standard shipping')).toBeInTheDocument();
+  });
+
+  test('rolls back to an earlier version after previewing it', async () => {
+    render(<RateCardEditorPage client={createRateCardClient({ mode: 'mock' })} />);
+
+    const earlier = RATE_CARDS[0];
+    await screen.findByRole('cell', { name: earlier.version });
+    const row = screen.getAllByRole('row').find((tr) => within(tr).queryByRole('cell', { name: earlier.version }))!;
+    fireEvent.click(within(row).getByRole('button', { name: /roll back to this/i }));
+
+    expect(screen.getByRole('heading', { name: `Roll back to ${earlier.version}` })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: `↩️ Roll back to ${earlier.version}` }));
+
+    expect(await screen.findByText(/✅ Published version/)).toBeInTheDocument();
+    expect(screen.getByText(`Rollback to ${earlier.version}`)).toBeInTheDocument();
+    expect(screen.getByLabelText('Base rate (USD)')).toHaveValue(String(earlier.baseRate));
+  });
+
+  test("is shown in the reader's language and reads numbers in their format", async () => {
+    const client = createRateCardClient({ mode: 'mock' });
+    render(
+      <I18nProvider locale="de">
+        <RateCardEditorPage client={client} />
+      </I18nProvider>
+    );
+
+    expect(await screen.findByRole('heading', { name: '💲 Tarifkarten' })).toBeInTheDocument();
+    const baseRate = screen.getByLabelText('Grundpreis (USD)');
+    expect(baseRate).toHaveValue(toLocaleInput(active.baseRate, 'de-DE'));
+
+    fireEvent.change(screen.getByLabelText('Höchstgewicht Standard'), { target: { value: '10' } });
+    expect(screen.getByText('Nicht angenommen: Das Gewicht darf beim Standardversand höchstens 10 kg betragen')).toBeInTheDocument();
+
+    fireEvent.change(baseRate, { target: { value: '12,5' } });
+    const preview = screen.getByRole('table', { name: /Beispielsendungen/ });
+    expect(within(preview).getByRole('row', { name: /Dokument, lokal per Overnight/ })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /^💾 Als \d{4}\.1 veröffentlichen/ }));
+
+    expect(await screen.findByText(/✅ Version \d{4}\.1 veröffentlicht, gültig ab/)).toBeInTheDocument();
+    const { cards } = await client.listRateCards();
+    expect(cards[cards.length - 1].baseRate).toBe(12.5);
+  });
+});
@@ -0,0 +1,546 @@
+import React, { useEffect, useState } from 'react';
+import { DESTINATION_ZONES, DestinationZone, SHIPPING_METHODS, ShippingMethod } from '../types';
+import { RateCard } from '../pricing/rateCard';
+import { prepareRateCard, RateCardDraft, RateCardList } from '../pricing/rateCardStore';
+import { previewRepricing, RepricedQuote } from '../pricing/repricing';
+import { DeliveryCalendar, parseDeliveryCalendar, TransitDays } from '../delivery/deliveryDate';
+import { TransitTable } from '../delivery/calendarStore';
+import { RateCardClient } from '../api/rateCardClient';
+import { isAbortError, ShippingApiError } from '../api/request';
+import { WEIGHT_LIMITS } from '../validation';
+import { formatMoney } from '../currency/money';
+import { PRICE_CURRENCY } from '../currency/exchangeRates';
+import { useI18n } from '../i18n/I18nProvider';
+
+// The editable part of a rate card, as typed in the reader's locale. Everything else (weight surcharge, volumetric
+// divisors, multi-piece discounts, add-ons) is carried over from the card in effect.
+interface RateCardFields {
+  effectiveDate: string;
+  baseRate: string;
+  zoneMultipliers: Record<DestinationZone, string>;
+  methodMultipliers: Record<ShippingMethod, string>;
+  minWeightKg: string;
+  maxWeightKg: Record<ShippingMethod, string>;
+  sizeBands: { maxVolumeLitres: string; multiplier: string; category: string }[];
+}
+
+// The delivery calendar's transit days, as typed. They're published to the calendar (the only
+// transit table), separately from the card.
+type TransitFields = Record<ShippingMethod, Record<DestinationZone, { min: string; max: string }>>;
+
+const isoDay = (date: Date = new Date()) => date.toISOString().slice(0, 10);
+
+const mapKeys = <K extends string, V>(keys: K[], value: (key: K) => V) =>
+  keys.reduce((record, key) => ({ ...record, [key]: value(key) }), {} as Record<K, V>);
+
+// The reader's number format: '' and other non-numbers parse to NaN, which the schemas reject
+type ParseNumber = (text: string) => number;
+type FormatInput = (value: number) => string;
+
+// Cards without weight limits use the ones in the validation rules
+const toFields = (card: RateCard, formatInput: FormatInput): RateCardFields => {
+  const limits = card.weightLimits || {
+    minKg: WEIGHT_LIMITS[SHIPPING_METHODS[0]].min,
+    maxKg: mapKeys(SHIPPING_METHODS, (method) => WEIGHT_LIMITS[method].max),
+  };
+  return {
+    effectiveDate: isoDay(),
+    baseRate: formatInput(card.baseRate),
+    zoneMultipliers: mapKeys(DESTINATION_ZONES, (zone) => formatInput(card.zoneMultipliers[zone])),
+    methodMultipliers: mapKeys(SHIPPING_METHODS, (method) => formatInput(card.methodMultipliers[method])),
+    minWeightKg: formatInput(limits.minKg),
+    maxWeightKg: mapKeys(SHIPPING_METHODS, (method) => formatInput(limits.maxKg[method])),
+    sizeBands: card.sizeBands.map((band) => ({
+      maxVolumeLitres: band.maxVolumeLitres === null ? '' : formatInput(band.maxVolumeLitres),
+      multiplier: formatInput(band.multiplier),
+      category: band.category,
+    })),
+  };
+};
+
+const toDraft = (fields: RateCardFields, base: RateCard, parseNumber: ParseNumber): RateCardDraft => {
+  const { version, note, ...carriedOver } = base;
+  return {
+    ...carriedOver,
+    effectiveDate: fields.effectiveDate,
+    baseRate: parseNumber(fields.baseRate),
+    zoneMultipliers: mapKeys(DESTINATION_ZONES, (zone) => parseNumber(fields.zoneMultipliers[zone])),
+    methodMultipliers: mapKeys(SHIPPING_METHODS, (method) => parseNumber(fields.methodMultipliers[method])),
+    weightLimits: {
+      minKg: parseNumber(fields.minWeightKg),
+      maxKg: mapKeys(SHIPPING_METHODS, (method) => parseNumber(fields.maxWeightKg[method])),
+    },
+    // The last band is open-ended
+    sizeBands: fields.sizeBands.map((band, index) => ({
+      maxVolumeLitres: index === fields.sizeBands.length - 1 ? null : parseNumber(band.maxVolumeLitres),
+      multiplier: parseNumber(band.multiplier),
+      category: band.category.trim(),
+    })),
+  };
+};
+
+const toTransitFields = (calendar: DeliveryCalendar, formatInput: FormatInput): TransitFields =>
+  mapKeys(SHIPPING_METHODS, (method) =>
+    mapKeys(DESTINATION_ZONES, (zone) => {
+      const { min, max } = calendar.transitDays[method][zone];
+      return { min: formatInput(min), max: formatInput(max) };
+    })
+  );
+
+const toTransitTable = (transit: TransitFields, parseNumber: ParseNumber): TransitTable =>
+  mapKeys(SHIPPING_METHODS, (method) =>
+    mapKeys(DESTINATION_ZONES, (zone) => ({ min: parseNumber(transit[method][zone].min), max: parseNumber(transit[method][zone].max) }))
+  );
+
+// Whether the form still holds the prices of a card (the date aside), compared as numbers so
+// '1.5' and '1,5' are the same price
+const samePrices = (fields: RateCardFields, card: RateCard, parseNumber: ParseNumber, formatInput: FormatInput) => {
+  const prices = (typed: RateCardFields) => {
+    const { effectiveDate, ...rest } = toDraft(typed, card, parseNumber);
+    return JSON.stringify(rest);
+  };
+  return prices(fields) === prices(toFields(card, formatInput));
+};
+
+const showChange = (percent: number | null, locale?: string) =>
+  percent === null
+    ? '—'
+    : new Intl.NumberFormat(locale, { style: 'percent', signDisplay: 'exceptZero', minimumFractionDigits: 1, maximumFractionDigits: 1 }).format(percent / 100);
+
+const showDays = ({ min, max }: TransitDays) => (min === max ? String(min) : `${min}-${max}`);
+
+// Transit days on the calendar in effect, and on the edited one when they differ
+const showTransit = (before: RepricedQuote, after: RepricedQuote) => {
+  const current = before.transitDays && showDays(before.transitDays);
+  const next = after.transitDays && showDays(after.transitDays);
+  return current && next && current !== next ? `${current} → ${next}` : next ?? current ?? '—';
+};
+
+// Old and new price and transit days of each sample shipment, so the effect of a card or of new
+// transit days is seen before they're published
+const RepricingPreview: React.FC<{ current: RateCard; next: RateCard; currentCalendar: DeliveryCalendar; nextCalendar: DeliveryCalendar }> = ({
+  current,
+  next,
+  currentCalendar,
+  nextCalendar,
+}) => {
+  const { t, intlLocale, validationMessages } = useI18n();
+  const rows = previewRepricing(current, next, { currentCalendar, nextCalendar, messages: validationMessages });
+  const showQuote = (quote: RepricedQuote) =>
+    quote.cost !== undefined ? formatMoney(quote.cost, PRICE_CURRENCY, intlLocale) : t('rateCards.preview.notAccepted', { reason: quote.error });
+  return (
+    <table className="batch-table repricing-table">
+      <caption>{t('rateCards.preview.caption', { version: current.version })}</caption>
+      <thead>
+        <tr>
+          <th>{t('rateCards.column.shipment')}</th>
+          <th>{t('rateCards.column.current')}</th>
+          <th>{t('rateCards.column.new')}</th>
+          <th>{t('rateCards.column.change')}</th>
+          <th>{t('rateCards.column.transit')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ id, before, after, changePercent }) => (
+          <tr
+            key={id}
+            className={changePercent === null ? 'repricing-row blocked' : changePercent > 0 ? 'repricing-row up' : changePercent < 0 ? 'repricing-row down' : 'repricing-row'}
+          >
+            <td>{t('rateCards.preview.sample', { sample: id })}</td>
+            <td>{showQuote(before)}</td>
+            <td>{showQuote(after)}</td>
+            <td>{showChange(changePercent, intlLocale)}</td>
+            <td>{showTransit(before, after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const NumberField: React.FC<{ id: string; label: string; value: string; onChange: (value: string) => void }> = ({ id, label, value, onChange }) => (
+  <div className="form-group">
+    <label htmlFor={id}>{label}</label>
+    <input id={id} type="text" inputMode="decimal" autoComplete="off" value={value} onChange={(e) => onChange(e.target.value)} />
+  </div>
+);
+
+// Admin page: edit the rates and transit days in effect and publish them as new versions after
+// checking what they do to typical shipments; earlier card versions can be published again to roll
+// back. The client is the calculator's too, so what's published here is what it quotes on (in mock
+// mode the cards and calendar are only kept in that client).
+const RateCardEditorPage: React.FC<{ client: RateCardClient }> = ({ client }) => {
+  const { t, parseNumber, formatInput } = useI18n();
+  const [list, setList] = useState<RateCardList | null>(null);
+  const [calendar, setCalendar] = useState<DeliveryCalendar | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [fields, setFields] = useState<RateCardFields | null>(null);
+  const [transit, setTransit] = useState<TransitFields | null>(null);
+  const [rollbackTo, setRollbackTo] = useState<RateCard | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  // Edit from the card in effect, every time the list is (re)loaded
+  const showList = (loaded: RateCardList) => {
+    setList(loaded);
+    const active = loaded.cards.find((card) => card.version === loaded.activeVersion);
+    setFields(active ? toFields(active, formatInput) : null);
+    setRollbackTo(null);
+  };
+
+  // Edit the transit days from the calendar in effect, every time it's (re)loaded
+  const showCalendar = (loaded: DeliveryCalendar) => {
+    setCalendar(loaded);
+    setTransit(toTransitFields(loaded, formatInput));
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all([client.listRateCards(controller.signal), client.getDeliveryCalendar(controller.signal)])
+      .then(([loadedList, loadedCalendar]) => {
+        showList(loadedList);
+        showCalendar(loadedCalendar);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        setLoadError(error instanceof Error ? error.message : String(error));
+      });
+    return () => controller.abort();
+    // Only a new client reloads: switching language keeps the fields as typed, and they're read
+    // whichever separator they use
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [client]);
+
+  if (loadError) {
+    return (
+      <div className="shipping-form-container rate-card-page">
+        <div className="api-error" role="alert">
+          <h3>{t('rateCards.loadError')}</h3>
+          <p>{loadError}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const active = list?.cards.find((card) => card.version === list.activeVersion);
+  if (!list || !active || !fields || !calendar || !transit) {
+    return <div className="shipping-form-container rate-card-page loading">{t('rateCards.loading')}</div>;
+  }
+
+  // The card the form would publish, or the schema's reason it can't be
+  let prepared: { card: RateCard } | { error: string };
+  try {
+    prepared = { card: prepareRateCard(toDraft(fields, active, parseNumber), list.cards) };
+  } catch (error) {
+    prepared = { error: error instanceof Error ? error.message : String(error) };
+  }
+  const unchanged = samePrices(fields, active, parseNumber, formatInput);
+
+  // The calendar with the edited transit days, or the schema's reason they can't be published
+  let nextCalendar: { calendar: DeliveryCalendar } | { error: string };
+  try {
+    nextCalendar = { calendar: parseDeliveryCalendar({ ...calendar, transitDays: toTransitTable(transit, parseNumber) }) };
+  } catch (error) {
+    nextCalendar = { error: error instanceof Error ? error.message : String(error) };
+  }
+  const transitUnchanged = JSON.stringify(toTransitTable(transit, parseNumber)) === JSON.stringify(calendar.transitDays);
+
+  const update = (change: Partial<RateCardFields>) => {
+    setFields({ ...fields, ...change });
+    setStatus(null);
+  };
+  const updateTransit = (method: ShippingMethod, zone: DestinationZone, change: Partial<TransitFields[ShippingMethod][DestinationZone]>) => {
+    setTransit({ ...transit, [method]: { ...transit[method], [zone]: { ...transit[method][zone], ...change } } });
+    setStatus(null);
+  };
+  const updateBand = (index: number, change: Partial<RateCardFields['sizeBands'][number]>) =>
+    update({ sizeBands: fields.sizeBands.map((band, i) => (i === index ? { ...band, ...change } : band)) });
+  // New bands go before the open-ended last one
+  const addBand = () =>
+    update({
+      sizeBands: [
+        ...fields.sizeBands.slice(0, -1),
+        { maxVolumeLitres: '', multiplier: '', category: '' },
+        fields.sizeBands[fields.sizeBands.length - 1],
+      ],
+    });
+
+  // The card and the transit days are published separately; edits to the other are kept
+  const save = async (publish: () => Promise<string>) => {
+    setSaving(true);
+    setStatus(null);
+    try {
+      setStatus({ ok: true, message: await publish() });
+    } catch (error) {
+      const reasons = error instanceof ShippingApiError && error.formErrors?.length ? `: ${error.formErrors.join('; ')}` : '';
+      setStatus({ ok: false, message: `${error instanceof Error ? error.message : String(error)}${reasons}` });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const publishCard = (publish: () => Promise<RateCard>) =>
+    save(async () => {
+      const card = await publish();
+      showList(await client.listRateCards());
+      return t('rateCards.published', { version: card.version, date: card.effectiveDate });
+    });
+  const publishTransit = (transitDays: TransitTable) =>
+    save(async () => {
+      const published = await client.publishTransitDays(transitDays);
+      showCalendar(published);
+      return t('rateCards.publishedTransit', { version: published.version });
+    });
+
+  const today = isoDay();
+  const history = [...list.cards].reverse();
+
+  return (
+    <div className="shipping-form-container rate-card-page">
+      <div className="form-header">
+        <h2>{t('rateCards.title')}</h2>
+        <p>{t('rateCards.inEffect', { version: active.version, date: active.effectiveDate })}</p>
+      </div>
+
+      <div className="rate-card-editor">
+        <fieldset className="rate-card-section">
+          <legend>{t('rateCards.rates')}</legend>
+          <div className="form-group">
+            <label htmlFor="effectiveDate">{t('rateCards.effectiveDate')}</label>
+            <input id="effectiveDate" type="date" min={today} value={fields.effectiveDate} onChange={(e) => update({ effectiveDate: e.target.value })} />
+          </div>
+          <NumberField id="baseRate" label={t('rateCards.baseRate', { currency: PRICE_CURRENCY })} value={fields.baseRate} onChange={(baseRate) => update({ baseRate })} />
+          {DESTINATION_ZONES.map((zone) => (
+            <NumberField
+              key={zone}
+              id={`zone-${zone}`}
+              label={t('rateCards.zoneMultiplier', { zone: t('zone.name', { zone }) })}
+              value={fields.zoneMultipliers[zone]}
+              onChange={(value) => update({ zoneMultipliers: { ...fields.zoneMultipliers, [zone]: value } })}
+            />
+          ))}
+          <NumberField id="minWeight" label={t('rateCards.minWeight')} value={fields.minWeightKg} onChange={(minWeightKg) => update({ minWeightKg })} />
+        </fieldset>
+
+        <fieldset className="rate-card-section">
+          <legend>{t('rateCards.methods')}</legend>
+          <table className="batch-table">
+            <thead>
+              <tr>
+                <th>{t('rateCards.column.method')}</th>
+                <th>{t('rateCards.column.multiplier')}</th>
+                <th>{t('rateCards.column.maxWeight')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SHIPPING_METHODS.map((method) => (
+                <tr key={method}>
+                  <th scope="row">{t('method.name', { method })}</th>
+                  {(['methodMultipliers', 'maxWeightKg'] as const).map((key) => (
+                    <td key={key}>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        aria-label={t(key === 'methodMultipliers' ? 'rateCards.methodMultiplier' : 'rateCards.methodMaxWeight', { method: t('method.name', { method }) })}
+                        value={fields[key][method]}
+                        onChange={(e) => update({ [key]: { ...fields[key], [method]: e.target.value } })}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </fieldset>
+
+        <fieldset className="rate-card-section">
+          <legend>{t('rateCards.transit')}</legend>
+          <table className="batch-table">
+            <thead>
+              <tr>
+                <th>{t('rateCards.column.method')}</th>
+                {DESTINATION_ZONES.map((zone) => (
+                  <th key={zone}>{t('zone.name', { zone })}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {SHIPPING_METHODS.map((method) => (
+                <tr key={method}>
+                  <th scope="row">{t('method.name', { method })}</th>
+                  {DESTINATION_ZONES.map((zone) => (
+                    <td key={zone} className="transit-days-cell">
+                      {(['min', 'max'] as const).map((bound) => (
+                        <input
+                          key={bound}
+                          type="text"
+                          inputMode="numeric"
+                          aria-label={t('rateCards.transitDays', { method: t('method.name', { method }), zone: t('zone.name', { zone }), bound })}
+                          value={transit[method][zone][bound]}
+                          onChange={(e) => updateTransit(method, zone, { [bound]: e.target.value })}
+                        />
+                      ))}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </fieldset>
+
+        <fieldset className="rate-card-section">
+          <legend>{t('rateCards.sizeBands')}</legend>
+          <table className="batch-table">
+            <thead>
+              <tr>
+                <th>{t('rateCards.column.category')}</th>
+                <th>{t('rateCards.column.upTo')}</th>
+                <th>{t('rateCards.column.multiplier')}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {fields.sizeBands.map((band, index) => {
+                const isLast = index === fields.sizeBands.length - 1;
+                const name = band.category || t('rateCards.band.name', { number: index + 1 });
+                return (
+                  <tr key={index}>
+                    <td>
+                      <input type="text" aria-label={t('rateCards.band.category', { number: index + 1 })} value={band.category} onChange={(e) => updateBand(index, { category: e.target.value })} />
+                    </td>
+                    <td>
+                      {isLast ? (
+                        t('rateCards.band.noLimit')
+                      ) : (
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          aria-label={t('rateCards.band.upTo', { name })}
+                          value={band.maxVolumeLitres}
+                          onChange={(e) => updateBand(index, { maxVolumeLitres: e.target.value })}
+                        />
+                      )}
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        aria-label={t('rateCards.band.multiplier', { name })}
+                        value={band.multiplier}
+                        onChange={(e) => updateBand(index, { multiplier: e.target.value })}
+                      />
+                    </td>
+                    <td>
+                      {!isLast && (
+                        <button
+                          type="button"
+                          className="dismiss-error-btn"
+                          aria-label={t('rateCards.band.remove', { name })}
+                          onClick={() => update({ sizeBands: fields.sizeBands.filter((_, i) => i !== index) })}
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <button type="button" className="export-btn" onClick={addBand}>
+            {t('rateCards.band.add')}
+          </button>
+        </fieldset>
+      </div>
+
+      <section className="rate-card-preview" aria-labelledby="rate-card-preview-title">
+        <h3 id="rate-card-preview-title">{rollbackTo ? t('rateCards.rollback.title', { version: rollbackTo.version }) : t('rateCards.preview')}</h3>
+        {rollbackTo ? (
+          <>
+            <p>{t('rateCards.rollback.intro', { version: rollbackTo.version })}</p>
+            <RepricingPreview current={active} next={rollbackTo} currentCalendar={calendar} nextCalendar={calendar} />
+            <div className="rate-card-actions">
+              <button type="button" className="reset-btn" onClick={() => setRollbackTo(null)} disabled={saving}>
+                {t('rateCards.cancel')}
+              </button>
+              <button type="button" className="calculate-btn" onClick={() => publishCard(() => client.rollbackRateCard(rollbackTo.version))} disabled={saving}>
+                {t('rateCards.rollback.publish', { version: rollbackTo.version })}
+              </button>
+            </div>
+          </>
+        ) : 'error' in prepared || 'error' in nextCalendar ? (
+          [prepared, nextCalendar].map(
+            (checked, index) =>
+              'error' in checked && (
+                <p key={index} className="error-text" role="alert">
+                  {checked.error}
+                </p>
+              )
+          )
+        ) : (
+          <>
+            <RepricingPreview current={active} next={prepared.card} currentCalendar={calendar} nextCalendar={nextCalendar.calendar} />
+            <div className="rate-card-actions">
+              <button
+                type="button"
+                className="reset-btn"
+                onClick={() => {
+                  update(toFields(active, formatInput));
+                  setTransit(toTransitFields(calendar, formatInput));
+                }}
+                disabled={saving}
+              >
+                {t('rateCards.undo')}
+              </button>
+              <button type="button" className="calculate-btn" onClick={() => publishTransit(toTransitTable(transit, parseNumber))} disabled={saving || transitUnchanged}>
+                {saving ? t('rateCards.publishing') : t('rateCards.publishTransit')}
+              </button>
+              <button type="button" className="calculate-btn" onClick={() => publishCard(() => client.publishRateCard(toDraft(fields, active, parseNumber)))} disabled={saving || unchanged}>
+                {saving ? t('rateCards.publishing') : t('rateCards.publishCard', { version: prepared.card.version })}
+              </button>
+            </div>
+          </>
+        )}
+        {status && (
+          <p className={status.ok ? 'preset-import-status' : 'error-text'} role="status">
+            {status.message}
+          </p>
+        )}
+      </section>
+
+      <section className="rate-card-history" aria-labelledby="rate-card-history-title">
+        <h3 id="rate-card-history-title">{t('rateCards.versions')}</h3>
+        <table className="batch-table">
+          <thead>
+            <tr>
+              <th>{t('rateCards.column.version')}</th>
+              <th>{t('rateCards.column.effectiveDate')}</th>
+              <th>{t('rateCards.column.status')}</th>
+              <th>{t('rateCards.column.note')}</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {history.map((card) => (
+              <tr key={card.version} className={card === active ? 'rate-card-active' : undefined}>
+                <td>{card.version}</td>
+                <td>{card.effectiveDate}</td>
+                <td>{t('rateCards.status', { status: card === active ? 'active' : card.effectiveDate > today ? 'scheduled' : 'earlier' })}</td>
+                <td>{card.note}</td>
+                <td>
+                  {card !== active && (
+                    <button type="button" className="export-btn" onClick={() => setRollbackTo(card)} disabled={saving}>
+                      {t('rateCards.rollback.choose')}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+};
+
+export default RateCardEditorPage;
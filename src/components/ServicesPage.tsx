@@ -0,0 +1,46 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { DESTINATION_ZONES, SHIPPING_METHODS } from '../types';
+import { WEIGHT_LIMITS } from '../validation';
+import { DELIVERY_CALENDAR, DeliveryCalendar, getTransitDays } from '../delivery/deliveryDate';
+import { formatNumber } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+// Services page: one card per shipping method, with its weight limits and transit times by zone
+// (on the delivery calendar in effect: the bundled one unless given the service's)
+const ServicesPage: React.FC<{ calendar?: DeliveryCalendar }> = ({ calendar = DELIVERY_CALENDAR }) => {
+  const { t, intlLocale } = useI18n();
+
+  return (
+    <div className="shipping-form-container info-page">
+      <div className="form-header">
+        <h2>{t('services.title')}</h2>
+        <p>{t('services.intro')}</p>
+      </div>
+
+      <div className="service-cards">
+        {SHIPPING_METHODS.map((method) => (
+          <div key={method} className="service-card">
+            <h3>{t('services.method.title', { method })}</h3>
+            <p>{t('services.method.description', { method })}</p>
+            <ul>
+              <li>{t('services.weight', { min: WEIGHT_LIMITS[method].min, max: WEIGHT_LIMITS[method].max })}</li>
+              {DESTINATION_ZONES.map((zone) => {
+                const { min, max } = getTransitDays(method, zone, calendar);
+                const days = min === max ? formatNumber(min, intlLocale) : `${formatNumber(min, intlLocale)}-${formatNumber(max, intlLocale)}`;
+                return <li key={zone}>{t('services.delivery', { zone: t('zone.name', { zone }), days, max })}</li>;
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <div className="info-actions">
+        <Link to="/" className="calculate-btn">{t('services.quote')}</Link>
+        <Link to="/tracking" className="reset-btn">{t('services.track')}</Link>
+      </div>
+    </div>
+  );
+};
+
+export default ServicesPage;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import TrackingView from './TrackingView';
+import { createTrackingClient } from '../api/trackingClient';
+import { ROUTER_FUTURE_FLAGS } from '../App';
+import { I18nProvider } from '../i18n/I18nProvider';
+
+/**
+ * COMPONENT TESTS: Tracking page
+ *
+ * PURPOSE: Check the timeline for a known number and the messages for
+ * malformed and unknown numbers, using the deterministic fixture service,
+ * that a /tracking/:trackingNumber URL looks its number up on load, and that
+ * the page follows the chosen language.
+ */
+describe('TrackingView', () => {
+  const client = createTrackingClient({ mode: 'mock' });
+
+  const renderAt = (path: string) =>
+    render(
+      <MemoryRouter initialEntries={[path]} future={ROUTER_FUTURE_FLAGS}>
+        <Routes>
+          <Route path="/tracking" element={<TrackingView client={client} />} />
+          <Route path="/tracking/:trackingNumber" element={<TrackingView client={client} />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+  const track = (value: string) => {
+    fireEvent.change(screen.getByLabelText(/tracking number/i), { target: { value } });
+    fireEvent.click(screen.getByRole('button', { name: /track shipment/i }));
+  };
+
+  test('shows the status timeline for a known tracking number', async () => {
+    renderAt('/tracking');
+
+    track('ZZZ100000002');
+
+    expect(await screen.findByRole('heading', { name: 'ZZZ100000002' })).toBeInTheDocument();
+    const steps = screen.getAllByRole('listitem');
+    expect(steps).toHaveLength(5);
+    expect(steps[2]).toHaveTextContent('Adelaide Depot, SA');
+    expect(steps[3]).toHaveTextContent('Pending');
+  });
+
+  test('explains malformed and unknown tracking numbers', async () => {
+    renderAt('/tracking');
+
+    track('12345');
+    expect(screen.getByText(/start with ZZZ followed by 9 digits/)).toBeInTheDocument();
+
+    track('ZZZ999999999');
+    expect(await screen.findByText('No shipment found with tracking number ZZZ999999999')).toBeInTheDocument();
+  });
+
+  test('words the page and its errors in the chosen language', async () => {
+    render(
+      <I18nProvider locale="fr">
+        <MemoryRouter initialEntries={['/tracking/ZZZ999999999']} future={ROUTER_FUTURE_FLAGS}>
+          <Routes>
+            <Route path="/tracking/:trackingNumber" element={<TrackingView client={client} />} />
+          </Routes>
+        </MemoryRouter>
+      </I18nProvider>
+    );
+
+    expect(screen.getByRole('heading', { name: '📍 Suivre votre envoi' })).toBeInTheDocument();
+    expect(await screen.findByText('Aucun envoi trouvé avec le numéro de suivi ZZZ999999999')).toBeInTheDocument();
+  });
+
+  test('looks up the tracking number in a deep link', async () => {
+    renderAt('/tracking/ZZZ100000001');
+
+    expect(await screen.findByRole('heading', { name: 'ZZZ100000001' })).toBeInTheDocument();
+    expect(screen.getByLabelText(/tracking number/i)).toHaveValue('ZZZ100000001');
+    expect(screen.getAllByRole('listitem')[4]).not.toHaveTextContent('Pending');
+  });
+});
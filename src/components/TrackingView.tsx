@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { TRACKING_STATUSES, TrackingInfo } from '../types';
+import { createTrackingClient, TrackingClient } from '../api/trackingClient';
+import { isAbortError } from '../api/request';
+import { normaliseTrackingNumber, validateTrackingNumber } from '../tracking/fixtures';
+import { Message } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+const formatTimestamp = (iso: string, locale?: string): string =>
+  new Date(iso).toLocaleString(locale, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Client used when the view is not given one (mode comes from REACT_APP_SHIPPING_API_MODE)
+const defaultTrackingClient = createTrackingClient();
+
+// Status timeline for one shipment - every stage is listed, reached ones with time and place
+const TrackingTimeline: React.FC<{ info: TrackingInfo }> = ({ info }) => {
+  const { t, intlLocale } = useI18n();
+  const latest = info.events[info.events.length - 1];
+
+  return (
+    <div className="tracking-result">
+      {info.source && info.source !== 'live' && <div className="estimate-banner">{t('tracking.offline', { source: info.source })}</div>}
+
+      <div className="tracking-summary">
+        <h3>{info.trackingNumber}</h3>
+        <p>
+          {latest ? t('tracking.status', { status: latest.status }) : t('tracking.awaitingPickup')} · {info.shippingMethod.toUpperCase()} ·{' '}
+          {info.destinationZone.toUpperCase()}
+        </p>
+        {info.estimatedDelivery && latest?.status !== 'delivered' && (
+          <p>{t('tracking.estimatedDelivery', { date: formatTimestamp(info.estimatedDelivery, intlLocale) })}</p>
+        )}
+      </div>
+
+      <ol className="tracking-timeline">
+        {TRACKING_STATUSES.map((status) => {
+          const event = info.events.find((e) => e.status === status);
+          const isCurrent = event !== undefined && event === latest;
+
+          return (
+            <li key={status} className={`timeline-step ${event ? 'completed' : 'pending'}${isCurrent ? ' current' : ''}`}>
+              <span className="timeline-label">{t('tracking.status', { status })}</span>
+              {event ? (
+                <span className="timeline-detail">
+                  <time dateTime={event.timestamp}>{formatTimestamp(event.timestamp, intlLocale)}</time> · {event.location}
+                </span>
+              ) : (
+                <span className="timeline-detail">{t('tracking.pending')}</span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+// Tracking page: look up a tracking number and show its status timeline.
+// The number lives in the URL (/tracking/:trackingNumber) so lookups can be bookmarked and shared.
+const TrackingView: React.FC<{ client?: TrackingClient }> = ({ client = defaultTrackingClient }) => {
+  const { trackingNumber: routeNumber } = useParams<{ trackingNumber: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { t } = useI18n();
+
+  const [trackingNumber, setTrackingNumber] = useState(routeNumber ?? '');
+  // Our own errors are worded when shown, so they follow a change of language; the service's are as sent
+  const [error, setError] = useState<Message | string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [info, setInfo] = useState<TrackingInfo | null>(null);
+
+  // In-flight lookup; a newer lookup aborts it so it can't overwrite the result
+  const requestRef = useRef<AbortController | null>(null);
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Look up whatever number the URL names. location.key changes on every navigation,
+  // so submitting the number already in the URL runs the lookup again.
+  useEffect(() => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setInfo(null);
+    setLoading(false);
+
+    if (routeNumber === undefined) {
+      setError(null);
+      return;
+    }
+
+    setTrackingNumber(routeNumber);
+    const formatError = validateTrackingNumber(routeNumber);
+    setError(formatError);
+    if (formatError) return;
+
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setLoading(true);
+
+    client
+      .trackShipment(routeNumber, controller.signal)
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        if (result) {
+          setInfo(result);
+        } else {
+          setError({ key: 'tracking.notFound', values: { trackingNumber: normaliseTrackingNumber(routeNumber) } });
+        }
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error('❌ Tracking lookup failed:', err);
+        setError(err instanceof Error ? err.message : { key: 'tracking.failed' });
+      })
+      .finally(() => {
+        if (requestRef.current === controller) {
+          requestRef.current = null;
+          setLoading(false);
+        }
+      });
+  }, [routeNumber, location.key, client]);
+
+  const trackShipment = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Check the format before touching the URL so a typo doesn't become a history entry
+    const formatError = validateTrackingNumber(trackingNumber);
+    if (formatError) {
+      setInfo(null);
+      setError(formatError);
+      return;
+    }
+
+    const normalised = normaliseTrackingNumber(trackingNumber);
+    navigate(`/tracking/${encodeURIComponent(normalised)}`, { replace: normalised === routeNumber });
+  };
+
+  return (
+    <div className="shipping-form-container tracking-view">
+      <div className="form-header">
+        <h2>{t('tracking.title')}</h2>
+        <p>{t('tracking.intro')}</p>
+      </div>
+
+      <form className="tracking-form" onSubmit={trackShipment} noValidate>
+        <div className="form-group">
+          <label htmlFor="trackingNumber">{t('tracking.number')}</label>
+          <input
+            type="text"
+            id="trackingNumber"
+            placeholder={t('tracking.number.placeholder', { example: 'ZZZ100000001' })}
+            value={trackingNumber}
+            onChange={(e) => setTrackingNumber(e.target.value)}
+            className={error ? 'error' : ''}
+          />
+          {error && <span className="error-text">{typeof error === 'string' ? error : t(error.key, error.values)}</span>}
+        </div>
+        <button type="submit" className={loading ? 'calculate-btn loading' : 'calculate-btn'}>
+          {loading ? t('tracking.submitting') : t('tracking.submit')}
+        </button>
+      </form>
+
+      {info && <TrackingTimeline info={info} />}
+    </div>
+  );
+};
+
+export default TrackingView;
@@ -0,0 +1,42 @@
+import { ExchangeRateTable } from '../types';
+import bundledExchangeRates from './exchangeRates.json';
+
+// Currency every rate card price and API quote is in
+export const PRICE_CURRENCY = 'USD';
+
+// Currencies customers can view quotes in
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'AUD', 'CAD', 'NZD', 'JPY'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+// Validate raw JSON and return it as a typed exchange-rate table (throws on bad input)
+export const parseExchangeRates = (json: unknown): ExchangeRateTable => {
+  if (!isObject(json)) {
+    throw new Error('Exchange rates must be a JSON object');
+  }
+  if (typeof json.base !== 'string' || !CURRENCY_CODE.test(json.base)) {
+    throw new Error('Exchange rates base must be a currency code');
+  }
+  if (typeof json.asOf !== 'string' || isNaN(Date.parse(json.asOf))) {
+    throw new Error('Exchange rates asOf must be an ISO date');
+  }
+  if (!isObject(json.rates)) {
+    throw new Error('Exchange rates rates must be an object');
+  }
+  Object.entries(json.rates).forEach(([currency, rate]) => {
+    if (!CURRENCY_CODE.test(currency) || typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Exchange rate for ${currency} must be a positive number`);
+    }
+  });
+  if (json.rates[json.base] !== 1) {
+    throw new Error('Exchange rates must list the base currency at a rate of 1');
+  }
+
+  return json as unknown as ExchangeRateTable;
+};
+
+// Rates shipped with the app, used until (or unless) fresher ones come from the API
+export const BUNDLED_EXCHANGE_RATES: ExchangeRateTable = parseExchangeRates(bundledExchangeRates);
@@ -0,0 +1,127 @@
+import { convertAmount, convertQuote, formatMoney, getCurrencyDecimals, getExchangeRate } from './money';
+import { parseExchangeRates } from './exchangeRates';
+import { ExchangeRateTable, ShippingResult } from '../types';
+
+/**
+ * UNIT TESTS: Currency conversion and formatting
+ *
+ * PURPOSE: Check locale-aware formatting, minor units, and that converted
+ * quotes still add up after rounding.
+ */
+const table: ExchangeRateTable = {
+  base: 'USD',
+  asOf: '2025-10-01',
+  rates: { USD: 1, EUR: 0.8517, JPY: 147.83, GBP: 0.7431 },
+};
+
+const quote = (costs: number[], discount = 0): ShippingResult => {
+  const subtotal = Math.round(costs.reduce((sum, cost) => sum + cost, 0) * 100) / 100;
+  return {
+    shippingCost: Math.round((subtotal - discount) * 100) / 100,
+    estimatedDeliveryDays: 3,
+    breakdown: {
+      baseRate: 15,
+      zoneMultiplier: 1,
+      shippingMethod: 'standard',
+      destinationZone: 'local',
+      packages: costs.map((cost) => ({
+        sizeMultiplier: 1,
+        packageSizeCategory: 'Small',
+        weightSurcharge: 1.25,
+        weight: 1,
+        volumetricWeight: 1,
+        chargeableWeight: 1,
+        weightBasis: 'actual',
+        cost,
+      })),
+      subtotal,
+      multiPieceDiscount: discount,
+    },
+  };
+};
+
+const sumOf = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+describe('formatting', () => {
+  test('follows the locale and the currency minor unit', () => {
+    expect(formatMoney(1234.5, 'USD', 'en-US')).toBe('$1,234.50');
+    expect(formatMoney(1234.5, 'EUR', 'de-DE')).toBe('1.234,50\u00a0€');
+    expect(formatMoney(1235, 'JPY', 'en-US')).toBe('¥1,235');
+    expect(getCurrencyDecimals('JPY')).toBe(0);
+    expect(getCurrencyDecimals('GBP')).toBe(2);
+  });
+});
+
+describe('convertAmount', () => {
+  test('rounds to the currency minor unit', () => {
+    expect(convertAmount(15, getExchangeRate(table, 'EUR'), 'EUR')).toBe(12.78);
+    expect(convertAmount(15, getExchangeRate(table, 'JPY'), 'JPY')).toBe(2217);
+  });
+
+  test('needs a rate for the currency', () => {
+    expect(() => getExchangeRate(table, 'CHF')).toThrow('No exchange rate for CHF');
+  });
+});
+
+describe('convertQuote', () => {
+  test('keeps the quote unchanged in the price currency', () => {
+    const converted = convertQuote(quote([20.25, 30.5], 0), 'USD', table);
+
+    expect(converted.shippingCost).toBe(50.75);
+    expect(converted.packages.map((pkg) => pkg.cost)).toEqual([20.25, 30.5]);
+  });
+
+  test('converted package costs add up to the converted total', () => {
+    // Rounding each of these on its own would give 3 × ¥1,478 = ¥4,434, not ¥4,435
+    const converted = convertQuote(quote([10.0, 10.0, 10.0]), 'JPY', table);
+
+    expect(converted.shippingCost).toBe(4435);
+    expect(sumOf(converted.packages.map((pkg) => pkg.cost))).toBe(converted.subtotal);
+    expect(converted.subtotal).toBe(converted.shippingCost);
+  });
+
+  test('subtotal minus discount is the total', () => {
+    const converted = convertQuote(quote([17.33, 17.33, 17.33, 17.34, 17.34], 8.67), 'EUR', table);
+
+    const cents = (amount: number) => Math.round(amount * 100);
+    expect(sumOf(converted.packages.map((pkg) => cents(pkg.cost)))).toBe(cents(converted.subtotal));
+    expect(cents(converted.subtotal) - cents(converted.multiPieceDiscount)).toBe(cents(converted.shippingCost));
+    expect(converted.shippingCost).toBe(convertAmount(78.0, getExchangeRate(table, 'EUR'), 'EUR'));
+  });
+
+  test('add-ons are converted on their own and still add up to the total', () => {
+    const base = quote([10.0, 10.0, 10.0]);
+    const withAddOns: ShippingResult = {
+      ...base,
+      shippingCost: 40.5,
+      breakdown: { ...base.breakdown, addOns: [{ id: 'signature', label: 'Signature on delivery', cost: 4.5 }, { id: 'fragile', label: 'Fragile handling', cost: 6 }] },
+    };
+    const converted = convertQuote(withAddOns, 'JPY', table);
+
+    expect(converted.addOns.map((addOn) => addOn.cost)).toEqual([665, 887]);
+    expect(converted.subtotal + sumOf(converted.addOns.map((addOn) => addOn.cost))).toBe(converted.shippingCost);
+    expect(sumOf(converted.packages.map((pkg) => pkg.cost))).toBe(converted.subtotal);
+  });
+
+  test('a promo discount is converted on its own and the subtotal less it is the total', () => {
+    const base = quote([10.0, 10.0, 10.0]);
+    const promoted: ShippingResult = {
+      ...base,
+      shippingCost: 26.67,
+      breakdown: { ...base.breakdown, promoDiscount: { code: 'SAVE', description: 'Saving', amount: 3.33 } },
+    };
+    const converted = convertQuote(promoted, 'JPY', table);
+
+    expect(converted.promoDiscount).toBe(492);
+    expect(converted.subtotal - converted.promoDiscount).toBe(converted.shippingCost);
+    expect(convertQuote(base, 'JPY', table).promoDiscount).toBe(0);
+  });
+});
+
+describe('parseExchangeRates', () => {
+  test('rejects tables without a usable base or with bad rates', () => {
+    expect(() => parseExchangeRates({ ...table, rates: { USD: 2 } })).toThrow('base currency at a rate of 1');
+    expect(() => parseExchangeRates({ ...table, rates: { USD: 1, EUR: 0 } })).toThrow('EUR must be a positive number');
+    expect(() => parseExchangeRates({ ...table, asOf: 'yesterday' })).toThrow('ISO date');
+  });
+});
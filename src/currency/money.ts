@@ -0,0 +1,97 @@
+import { ExchangeRateTable, ShippingResult } from '../types';
+import { PRICE_CURRENCY } from './exchangeRates';
+
+// Digits after the decimal point for a currency (2 for USD, 0 for JPY)
+export const getCurrencyDecimals = (currency: string): number =>
+  new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits;
+
+// Money in the user's locale, e.g. "$1,234.50", "1.234,50 €" or "¥1,235"
+export const formatMoney = (amount: number, currency: string, locale?: string): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+
+// Units of `currency` per unit of PRICE_CURRENCY (throws if the table doesn't list it)
+export const getExchangeRate = (table: ExchangeRateTable, currency: string): number => {
+  const from = table.rates[PRICE_CURRENCY];
+  const to = table.rates[currency];
+  if (!from || !to) {
+    throw new Error(`No exchange rate for ${from ? currency : PRICE_CURRENCY}`);
+  }
+  return to / from;
+};
+
+// Amount in whole minor units (cents); toFixed trims float noise so 1.005 * 100 isn't 100.49999
+const toMinorUnits = (amount: number, decimals: number): number =>
+  parseFloat((amount * Math.pow(10, decimals)).toFixed(6));
+
+const fromMinorUnits = (minor: number, decimals: number): number => minor / Math.pow(10, decimals);
+
+// Convert one price and round it to the currency's minor unit
+export const convertAmount = (amount: number, rate: number, currency: string): number => {
+  const decimals = getCurrencyDecimals(currency);
+  return fromMinorUnits(Math.round(toMinorUnits(amount * rate, decimals)), decimals);
+};
+
+// Round exact minor-unit amounts so they sum to `total`: round everything down, then hand the
+// missing units to the largest remainders (or take surplus units from the smallest)
+const allocate = (exact: number[], total: number): number[] => {
+  const rounded = exact.map(Math.floor);
+  const byRemainder = exact.map((_, i) => i).sort((a, b) => exact[b] - rounded[b] - (exact[a] - rounded[a]));
+  let difference = total - rounded.reduce((sum, value) => sum + value, 0);
+
+  for (let i = 0; difference > 0; i++, difference--) {
+    rounded[byRemainder[i % exact.length]]++;
+  }
+  for (let i = exact.length - 1; difference < 0; i--, difference++) {
+    rounded[byRemainder[(i + exact.length) % exact.length]]--;
+  }
+  return rounded;
+};
+
+// Every money figure of a quote, in the display currency
+export interface ConvertedQuote {
+  currency: string;
+  rate: number; // units of currency per unit of PRICE_CURRENCY
+  shippingCost: number;
+  baseRate: number;
+  subtotal: number;
+  multiPieceDiscount: number;
+  accountDiscount: number; // 0 without an account
+  packages: { cost: number; weightSurcharge: number }[];
+  addOns: { cost: number }[]; // in breakdown.addOns order
+  promoDiscount: number; // 0 without a promo code
+}
+
+// Convert a quote so it still adds up after rounding: package costs sum to the subtotal and
+// subtotal minus discounts plus add-ons minus promo is the total. The total, discounts, add-ons and
+// promo are each rounded to the nearest minor unit and the package costs are allocated from the
+// subtotal they imply.
+export const convertQuote = (result: ShippingResult, currency: string, table: ExchangeRateTable): ConvertedQuote => {
+  const rate = getExchangeRate(table, currency);
+  const decimals = getCurrencyDecimals(currency);
+  const exact = (amount: number) => toMinorUnits(amount * rate, decimals);
+  const { breakdown } = result;
+
+  const totalMinor = Math.round(exact(result.shippingCost));
+  const discountMinor = Math.round(exact(breakdown.multiPieceDiscount));
+  const addOnMinor = (breakdown.addOns || []).map((addOn) => Math.round(exact(addOn.cost)));
+  const accountMinor = Math.round(exact(breakdown.accountDiscount?.amount || 0));
+  const promoMinor = Math.round(exact(breakdown.promoDiscount?.amount || 0));
+  const subtotalMinor = totalMinor + discountMinor + accountMinor - addOnMinor.reduce((sum, cost) => sum + cost, 0) + promoMinor;
+  const packageMinor = allocate(breakdown.packages.map((pkg) => exact(pkg.cost)), subtotalMinor);
+
+  return {
+    currency,
+    rate,
+    shippingCost: fromMinorUnits(totalMinor, decimals),
+    baseRate: convertAmount(breakdown.baseRate, rate, currency),
+    subtotal: fromMinorUnits(subtotalMinor, decimals),
+    multiPieceDiscount: fromMinorUnits(discountMinor, decimals),
+    accountDiscount: fromMinorUnits(accountMinor, decimals),
+    packages: breakdown.packages.map((pkg, index) => ({
+      cost: fromMinorUnits(packageMinor[index], decimals),
+      weightSurcharge: convertAmount(pkg.weightSurcharge, rate, currency),
+    })),
+    addOns: addOnMinor.map((cost) => ({ cost: fromMinorUnits(cost, decimals) })),
+    promoDiscount: fromMinorUnits(promoMinor, decimals),
+  };
+};
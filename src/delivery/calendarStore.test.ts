@@ -0,0 +1,51 @@
+import { DELIVERY_CALENDAR } from './deliveryDate';
+import { createDeliveryCalendarStore, DeliveryCalendarSaveError, TransitTable } from './calendarStore';
+
+/**
+ * UNIT TESTS: Delivery calendar store
+ *
+ * PURPOSE: Check that published transit days give the calendar a new version
+ * numbered on from the bundled one, that tables the calendar schema rejects are
+ * refused, and that transit days which can't be saved never go live.
+ */
+const slowerStandard = (): TransitTable => ({
+  ...DELIVERY_CALENDAR.transitDays,
+  standard: { ...DELIVERY_CALENDAR.transitDays.standard, domestic: { min: 5, max: 8 } },
+});
+
+describe('delivery calendar store', () => {
+  test('publishes transit days as a new calendar version and keeps them through onPublish', () => {
+    const onPublish = jest.fn();
+    const store = createDeliveryCalendarStore({ onPublish });
+    expect(store.get()).toBe(DELIVERY_CALENDAR);
+
+    const published = store.publishTransitDays(slowerStandard());
+    expect(published).toEqual({ ...DELIVERY_CALENDAR, version: `${DELIVERY_CALENDAR.version}.1`, transitDays: slowerStandard() });
+    expect(store.get()).toBe(published);
+    expect(store.publishTransitDays(DELIVERY_CALENDAR.transitDays).version).toBe(`${DELIVERY_CALENDAR.version}.2`);
+
+    expect(onPublish).toHaveBeenLastCalledWith({ version: `${DELIVERY_CALENDAR.version}.2`, transitDays: DELIVERY_CALENDAR.transitDays });
+    const restarted = createDeliveryCalendarStore({ published: { version: published.version, transitDays: published.transitDays } });
+    expect(restarted.get()).toEqual(published);
+  });
+
+  test('refuses transit days the calendar schema rejects', () => {
+    const store = createDeliveryCalendarStore();
+    const backwards = { ...DELIVERY_CALENDAR.transitDays, express: { ...DELIVERY_CALENDAR.transitDays.express, local: { min: 3, max: 1 } } };
+
+    expect(() => store.publishTransitDays(backwards)).toThrow('Delivery calendar transitDays.express.local must have whole min and max days, min first');
+    expect(store.get()).toBe(DELIVERY_CALENDAR);
+  });
+
+  test('leaves transit days that could not be saved unpublished', () => {
+    const store = createDeliveryCalendarStore({
+      onPublish: () => {
+        throw new Error('disk full');
+      },
+    });
+
+    expect(() => store.publishTransitDays(slowerStandard())).toThrow(DeliveryCalendarSaveError);
+    expect(() => store.publishTransitDays(slowerStandard())).toThrow(`Delivery calendar ${DELIVERY_CALENDAR.version}.1 could not be saved: disk full`);
+    expect(store.get()).toBe(DELIVERY_CALENDAR);
+  });
+});
@@ -0,0 +1,65 @@
+import { DELIVERY_CALENDAR, DeliveryCalendar, parseDeliveryCalendar } from './deliveryDate';
+
+// Transit days published from the admin screen, laid over the bundled delivery calendar (whose
+// dispatch cutoff, weekends and holidays still apply). The calendar stays the only transit table:
+// publishing gives it a new version, numbered on from the bundled one (2026.10.1, 2026.10.2, ...).
+
+export type TransitTable = DeliveryCalendar['transitDays'];
+
+// What's kept between runs: the last transit days published
+export interface PublishedTransitDays {
+  version: string;
+  transitDays: TransitTable;
+}
+
+// publishTransitDays throws DeliveryCalendarSaveError when onPublish fails; the days are then not published
+export interface DeliveryCalendarStore {
+  get: () => DeliveryCalendar;
+  publishTransitDays: (transitDays: TransitTable) => DeliveryCalendar; // throws with the reason a table is refused
+}
+
+export interface DeliveryCalendarStoreOptions {
+  bundled?: DeliveryCalendar;
+  published?: PublishedTransitDays; // from an earlier run
+  onPublish?: (published: PublishedTransitDays) => void; // to keep them for the next run (throws when they can't be kept)
+}
+
+// Transit days that passed the calendar schema but couldn't be kept for the next run
+export class DeliveryCalendarSaveError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, DeliveryCalendarSaveError.prototype);
+    this.name = 'DeliveryCalendarSaveError';
+  }
+}
+
+// The version after `current`, counted on from the bundled calendar's
+export const nextCalendarVersion = (bundled: DeliveryCalendar, current: DeliveryCalendar): string => {
+  const published = current.version.startsWith(`${bundled.version}.`) ? Number(current.version.slice(bundled.version.length + 1)) : 0;
+  return `${bundled.version}.${(Number.isInteger(published) ? published : 0) + 1}`;
+};
+
+export const createDeliveryCalendarStore = ({
+  bundled = DELIVERY_CALENDAR,
+  published: initial,
+  onPublish,
+}: DeliveryCalendarStoreOptions = {}): DeliveryCalendarStore => {
+  let calendar = initial ? parseDeliveryCalendar({ ...bundled, ...initial }) : bundled;
+
+  return {
+    get: () => calendar,
+    // Kept before it goes live, so no quote gives transit days the next run won't have
+    publishTransitDays: (transitDays) => {
+      const next = parseDeliveryCalendar({ ...calendar, version: nextCalendarVersion(bundled, calendar), transitDays });
+      try {
+        onPublish?.({ version: next.version, transitDays: next.transitDays });
+      } catch (error) {
+        throw new DeliveryCalendarSaveError(
+          `Delivery calendar ${next.version} could not be saved: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      calendar = next;
+      return calendar;
+    },
+  };
+};
@@ -0,0 +1,107 @@
+import {
+  addBusinessDays,
+  DELIVERY_CALENDAR,
+  estimateDelivery,
+  formatDeliveryDate,
+  getDispatchDate,
+  getLastCalendarYear,
+  parseDeliveryCalendar,
+} from './deliveryDate';
+
+/**
+ * UNIT TESTS: Delivery date estimation
+ *
+ * PURPOSE: Check that orders dispatch the same business day before the cutoff and the next
+ * one after it, that transit days skip weekends and each country's public holidays, and that
+ * bad calendars are rejected. Order times are fixed local times, so the results don't depend
+ * on when or where the tests run.
+ */
+// Thursday 16 October 2025 at the given local time
+const thursday = (hours: number, minutes = 0) => new Date(2025, 9, 16, hours, minutes);
+
+describe('getDispatchDate', () => {
+  test('dispatches today before the cutoff and the next business day after it', () => {
+    expect(getDispatchDate(thursday(14, 59), 'US')).toBe('2025-10-16');
+    expect(getDispatchDate(thursday(15, 0), 'US')).toBe('2025-10-17');
+    expect(getDispatchDate(new Date(2025, 9, 17, 18, 30), 'US')).toBe('2025-10-20'); // Friday evening -> Monday
+    expect(getDispatchDate(new Date(2025, 9, 18, 9, 0), 'US')).toBe('2025-10-20'); // Saturday -> Monday
+  });
+
+  test("skips the origin country's public holidays", () => {
+    expect(getDispatchDate(new Date(2025, 10, 27, 9, 0), 'US')).toBe('2025-11-28'); // Thanksgiving
+    expect(getDispatchDate(new Date(2025, 10, 27, 9, 0), 'GB')).toBe('2025-11-27');
+  });
+});
+
+describe('estimateDelivery', () => {
+  test('adds the zone transit time in business days', () => {
+    expect(estimateDelivery({ orderedAt: thursday(10), shippingMethod: 'standard', destinationZone: 'domestic' })).toEqual({
+      dispatchDate: '2025-10-16',
+      earliest: '2025-10-22',
+      latest: '2025-10-27',
+    });
+    expect(estimateDelivery({ orderedAt: thursday(16), shippingMethod: 'overnight', destinationZone: 'local' })).toEqual({
+      dispatchDate: '2025-10-17',
+      earliest: '2025-10-20',
+      latest: '2025-10-20',
+    });
+  });
+
+  test("skips the destination country's public holidays in transit", () => {
+    const estimate = estimateDelivery({
+      orderedAt: new Date(2025, 11, 24, 10, 0),
+      shippingMethod: 'overnight',
+      destinationZone: 'international',
+      originRegion: 'US',
+      destinationRegion: 'GB',
+    });
+
+    expect(estimate).toEqual({ dispatchDate: '2025-12-24', earliest: '2025-12-29', latest: '2025-12-30' });
+  });
+
+  test('uses a custom calendar', () => {
+    const calendar = parseDeliveryCalendar({ ...DELIVERY_CALENDAR, dispatchCutoff: '12:00', weekendDays: [5, 6] });
+
+    expect(getDispatchDate(thursday(13), 'US', calendar)).toBe('2025-10-19'); // Friday and Saturday off
+    expect(addBusinessDays('2025-10-16', 1, 'US', calendar)).toBe('2025-10-19');
+  });
+});
+
+describe('calendar coverage', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Fails once the bundled holidays run out within a year: time to add the next ones
+  test('the bundled calendar lists holidays for next year', () => {
+    expect(getLastCalendarYear()).toBeGreaterThanOrEqual(new Date().getFullYear() + 1);
+  });
+
+  test('warns once when an estimate falls past the last year with holidays', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const calendar = { ...DELIVERY_CALENDAR, version: 'test.1', holidays: { US: ['2025-12-25'] } };
+    const order = { orderedAt: new Date(2025, 11, 30, 10, 0), shippingMethod: 'standard' as const, destinationZone: 'domestic' as const };
+
+    expect(estimateDelivery(order, calendar).latest).toBe('2026-01-08');
+    estimateDelivery(order, calendar);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('Delivery calendar test.1 lists holidays up to 2025, so dates in 2026 ignore them');
+  });
+});
+
+describe('parseDeliveryCalendar', () => {
+  test('rejects calendars it cannot count with', () => {
+    const parse = (overrides: object) => () => parseDeliveryCalendar({ ...DELIVERY_CALENDAR, ...overrides });
+
+    expect(parse({})).not.toThrow();
+    expect(parse({ dispatchCutoff: '3pm' })).toThrow(/HH:MM/);
+    expect(parse({ weekendDays: [0, 1, 2, 3, 4, 5, 6] })).toThrow(/at least one working day/);
+    expect(parse({ transitDays: { ...DELIVERY_CALENDAR.transitDays, express: {} } })).toThrow(/transitDays.express.local/);
+    expect(parse({ holidays: { US: ['25 December'] } })).toThrow(/holidays.US/);
+  });
+});
+
+test('formats dates as weekday, day and month', () => {
+  expect(formatDeliveryDate('2025-10-23')).toBe('Thu 23 Oct');
+});
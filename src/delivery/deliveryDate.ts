@@ -0,0 +1,170 @@
+import { DESTINATION_ZONES, DestinationZone, SHIPPING_METHODS, ShippingMethod } from '../types';
+import bundledCalendar from './deliveryCalendar.json';
+
+// Delivery dates from an order time: a parcel leaves the same business day if it's ordered before
+// the dispatch cutoff (otherwise the next business day), then takes the method's transit time to
+// its zone in business days. Weekends and each country's public holidays (deliveryCalendar.json)
+// are not business days. Pure - the order time is passed in, so tests can fix the clock.
+
+export interface TransitDays {
+  min: number;
+  max: number;
+}
+
+export interface DeliveryCalendar {
+  version: string;
+  dispatchCutoff: string; // HH:MM on the customer's clock
+  weekendDays: number[]; // 0 = Sunday
+  defaultRegion: string; // whose holidays apply to a shipment without addresses
+  transitDays: Record<ShippingMethod, Record<DestinationZone, TransitDays>>; // business days after dispatch
+  holidays: Record<string, string[]>; // country code -> YYYY-MM-DD dates
+}
+
+export interface DeliveryEstimateInput {
+  orderedAt: Date;
+  shippingMethod: ShippingMethod;
+  destinationZone: DestinationZone;
+  originRegion?: string; // country codes; dispatch follows the origin's holidays, delivery the destination's
+  destinationRegion?: string;
+}
+
+// Calendar dates as YYYY-MM-DD
+export interface DeliveryEstimate {
+  dispatchDate: string;
+  earliest: string;
+  latest: string;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CUTOFF = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isWholeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Validate raw JSON and return it as a typed calendar (throws on bad input)
+export const parseDeliveryCalendar = (json: unknown): DeliveryCalendar => {
+  if (!isObject(json)) {
+    throw new Error('Delivery calendar must be a JSON object');
+  }
+  if (typeof json.version !== 'string' || !json.version) {
+    throw new Error('Delivery calendar version is required');
+  }
+  if (typeof json.dispatchCutoff !== 'string' || !CUTOFF.test(json.dispatchCutoff)) {
+    throw new Error('Delivery calendar dispatchCutoff must be a time as HH:MM');
+  }
+  const weekend = json.weekendDays;
+  // At least one working day a week, or counting business days would never end
+  if (!Array.isArray(weekend) || weekend.length > 6 || !weekend.every((day) => isWholeNumber(day) && day <= 6)) {
+    throw new Error('Delivery calendar weekendDays must list days of the week (0-6), leaving at least one working day');
+  }
+  if (typeof json.defaultRegion !== 'string' || !json.defaultRegion) {
+    throw new Error('Delivery calendar defaultRegion is required');
+  }
+
+  if (!isObject(json.transitDays)) {
+    throw new Error('Delivery calendar transitDays must be an object');
+  }
+  SHIPPING_METHODS.forEach((method) => {
+    DESTINATION_ZONES.forEach((zone) => {
+      const transit = isObject(json.transitDays[method]) ? json.transitDays[method][zone] : undefined;
+      if (!isObject(transit) || !isWholeNumber(transit.min) || !isWholeNumber(transit.max) || transit.min > transit.max) {
+        throw new Error(`Delivery calendar transitDays.${method}.${zone} must have whole min and max days, min first`);
+      }
+    });
+  });
+
+  if (!isObject(json.holidays)) {
+    throw new Error('Delivery calendar holidays must be an object');
+  }
+  Object.entries(json.holidays).forEach(([region, dates]) => {
+    if (!Array.isArray(dates) || !dates.every((date) => typeof date === 'string' && ISO_DATE.test(date) && !isNaN(Date.parse(date)))) {
+      throw new Error(`Delivery calendar holidays.${region} must list dates as YYYY-MM-DD`);
+    }
+  });
+
+  return json as DeliveryCalendar;
+};
+
+export const DELIVERY_CALENDAR: DeliveryCalendar = parseDeliveryCalendar(bundledCalendar);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar dates are stepped in UTC so daylight-saving changes can't skip or repeat a day
+const fromIsoDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const addDays = (date: string, days: number): string => {
+  const result = fromIsoDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+// The date of a moment on the customer's clock
+const localDate = (moment: Date): string => `${moment.getFullYear()}-${pad(moment.getMonth() + 1)}-${pad(moment.getDate())}`;
+
+export const isBusinessDay = (date: string, region: string, calendar: DeliveryCalendar = DELIVERY_CALENDAR): boolean =>
+  !calendar.weekendDays.includes(fromIsoDate(date).getUTCDay()) && !(calendar.holidays[region] || []).includes(date);
+
+// The date `days` business days after `date`
+export const addBusinessDays = (date: string, days: number, region: string, calendar: DeliveryCalendar = DELIVERY_CALENDAR): string => {
+  let result = date;
+  for (let added = 0; added < days; ) {
+    result = addDays(result, 1);
+    if (isBusinessDay(result, region, calendar)) added++;
+  }
+  return result;
+};
+
+// Today if the order is in before the cutoff on a business day, otherwise the next business day
+export const getDispatchDate = (orderedAt: Date, region: string, calendar: DeliveryCalendar = DELIVERY_CALENDAR): string => {
+  const today = localDate(orderedAt);
+  const [hours, minutes] = calendar.dispatchCutoff.split(':').map(Number);
+  const beforeCutoff = orderedAt.getHours() * 60 + orderedAt.getMinutes() < hours * 60 + minutes;
+  return beforeCutoff && isBusinessDay(today, region, calendar) ? today : addBusinessDays(today, 1, region, calendar);
+};
+
+// Business days from dispatch to delivery. This is the only transit table: quotes' estimatedDeliveryDays
+// is its max, so every screen and export agrees with the arrival dates.
+export const getTransitDays = (
+  shippingMethod: ShippingMethod,
+  destinationZone: DestinationZone,
+  calendar: DeliveryCalendar = DELIVERY_CALENDAR
+): TransitDays => calendar.transitDays[shippingMethod][destinationZone];
+
+// The last year the calendar lists holidays for. Past it every weekday counts as a business day,
+// so the calendar needs extending before then.
+export const getLastCalendarYear = (calendar: DeliveryCalendar = DELIVERY_CALENDAR): number =>
+  Object.values(calendar.holidays).reduce(
+    (last, dates) => dates.reduce((year, date) => Math.max(year, Number(date.slice(0, 4))), last),
+    -Infinity
+  );
+
+// Calendar versions and years already warned about, so each is logged once rather than on every estimate
+const warnedPastCalendar = new Set<string>();
+
+export const estimateDelivery = (input: DeliveryEstimateInput, calendar: DeliveryCalendar = DELIVERY_CALENDAR): DeliveryEstimate => {
+  const origin = input.originRegion || calendar.defaultRegion;
+  const destination = input.destinationRegion || calendar.defaultRegion;
+  const { min, max } = getTransitDays(input.shippingMethod, input.destinationZone, calendar);
+  const dispatchDate = getDispatchDate(input.orderedAt, origin, calendar);
+  const latest = addBusinessDays(dispatchDate, max, destination, calendar);
+
+  // Still estimated, without holidays, but logged so the missing year gets added
+  const year = Number(latest.slice(0, 4));
+  const lastYear = getLastCalendarYear(calendar);
+  if (year > lastYear && !warnedPastCalendar.has(`${calendar.version}:${year}`)) {
+    warnedPastCalendar.add(`${calendar.version}:${year}`);
+    console.warn(`Delivery calendar ${calendar.version} lists holidays up to ${lastYear}, so dates in ${year} ignore them`);
+  }
+
+  return {
+    dispatchDate,
+    earliest: addBusinessDays(dispatchDate, min, destination, calendar),
+    latest,
+  };
+};
+
+// A calendar date for display, e.g. "Thu 23 Oct"
+export const formatDeliveryDate = (date: string, locale: string = 'en-GB'): string =>
+  new Intl.DateTimeFormat(locale, { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' }).format(fromIsoDate(date));
@@ -0,0 +1,106 @@
+import { createQuoteExport, getQuoteFileName, getQuoteId, QUOTE_CSV_COLUMNS, toQuoteCsv, toQuoteJson } from './quoteExport';
+import { createHistoryEntry } from '../history/quoteHistory';
+import { calculateQuote } from '../pricing/engine';
+import { calculatePromotedQuote } from '../pricing/promoCodes';
+import { RATE_CARDS } from '../pricing/rateCard';
+import { ACCOUNTS } from '../server/accounts';
+import { ShippingFormData } from '../types';
+
+/**
+ * UNIT TESTS: Quote export
+ *
+ * PURPOSE: Check that an exported quote has a stable ID and validity period, and that the
+ * CSV and JSON files carry the full breakdown for import into other systems, with CSV
+ * columns that add up to the total.
+ */
+const shipment: ShippingFormData = {
+  shippingMethod: 'express',
+  packages: [
+    { weight: 2, dimensions: { length: 30, width: 20, height: 10 } },
+    { weight: 0.5, dimensions: { length: 10, width: 10, height: 5 } },
+  ],
+  destinationZone: 'domestic',
+};
+
+const entry = {
+  ...createHistoryEntry(shipment, calculateQuote(shipment, RATE_CARDS[2]), new Date('2025-10-01T09:30:00Z')),
+  id: '1759311000000-k3f9qx',
+};
+
+describe('quote export', () => {
+  test('derives the quote ID from the history entry', () => {
+    expect(getQuoteId(entry)).toBe('ZZZ-20251001-K3F9QX');
+    expect(getQuoteFileName(createQuoteExport(entry), 'pdf')).toBe('zzz-shipping-quote-ZZZ-20251001-K3F9QX.pdf');
+  });
+
+  test('is valid for 30 days from when it was quoted', () => {
+    const quote = createQuoteExport(entry);
+
+    expect(quote.issuedAt).toBe('2025-10-01T09:30:00.000Z');
+    expect(quote.validUntil).toBe('2025-10-31T09:30:00.000Z');
+    expect(quote.currency).toBe('USD');
+  });
+
+  test('dates delivery from when it was quoted, on the same transit table as the quote', () => {
+    const quote = createQuoteExport(entry);
+    const column = (name: typeof QUOTE_CSV_COLUMNS[number]) => QUOTE_CSV_COLUMNS.indexOf(name);
+    const row = toQuoteCsv(quote).trim().split('\r\n')[1].split(',');
+
+    // Express domestic: 2-3 business days from a Wednesday morning dispatch
+    expect(quote.delivery).toEqual({ dispatchDate: '2025-10-01', earliest: '2025-10-03', latest: '2025-10-06' });
+    expect(row[column('estimated_delivery_days')]).toBe('3');
+    expect(row[column('estimated_delivery_date')]).toBe('2025-10-06');
+  });
+
+  test('JSON round-trips the shipment and the full result', () => {
+    const json = JSON.parse(toQuoteJson(createQuoteExport(entry)));
+
+    expect(json.quoteId).toBe('ZZZ-20251001-K3F9QX');
+    expect(json.formData).toEqual(shipment);
+    expect(json.result).toEqual(entry.result);
+  });
+
+  test('CSV has a header and one row per package with the quote totals', () => {
+    const lines = toQuoteCsv(createQuoteExport(entry)).trim().split('\r\n');
+    const rows = lines.slice(1).map((line) => line.split(','));
+    const column = (name: typeof QUOTE_CSV_COLUMNS[number]) => QUOTE_CSV_COLUMNS.indexOf(name);
+
+    expect(lines[0]).toBe(QUOTE_CSV_COLUMNS.join(','));
+    expect(rows).toHaveLength(2);
+    expect(rows.map((row) => row[column('package_number')])).toEqual(['1', '2']);
+    expect(rows[0][column('length_cm')]).toBe('30');
+    expect(rows[1][column('weight_kg')]).toBe('0.5');
+    expect(rows[0][column('package_cost')]).toBe(String(entry.result.breakdown.packages[0].cost));
+    rows.forEach((row) => {
+      expect(row[column('total_cost')]).toBe(String(entry.result.shippingCost));
+      expect(row[column('rate_card_version')]).toBe('2025.3');
+    });
+  });
+
+  test('CSV columns add up to the total, account, add-ons and promo code included', () => {
+    const insured: ShippingFormData = { ...shipment, addOns: ['insurance', 'signature'], declaredValue: 400, accountNumber: 'ZZA10001', promoCode: 'WELCOME10' };
+    const result = calculatePromotedQuote(insured, RATE_CARDS[2], { accounts: ACCOUNTS, now: new Date('2025-10-01T09:30:00Z') });
+    const quote = createQuoteExport({ ...entry, formData: insured, result });
+    const column = (name: typeof QUOTE_CSV_COLUMNS[number]) => QUOTE_CSV_COLUMNS.indexOf(name);
+    const row = toQuoteCsv(quote).trim().split('\r\n')[1].split(',');
+    const amount = (name: typeof QUOTE_CSV_COLUMNS[number]) => Number(row[column(name)]);
+
+    expect(row[column('account_number')]).toBe('ZZA10001');
+    expect(amount('account_discount')).toBeGreaterThan(0);
+    expect(row[column('add_ons')]).toBe('insurance;signature');
+    expect(amount('add_ons_cost')).toBe(10.5);
+    expect(row[column('promo_code')]).toBe('WELCOME10');
+    expect(amount('promo_discount')).toBeGreaterThan(0);
+    expect(
+      amount('subtotal') - amount('multi_piece_discount') - amount('account_discount') + amount('add_ons_cost') - amount('promo_discount')
+    ).toBeCloseTo(amount('total_cost'), 2);
+    expect(amount('total_cost')).toBe(quote.result.shippingCost);
+  });
+
+  test('CSV quotes values containing commas or quotes', () => {
+    const quote = createQuoteExport(entry);
+    const csv = toQuoteCsv({ ...quote, result: { ...quote.result, rateCardVersion: '2025,"Q4"' } });
+
+    expect(csv).toContain(',"2025,""Q4""",');
+  });
+});
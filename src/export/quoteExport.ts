@@ -0,0 +1,171 @@
+import { ShippingFormData, ShippingResult } from '../types';
+import { PRICE_CURRENCY } from '../currency/exchangeRates';
+import { QuoteHistoryEntry } from '../history/quoteHistory';
+import { DELIVERY_CALENDAR, DeliveryCalendar, DeliveryEstimate, estimateDelivery } from '../delivery/deliveryDate';
+
+// A quote as it is handed to a customer or another system: the priced shipment plus a quote ID
+// and how long the price is honoured for
+
+// Days a quoted price is honoured from the day it was given
+export const QUOTE_VALIDITY_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuoteExport {
+  quoteId: string; // e.g. "ZZZ-20251001-K3F9QX"
+  issuedAt: string; // ISO 8601
+  validUntil: string; // ISO 8601
+  currency: string; // the currency every price is charged in
+  formData: ShippingFormData;
+  result: ShippingResult;
+  delivery: DeliveryEstimate; // for a shipment ordered when the quote was given, as on screen
+}
+
+// Quote IDs are stable for a history entry, so the PDF and the ERP files of one quote agree
+export const getQuoteId = (entry: QuoteHistoryEntry): string => {
+  const date = entry.savedAt.slice(0, 10).replace(/-/g, '');
+  const suffix = entry.id.split('-').pop()!.toUpperCase();
+  return `ZZZ-${date}-${suffix}`;
+};
+
+// Delivery dates follow the calendar in effect (the pricing service's, or the bundled one)
+export const createQuoteExport = (entry: QuoteHistoryEntry, calendar: DeliveryCalendar = DELIVERY_CALENDAR): QuoteExport => ({
+  quoteId: getQuoteId(entry),
+  issuedAt: entry.savedAt,
+  validUntil: new Date(Date.parse(entry.savedAt) + QUOTE_VALIDITY_DAYS * DAY_MS).toISOString(),
+  currency: PRICE_CURRENCY,
+  formData: entry.formData,
+  result: entry.result,
+  delivery: estimateDelivery(
+    {
+      orderedAt: new Date(entry.savedAt),
+      shippingMethod: entry.formData.shippingMethod,
+      destinationZone: entry.formData.destinationZone,
+      originRegion: entry.formData.origin?.country,
+      destinationRegion: entry.formData.destination?.country,
+    },
+    calendar
+  ),
+});
+
+// e.g. "zzz-shipping-quote-ZZZ-20251001-K3F9QX.pdf"
+export const getQuoteFileName = (quote: QuoteExport, extension: 'pdf' | 'csv' | 'json'): string =>
+  `zzz-shipping-quote-${quote.quoteId}.${extension}`;
+
+export const toQuoteJson = (quote: QuoteExport): string => JSON.stringify(quote, null, 2);
+
+// CSV columns: one row per package, with the quote-level figures repeated on every row so each
+// row can be imported on its own: subtotal - multi_piece_discount - account_discount + add_ons_cost
+// - promo_discount = total_cost, with add_ons the chosen add-on codes separated by ";". Weights are kg, lengths cm, money in the quote
+// currency, and the delivery date is the latest a parcel sent when the quote was given should arrive.
+export const QUOTE_CSV_COLUMNS = [
+  'quote_id',
+  'issued_at',
+  'valid_until',
+  'rate_card_version',
+  'source',
+  'shipping_method',
+  'destination_zone',
+  'estimated_delivery_days',
+  'estimated_delivery_date',
+  'currency',
+  'package_number',
+  'weight_kg',
+  'length_cm',
+  'width_cm',
+  'height_cm',
+  'size_category',
+  'size_multiplier',
+  'volumetric_weight_kg',
+  'chargeable_weight_kg',
+  'weight_basis',
+  'weight_surcharge',
+  'package_cost',
+  'base_rate',
+  'zone_multiplier',
+  'subtotal',
+  'multi_piece_discount',
+  'account_number',
+  'account_discount',
+  'add_ons',
+  'add_ons_cost',
+  'promo_code',
+  'promo_discount',
+  'total_cost',
+] as const;
+
+export type CsvValue = string | number | undefined;
+
+// Quote a field only when it needs it: commas, quotes or line breaks
+export const escapeCsv = (value: CsvValue): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toQuoteCsv = (quote: QuoteExport): string => {
+  const { result, formData } = quote;
+  const { breakdown } = result;
+  const addOns = breakdown.addOns || [];
+  const addOnsCost = parseFloat(addOns.reduce((sum, addOn) => sum + addOn.cost, 0).toFixed(2));
+
+  const rows = breakdown.packages.map((pkg, index): Record<typeof QUOTE_CSV_COLUMNS[number], CsvValue> => ({
+    quote_id: quote.quoteId,
+    issued_at: quote.issuedAt,
+    valid_until: quote.validUntil,
+    rate_card_version: result.rateCardVersion,
+    source: result.source,
+    shipping_method: breakdown.shippingMethod,
+    destination_zone: breakdown.destinationZone,
+    estimated_delivery_days: result.estimatedDeliveryDays,
+    estimated_delivery_date: quote.delivery.latest,
+    currency: quote.currency,
+    package_number: index + 1,
+    weight_kg: pkg.weight,
+    length_cm: formData.packages[index]?.dimensions.length,
+    width_cm: formData.packages[index]?.dimensions.width,
+    height_cm: formData.packages[index]?.dimensions.height,
+    size_category: pkg.packageSizeCategory,
+    size_multiplier: pkg.sizeMultiplier,
+    volumetric_weight_kg: pkg.volumetricWeight,
+    chargeable_weight_kg: pkg.chargeableWeight,
+    weight_basis: pkg.weightBasis,
+    weight_surcharge: pkg.weightSurcharge,
+    package_cost: pkg.cost,
+    base_rate: breakdown.baseRate,
+    zone_multiplier: breakdown.zoneMultiplier,
+    subtotal: breakdown.subtotal,
+    multi_piece_discount: breakdown.multiPieceDiscount,
+    account_number: breakdown.accountDiscount?.accountNumber,
+    account_discount: breakdown.accountDiscount?.amount ?? 0,
+    add_ons: addOns.map((addOn) => addOn.id).join(';') || undefined,
+    add_ons_cost: addOnsCost,
+    promo_code: breakdown.promoDiscount?.code,
+    promo_discount: breakdown.promoDiscount?.amount ?? 0,
+    total_cost: result.shippingCost,
+  }));
+
+  return [QUOTE_CSV_COLUMNS.join(','), ...rows.map((row) => QUOTE_CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(','))]
+    .join('\r\n') + '\r\n';
+};
+
+// Save a file from the browser, no server round trip
+export const downloadFile = (fileName: string, content: Blob | string, type: string) => {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Read a file the user picked as text
+export const readFileText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error || new Error('The file could not be read'));
+    reader.readAsText(file);
+  });
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import { buildQuotePdf } from './quotePdf';
+import { createQuoteExport } from './quoteExport';
+import { createHistoryEntry } from '../history/quoteHistory';
+import { calculateQuote } from '../pricing/engine';
+import { RATE_CARDS } from '../pricing/rateCard';
+import { BUNDLED_EXCHANGE_RATES } from '../currency/exchangeRates';
+import { ShippingFormData } from '../types';
+
+/**
+ * UNIT TESTS: Quote PDF
+ *
+ * PURPOSE: Check that the printable quote is a branded PDF with the quote ID, validity
+ * and cost breakdown, in the customer's currency and units. Runs in the node environment
+ * because jsPDF needs TextEncoder, which jsdom doesn't provide.
+ */
+const shipment: ShippingFormData = {
+  shippingMethod: 'express',
+  packages: [
+    { weight: 2, dimensions: { length: 30, width: 20, height: 10 } },
+    { weight: 0.5, dimensions: { length: 10, width: 10, height: 5 } },
+  ],
+  destinationZone: 'domestic',
+};
+
+const entry = {
+  ...createHistoryEntry(shipment, calculateQuote(shipment, RATE_CARDS[2]), new Date('2025-10-01T09:30:00Z')),
+  id: '1759311000000-k3f9qx',
+};
+
+describe('quote PDF', () => {
+  test('carries the branding, quote ID and cost breakdown', () => {
+    const quote = createQuoteExport(entry);
+    const pdf = buildQuotePdf(quote, { units: 'metric', currency: 'USD', exchangeRates: BUNDLED_EXCHANGE_RATES, locale: 'en-US' });
+    const content = pdf.output();
+
+    expect(content.startsWith('%PDF-')).toBe(true);
+    ['ZZZ Shipping', 'Shipping Quote', 'ZZZ-20251001-K3F9QX', 'Valid Until', 'Cost Breakdown', 'Subtotal', 'Total Cost'].forEach(
+      (text) => expect(content).toContain(`(${text})`)
+    );
+    expect(content).toContain(`($${entry.result.shippingCost.toFixed(2)})`);
+    expect(content).toContain('(Fri, Oct 3 - Mon, Oct 6)');
+  });
+
+  test('shows converted prices and the charge currency', () => {
+    const quote = createQuoteExport(entry);
+    const content = buildQuotePdf(quote, { units: 'imperial', currency: 'GBP', exchangeRates: BUNDLED_EXCHANGE_RATES, locale: 'en-GB' }).output();
+
+    expect(content).toContain('You will be charged');
+    expect(content).toContain(' lb');
+    expect(content).toContain(' in)');
+  });
+});
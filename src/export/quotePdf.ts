@@ -0,0 +1,194 @@
+import { jsPDF } from 'jspdf';
+import { ExchangeRateTable } from '../types';
+import { PRICE_CURRENCY } from '../currency/exchangeRates';
+import { convertQuote, formatMoney } from '../currency/money';
+import { fromMetricLength, fromMetricWeight, roundTo, UNIT_LABELS, UnitSystem } from '../units';
+import { QUOTE_VALIDITY_DAYS, QuoteExport } from './quoteExport';
+import { formatDeliveryDate } from '../delivery/deliveryDate';
+
+// Printable A4 quote, laid out in mm. Built entirely in the browser with jsPDF.
+
+export interface QuotePdfOptions {
+  units: UnitSystem;
+  currency: string; // display currency; the charge is always in the quote's own currency
+  exchangeRates: ExchangeRateTable;
+  locale?: string;
+}
+
+const BRAND_COLOR: [number, number, number] = [102, 126, 234]; // #667eea, as the app header
+const TEXT_COLOR: [number, number, number] = [51, 51, 51];
+const MUTED_COLOR: [number, number, number] = [119, 119, 119];
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const LINE_HEIGHT = 6;
+
+// Package table columns: left edge of each, in mm
+const PACKAGE_COLUMNS = [
+  { label: '#', x: MARGIN },
+  { label: 'Weight', x: MARGIN + 10 },
+  { label: 'Dimensions (L x W x H)', x: MARGIN + 35 },
+  { label: 'Billed Weight', x: MARGIN + 85 },
+  { label: 'Size', x: MARGIN + 120 },
+  { label: 'Cost', x: PAGE_WIDTH - MARGIN, align: 'right' as const },
+];
+
+const formatDate = (iso: string, locale?: string): string =>
+  new Date(iso).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const buildQuotePdf = (quote: QuoteExport, { units, currency, exchangeRates, locale }: QuotePdfOptions): jsPDF => {
+  const { result, formData } = quote;
+  const { breakdown } = result;
+  const converted = convertQuote(result, currency, exchangeRates);
+  const money = (amount: number) => formatMoney(amount, currency, locale);
+  const labels = UNIT_LABELS[units];
+  const weight = (kg: number) => `${roundTo(fromMetricWeight(kg, units), 2)} ${labels.weight}`;
+  const length = (cm: number) => roundTo(fromMetricLength(cm, units), 1);
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: `ZZZ Shipping Quote ${quote.quoteId}`, author: 'ZZZ Shipping' });
+
+  // Header band
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, PAGE_WIDTH, 32, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  doc.text('ZZZ Shipping', MARGIN, 16);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text('Global Logistics Solutions', MARGIN, 23);
+  doc.setFontSize(16);
+  doc.text('Shipping Quote', PAGE_WIDTH - MARGIN, 18, { align: 'right' });
+
+  let y = 44;
+  doc.setTextColor(...TEXT_COLOR);
+
+  const heading = (text: string) => {
+    y += 4;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(...BRAND_COLOR);
+    doc.text(text, MARGIN, y);
+    doc.setDrawColor(...BRAND_COLOR);
+    doc.line(MARGIN, y + 1.5, PAGE_WIDTH - MARGIN, y + 1.5);
+    doc.setTextColor(...TEXT_COLOR);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    y += LINE_HEIGHT + 1;
+  };
+
+  // Label on the left, value right-aligned
+  const row = (label: string, value: string, bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.text(label, MARGIN, y);
+    doc.text(value, PAGE_WIDTH - MARGIN, y, { align: 'right' });
+    y += LINE_HEIGHT;
+  };
+
+  // Start a new page when the next block wouldn't fit
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - 10) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  heading('Quote Details');
+  row('Quote ID', quote.quoteId, true);
+  row('Issued', formatDate(quote.issuedAt, locale));
+  row('Valid Until', `${formatDate(quote.validUntil, locale)} (${QUOTE_VALIDITY_DAYS} days)`);
+  if (result.rateCardVersion) row('Rate Card', result.rateCardVersion);
+
+  heading('Shipment');
+  row('Shipping Method', breakdown.shippingMethod.toUpperCase());
+  row('Destination Zone', breakdown.destinationZone.toUpperCase());
+  const { earliest, latest } = quote.delivery;
+  const arrival = (date: string) => formatDeliveryDate(date, locale);
+  row('Estimated Delivery', earliest === latest ? arrival(latest) : `${arrival(earliest)} - ${arrival(latest)}`);
+  row('Packages', String(breakdown.packages.length));
+
+  heading('Packages');
+  doc.setFont('helvetica', 'bold');
+  PACKAGE_COLUMNS.forEach(({ label, x, align }) => doc.text(label, x, y, { align }));
+  y += LINE_HEIGHT;
+  doc.setFont('helvetica', 'normal');
+  breakdown.packages.forEach((pkg, index) => {
+    ensureSpace(LINE_HEIGHT);
+    const dimensions = formData.packages[index]?.dimensions;
+    const cells = [
+      String(index + 1),
+      weight(pkg.weight),
+      dimensions
+        ? `${length(dimensions.length)} x ${length(dimensions.width)} x ${length(dimensions.height)} ${labels.length}`
+        : '-',
+      `${weight(pkg.chargeableWeight)} (${pkg.weightBasis})`,
+      pkg.packageSizeCategory,
+      money(converted.packages[index].cost),
+    ];
+    PACKAGE_COLUMNS.forEach(({ x, align }, column) => doc.text(cells[column], x, y, { align }));
+    y += LINE_HEIGHT;
+  });
+
+  ensureSpace(LINE_HEIGHT * (breakdown.packages.length * 2 + 8));
+  heading('Cost Breakdown');
+  row('Base Rate', money(converted.baseRate));
+  row('Zone Multiplier', `${breakdown.zoneMultiplier}x (${breakdown.destinationZone})`);
+  breakdown.packages.forEach((pkg, index) => {
+    row(`Package ${index + 1} Size Multiplier`, `${pkg.sizeMultiplier}x (${pkg.packageSizeCategory})`);
+    row(`Package ${index + 1} Weight Surcharge`, money(converted.packages[index].weightSurcharge));
+  });
+  row('Subtotal', money(converted.subtotal));
+  if (breakdown.multiPieceDiscount > 0) {
+    row('Multi-piece Discount', `-${money(converted.multiPieceDiscount)}`);
+  }
+  if (breakdown.accountDiscount) {
+    const { accountNumber, name, percent } = breakdown.accountDiscount;
+    row(`Account ${accountNumber} (${name}, ${percent}%)`, `-${money(converted.accountDiscount)}`);
+  }
+  (breakdown.addOns || []).forEach((addOn, index) => {
+    row(addOn.label, `+${money(converted.addOns[index].cost)}`);
+  });
+  if (breakdown.promoDiscount) {
+    row(`Promo ${breakdown.promoDiscount.code}`, `-${money(converted.promoDiscount)}`);
+  }
+  doc.setFontSize(13);
+  row('Total Cost', money(converted.shippingCost), true);
+  doc.setFontSize(10);
+
+  // Notes
+  const notes: string[] = [];
+  if (currency !== quote.currency) {
+    notes.push(
+      `Prices converted at 1 ${PRICE_CURRENCY} = ${parseFloat(converted.rate.toFixed(4))} ${currency} ` +
+        `(rates as of ${exchangeRates.asOf}). You will be charged ${formatMoney(result.shippingCost, quote.currency, locale)}.`
+    );
+  }
+  if (result.source && result.source !== 'live') {
+    notes.push('This price was estimated offline and your final price may differ.');
+  }
+  notes.push(`This quote is valid until ${formatDate(quote.validUntil, locale)}. Please quote ${quote.quoteId} when booking.`);
+
+  y += 4;
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED_COLOR);
+  notes.forEach((note) => {
+    const lines: string[] = doc.splitTextToSize(note, PAGE_WIDTH - MARGIN * 2);
+    ensureSpace(lines.length * 5);
+    doc.text(lines, MARGIN, y);
+    y += lines.length * 5;
+  });
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(`ZZZ Shipping - ${quote.quoteId}`, MARGIN, PAGE_HEIGHT - 10);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 10, { align: 'right' });
+  }
+
+  return doc;
+};
@@ -0,0 +1,61 @@
+import { addToHistory, createHistoryEntry, decodeQuoteHistory, diffQuotes, loadQuoteHistory, saveQuoteHistory } from './quoteHistory';
+import { calculateQuote } from '../pricing/engine';
+import { RATE_CARDS } from '../pricing/rateCard';
+import { ShippingFormData } from '../types';
+import { createTranslator, translateEnglish } from '../i18n';
+
+/**
+ * UNIT TESTS: Quote history
+ *
+ * PURPOSE: Check that history keeps the newest quotes, survives a round trip
+ * through localStorage, drops corrupt entries, and diffs two quotes field by field.
+ */
+const shipment: ShippingFormData = {
+  shippingMethod: 'standard',
+  packages: [{ weight: 2, dimensions: { length: 30, width: 30, height: 30 } }],
+  destinationZone: 'domestic',
+};
+
+describe('quote history', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  test('keeps the newest quotes first, up to the limit', () => {
+    const result = calculateQuote(shipment, RATE_CARDS[2]);
+    const entries = [1, 2, 3].map((n) => createHistoryEntry(shipment, result, new Date(2025, 9, n)));
+
+    const history = entries.reduce((list, entry) => addToHistory(list, entry, 2), [] as ReturnType<typeof decodeQuoteHistory>);
+
+    expect(history.map((entry) => entry.id)).toEqual([entries[2].id, entries[1].id]);
+    expect(history[0].rateCardVersion).toBe('2025.3');
+  });
+
+  test('round-trips through localStorage and drops corrupt entries', () => {
+    const entry = createHistoryEntry(shipment, calculateQuote(shipment, RATE_CARDS[2]));
+    saveQuoteHistory([entry]);
+    expect(loadQuoteHistory()).toEqual([entry]);
+
+    expect(decodeQuoteHistory([entry, { ...entry, result: { shippingCost: 'free' } }, null])).toEqual([entry]);
+    window.localStorage.setItem('zzzShipping.quoteHistory', '{not json');
+    expect(loadQuoteHistory()).toEqual([]);
+  });
+
+  test('diffs a quote against the same shipment at newer prices', () => {
+    // 27 L at 6000 cm³/kg is 4.5 kg volumetric: 2025.1 bills actual weight, 2025.2 bills volumetric
+    const changes = diffQuotes(calculateQuote(shipment, RATE_CARDS[0]), calculateQuote(shipment, RATE_CARDS[1]));
+    const changed = changes.filter((change) => change.changed).map((change) => change.field);
+
+    expect(changed).toEqual(expect.arrayContaining([
+      'shippingCost',
+      'rateCardVersion',
+      'breakdown.packages.0.chargeableWeight',
+      'breakdown.packages.0.weightBasis',
+    ]));
+    expect(changed).not.toContain('breakdown.baseRate');
+    const weightBasis = changes.find((change) => change.field === 'breakdown.packages.0.weightBasis')!;
+    expect(weightBasis).toMatchObject({ before: 'actual', after: 'volumetric' });
+    expect(translateEnglish(weightBasis.label.key, weightBasis.label.values)).toBe('Package 1 Billed On');
+    expect(createTranslator('de')(weightBasis.label.key, weightBasis.label.values)).toBe('Paket 1 Berechnet nach');
+  });
+});
@@ -0,0 +1,153 @@
+import { ADD_ON_IDS, PackageBreakdown, ShippingFormData, ShippingResult } from '../types';
+import { decodeShippingFormData, decodeShippingResult } from '../api/decode';
+import { Message } from '../i18n';
+
+// A quote as it was given: the shipment, the price, and the rate card it was priced on
+export interface QuoteHistoryEntry {
+  id: string;
+  savedAt: string; // ISO 8601
+  formData: ShippingFormData;
+  result: ShippingResult;
+  rateCardVersion: string | null; // null when the pricing service didn't say
+}
+
+// How many past quotes are kept, newest first
+export const MAX_QUOTE_HISTORY = 20;
+
+export const QUOTE_HISTORY_STORAGE_KEY = 'zzzShipping.quoteHistory';
+
+export const createHistoryEntry = (formData: ShippingFormData, result: ShippingResult, now: Date = new Date()): QuoteHistoryEntry => ({
+  id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+  savedAt: now.toISOString(),
+  formData,
+  result,
+  rateCardVersion: result.rateCardVersion ?? null,
+});
+
+// Put a quote at the top of the history, dropping the oldest beyond the limit
+export const addToHistory = (
+  history: QuoteHistoryEntry[],
+  entry: QuoteHistoryEntry,
+  limit: number = MAX_QUOTE_HISTORY
+): QuoteHistoryEntry[] => [entry, ...history].slice(0, limit);
+
+// Stored history is untrusted (older app versions, hand edits): keep only entries that still decode
+export const decodeQuoteHistory = (json: unknown): QuoteHistoryEntry[] => {
+  if (!Array.isArray(json)) return [];
+
+  return json.flatMap((raw: any): QuoteHistoryEntry[] => {
+    if (typeof raw !== 'object' || raw === null) return [];
+    const formData = decodeShippingFormData(raw.formData);
+    const result = decodeShippingResult(raw.result);
+    const valid =
+      formData &&
+      result &&
+      typeof raw.id === 'string' &&
+      typeof raw.savedAt === 'string' &&
+      !isNaN(Date.parse(raw.savedAt)) &&
+      (raw.rateCardVersion === null || typeof raw.rateCardVersion === 'string');
+
+    return valid ? [{ id: raw.id, savedAt: raw.savedAt, formData: formData!, result: result!, rateCardVersion: raw.rateCardVersion }] : [];
+  }).slice(0, MAX_QUOTE_HISTORY);
+};
+
+export const loadQuoteHistory = (): QuoteHistoryEntry[] => {
+  try {
+    const stored = window.localStorage.getItem(QUOTE_HISTORY_STORAGE_KEY);
+    return stored ? decodeQuoteHistory(JSON.parse(stored)) : [];
+  } catch (error) {
+    return []; // storage unavailable or corrupt
+  }
+};
+
+export const saveQuoteHistory = (history: QuoteHistoryEntry[]) => {
+  try {
+    window.localStorage.setItem(QUOTE_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    // Storage full or unavailable - the history still lasts for this visit
+  }
+};
+
+// One row of a quote diff
+export interface QuoteFieldChange {
+  field: string; // path into ShippingResult, e.g. "breakdown.packages.0.cost"
+  label: Message; // worded in the reader's language when shown
+  kind: 'money' | 'weight' | 'number' | 'text';
+  before?: number | string;
+  after?: number | string;
+  changed: boolean;
+}
+
+type FieldSpec = Pick<QuoteFieldChange, 'label' | 'kind'> & { read: (result: ShippingResult) => number | string | undefined };
+
+const QUOTE_FIELDS: Record<string, FieldSpec> = {
+  shippingCost: { label: { key: 'history.field.shippingCost' }, kind: 'money', read: (r) => r.shippingCost },
+  estimatedDeliveryDays: { label: { key: 'history.field.deliveryDays' }, kind: 'number', read: (r) => r.estimatedDeliveryDays },
+  rateCardVersion: { label: { key: 'history.field.rateCard' }, kind: 'text', read: (r) => r.rateCardVersion },
+  'breakdown.baseRate': { label: { key: 'history.field.baseRate' }, kind: 'money', read: (r) => r.breakdown.baseRate },
+  'breakdown.zoneMultiplier': { label: { key: 'history.field.zoneMultiplier' }, kind: 'number', read: (r) => r.breakdown.zoneMultiplier },
+  'breakdown.subtotal': { label: { key: 'history.field.subtotal' }, kind: 'money', read: (r) => r.breakdown.subtotal },
+  'breakdown.multiPieceDiscount': { label: { key: 'history.field.multiPieceDiscount' }, kind: 'money', read: (r) => r.breakdown.multiPieceDiscount },
+};
+
+// Labels are the history.field.package message with the package's number and the key
+const PACKAGE_FIELDS: { key: keyof PackageBreakdown; kind: QuoteFieldChange['kind'] }[] = [
+  { key: 'cost', kind: 'money' },
+  { key: 'sizeMultiplier', kind: 'number' },
+  { key: 'packageSizeCategory', kind: 'text' },
+  { key: 'weightSurcharge', kind: 'money' },
+  { key: 'volumetricWeight', kind: 'weight' },
+  { key: 'chargeableWeight', kind: 'weight' },
+  { key: 'weightBasis', kind: 'text' },
+];
+
+// Field-by-field comparison of two quotes for the same shipment: quote-level fields, each package,
+// then the account discount, each add-on and the promo code either quote has
+export const diffQuotes = (before: ShippingResult, after: ShippingResult): QuoteFieldChange[] => {
+  const row = (field: string, spec: FieldSpec): QuoteFieldChange => {
+    const [was, now] = [spec.read(before), spec.read(after)];
+    return { field, label: spec.label, kind: spec.kind, before: was, after: now, changed: was !== now };
+  };
+
+  const packageCount = Math.max(before.breakdown.packages.length, after.breakdown.packages.length);
+  const packageRows = Array.from({ length: packageCount }, (_, index) =>
+    PACKAGE_FIELDS.map(({ key, kind }) =>
+      row(`breakdown.packages.${index}.${key}`, {
+        label: { key: 'history.field.package', values: { number: index + 1, field: key } },
+        kind,
+        read: (result) => result.breakdown.packages[index]?.[key],
+      })
+    )
+  ).flat();
+
+  const addOnIds = ADD_ON_IDS.filter((id) => [before, after].some((result) => result.breakdown.addOns?.some((addOn) => addOn.id === id)));
+  const addOnRows = addOnIds.map((id) => {
+    const find = (result: ShippingResult) => result.breakdown.addOns?.find((addOn) => addOn.id === id);
+    const label = (find(after) || find(before))!.label;
+    return row(`breakdown.addOns.${id}`, { label: { key: 'history.field.addOn', values: { label } }, kind: 'money', read: (result) => find(result)?.cost });
+  });
+
+  const accounts = [before, after].map((result) => result.breakdown.accountDiscount);
+  const accountRows = accounts.some(Boolean)
+    ? [
+        row('breakdown.accountDiscount', {
+          label: { key: 'history.field.account', values: { accountNumber: (accounts[1] || accounts[0])!.accountNumber } },
+          kind: 'money',
+          read: (result) => result.breakdown.accountDiscount?.amount,
+        }),
+      ]
+    : [];
+
+  const promos = [before, after].map((result) => result.breakdown.promoDiscount);
+  const promoRows = promos.some(Boolean)
+    ? [
+        row('breakdown.promoDiscount', {
+          label: { key: 'history.field.promo', values: { code: (promos[1] || promos[0])!.code } },
+          kind: 'money',
+          read: (result) => result.breakdown.promoDiscount?.amount,
+        }),
+      ]
+    : [];
+
+  return [...Object.entries(QUOTE_FIELDS).map(([field, spec]) => row(field, spec)), ...packageRows, ...accountRows, ...addOnRows, ...promoRows];
+};
@@ -0,0 +1,77 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { ValidationMessages } from '../validation';
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  getIntlLocale,
+  getValidationMessages,
+  isLocale,
+  Locale,
+  matchLocale,
+  parseLocaleNumber,
+  toLocaleInput,
+  Translate,
+} from '.';
+
+interface I18nContextType {
+  locale: Locale;
+  intlLocale?: string; // for formatMoney, formatDeliveryDate and friends; undefined keeps their default
+  t: Translate;
+  validationMessages: ValidationMessages;
+  parseNumber: (text: string) => number; // NaN if the text isn't a number
+  formatInput: (value: number, decimals?: number) => string;
+  setLocale: (locale: Locale) => void;
+}
+
+const LOCALE_STORAGE_KEY = 'zzzShipping.locale';
+
+const createI18n = (locale: Locale, setLocale: (locale: Locale) => void): I18nContextType => {
+  const intlLocale = getIntlLocale(locale);
+  return {
+    locale,
+    intlLocale,
+    t: createTranslator(locale),
+    validationMessages: getValidationMessages(locale),
+    parseNumber: (text) => parseLocaleNumber(text, intlLocale || locale),
+    formatInput: (value, decimals) => toLocaleInput(value, intlLocale || locale, decimals),
+    setLocale,
+  };
+};
+
+// Outside a provider (e.g. a page rendered on its own in a test) everything is in English
+const I18nContext = createContext<I18nContextType>(createI18n(DEFAULT_LOCALE, () => {}));
+
+// The language chosen last time, else the browser's
+const loadLocale = (): Locale => {
+  try {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch (error) {
+    // storage unavailable (e.g. disabled cookies)
+  }
+  return matchLocale(navigator.languages || [navigator.language]);
+};
+
+export const I18nProvider: React.FC<{ children: React.ReactNode; locale?: Locale }> = ({ children, locale: initialLocale }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => initialLocale || loadLocale());
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => {
+    const setLocale = (next: Locale) => {
+      setLocaleState(next);
+      try {
+        window.localStorage.setItem(LOCALE_STORAGE_KEY, next);
+      } catch (error) {
+        // not remembered, but still switched for this visit
+      }
+    };
+    return createI18n(locale, setLocale);
+  }, [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextType => useContext(I18nContext);
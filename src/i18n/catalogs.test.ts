@@ -0,0 +1,50 @@
+import { CATALOGS, DEFAULT_LOCALE, getValidationMessageKeys, LOCALES } from '.';
+import { checkMessage } from './format';
+import { PRICE_CURRENCY } from '../currency/exchangeRates';
+
+/**
+ * UNIT TESTS: Message catalogs
+ *
+ * PURPOSE: Fail the build when a catalog is missing a key (a new English string,
+ * validation rule, hint or field that hasn't been translated), has a key nothing
+ * uses, holds a message the formatter can't read, or prices something in a currency other
+ * than the rate card's.
+ */
+const english = CATALOGS[DEFAULT_LOCALE];
+const validationKeys = getValidationMessageKeys();
+const translations = LOCALES.filter(({ code }) => code !== DEFAULT_LOCALE);
+
+describe('message catalogs', () => {
+  test('every supported language has a catalog', () => {
+    LOCALES.forEach(({ code }) => expect(CATALOGS[code]).toBeDefined());
+  });
+
+  test.each(translations.map(({ code }) => code))('%s has every key', (code) => {
+    const catalog = CATALOGS[code];
+    const missing = [...Object.keys(english), ...validationKeys].filter((key) => !(key in catalog));
+    expect(missing).toEqual([]);
+  });
+
+  test.each(translations.map(({ code }) => code))('%s has no keys that are not used', (code) => {
+    const known = new Set([...Object.keys(english), ...validationKeys]);
+    expect(Object.keys(CATALOGS[code]).filter((key) => !known.has(key))).toEqual([]);
+  });
+
+  test('English validation wording comes from the rule set, not the catalog', () => {
+    expect(Object.keys(english).filter((key) => key.startsWith('validation.'))).toEqual([]);
+  });
+
+  test.each(LOCALES.map(({ code }) => code))('%s words money in the price currency', (code) => {
+    // Pricing reasons (minimum spends, insurance limits) are amounts on the rate card
+    const currencies = Object.values(CATALOGS[code]).flatMap((message) => Array.from(message.matchAll(/::currency\/(\w+)/g), (match) => match[1]));
+    expect(currencies.filter((currency) => currency !== PRICE_CURRENCY)).toEqual([]);
+  });
+
+  test.each(LOCALES.map(({ code }) => code))('%s messages are all valid', (code) => {
+    // An empty translation would hide the English fallback
+    Object.values(CATALOGS[code]).forEach((message) => {
+      expect(() => checkMessage(message)).not.toThrow();
+      expect(message.trim()).not.toBe('');
+    });
+  });
+});
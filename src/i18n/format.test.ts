@@ -0,0 +1,68 @@
+import { checkMessage, formatMessage } from './format';
+
+/**
+ * UNIT TESTS: Message formatting
+ *
+ * PURPOSE: Check that catalog and rule messages fill in their values, pick plural
+ * and select options by language, keep quoted braces literal, leave unknown
+ * placeholders for a later pass, and reject templates they can't read.
+ */
+describe('formatMessage', () => {
+  test('fills in values, with numbers in the locale format', () => {
+    expect(formatMessage('Weight cannot exceed {limit}{unit}', { limit: 2.5, unit: 'kg' }, 'en')).toBe('Weight cannot exceed 2.5kg');
+    expect(formatMessage('Höchstens {limit} {unit}', { limit: 2.5, unit: 'kg' }, 'de-DE')).toBe('Höchstens 2,5 kg');
+    expect(formatMessage('Total: {amount, number}', { amount: 1234.5 }, 'de-DE')).toBe('Total: 1.234,5');
+  });
+
+  test('formats money and lists in the locale', () => {
+    expect(formatMessage('At most {max, number, ::currency/USD}', { max: 5000 }, 'en')).toBe('At most $5,000.00');
+    expect(formatMessage('Höchstens {max, number, ::currency/USD}', { max: 5000 }, 'de-DE')).toBe('Höchstens 5.000,00\u00a0$');
+    expect(formatMessage('Only {methods}', { methods: ['standard', 'express'] }, 'en')).toBe('Only standard or express');
+    expect(formatMessage('Nur {methods}', { methods: ['standard', 'express'] }, 'de-DE')).toBe('Nur standard oder express');
+  });
+
+  test('leaves placeholders without a value as written', () => {
+    expect(formatMessage('{label} is {state}', { label: 'Weight' })).toBe('Weight is {state}');
+  });
+
+  test('picks plural forms by the language rules', () => {
+    const errors = '{count, plural, one {# error} other {# errors}}';
+    expect(formatMessage(errors, { count: 1 }, 'en')).toBe('1 error');
+    expect(formatMessage(errors, { count: 3 }, 'en')).toBe('3 errors');
+    expect(formatMessage(errors, { count: 0 }, 'en')).toBe('0 errors');
+    // French counts zero as singular
+    expect(formatMessage('{count, plural, one {# erreur} other {# erreurs}}', { count: 0 }, 'fr-FR')).toBe('0 erreur');
+  });
+
+  test('prefers exact matches and applies an offset to #', () => {
+    const guests = '{count, plural, offset:1 =0 {nobody} =1 {just you} one {you and # other} other {you and # others}}';
+    expect(formatMessage(guests, { count: 0 }, 'en')).toBe('nobody');
+    expect(formatMessage(guests, { count: 1 }, 'en')).toBe('just you');
+    expect(formatMessage(guests, { count: 2 }, 'en')).toBe('you and 1 other');
+    expect(formatMessage(guests, { count: 5 }, 'en')).toBe('you and 4 others');
+  });
+
+  test('selects by value, falling back to other', () => {
+    const zone = '{zone, select, local {Lokal} domestic {Inland} other {{zone}}}';
+    expect(formatMessage(zone, { zone: 'domestic' })).toBe('Inland');
+    expect(formatMessage(zone, { zone: 'moon' })).toBe('moon');
+    expect(formatMessage(zone, { zone: 'constructor' })).toBe('constructor');
+  });
+
+  test('keeps quoted text literal', () => {
+    expect(formatMessage("Use '{braces}' like this", {})).toBe('Use {braces} like this');
+    expect(formatMessage("today's price, it''s {price}", { price: 'fine' })).toBe("today's price, it's fine");
+    expect(formatMessage("{n, plural, other {# is '#'}}", { n: 2 })).toBe('2 is #');
+  });
+});
+
+describe('checkMessage', () => {
+  test('rejects templates it cannot read', () => {
+    expect(() => checkMessage('Plain text')).not.toThrow();
+    expect(() => checkMessage('Max {limit')).toThrow(/Missing }|Expected/);
+    expect(() => checkMessage('Max limit}')).toThrow(/Unexpected }/);
+    expect(() => checkMessage('{n, plural, one {# item}}')).toThrow(/"other" option/);
+    expect(() => checkMessage('{n, plural, single {x} other {y}}')).toThrow(/plural category/);
+    expect(() => checkMessage('{when, date}')).toThrow(/Unsupported argument type/);
+  });
+});
@@ -0,0 +1,212 @@
+// A small ICU MessageFormat subset for the message catalogs and validation rule messages:
+//   {name}                       the value as written (numbers in the locale's format, lists
+//                                joined as alternatives: "a, b or c")
+//   {name, number}               a number in the locale's format
+//   {name, number, ::currency/USD}   an amount of money in that currency
+//   {count, plural, one {# item} other {# items}}   with =N exact matches, offset:N and # for the number
+//   {kind, select, a {...} other {...}}
+// Text in apostrophes is literal when it starts with {, } or # ('{' prints {); '' prints one
+// apostrophe. A simple {name} with no value is left as written, so a template can be filled in
+// stages.
+
+export type MessageValues = Record<string, string | number | string[] | undefined>;
+
+type MessagePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'arg'; name: string; source: string }
+  | { kind: 'number'; name: string; currency?: string }
+  | { kind: 'pound' }
+  | { kind: 'plural'; name: string; offset: number; options: Record<string, MessagePart[]> }
+  | { kind: 'select'; name: string; options: Record<string, MessagePart[]> };
+
+const ARG_NAME = /^[\w.]+/;
+const PLURAL_SELECTOR = /^(=\d+|zero|one|two|few|many|other)$/;
+
+const parseError = (template: string, pos: number, problem: string) =>
+  new Error(`${problem} at position ${pos} in message "${template}"`);
+
+// Parse from pos until the end of the template, or the } closing a plural/select option
+const parseParts = (template: string, start: number, nested: boolean, inPlural: boolean): { parts: MessagePart[]; end: number } => {
+  const parts: MessagePart[] = [];
+  let text = '';
+  let pos = start;
+
+  const flushText = () => {
+    if (text) parts.push({ kind: 'text', text });
+    text = '';
+  };
+
+  while (pos < template.length) {
+    const char = template[pos];
+    if (char === "'") {
+      const next = template[pos + 1];
+      if (next === "'") {
+        text += "'";
+        pos += 2;
+      } else if (next === '{' || next === '}' || (next === '#' && inPlural)) {
+        // Quoted literal up to the next lone apostrophe
+        pos++;
+        while (pos < template.length) {
+          if (template[pos] === "'" && template[pos + 1] === "'") {
+            text += "'";
+            pos += 2;
+          } else if (template[pos] === "'") {
+            pos++;
+            break;
+          } else {
+            text += template[pos++];
+          }
+        }
+      } else {
+        text += char;
+        pos++;
+      }
+    } else if (char === '{') {
+      flushText();
+      const arg = parseArgument(template, pos, inPlural);
+      parts.push(arg.part);
+      pos = arg.end;
+    } else if (char === '}') {
+      if (!nested) throw parseError(template, pos, 'Unexpected }');
+      flushText();
+      return { parts, end: pos };
+    } else if (char === '#' && inPlural) {
+      flushText();
+      parts.push({ kind: 'pound' });
+      pos++;
+    } else {
+      text += char;
+      pos++;
+    }
+  }
+
+  if (nested) throw parseError(template, pos, 'Missing }');
+  flushText();
+  return { parts, end: pos };
+};
+
+const skipSpaces = (template: string, pos: number): number => {
+  while (/\s/.test(template[pos] || '')) pos++;
+  return pos;
+};
+
+// Parse one {...} starting at its opening brace; end is just past the closing brace
+const parseArgument = (template: string, start: number, inPlural: boolean): { part: MessagePart; end: number } => {
+  let pos = skipSpaces(template, start + 1);
+  const name = ARG_NAME.exec(template.slice(pos))?.[0];
+  if (!name) throw parseError(template, pos, 'Expected an argument name');
+  pos = skipSpaces(template, pos + name.length);
+
+  if (template[pos] === '}') {
+    return { part: { kind: 'arg', name, source: template.slice(start, pos + 1) }, end: pos + 1 };
+  }
+  if (template[pos] !== ',') throw parseError(template, pos, 'Expected , or }');
+
+  pos = skipSpaces(template, pos + 1);
+  const type = /^\w+/.exec(template.slice(pos))?.[0];
+  pos = skipSpaces(template, pos + (type?.length || 0));
+
+  if (type === 'number') {
+    // The only style is a currency skeleton; others (e.g. "integer") get the locale's default format
+    const close = template.indexOf('}', pos);
+    if (close < 0) throw parseError(template, pos, 'Missing }');
+    const currency = /^,\s*::currency\/([A-Z]{3})\s*$/.exec(template.slice(pos, close))?.[1];
+    return { part: { kind: 'number', name, ...(currency && { currency }) }, end: close + 1 };
+  }
+  if (type !== 'plural' && type !== 'select') {
+    throw parseError(template, pos, `Unsupported argument type "${type || ''}"`);
+  }
+  if (template[pos] !== ',') throw parseError(template, pos, 'Expected ,');
+  pos = skipSpaces(template, pos + 1);
+
+  let offset = 0;
+  const offsetMatch = type === 'plural' ? /^offset:\s*(\d+)/.exec(template.slice(pos)) : null;
+  if (offsetMatch) {
+    offset = Number(offsetMatch[1]);
+    pos = skipSpaces(template, pos + offsetMatch[0].length);
+  }
+
+  const options: Record<string, MessagePart[]> = {};
+  while (template[pos] !== '}') {
+    const selector = /^[^\s{}]+/.exec(template.slice(pos))?.[0];
+    if (!selector) throw parseError(template, pos, 'Expected an option');
+    if (type === 'plural' && !PLURAL_SELECTOR.test(selector)) {
+      throw parseError(template, pos, `Unknown plural category "${selector}"`);
+    }
+    pos = skipSpaces(template, pos + selector.length);
+    if (template[pos] !== '{') throw parseError(template, pos, 'Expected {');
+    const option = parseParts(template, pos + 1, true, inPlural || type === 'plural');
+    options[selector] = option.parts;
+    pos = skipSpaces(template, option.end + 1);
+    if (pos >= template.length) throw parseError(template, pos, 'Missing }');
+  }
+  if (!options.other) throw parseError(template, pos, `The ${type} for "${name}" needs an "other" option`);
+
+  const part: MessagePart = type === 'plural' ? { kind: 'plural', name, offset, options } : { kind: 'select', name, options };
+  return { part, end: pos + 1 };
+};
+
+// Templates are parsed once; catalogs and rule sets reuse the same few dozen
+const parsed = new Map<string, MessagePart[]>();
+
+const parseMessage = (template: string): MessagePart[] => {
+  let parts = parsed.get(template);
+  if (!parts) {
+    parts = parseParts(template, 0, false, false).parts;
+    parsed.set(template, parts);
+  }
+  return parts;
+};
+
+// Throws with the position of the problem if a template isn't valid
+export const checkMessage = (template: string): void => {
+  parseMessage(template);
+};
+
+export const formatNumber = (value: number, locale?: string): string => new Intl.NumberFormat(locale).format(value);
+
+const formatValue = (value: string | number | string[], locale?: string): string => {
+  if (Array.isArray(value)) return new Intl.ListFormat(locale, { type: 'disjunction' }).format(value);
+  return typeof value === 'number' ? formatNumber(value, locale) : value;
+};
+
+const formatParts = (parts: MessagePart[], values: MessageValues, locale: string | undefined, count?: number): string =>
+  parts
+    .map((part) => {
+      switch (part.kind) {
+        case 'text':
+          return part.text;
+        case 'arg':
+          return values[part.name] === undefined ? part.source : formatValue(values[part.name]!, locale);
+        case 'number': {
+          const value = Number(values[part.name]);
+          if (!Number.isFinite(value)) return String(values[part.name] ?? '');
+          return part.currency
+            ? new Intl.NumberFormat(locale, { style: 'currency', currency: part.currency }).format(value)
+            : formatNumber(value, locale);
+        }
+        case 'pound':
+          return count === undefined ? '#' : formatNumber(count, locale);
+        case 'plural': {
+          const value = Number(values[part.name]);
+          if (!Number.isFinite(value)) return formatParts(part.options.other, values, locale, count);
+          const category = new Intl.PluralRules(locale).select(value - part.offset);
+          const option = part.options[`=${value}`] || part.options[category] || part.options.other;
+          return formatParts(option, values, locale, value - part.offset);
+        }
+        case 'select': {
+          const value = values[part.name];
+          const key = String(value);
+          const option = value !== undefined && Object.prototype.hasOwnProperty.call(part.options, key) ? part.options[key] : part.options.other;
+          return formatParts(option, values, locale, count);
+        }
+        default:
+          return '';
+      }
+    })
+    .join('');
+
+// Fill a template with values, wording numbers and plurals for the locale (throws if the
+// template isn't valid - see checkMessage)
+export const formatMessage = (template: string, values: MessageValues = {}, locale?: string): string =>
+  formatParts(parseMessage(template), values, locale);
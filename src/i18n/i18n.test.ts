@@ -0,0 +1,90 @@
+import { createTranslator, getValidationMessages, matchLocale, parseLocaleNumber, toLocaleInput } from '.';
+import { getFieldHint, validateShippingForm, DEFAULT_VALIDATION_RULES } from '../validation';
+import { ShippingFormData } from '../types';
+
+/**
+ * UNIT TESTS: Translation and locale-aware numbers
+ *
+ * PURPOSE: Check that messages are looked up in the chosen language with English
+ * as the fallback, that validation messages and hints are worded in that language,
+ * and that numbers typed with decimal commas or grouping separators read correctly.
+ */
+describe('createTranslator', () => {
+  test('translates with plurals and falls back to English', () => {
+    const en = createTranslator('en');
+    const de = createTranslator('de', {
+      en: { 'form.summary.errors': '{count} errors', 'only.english': 'Hi' },
+      de: { 'form.summary.errors': '{count, plural, one {# Fehler} other {# Fehler}}' },
+      fr: {},
+    });
+
+    expect(en('form.summary.errors', { count: 1 })).toBe('❌ 1 Error');
+    expect(en('form.summary.errors', { count: 2 })).toBe('❌ 2 Errors');
+    expect(de('form.summary.errors', { count: 2 })).toBe('2 Fehler');
+    expect(de('only.english' as any)).toBe('Hi');
+    expect(de('no.such.key' as any)).toBe('no.such.key');
+  });
+
+  test('picks the first supported browser language', () => {
+    expect(matchLocale(['pt-BR', 'de-AT', 'en'])).toBe('de');
+    expect(matchLocale(['ja'])).toBe('en');
+  });
+});
+
+describe('validation messages', () => {
+  const shipment: ShippingFormData = {
+    shippingMethod: 'overnight',
+    destinationZone: 'local',
+    packages: [{ weight: 7.5, dimensions: { length: 0, width: 10, height: 10 } }],
+  };
+
+  test('are worded in the chosen language with its number format', () => {
+    const errors = validateShippingForm(shipment, 'metric', undefined, getValidationMessages('de'));
+    expect(errors['packages.0.weight']).toBe('Das Gewicht darf beim Overnight-Versand höchstens 5 kg betragen');
+    expect(errors['packages.0.length']).toBe('Länge muss eine positive Zahl sein');
+
+    const imperial = validateShippingForm(shipment, 'imperial', undefined, getValidationMessages('fr'));
+    expect(imperial['packages.0.weight']).toBe('Le poids ne peut pas dépasser 11,02 lb en livraison en 24 h');
+  });
+
+  test('stay in English by default', () => {
+    expect(validateShippingForm(shipment)['packages.0.weight']).toBe('Weight cannot exceed 5kg for overnight shipping');
+    expect(getFieldHint(DEFAULT_VALIDATION_RULES, 'weight', shipment, 'metric', getValidationMessages('en'))).toBe(
+      'Allowed range for overnight: 0.1kg - 5kg'
+    );
+  });
+
+  test('include hints', () => {
+    expect(getFieldHint(DEFAULT_VALIDATION_RULES, 'weight', shipment, 'metric', getValidationMessages('de'))).toBe(
+      'Zulässiger Bereich für Overnight-Versand: 0,1 kg – 5 kg'
+    );
+  });
+});
+
+describe('parseLocaleNumber', () => {
+  test.each([
+    ['2,5', 'de-DE', 2.5],
+    ['2.5', 'de-DE', 2.5],
+    ['1.250', 'de-DE', 1250],
+    ['1.250,75', 'de-DE', 1250.75],
+    ['2,5', 'fr-FR', 2.5],
+    ['1 250,5', 'fr-FR', 1250.5],
+    ['2.5', 'en', 2.5],
+    ['2,5', 'en', 2.5],
+    ['1,250.75', 'en', 1250.75],
+    ['1,250', 'en', 1250],
+    [' 7 ', 'en', 7],
+    ['5,', 'de-DE', 5],
+  ])('reads "%s" in %s as %d', (text, locale, expected) => {
+    expect(parseLocaleNumber(text, locale)).toBe(expected);
+  });
+
+  test.each([[''], ['abc'], ['1.2.3'], ['2,5kg']])('rejects "%s"', (text) => {
+    expect(parseLocaleNumber(text, 'en')).toBeNaN();
+  });
+
+  test('round-trips numbers written for an input', () => {
+    expect(toLocaleInput(1250.5, 'de-DE')).toBe('1250,5');
+    expect(parseLocaleNumber(toLocaleInput(1250.5, 'de-DE'), 'de-DE')).toBe(1250.5);
+  });
+});
@@ -0,0 +1,129 @@
+import { ValidationErrors } from '../types';
+import { DEFAULT_VALIDATION_RULES, FIELD_LABELS, RuleField, ValidationMessages, ValidationRuleSet } from '../validation';
+import { formatMessage, MessageValues } from './format';
+import en from './messages/en.json';
+import de from './messages/de.json';
+import fr from './messages/fr.json';
+
+export * from './format';
+
+// Message catalogs: one flat JSON file per language in ./messages, keyed like "form.weight".
+// English is the reference - every other catalog must have its keys (checked by
+// catalogs.test.ts) plus a translation of each validation rule, hint and field label:
+//   validation.rule.<rule id>, validation.hint.<field>, validation.label.<field>
+// English validation wording comes from the rule set itself (src/validation/rules.json).
+
+export type Locale = 'en' | 'de' | 'fr';
+export type MessageKey = keyof typeof en;
+export type MessageCatalog = Record<string, string>;
+
+// name: how the language calls itself, for the switcher; intl: the locale numbers, money and dates
+// are formatted in (English leaves each formatter's default)
+export const LOCALES: { code: Locale; name: string; intl?: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'de', name: 'Deutsch', intl: 'de-DE' },
+  { code: 'fr', name: 'Français', intl: 'fr-FR' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const CATALOGS: Record<Locale, MessageCatalog> = { en, de, fr };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(({ code }) => code === value);
+
+// The locale for numbers, money and dates in a language
+export const getIntlLocale = (locale: Locale): string | undefined => LOCALES.find(({ code }) => code === locale)?.intl;
+
+// First supported language in a browser's preference list ("de-AT" -> de), else English
+export const matchLocale = (languages: readonly string[]): Locale =>
+  languages.map((tag) => tag.split('-')[0].toLowerCase()).find(isLocale) || DEFAULT_LOCALE;
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+// Look messages up in a language, falling back to English (and then to the key itself)
+export const createTranslator = (locale: Locale, catalogs: Record<Locale, MessageCatalog> = CATALOGS): Translate => {
+  const intl = getIntlLocale(locale) || locale;
+  return (key, values) => {
+    const template = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key];
+    return template === undefined ? key : formatMessage(template, values, intl);
+  };
+};
+
+// English wording, for the API and anything else with no reader's language to hand
+export const translateEnglish: Translate = createTranslator(DEFAULT_LOCALE);
+
+// A message worded only when it's shown, so it can be in the reader's language: its catalog key
+// and values (e.g. why a promo code was rejected)
+export interface Message {
+  key: MessageKey;
+  values?: MessageValues;
+}
+
+// Keyed like ValidationErrors, still to be worded
+export interface MessageErrors {
+  [key: string]: Message;
+}
+
+export const formatErrors = (errors: MessageErrors, t: Translate): ValidationErrors =>
+  Object.fromEntries(Object.entries(errors).map(([key, { key: messageKey, values }]) => [key, t(messageKey, values)]));
+
+const RULE_FIELDS = Object.keys(FIELD_LABELS) as RuleField[];
+
+// Catalog keys a translation needs for a rule set's messages and hints, and the field labels
+export const getValidationMessageKeys = (ruleSet: ValidationRuleSet = DEFAULT_VALIDATION_RULES): string[] => [
+  ...ruleSet.rules.map((rule) => `validation.rule.${rule.id}`),
+  ...(Object.keys(ruleSet.hints) as RuleField[]).map((field) => `validation.hint.${field}`),
+  ...RULE_FIELDS.map((field) => `validation.label.${field}`),
+];
+
+// Validation wording for a language, for the validation engine. English has no entries, so the
+// rule set's own messages are used.
+export const getValidationMessages = (locale: Locale, catalogs: Record<Locale, MessageCatalog> = CATALOGS): ValidationMessages => {
+  const catalog = catalogs[locale];
+  const withPrefix = (prefix: string) =>
+    Object.fromEntries(
+      Object.entries(catalog)
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, message]) => [key.slice(prefix.length), message])
+    );
+  return {
+    locale: getIntlLocale(locale) || locale,
+    rules: withPrefix('validation.rule.'),
+    hints: withPrefix('validation.hint.'),
+    labels: withPrefix('validation.label.'),
+  };
+};
+
+// Read a number typed in a locale's format: "2,5" is 2.5 in German, "1.250,5" is 1250.5.
+// A lone separator is a decimal point unless it's the locale's grouping separator followed by
+// exactly three digits, so "2.5" still reads as 2.5 in German and "2,5" as 2.5 in English.
+// Returns NaN for anything that isn't a number ('' included).
+export const parseLocaleNumber = (text: string, locale?: string): number => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  const group = parts.find((part) => part.type === 'group')?.value || ',';
+  const decimal = parts.find((part) => part.type === 'decimal')?.value || '.';
+
+  // Spaces (including no-break ones) only ever group digits
+  let value = text.trim().replace(/\s/g, '');
+  const separators = value.match(/[.,'’]/g) || [];
+  const kinds = Array.from(new Set(separators));
+
+  if (kinds.length > 1) {
+    // Both kinds: the last one is the decimal point
+    const last = separators[separators.length - 1];
+    value = value.split(last).map((part) => part.replace(/[.,'’]/g, '')).join('.');
+  } else if (kinds.length === 1) {
+    const [separator] = kinds;
+    const groups = value.split(separator);
+    const isGrouping =
+      (separator === group || separator === "'" || separator === '’' || (decimal !== separator && separators.length > 1)) &&
+      groups.slice(1).every((digits) => /^\d{3}$/.test(digits));
+    value = isGrouping ? groups.join('') : separators.length === 1 ? groups.join('.') : 'NaN';
+  }
+
+  return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(value) ? Number(value) : NaN;
+};
+
+// A number as typed into an input in a locale: no grouping, at most `decimals` places
+export const toLocaleInput = (value: number, locale?: string, decimals = 4): string =>
+  new Intl.NumberFormat(locale, { useGrouping: false, maximumFractionDigits: decimals }).format(value);
@@ -0,0 +1,92 @@
+import {
+  BUILT_IN_PRESETS,
+  checkPresetWeight,
+  createPreset,
+  decodePackagePresets,
+  loadSavedPresets,
+  mergePresets,
+  parsePackagePresets,
+  parsePresetFile,
+  savePresets,
+  toPresetFile,
+} from './packagePresets';
+import { createTranslator } from '../i18n';
+
+/**
+ * UNIT TESTS: Package presets
+ *
+ * PURPOSE: Check that the bundled boxes are valid, that saved templates survive a
+ * round trip through localStorage and a presets file, that imports replace templates
+ * of the same name, that bad files are refused with a reason in the reader's language, and that presets too
+ * heavy for a method's WEIGHT_LIMITS are flagged.
+ */
+const mugBox = createPreset(' Mug box ', { weight: 1.2, dimensions: { length: 20, width: 20, height: 15 } }, 'express');
+
+describe('package presets', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  test('bundles satchels and cartons, and refuses a bad presets table', () => {
+    expect(BUILT_IN_PRESETS.map((preset) => preset.id)).toEqual(
+      expect.arrayContaining(['satchel-s', 'satchel-m', 'satchel-l', 'carton-s', 'carton-m', 'carton-l'])
+    );
+    expect(() => parsePackagePresets({ presets: [BUILT_IN_PRESETS[0], BUILT_IN_PRESETS[0]] })).toThrow(
+      'Package presets presets[0].id must be set and unique'
+    );
+    expect(() => parsePackagePresets({ presets: [{ ...BUILT_IN_PRESETS[0], weight: 0 }] })).toThrow('needs a positive weight');
+  });
+
+  test('round-trips through localStorage and drops corrupt entries', () => {
+    expect(mugBox).toMatchObject({ name: 'Mug box', shippingMethod: 'express' });
+    savePresets([mugBox]);
+    expect(loadSavedPresets()).toEqual([mugBox]);
+
+    expect(decodePackagePresets([mugBox, { ...mugBox, dimensions: { length: 20 } }, { ...mugBox, id: 7 }, null])).toEqual([mugBox]);
+    window.localStorage.setItem('zzzShipping.packagePresets', '{not json');
+    expect(loadSavedPresets()).toEqual([]);
+  });
+
+  test('imports an exported file, replacing presets of the same name', () => {
+    const heavier = { ...mugBox, weight: 2 };
+    const imported = parsePresetFile(toPresetFile([heavier, BUILT_IN_PRESETS[0]]));
+    expect(imported[0].id).not.toBe(mugBox.id);
+
+    const merged = mergePresets([mugBox], imported.map((preset, i) => (i === 0 ? { ...preset, name: 'MUG BOX' } : preset)));
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ id: mugBox.id, name: 'MUG BOX', weight: 2 });
+    expect(merged[1]).toMatchObject({ name: 'Satchel S', dimensions: BUILT_IN_PRESETS[0].dimensions });
+  });
+
+  test.each([
+    ['not json', 'The file is not JSON'],
+    ['{"version": 1}', 'The file has no presets list'],
+    ['{"version": 2, "presets": []}', 'Presets file version 2 is not supported'],
+    ['[]', 'The file has no presets'],
+    ['[{"name": "Box", "dimensions": {"length": 1, "width": 1, "height": 1}, "weight": 1, "shippingMethod": "drone"}]', 'Preset 1 shippingMethod must be one of standard, express, or overnight'],
+  ])('refuses the file %s', (text, reason) => {
+    expect(() => parsePresetFile(text)).toThrow(reason);
+  });
+
+  test('words the reason a file is refused in the given language', () => {
+    const t = createTranslator('de');
+    expect(() => parsePresetFile('{"version": 1}', { t })).toThrow('Die Datei enthält keine Vorlagenliste');
+    expect(() => parsePresetFile('[{"name": "Box", "dimensions": {"length": 1}, "weight": 1}]', { t })).toThrow(
+      'Vorlage 1 braucht eine positive Länge, Breite und Höhe'
+    );
+  });
+
+  test('flags presets too heavy for the method they ship by', () => {
+    const largeCarton = BUILT_IN_PRESETS.find((preset) => preset.id === 'carton-l')!;
+
+    expect(checkPresetWeight(largeCarton, 'standard')).toBeNull();
+    expect(checkPresetWeight(largeCarton, 'express')).toEqual({ shippingMethod: 'express', check: 'max', limit: 10 });
+    // A preferred method is used whatever the form has chosen
+    expect(checkPresetWeight({ ...largeCarton, shippingMethod: 'overnight' }, 'standard')).toEqual({
+      shippingMethod: 'overnight',
+      check: 'max',
+      limit: 5,
+    });
+    expect(checkPresetWeight({ ...largeCarton, weight: 0.05 }, 'standard')).toMatchObject({ check: 'min', limit: 0.1 });
+  });
+});
@@ -0,0 +1,184 @@
+import { PackageDetails, SHIPPING_METHODS, ShippingMethod } from '../types';
+import { DEFAULT_VALIDATION_RULES, getWeightLimits, ValidationRuleSet } from '../validation';
+import { Translate, translateEnglish } from '../i18n';
+import bundledPresets from './packagePresets.json';
+
+// Package presets: the standard carrier boxes (packagePresets.json) and the user's own templates,
+// kept in this browser. Sizes are in cm and weights in kg, like the form's data.
+
+export interface PackagePreset extends PackageDetails {
+  id: string;
+  name: string;
+  shippingMethod?: ShippingMethod; // preferred method, chosen along with the size
+}
+
+// Most templates a user can keep
+export const MAX_SAVED_PRESETS = 50;
+
+export const PACKAGE_PRESETS_STORAGE_KEY = 'zzzShipping.packagePresets';
+
+// Format of an exported presets file; files without a version are read as this one
+export const PRESET_FILE_VERSION = 1;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Throws with what is wrong with one preset, worded by t (its id isn't checked: imports are given new ones)
+const checkPresetEntry = (entry: unknown, name: string, t: Translate = translateEnglish) => {
+  if (!isObject(entry)) {
+    throw new Error(t('form.presets.file.notObject', { name }));
+  }
+  if (typeof entry.name !== 'string' || !entry.name.trim()) {
+    throw new Error(t('form.presets.file.noName', { name }));
+  }
+  if (!isObject(entry.dimensions) || !(['length', 'width', 'height'] as const).every((side) => isPositiveNumber(entry.dimensions[side]))) {
+    throw new Error(t('form.presets.file.dimensions', { name }));
+  }
+  if (!isPositiveNumber(entry.weight)) {
+    throw new Error(t('form.presets.file.weight', { name }));
+  }
+  if (entry.shippingMethod !== undefined && !SHIPPING_METHODS.includes(entry.shippingMethod)) {
+    throw new Error(t('form.presets.file.method', { name, methods: SHIPPING_METHODS }));
+  }
+};
+
+// Only the preset's own fields, so nothing else in the JSON is kept or saved
+const toPreset = (entry: Record<string, any>, id: string): PackagePreset => ({
+  id,
+  name: entry.name.trim(),
+  dimensions: { length: entry.dimensions.length, width: entry.dimensions.width, height: entry.dimensions.height },
+  weight: entry.weight,
+  ...(entry.shippingMethod ? { shippingMethod: entry.shippingMethod } : {}),
+});
+
+// Validate the bundled presets (throws on bad input)
+export const parsePackagePresets = (json: unknown): PackagePreset[] => {
+  if (!isObject(json) || !Array.isArray(json.presets)) {
+    throw new Error('Package presets must be a JSON object with a presets array');
+  }
+  return json.presets.map((entry: unknown, index: number) => {
+    const name = `Package presets presets[${index}]`;
+    checkPresetEntry(entry, name);
+    const { id } = entry as Record<string, any>;
+    if (typeof id !== 'string' || !id || json.presets.some((other: any, i: number) => i !== index && other.id === id)) {
+      throw new Error(`${name}.id must be set and unique`);
+    }
+    return toPreset(entry as Record<string, any>, id);
+  });
+};
+
+export const BUILT_IN_PRESETS: PackagePreset[] = parsePackagePresets(bundledPresets);
+
+const createPresetId = (now: Date = new Date()) => `preset-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// A template of one package of the form, named by the user
+export const createPreset = (
+  name: string,
+  pkg: PackageDetails,
+  shippingMethod?: ShippingMethod,
+  now: Date = new Date()
+): PackagePreset => toPreset({ ...pkg, name, shippingMethod }, createPresetId(now));
+
+// Add presets to the saved ones. One with the same name as a saved preset (in any case) replaces
+// it and keeps its place; new ones go at the end, up to the limit.
+export const mergePresets = (
+  saved: PackagePreset[],
+  added: PackagePreset[],
+  limit: number = MAX_SAVED_PRESETS
+): PackagePreset[] =>
+  added
+    .reduce((presets, preset) => {
+      const key = preset.name.toLowerCase();
+      const index = presets.findIndex((existing) => existing.name.toLowerCase() === key);
+      if (index === -1) return [...presets, preset];
+      return presets.map((existing, i) => (i === index ? { ...preset, id: existing.id } : existing));
+    }, saved)
+    .slice(0, limit);
+
+// Stored presets are untrusted (older app versions, hand edits): keep only the ones that still check out
+export const decodePackagePresets = (json: unknown): PackagePreset[] => {
+  if (!Array.isArray(json)) return [];
+
+  return json.flatMap((raw: unknown): PackagePreset[] => {
+    try {
+      checkPresetEntry(raw, 'Preset');
+    } catch (error) {
+      return [];
+    }
+    const { id } = raw as Record<string, any>;
+    return typeof id === 'string' && id ? [toPreset(raw as Record<string, any>, id)] : [];
+  }).slice(0, MAX_SAVED_PRESETS);
+};
+
+export const loadSavedPresets = (): PackagePreset[] => {
+  try {
+    const stored = window.localStorage.getItem(PACKAGE_PRESETS_STORAGE_KEY);
+    return stored ? decodePackagePresets(JSON.parse(stored)) : [];
+  } catch (error) {
+    return []; // storage unavailable or corrupt
+  }
+};
+
+export const savePresets = (presets: PackagePreset[]) => {
+  try {
+    window.localStorage.setItem(PACKAGE_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    // Storage full or unavailable - the presets still last for this visit
+  }
+};
+
+// Presets file for sharing templates between browsers: { "version": 1, "presets": [...] }
+export const toPresetFile = (presets: PackagePreset[]): string =>
+  JSON.stringify({ version: PRESET_FILE_VERSION, presets }, null, 2);
+
+export const getPresetFileName = (now: Date = new Date()): string => `package-presets-${now.toISOString().slice(0, 10)}.json`;
+
+export interface PresetFileOptions {
+  now?: Date;
+  t?: Translate; // how reasons are worded (English unless given the reader's language)
+}
+
+// Read an imported presets file, throwing with a reason the user can act on. Every preset is given
+// a new id; mergePresets keeps the id of a saved preset it replaces.
+export const parsePresetFile = (text: string, { now = new Date(), t = translateEnglish }: PresetFileOptions = {}): PackagePreset[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(t('form.presets.file.notJson'));
+  }
+  const entries = isObject(json) ? json.presets : json;
+  if (!Array.isArray(entries)) {
+    throw new Error(t('form.presets.file.noList'));
+  }
+  if (isObject(json) && json.version !== undefined && json.version !== PRESET_FILE_VERSION) {
+    throw new Error(t('form.presets.file.version', { version: String(json.version) }));
+  }
+  if (entries.length === 0) {
+    throw new Error(t('form.presets.file.empty'));
+  }
+  if (entries.length > MAX_SAVED_PRESETS) {
+    throw new Error(t('form.presets.file.tooMany', { count: entries.length, max: MAX_SAVED_PRESETS }));
+  }
+  return entries.map((entry: unknown, index: number) => {
+    checkPresetEntry(entry, t('form.presets.file.preset', { number: index + 1 }), t);
+    return toPreset(entry as Record<string, any>, `${createPresetId(now)}-${index}`);
+  });
+};
+
+// How a preset's weight breaks the limits of the method it would ship by: its preferred method,
+// or the one chosen in the form. null when it's within them.
+export const checkPresetWeight = (
+  preset: PackagePreset,
+  shippingMethod: ShippingMethod,
+  rules: ValidationRuleSet = DEFAULT_VALIDATION_RULES
+): { shippingMethod: ShippingMethod; check: 'min' | 'max'; limit: number } | null => {
+  const method = preset.shippingMethod || shippingMethod;
+  const { min, max } = getWeightLimits(method, 'metric', rules);
+  if (preset.weight > max) return { shippingMethod: method, check: 'max', limit: max };
+  if (preset.weight < min) return { shippingMethod: method, check: 'min', limit: min };
+  return null;
+};
@@ -0,0 +1,97 @@
+import { applyAccountDiscount, checkAccount, parseAccounts } from './accounts';
+import { ACCOUNTS } from '../server/accounts';
+import { calculateQuote } from './engine';
+import { calculatePromotedQuote } from './promoCodes';
+import { RATE_CARDS } from './rateCard';
+import { ShippingFormData } from '../types';
+import { formatErrors, translateEnglish } from '../i18n';
+
+/**
+ * UNIT TESTS: Business accounts
+ *
+ * PURPOSE: Check that an account's discount comes off the packages only, before any promo code,
+ * and that accounts which are unknown, expired or restricted to other methods/zones are rejected
+ * with a reason instead of being applied.
+ */
+const rateCard = RATE_CARDS[2];
+const now = new Date('2026-10-19T12:00:00Z');
+
+const smallBox = { weight: 1, dimensions: { length: 10, width: 10, height: 10 } };
+
+const shipment = (overrides: Partial<ShippingFormData> = {}): ShippingFormData => ({
+  shippingMethod: 'standard',
+  destinationZone: 'local',
+  packages: [smallBox],
+  ...overrides,
+});
+
+const reason = (formData: ShippingFormData, on: Date = now) => formatErrors(checkAccount(formData, { accounts: ACCOUNTS, now: on }), translateEnglish).accountNumber;
+
+describe('account discounts', () => {
+  test('takes the percentage off the packages, not the add-ons', () => {
+    const formData = shipment({ accountNumber: 'ZZA10001', addOns: ['signature'] });
+    const quote = calculateQuote(formData, rateCard);
+    const result = applyAccountDiscount(formData, quote, { accounts: ACCOUNTS, now });
+
+    expect(result.breakdown.accountDiscount).toEqual({ accountNumber: 'ZZA10001', name: 'Acme Retail', percent: 12, amount: 1.8 });
+    expect(result.shippingCost).toBe(17.7);
+  });
+
+  test('comes off before a promo code', () => {
+    const result = calculatePromotedQuote(shipment({ accountNumber: 'ZZA10001', promoCode: 'WELCOME10' }), rateCard, { accounts: ACCOUNTS, now });
+
+    expect(result.breakdown.accountDiscount?.amount).toBe(1.8);
+    expect(result.breakdown.promoDiscount?.amount).toBe(1.32);
+    expect(result.shippingCost).toBe(11.88);
+  });
+
+  test('accepts a number typed in lower case with spaces', () => {
+    expect(checkAccount(shipment({ accountNumber: ' zza10001 ' }), { accounts: ACCOUNTS, now })).toEqual({});
+  });
+
+  test('leaves a quote without an account alone', () => {
+    const quote = calculateQuote(shipment(), rateCard);
+    expect(applyAccountDiscount(shipment(), quote, { accounts: ACCOUNTS, now })).toBe(quote);
+  });
+});
+
+describe('rejected accounts', () => {
+  test.each([
+    ['an unknown account', shipment({ accountNumber: 'ZZA99999' }), 'Account ZZA99999 is not recognised'],
+    ['another method', shipment({ accountNumber: 'ZZA10002', shippingMethod: 'overnight' }), 'The rates of account ZZA10002 only cover standard or express shipping'],
+    ['another zone', shipment({ accountNumber: 'ZZA10003', destinationZone: 'international' }), 'The rates of account ZZA10003 only cover local or domestic destinations'],
+  ])('rejects %s', (_, formData, message) => {
+    expect(reason(formData)).toBe(message);
+    expect(applyAccountDiscount(formData, calculateQuote(formData, rateCard), { accounts: ACCOUNTS, now }).breakdown.accountDiscount).toBeUndefined();
+  });
+
+  test('knows no accounts without the table from the server', () => {
+    expect(formatErrors(checkAccount(shipment({ accountNumber: 'ZZA10001' }), { now }), translateEnglish)).toEqual({
+      accountNumber: 'Account ZZA10001 is not recognised',
+    });
+  });
+
+  test('rejects an account whose rates have ended', () => {
+    const later = new Date('2027-07-01T12:00:00Z');
+    expect(reason(shipment({ accountNumber: 'ZZA10003' }), later)).toBe('The rates of account ZZA10003 ended on 2027-06-30');
+  });
+});
+
+describe('parseAccounts', () => {
+  test('accepts the bundled accounts', () => {
+    expect(ACCOUNTS.accounts.length).toBeGreaterThan(0);
+  });
+
+  test.each([
+    ['a malformed number', { number: 'ACME', name: 'Acme', percent: 10 }, 'must look like ZZA10001'],
+    ['a percentage over 100', { number: 'ZZA10001', name: 'Acme', percent: 120 }, 'percent must be more than 0'],
+    ['an unknown restriction', { number: 'ZZA10001', name: 'Acme', percent: 10, restrictions: { country: ['US'] } }, 'restrictions must list'],
+  ])('rejects %s', (_, entry, message) => {
+    expect(() => parseAccounts({ version: 'test', accounts: [entry] })).toThrow(message);
+  });
+
+  test('rejects an account listed twice', () => {
+    const entry = { number: 'ZZA10001', name: 'Acme', percent: 10 };
+    expect(() => parseAccounts({ version: 'test', accounts: [entry, entry] })).toThrow('Account ZZA10001 is listed twice');
+  });
+});
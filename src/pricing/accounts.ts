@@ -0,0 +1,142 @@
+import {
+  AccountDiscount,
+  DESTINATION_ZONES,
+  DestinationZone,
+  SHIPPING_METHODS,
+  ShippingFormData,
+  ShippingMethod,
+  ShippingResult,
+} from '../types';
+import { Message, MessageErrors } from '../i18n';
+
+// Business accounts and their negotiated discount: a percentage off the shipping charge (packages
+// less the multi-piece discount; add-ons are charged in full), taken before any promo code.
+// The account table itself is only on the server (src/server/accounts.ts); without one, no
+// account is known.
+
+// One account. validUntil is an inclusive ISO date, and a missing restriction key means the
+// discount covers any method/zone.
+export interface Account {
+  number: string; // e.g. "ZZA10001"
+  name: string;
+  percent: number;
+  validUntil?: string;
+  restrictions?: { shippingMethod?: ShippingMethod[]; destinationZone?: DestinationZone[] };
+}
+
+export interface AccountTable {
+  version: string;
+  accounts: Account[];
+}
+
+export interface AccountOptions {
+  accounts?: AccountTable;
+  now?: Date;
+}
+
+// What an account number looks like once normalised
+export const ACCOUNT_NUMBER_PATTERN = /^ZZA\d{5}$/;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const roundToCents = (amount: number): number => parseFloat(amount.toFixed(2));
+
+export const normaliseAccountNumber = (input: string): string => input.trim().toUpperCase();
+
+const checkAccountEntry = (entry: unknown, index: number) => {
+  const name = `Accounts accounts[${index}]`;
+  if (!isObject(entry) || typeof entry.number !== 'string' || !ACCOUNT_NUMBER_PATTERN.test(entry.number)) {
+    throw new Error(`${name}.number must look like ZZA10001`);
+  }
+  if (typeof entry.name !== 'string' || !entry.name) {
+    throw new Error(`${name} needs a name`);
+  }
+  if (typeof entry.percent !== 'number' || !(entry.percent > 0 && entry.percent <= 100)) {
+    throw new Error(`${name}.percent must be more than 0 and at most 100`);
+  }
+  if (entry.validUntil !== undefined && (typeof entry.validUntil !== 'string' || !ISO_DATE.test(entry.validUntil) || isNaN(Date.parse(entry.validUntil)))) {
+    throw new Error(`${name}.validUntil must be an ISO date`);
+  }
+  if (entry.restrictions !== undefined) {
+    const allowed: Record<string, string[]> = { shippingMethod: SHIPPING_METHODS, destinationZone: DESTINATION_ZONES };
+    if (
+      !isObject(entry.restrictions) ||
+      !Object.entries(entry.restrictions).every(
+        ([key, values]) => allowed[key] && Array.isArray(values) && values.every((value) => allowed[key].includes(value))
+      )
+    ) {
+      throw new Error(`${name}.restrictions must list shipping methods and/or destination zones`);
+    }
+  }
+};
+
+// Validate raw JSON and return it as a typed account table (throws on bad input)
+export const parseAccounts = (json: unknown): AccountTable => {
+  if (!isObject(json)) {
+    throw new Error('Accounts must be a JSON object');
+  }
+  if (typeof json.version !== 'string' || !json.version) {
+    throw new Error('Accounts version is required');
+  }
+  if (!Array.isArray(json.accounts)) {
+    throw new Error('Accounts accounts must be an array');
+  }
+  json.accounts.forEach(checkAccountEntry);
+  const numbers = json.accounts.map((entry: Account) => entry.number);
+  const duplicate = numbers.find((number: string, index: number) => numbers.indexOf(number) !== index);
+  if (duplicate) {
+    throw new Error(`Account ${duplicate} is listed twice`);
+  }
+  return json as unknown as AccountTable;
+};
+
+export const NO_ACCOUNTS: AccountTable = { version: 'none', accounts: [] };
+
+// The shipment's account, or why its discount can't be given
+const evaluateAccount = (formData: ShippingFormData, { accounts = NO_ACCOUNTS, now = new Date() }: AccountOptions): { account: Account } | { error: Message } => {
+  const number = normaliseAccountNumber(formData.accountNumber || '');
+  const account = accounts.accounts.find((entry) => entry.number === number);
+  if (!account) {
+    return { error: { key: 'pricing.account.unknown', values: { accountNumber: number } } };
+  }
+  if (account.validUntil && now.toISOString().slice(0, 10) > account.validUntil) {
+    return { error: { key: 'pricing.account.expired', values: { accountNumber: number, date: account.validUntil } } };
+  }
+  const methods = account.restrictions?.shippingMethod;
+  if (methods && !methods.includes(formData.shippingMethod)) {
+    return { error: { key: 'pricing.account.methods', values: { accountNumber: number, methods } } };
+  }
+  const zones = account.restrictions?.destinationZone;
+  if (zones && !zones.includes(formData.destinationZone)) {
+    return { error: { key: 'pricing.account.zones', values: { accountNumber: number, zones } } };
+  }
+  return { account };
+};
+
+// Why the shipment's account can't be used, keyed like the form's errors ("accountNumber")
+export const checkAccount = (formData: ShippingFormData, options: AccountOptions = {}): MessageErrors => {
+  if (!formData.accountNumber?.trim()) return {};
+  const result = evaluateAccount(formData, options);
+  return 'error' in result ? { accountNumber: result.error } : {};
+};
+
+// A quote with the shipment's account discount taken off (check the account with checkAccount
+// first; one that can't be used is left off the quote)
+export const applyAccountDiscount = (formData: ShippingFormData, quote: ShippingResult, options: AccountOptions = {}): ShippingResult => {
+  if (!formData.accountNumber?.trim()) return quote;
+  const result = evaluateAccount(formData, options);
+  if ('error' in result) return quote;
+
+  const { breakdown } = quote;
+  const { account } = result;
+  const amount = roundToCents(((breakdown.subtotal - breakdown.multiPieceDiscount) * account.percent) / 100);
+  const accountDiscount: AccountDiscount = { accountNumber: account.number, name: account.name, percent: account.percent, amount };
+  return {
+    ...quote,
+    shippingCost: roundToCents(quote.shippingCost - amount),
+    breakdown: { ...breakdown, accountDiscount },
+  };
+};
@@ -0,0 +1,95 @@
+import { checkAddOns, listAddOns, priceAddOn, priceAddOns } from './addOns';
+import { calculateQuote } from './engine';
+import { parseRateCard, RATE_CARDS } from './rateCard';
+import { ShippingFormData } from '../types';
+import { formatErrors, translateEnglish } from '../i18n';
+
+/**
+ * UNIT TESTS: Add-on services
+ *
+ * PURPOSE: Check that add-ons are only offered where the rate card allows them,
+ * that each is priced as its own line on top of the discounted subtotal, and that
+ * insurance needs a declared value within the card's limit.
+ */
+const rateCard = RATE_CARDS[2];
+
+const shipment = (overrides: Partial<ShippingFormData> = {}): ShippingFormData => ({
+  shippingMethod: 'standard',
+  destinationZone: 'local',
+  packages: Array(3).fill({ weight: 1, dimensions: { length: 10, width: 10, height: 10 } }),
+  ...overrides,
+});
+
+const check = (formData: ShippingFormData, card = rateCard) => formatErrors(checkAddOns(formData, card), translateEnglish);
+
+describe('availability', () => {
+  test('follows the method and zone limits on the rate card', () => {
+    const available = (context: Pick<ShippingFormData, 'shippingMethod' | 'destinationZone'>) =>
+      listAddOns(rateCard, context).filter((addOn) => addOn.available).map((addOn) => addOn.id);
+
+    expect(available({ shippingMethod: 'standard', destinationZone: 'local' })).toEqual(['insurance', 'signature', 'fragile']);
+    expect(available({ shippingMethod: 'express', destinationZone: 'domestic' })).toEqual(['insurance', 'signature', 'fragile', 'saturdayDelivery']);
+    expect(available({ shippingMethod: 'overnight', destinationZone: 'international' })).toEqual(['insurance', 'signature']);
+  });
+
+  test('rate cards without add-ons offer none', () => {
+    expect(listAddOns(RATE_CARDS[0], shipment())).toEqual([]);
+    expect(check(shipment({ addOns: ['signature'] }), RATE_CARDS[0])).toEqual({
+      addOns: 'signature is not available for standard shipping to local destinations',
+    });
+  });
+});
+
+describe('checkAddOns', () => {
+  test('rejects add-ons not offered for the shipment', () => {
+    expect(check(shipment({ addOns: ['signature', 'saturdayDelivery'] }))).toEqual({
+      addOns: 'Saturday delivery is not available for standard shipping to local destinations',
+    });
+  });
+
+  test('needs a declared value within the limit for insurance', () => {
+    expect(check(shipment({ addOns: ['insurance'] }))).toEqual({ declaredValue: 'Enter the declared value to insure' });
+    expect(check(shipment({ addOns: ['insurance'], declaredValue: 6000 }))).toEqual({
+      declaredValue: 'Declared value cannot exceed $5,000.00',
+    });
+    expect(check(shipment({ addOns: ['insurance'], declaredValue: 5000 }))).toEqual({});
+    expect(check(shipment({ declaredValue: 6000 }))).toEqual({});
+  });
+});
+
+describe('pricing', () => {
+  test('charges per shipment, per package or on the declared value, but never below the minimum', () => {
+    const { insurance, signature, fragile } = rateCard.addOns!;
+
+    expect(priceAddOn(insurance!, shipment({ declaredValue: 100 }))).toBe(3);
+    expect(priceAddOn(insurance!, shipment({ declaredValue: 1000 }))).toBe(15);
+    expect(priceAddOn(signature!, shipment())).toBe(4.5);
+    expect(priceAddOn(fragile!, shipment())).toBe(18);
+  });
+
+  test('adds each add-on as its own line after the multi-piece discount', () => {
+    const result = calculateQuote(shipment({ addOns: ['fragile', 'signature'] }), rateCard);
+
+    expect(result.breakdown.subtotal).toBe(45);
+    expect(result.breakdown.multiPieceDiscount).toBe(2.25);
+    expect(result.breakdown.addOns).toEqual([
+      { id: 'signature', label: 'Signature on delivery', cost: 4.5 },
+      { id: 'fragile', label: 'Fragile handling', cost: 18 },
+    ]);
+    expect(result.shippingCost).toBe(65.25);
+    expect(calculateQuote(shipment(), rateCard).breakdown.addOns).toBeUndefined();
+  });
+
+  test('leaves out add-ons the card does not offer', () => {
+    expect(priceAddOns(shipment({ addOns: ['saturdayDelivery'] }), rateCard)).toEqual([]);
+  });
+});
+
+test('rate cards reject add-ons they cannot describe', () => {
+  const withAddOns = (addOns: object) => () => parseRateCard({ ...rateCard, addOns });
+
+  expect(withAddOns({ giftWrap: { label: 'Gift wrap', fee: 2 } })).toThrow(/not a known add-on/);
+  expect(withAddOns({ signature: { fee: 2 } })).toThrow(/needs a label/);
+  expect(withAddOns({ signature: { label: 'Signature', fee: -1 } })).toThrow(/fee must be a non-negative number/);
+  expect(withAddOns({ signature: { label: 'Signature', availability: { shippingMethod: ['teleport'] } } })).toThrow(/availability/);
+});
@@ -0,0 +1,70 @@
+import { ADD_ON_IDS, AddOnCharge, AddOnId, ShippingFormData } from '../types';
+import { AddOnRate, RateCard } from './rateCard';
+import { MessageErrors } from '../i18n';
+
+// Optional services (insurance, signature, ...) as the rate card offers and prices them
+
+type ShipmentContext = Pick<ShippingFormData, 'shippingMethod' | 'destinationZone'>;
+
+const roundToCents = (amount: number): number => parseFloat(amount.toFixed(2));
+
+const isOffered = (rate: AddOnRate, { shippingMethod, destinationZone }: ShipmentContext): boolean =>
+  (!rate.availability?.shippingMethod || rate.availability.shippingMethod.includes(shippingMethod)) &&
+  (!rate.availability?.destinationZone || rate.availability.destinationZone.includes(destinationZone));
+
+// The add-on's rate if the card offers it for this method and zone
+export const getAddOnRate = (rateCard: RateCard, id: AddOnId, context: ShipmentContext): AddOnRate | null => {
+  const rate = rateCard.addOns?.[id];
+  return rate && isOffered(rate, context) ? rate : null;
+};
+
+// Every add-on the card lists, in display order, with whether this shipment can have it
+export const listAddOns = (rateCard: RateCard, context: ShipmentContext) =>
+  ADD_ON_IDS.filter((id) => rateCard.addOns?.[id]).map((id) => ({
+    id,
+    rate: rateCard.addOns![id]!,
+    available: !!getAddOnRate(rateCard, id, context),
+  }));
+
+// Why the chosen add-ons can't be had, keyed like the form's errors ("addOns", "declaredValue")
+export const checkAddOns = (formData: ShippingFormData, rateCard: RateCard): MessageErrors => {
+  const errors: MessageErrors = {};
+  const chosen = formData.addOns || [];
+
+  const unavailable = chosen.filter((id) => !getAddOnRate(rateCard, id, formData));
+  if (unavailable.length > 0) {
+    const labels = unavailable.map((id) => rateCard.addOns?.[id]?.label || id);
+    errors.addOns = {
+      key: 'pricing.addOns.unavailable',
+      values: { addOns: labels.join(', '), count: labels.length, method: formData.shippingMethod, zone: formData.destinationZone },
+    };
+  }
+
+  const insurance = chosen.includes('insurance') ? getAddOnRate(rateCard, 'insurance', formData) : null;
+  if (insurance) {
+    const value = formData.declaredValue;
+    if (value === undefined || !(value > 0)) {
+      errors.declaredValue = { key: 'pricing.declaredValue.required' };
+    } else if (insurance.maxDeclaredValue !== undefined && value > insurance.maxDeclaredValue) {
+      errors.declaredValue = { key: 'pricing.declaredValue.max', values: { max: insurance.maxDeclaredValue } };
+    }
+  }
+
+  return errors;
+};
+
+// Price one add-on for a shipment
+export const priceAddOn = (rate: AddOnRate, formData: ShippingFormData): number => {
+  const cost =
+    (rate.fee || 0) +
+    (rate.perPackageFee || 0) * formData.packages.length +
+    ((rate.declaredValuePercent || 0) * (formData.declaredValue || 0)) / 100;
+  return roundToCents(Math.max(cost, rate.minimumFee || 0));
+};
+
+// The chosen add-ons the card offers for this shipment, priced (check them with checkAddOns first)
+export const priceAddOns = (formData: ShippingFormData, rateCard: RateCard): AddOnCharge[] =>
+  ADD_ON_IDS.filter((id) => formData.addOns?.includes(id)).flatMap((id) => {
+    const rate = getAddOnRate(rateCard, id, formData);
+    return rate ? [{ id, label: rate.label, cost: priceAddOn(rate, formData) }] : [];
+  });
@@ -0,0 +1,177 @@
+import { calculateQuote, getChargeableWeight, getMultiPieceDiscountPercent, getSizeBand, getWeightSurcharge } from './engine';
+import { parseRateCard, RATE_CARDS, RateCard, selectRateCard } from './rateCard';
+import { PackageQuoteInput, ShippingFormData } from '../types';
+
+/**
+ * UNIT TESTS: Rate-card pricing engine
+ *
+ * PURPOSE: Pin every size band boundary and surcharge rule so tariff changes
+ * can be reviewed against known prices.
+ */
+const rateCard: RateCard = RATE_CARDS[0];
+const volumetricRateCard: RateCard = RATE_CARDS[1];
+const multiPieceRateCard: RateCard = RATE_CARDS[2];
+
+const makePackage = (overrides: Partial<PackageQuoteInput> = {}): PackageQuoteInput => ({
+  shippingMethod: 'standard',
+  weight: 1,
+  dimensions: { length: 10, width: 10, height: 10 },
+  destinationZone: 'local',
+  ...overrides,
+});
+
+// A shipment of the given packages, under the first package's method and zone
+const shipmentOf = (...packages: PackageQuoteInput[]): ShippingFormData => ({
+  shippingMethod: packages[0].shippingMethod,
+  destinationZone: packages[0].destinationZone,
+  packages: packages.map(({ weight, dimensions }) => ({ weight, dimensions })),
+});
+
+describe('getSizeBand', () => {
+  test.each([
+    [5, 'Small', 1.0],
+    [5.001, 'Medium', 1.2],
+    [20, 'Medium', 1.2],
+    [20.001, 'Large', 1.5],
+    [50, 'Large', 1.5],
+    [50.001, 'Extra Large', 2.0],
+  ])('%p L is %s (%px)', (volume, category, multiplier) => {
+    const band = getSizeBand(volume, rateCard);
+    expect(band.category).toBe(category);
+    expect(band.multiplier).toBe(multiplier);
+  });
+});
+
+describe('getWeightSurcharge', () => {
+  test('is free up to the included weight and linear above it', () => {
+    expect(getWeightSurcharge(0.5, rateCard)).toBe(0);
+    expect(getWeightSurcharge(1, rateCard)).toBe(0);
+    expect(getWeightSurcharge(3, rateCard)).toBe(5);
+  });
+});
+
+describe('calculateQuote', () => {
+  test('combines base rate, multipliers and surcharge', () => {
+    // 15 * 2.0 (international) * 1.2 (20 L, Medium) * 1.8 (express) + (3 - 1) * 2.5
+    const result = calculateQuote(
+      shipmentOf(makePackage({
+        shippingMethod: 'express',
+        weight: 3,
+        dimensions: { length: 20, width: 20, height: 50 },
+        destinationZone: 'international',
+      })),
+      rateCard
+    );
+
+    expect(result.shippingCost).toBe(69.8);
+    // The most business days express takes to an international destination (deliveryCalendar.json)
+    expect(result.estimatedDeliveryDays).toBe(5);
+    expect(result.rateCardVersion).toBe(rateCard.version);
+    expect(result.breakdown).toEqual({
+      baseRate: 15,
+      zoneMultiplier: 2.0,
+      shippingMethod: 'express',
+      destinationZone: 'international',
+      packages: [
+        {
+          sizeMultiplier: 1.2,
+          packageSizeCategory: 'Medium',
+          weightSurcharge: 5,
+          weight: 3,
+          volumetricWeight: 0,
+          chargeableWeight: 3,
+          weightBasis: 'actual',
+          cost: 69.8,
+        },
+      ],
+      subtotal: 69.8,
+      multiPieceDiscount: 0,
+    });
+  });
+
+  test('rounds the total to cents', () => {
+    const result = calculateQuote(shipmentOf(makePackage({ weight: 1.333 })), rateCard);
+    expect(result.shippingCost).toBe(15.83);
+  });
+});
+
+describe('volumetric weight', () => {
+  test('bills the greater of actual and volumetric weight', () => {
+    // 40 x 30 x 25 cm = 30000 cm³; / 5000 (express) = 6 kg
+    const bulky = makePackage({ shippingMethod: 'express', weight: 2, dimensions: { length: 40, width: 30, height: 25 } });
+    expect(getChargeableWeight(bulky, volumetricRateCard)).toEqual({ volumetricWeight: 6, chargeableWeight: 6, weightBasis: 'volumetric' });
+    expect(getChargeableWeight({ ...bulky, weight: 8 }, volumetricRateCard)).toEqual({ volumetricWeight: 6, chargeableWeight: 8, weightBasis: 'actual' });
+  });
+
+  test('uses the divisor for the method and zone', () => {
+    const parcel = makePackage({ dimensions: { length: 60, width: 50, height: 40 } }); // 120000 cm³
+    expect(getChargeableWeight(parcel, volumetricRateCard).volumetricWeight).toBe(20); // standard local: 6000
+    expect(getChargeableWeight({ ...parcel, destinationZone: 'international' }, volumetricRateCard).volumetricWeight).toBe(24); // 5000
+    expect(getChargeableWeight({ ...parcel, shippingMethod: 'overnight' }, volumetricRateCard).volumetricWeight).toBe(30); // 4000
+  });
+
+  test('drives the weight surcharge', () => {
+    const result = calculateQuote(
+      shipmentOf(makePackage({ shippingMethod: 'express', weight: 2, dimensions: { length: 40, width: 30, height: 25 } })),
+      volumetricRateCard
+    );
+    // 15 * 1.8 * 1.5 (30 L, Large) + (6 - 1) * 2.5
+    expect(result.breakdown.packages[0].weightSurcharge).toBe(12.5);
+    expect(result.shippingCost).toBe(53);
+  });
+
+  test('is not applied by rate cards without divisors', () => {
+    const result = calculateQuote(shipmentOf(makePackage({ weight: 2, dimensions: { length: 40, width: 30, height: 25 } })), rateCard);
+    expect(result.breakdown.packages[0].weightBasis).toBe('actual');
+    expect(result.breakdown.packages[0].weightSurcharge).toBe(2.5);
+  });
+});
+
+describe('multi-package shipments', () => {
+  test('prices each package and totals the shipment', () => {
+    const small = makePackage({ weight: 1 }); // 15.00
+    const heavy = makePackage({ weight: 5 }); // 15 + 4 * 2.5 = 25.00
+    const result = calculateQuote(shipmentOf(small, heavy), multiPieceRateCard);
+
+    expect(result.breakdown.packages.map((pkg) => pkg.cost)).toEqual([15, 25]);
+    expect(result.breakdown.subtotal).toBe(40);
+    expect(result.breakdown.multiPieceDiscount).toBe(0);
+    expect(result.shippingCost).toBe(40);
+  });
+
+  test('applies the highest multi-piece discount tier reached', () => {
+    expect(getMultiPieceDiscountPercent(2, multiPieceRateCard)).toBe(0);
+    expect(getMultiPieceDiscountPercent(3, multiPieceRateCard)).toBe(5);
+    expect(getMultiPieceDiscountPercent(7, multiPieceRateCard)).toBe(10);
+    expect(getMultiPieceDiscountPercent(7, rateCard)).toBe(0);
+
+    const result = calculateQuote(shipmentOf(makePackage(), makePackage(), makePackage()), multiPieceRateCard);
+    expect(result.breakdown.subtotal).toBe(45);
+    expect(result.breakdown.multiPieceDiscount).toBe(2.25);
+    expect(result.shippingCost).toBe(42.75);
+  });
+});
+
+describe('rate cards', () => {
+  test('rejects malformed rate card JSON', () => {
+    expect(() => parseRateCard({ ...rateCard, baseRate: -1 })).toThrow(/baseRate/);
+    expect(() => parseRateCard({ ...rateCard, zoneMultipliers: { local: 1 } })).toThrow(/zoneMultipliers\.domestic/);
+    expect(() => parseRateCard({ ...rateCard, sizeBands: [] })).toThrow(/sizeBands/);
+  });
+
+  test('checks optional weight limits', () => {
+    const maxKg = { standard: 30, express: 10, overnight: 5 };
+    expect(parseRateCard({ ...rateCard, weightLimits: { minKg: 0.1, maxKg } }).weightLimits).toEqual({ minKg: 0.1, maxKg });
+    expect(() => parseRateCard({ ...rateCard, weightLimits: { minKg: 6, maxKg } })).toThrow(
+      'Rate card weightLimits.maxKg.overnight must be more than weightLimits.minKg'
+    );
+    expect(() => parseRateCard({ ...rateCard, weightLimits: { minKg: 0.1, maxKg: { standard: 30 } } })).toThrow(/weightLimits\.maxKg\.express/);
+  });
+
+  test('selects the newest card already in effect', () => {
+    const next = { ...rateCard, version: 'next', effectiveDate: '2030-01-01' };
+    expect(selectRateCard([rateCard, next], new Date('2029-12-31')).version).toBe(rateCard.version);
+    expect(selectRateCard([rateCard, next], new Date('2030-01-01')).version).toBe('next');
+    expect(() => selectRateCard([next], new Date('2020-01-01'))).toThrow(/No rate card/);
+  });
+});
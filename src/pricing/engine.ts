@@ -0,0 +1,93 @@
+import { Dimensions, PackageBreakdown, PackageQuoteInput, ShippingFormData, ShippingResult, WeightBasis } from '../types';
+import { RateCard, SizeBand } from './rateCard';
+import { priceAddOns } from './addOns';
+import { DELIVERY_CALENDAR, DeliveryCalendar, getTransitDays } from '../delivery/deliveryDate';
+
+const roundToCents = (amount: number): number => parseFloat(amount.toFixed(2));
+
+// Package volume in litres from dimensions in cm
+export const getVolumeLitres = (dimensions: Dimensions): number =>
+  (dimensions.length * dimensions.width * dimensions.height) / 1000;
+
+// Find the size band for a volume; band limits are inclusive
+export const getSizeBand = (volumeLitres: number, rateCard: RateCard): SizeBand =>
+  rateCard.sizeBands.find((band) => band.maxVolumeLitres === null || volumeLitres <= band.maxVolumeLitres) ||
+  rateCard.sizeBands[rateCard.sizeBands.length - 1];
+
+// Volumetric weight in kg (0 when the rate card has no divisor), rounded to grams
+export const getVolumetricWeight = (input: PackageQuoteInput, rateCard: RateCard): number => {
+  const divisor = rateCard.volumetricDivisors?.[input.shippingMethod][input.destinationZone];
+  if (!divisor) return 0;
+  const { length, width, height } = input.dimensions;
+  return Math.round(((length * width * height) / divisor) * 1000) / 1000;
+};
+
+// The weight we bill on: whichever of actual and volumetric weight is greater
+export const getChargeableWeight = (input: PackageQuoteInput, rateCard: RateCard) => {
+  const volumetricWeight = getVolumetricWeight(input, rateCard);
+  const weightBasis: WeightBasis = volumetricWeight > input.weight ? 'volumetric' : 'actual';
+  return {
+    volumetricWeight,
+    chargeableWeight: weightBasis === 'volumetric' ? volumetricWeight : input.weight,
+    weightBasis,
+  };
+};
+
+// Surcharge for every kg above the included weight
+export const getWeightSurcharge = (weight: number, rateCard: RateCard): number =>
+  Math.max(0, (weight - rateCard.weightSurcharge.includedWeightKg) * rateCard.weightSurcharge.ratePerKg);
+
+// Discount percentage for the highest multi-piece tier the package count reaches
+export const getMultiPieceDiscountPercent = (packageCount: number, rateCard: RateCard): number =>
+  (rateCard.multiPieceDiscounts || [])
+    .filter((tier) => packageCount >= tier.minPackages)
+    .reduce((best, tier) => Math.max(best, tier.percent), 0);
+
+// Price one package against a rate card
+export const calculatePackageQuote = (input: PackageQuoteInput, rateCard: RateCard): PackageBreakdown => {
+  const zoneMultiplier = rateCard.zoneMultipliers[input.destinationZone];
+  const methodMultiplier = rateCard.methodMultipliers[input.shippingMethod];
+  const sizeBand = getSizeBand(getVolumeLitres(input.dimensions), rateCard);
+  const { volumetricWeight, chargeableWeight, weightBasis } = getChargeableWeight(input, rateCard);
+  const weightSurcharge = getWeightSurcharge(chargeableWeight, rateCard);
+
+  return {
+    sizeMultiplier: sizeBand.multiplier,
+    packageSizeCategory: sizeBand.category,
+    weightSurcharge: weightSurcharge,
+    weight: input.weight,
+    volumetricWeight: volumetricWeight,
+    chargeableWeight: chargeableWeight,
+    weightBasis: weightBasis,
+    cost: roundToCents(rateCard.baseRate * zoneMultiplier * sizeBand.multiplier * methodMultiplier + weightSurcharge),
+  };
+};
+
+// Price a whole shipment against a rate card, with the transit days of the delivery calendar in
+// effect (pure - no I/O, no React)
+export const calculateQuote = (formData: ShippingFormData, rateCard: RateCard, calendar: DeliveryCalendar = DELIVERY_CALENDAR): ShippingResult => {
+  const packages = formData.packages.map((pkg) =>
+    calculatePackageQuote({ ...pkg, shippingMethod: formData.shippingMethod, destinationZone: formData.destinationZone }, rateCard)
+  );
+  const subtotal = roundToCents(packages.reduce((sum, pkg) => sum + pkg.cost, 0));
+  const multiPieceDiscount = roundToCents((subtotal * getMultiPieceDiscountPercent(packages.length, rateCard)) / 100);
+  // Add-ons aren't discounted
+  const addOns = priceAddOns(formData, rateCard);
+  const addOnTotal = addOns.reduce((sum, addOn) => sum + addOn.cost, 0);
+
+  return {
+    shippingCost: roundToCents(subtotal - multiPieceDiscount + addOnTotal),
+    estimatedDeliveryDays: getTransitDays(formData.shippingMethod, formData.destinationZone, calendar).max,
+    rateCardVersion: rateCard.version,
+    breakdown: {
+      baseRate: rateCard.baseRate,
+      zoneMultiplier: rateCard.zoneMultipliers[formData.destinationZone],
+      shippingMethod: formData.shippingMethod,
+      destinationZone: formData.destinationZone,
+      packages: packages,
+      subtotal: subtotal,
+      multiPieceDiscount: multiPieceDiscount,
+      ...(addOns.length > 0 && { addOns }),
+    },
+  };
+};
@@ -0,0 +1,110 @@
+import { calculatePromotedQuote, checkPromoCode, parsePromoCodes, PROMO_CODES } from './promoCodes';
+import { RATE_CARDS } from './rateCard';
+import { ShippingFormData } from '../types';
+import { createTranslator, formatErrors, translateEnglish } from '../i18n';
+
+/**
+ * UNIT TESTS: Promo codes
+ *
+ * PURPOSE: Check what each kind of code takes off a quote, and that codes which are unknown,
+ * out of date, restricted to other methods/zones or below their minimum spend are rejected
+ * with a reason instead of being applied.
+ */
+const rateCard = RATE_CARDS[2];
+const now = new Date('2026-10-19T12:00:00Z');
+
+const smallBox = { weight: 1, dimensions: { length: 10, width: 10, height: 10 } };
+
+const shipment = (overrides: Partial<ShippingFormData> = {}): ShippingFormData => ({
+  shippingMethod: 'standard',
+  destinationZone: 'local',
+  packages: [smallBox],
+  ...overrides,
+});
+
+describe('discounts', () => {
+  test('takes a percentage off the total, add-ons included', () => {
+    const result = calculatePromotedQuote(shipment({ promoCode: 'WELCOME10', addOns: ['signature'] }), rateCard, { now });
+
+    expect(result.breakdown.promoDiscount).toEqual({ code: 'WELCOME10', description: '10% off your shipment', amount: 1.95 });
+    expect(result.shippingCost).toBe(17.55);
+  });
+
+  test('takes a fixed amount off once the minimum spend is reached', () => {
+    const result = calculatePromotedQuote(shipment({ promoCode: 'SAVE5', packages: Array(3).fill(smallBox) }), rateCard, { now });
+
+    expect(result.breakdown.promoDiscount?.amount).toBe(5);
+    expect(result.shippingCost).toBe(37.75);
+  });
+
+  test('charges an upgrade at the cheaper method price', () => {
+    const result = calculatePromotedQuote(shipment({ promoCode: 'EXPRESSUP', shippingMethod: 'express' }), rateCard, { now });
+
+    expect(result.breakdown.subtotal).toBe(27);
+    expect(result.breakdown.promoDiscount?.amount).toBe(12);
+    expect(result.shippingCost).toBe(15);
+  });
+
+  test('accepts codes in any case and never takes off more than the total', () => {
+    const promoCodes = parsePromoCodes({
+      version: 'test',
+      codes: [{ code: 'BIG', description: 'Big saving', type: 'fixed', amount: 100 }],
+    });
+    const result = calculatePromotedQuote(shipment({ promoCode: ' big ' }), rateCard, { promoCodes, now });
+
+    expect(result.breakdown.promoDiscount).toEqual({ code: 'BIG', description: 'Big saving', amount: 15 });
+    expect(result.shippingCost).toBe(0);
+  });
+
+  test('leaves quotes without a usable code alone', () => {
+    expect(calculatePromotedQuote(shipment(), rateCard, { now }).breakdown.promoDiscount).toBeUndefined();
+    expect(calculatePromotedQuote(shipment({ promoCode: 'SAVE5' }), rateCard, { now })).toEqual(
+      calculatePromotedQuote(shipment(), rateCard, { now })
+    );
+  });
+});
+
+describe('checkPromoCode', () => {
+  const reason = (overrides: Partial<ShippingFormData>, on: Date = now, t = translateEnglish) =>
+    formatErrors(checkPromoCode(shipment(overrides), rateCard, { now: on }), t).promoCode;
+
+  test('accepts usable codes and an empty box', () => {
+    expect(checkPromoCode(shipment({ promoCode: 'WELCOME10' }), rateCard, { now })).toEqual({});
+    expect(checkPromoCode(shipment({ promoCode: '' }), rateCard, { now })).toEqual({});
+  });
+
+  test('says exactly why a code is rejected', () => {
+    expect(reason({ promoCode: 'FREESHIP' })).toBe('Promo code FREESHIP is not recognised');
+    expect(reason({ promoCode: 'LOCAL20' }, new Date('2026-09-30T12:00:00Z'))).toBe("Promo code LOCAL20 can't be used until 2026-10-01");
+    expect(reason({ promoCode: 'EXPRESSUP', shippingMethod: 'express' }, new Date('2027-01-01T12:00:00Z'))).toBe(
+      'Promo code EXPRESSUP expired on 2026-12-31'
+    );
+    expect(reason({ promoCode: 'EXPRESSUP' })).toBe('Promo code EXPRESSUP only applies to express shipping');
+    expect(reason({ promoCode: 'LOCAL20', destinationZone: 'domestic' })).toBe('Promo code LOCAL20 only applies to local destinations');
+    expect(reason({ promoCode: 'SAVE5' })).toBe('Promo code SAVE5 needs a minimum spend of $30.00 (this shipment is $15.00)');
+  });
+
+  test('words the reason in the reader\'s language', () => {
+    expect(reason({ promoCode: 'EXPRESSUP' }, now, createTranslator('de'))).toBe('Aktionscode EXPRESSUP gilt nur für express-Versand');
+    expect(reason({ promoCode: 'SAVE5' }, now, createTranslator('fr'))).toBe(
+      'Le code promo SAVE5 exige un minimum de 30,00\u00a0$US (cet envoi : 15,00\u00a0$US)'
+    );
+  });
+
+  test('treats the validity dates as inclusive', () => {
+    expect(reason({ promoCode: 'LOCAL20' }, new Date('2026-10-01T00:00:00Z'))).toBeUndefined();
+    expect(reason({ promoCode: 'EXPRESSUP', shippingMethod: 'express' }, new Date('2026-12-31T23:59:59Z'))).toBeUndefined();
+  });
+});
+
+test('promo code tables reject codes they cannot describe', () => {
+  const withCode = (code: object) => () => parsePromoCodes({ version: 'test', codes: [{ code: 'TEST', description: 'Test', ...code }] });
+
+  expect(PROMO_CODES.codes.length).toBeGreaterThan(0);
+  expect(withCode({ type: 'bogus' })).toThrow(/type must be one of/);
+  expect(withCode({ type: 'percent', percent: 120 })).toThrow(/percent must be between 0 and 100/);
+  expect(withCode({ type: 'upgrade', priceAs: 'teleport' })).toThrow(/priceAs must be a shipping method/);
+  expect(withCode({ type: 'fixed', amount: 5, validUntil: '31/12/2026' })).toThrow(/validUntil must be an ISO date/);
+  expect(withCode({ type: 'fixed', amount: 5, code: 'lower' })).toThrow(/upper-case letters and digits/);
+  expect(() => parsePromoCodes({ version: 'test', codes: [PROMO_CODES.codes[0], PROMO_CODES.codes[0]] })).toThrow(/listed twice/);
+});
@@ -0,0 +1,202 @@
+import {
+  DESTINATION_ZONES,
+  DestinationZone,
+  PromoDiscount,
+  SHIPPING_METHODS,
+  ShippingFormData,
+  ShippingMethod,
+  ShippingResult,
+} from '../types';
+import { Message, MessageErrors } from '../i18n';
+import { calculateQuote } from './engine';
+import { RateCard } from './rateCard';
+import { AccountOptions, applyAccountDiscount } from './accounts';
+import { DeliveryCalendar } from '../delivery/deliveryDate';
+import bundledPromoCodes from './promoCodes.json';
+
+// Promo codes: what each one takes off a quote, and when it can be used
+
+export type PromoType = 'percent' | 'fixed' | 'upgrade';
+const PROMO_TYPES: PromoType[] = ['percent', 'fixed', 'upgrade'];
+
+// One code. percent and fixed come off the total (add-ons included); an upgrade charges the
+// shipping as if it went by the priceAs method. Dates are inclusive ISO dates, amounts are in
+// PRICE_CURRENCY, and a missing restriction key means any method/zone.
+export interface PromoCode {
+  code: string; // upper case
+  description: string;
+  type: PromoType;
+  percent?: number;
+  amount?: number;
+  priceAs?: ShippingMethod;
+  minimumSpend?: number; // the quote total before the code
+  validFrom?: string;
+  validUntil?: string;
+  restrictions?: { shippingMethod?: ShippingMethod[]; destinationZone?: DestinationZone[] };
+}
+
+export interface PromoCodeTable {
+  version: string;
+  codes: PromoCode[];
+}
+
+// The account table is needed too: codes come off the price after the account discount
+export interface PromoOptions extends AccountOptions {
+  promoCodes?: PromoCodeTable;
+  calendar?: DeliveryCalendar; // for the quote's transit days
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const roundToCents = (amount: number): number => parseFloat(amount.toFixed(2));
+
+export const normalisePromoCode = (input: string): string => input.trim().toUpperCase();
+
+// What a code looks like once normalised
+export const PROMO_CODE_PATTERN = /^[A-Z0-9]+$/;
+
+const checkPromoCodeEntry = (entry: unknown, index: number) => {
+  const name = `Promo codes codes[${index}]`;
+  if (!isObject(entry) || typeof entry.code !== 'string' || !PROMO_CODE_PATTERN.test(entry.code)) {
+    throw new Error(`${name}.code must be upper-case letters and digits`);
+  }
+  if (typeof entry.description !== 'string' || !entry.description) {
+    throw new Error(`${name} needs a description`);
+  }
+  if (!PROMO_TYPES.includes(entry.type)) {
+    throw new Error(`${name}.type must be one of ${PROMO_TYPES.join(', ')}`);
+  }
+  if (entry.type === 'percent' && !(isNonNegativeNumber(entry.percent) && entry.percent <= 100)) {
+    throw new Error(`${name}.percent must be between 0 and 100`);
+  }
+  if (entry.type === 'fixed' && !isNonNegativeNumber(entry.amount)) {
+    throw new Error(`${name}.amount must be a non-negative number`);
+  }
+  if (entry.type === 'upgrade' && !SHIPPING_METHODS.includes(entry.priceAs)) {
+    throw new Error(`${name}.priceAs must be a shipping method`);
+  }
+  if (entry.minimumSpend !== undefined && !isNonNegativeNumber(entry.minimumSpend)) {
+    throw new Error(`${name}.minimumSpend must be a non-negative number`);
+  }
+  (['validFrom', 'validUntil'] as const).forEach((key) => {
+    if (entry[key] !== undefined && (typeof entry[key] !== 'string' || !ISO_DATE.test(entry[key]) || isNaN(Date.parse(entry[key])))) {
+      throw new Error(`${name}.${key} must be an ISO date`);
+    }
+  });
+  if (entry.restrictions !== undefined) {
+    const allowed: Record<string, string[]> = { shippingMethod: SHIPPING_METHODS, destinationZone: DESTINATION_ZONES };
+    if (
+      !isObject(entry.restrictions) ||
+      !Object.entries(entry.restrictions).every(
+        ([key, values]) => allowed[key] && Array.isArray(values) && values.every((value) => allowed[key].includes(value))
+      )
+    ) {
+      throw new Error(`${name}.restrictions must list shipping methods and/or destination zones`);
+    }
+  }
+};
+
+// Validate raw JSON and return it as a typed promo code table (throws on bad input)
+export const parsePromoCodes = (json: unknown): PromoCodeTable => {
+  if (!isObject(json)) {
+    throw new Error('Promo codes must be a JSON object');
+  }
+  if (typeof json.version !== 'string' || !json.version) {
+    throw new Error('Promo codes version is required');
+  }
+  if (!Array.isArray(json.codes)) {
+    throw new Error('Promo codes codes must be an array');
+  }
+  json.codes.forEach(checkPromoCodeEntry);
+  const codes = json.codes.map((entry: PromoCode) => entry.code);
+  const duplicate = codes.find((code: string, index: number) => codes.indexOf(code) !== index);
+  if (duplicate) {
+    throw new Error(`Promo code ${duplicate} is listed twice`);
+  }
+  return json as unknown as PromoCodeTable;
+};
+
+export const PROMO_CODES: PromoCodeTable = parsePromoCodes(bundledPromoCodes);
+
+// The price a promo code comes off: the rate card's, less the account discount
+const priceShipment = (formData: ShippingFormData, rateCard: RateCard, options: PromoOptions): ShippingResult =>
+  applyAccountDiscount(formData, calculateQuote(formData, rateCard, options.calendar), options);
+
+// Shipping charge before add-ons: packages less the multi-piece and account discounts
+const shippingCharge = (quote: ShippingResult): number =>
+  quote.breakdown.subtotal - quote.breakdown.multiPieceDiscount - (quote.breakdown.accountDiscount?.amount || 0);
+
+// What the shipment's code takes off the quote, or why it can't be used
+const evaluatePromoCode = (
+  formData: ShippingFormData,
+  quote: ShippingResult,
+  rateCard: RateCard,
+  options: PromoOptions
+): { discount: PromoDiscount } | { error: Message } => {
+  const { promoCodes = PROMO_CODES, now = new Date() } = options;
+  const code = normalisePromoCode(formData.promoCode || '');
+  const promo = promoCodes.codes.find((entry) => entry.code === code);
+  if (!promo) {
+    return { error: { key: 'pricing.promo.unknown', values: { code } } };
+  }
+
+  const day = now.toISOString().slice(0, 10);
+  if (promo.validFrom && day < promo.validFrom) {
+    return { error: { key: 'pricing.promo.notYetValid', values: { code, date: promo.validFrom } } };
+  }
+  if (promo.validUntil && day > promo.validUntil) {
+    return { error: { key: 'pricing.promo.expired', values: { code, date: promo.validUntil } } };
+  }
+
+  const methods = promo.restrictions?.shippingMethod;
+  if (methods && !methods.includes(formData.shippingMethod)) {
+    return { error: { key: 'pricing.promo.methods', values: { code, methods } } };
+  }
+  const zones = promo.restrictions?.destinationZone;
+  if (zones && !zones.includes(formData.destinationZone)) {
+    return { error: { key: 'pricing.promo.zones', values: { code, zones } } };
+  }
+  if (promo.minimumSpend !== undefined && quote.shippingCost < promo.minimumSpend) {
+    return { error: { key: 'pricing.promo.minimumSpend', values: { code, minimum: promo.minimumSpend, amount: quote.shippingCost } } };
+  }
+
+  const saving =
+    promo.type === 'percent'
+      ? (quote.shippingCost * promo.percent!) / 100
+      : promo.type === 'fixed'
+        ? promo.amount!
+        : shippingCharge(quote) - shippingCharge(priceShipment({ ...formData, shippingMethod: promo.priceAs! }, rateCard, options));
+  const amount = roundToCents(Math.min(saving, quote.shippingCost));
+  if (!(amount > 0)) {
+    return { error: { key: 'pricing.promo.noSaving', values: { code } } };
+  }
+  return { discount: { code, description: promo.description, amount } };
+};
+
+// Why the shipment's promo code can't be used, keyed like the form's errors ("promoCode")
+export const checkPromoCode = (formData: ShippingFormData, rateCard: RateCard, options: PromoOptions = {}): MessageErrors => {
+  if (!formData.promoCode?.trim()) return {};
+  const result = evaluatePromoCode(formData, priceShipment(formData, rateCard, options), rateCard, options);
+  return 'error' in result ? { promoCode: result.error } : {};
+};
+
+// Price a shipment with its account discount and promo code taken off (check them with
+// checkAccount and checkPromoCode first; one that can't be used is left off the quote)
+export const calculatePromotedQuote = (formData: ShippingFormData, rateCard: RateCard, options: PromoOptions = {}): ShippingResult => {
+  const quote = priceShipment(formData, rateCard, options);
+  if (!formData.promoCode?.trim()) return quote;
+
+  const result = evaluatePromoCode(formData, quote, rateCard, options);
+  if ('error' in result) return quote;
+  return {
+    ...quote,
+    shippingCost: roundToCents(quote.shippingCost - result.discount.amount),
+    breakdown: { ...quote.breakdown, promoDiscount: result.discount },
+  };
+};
@@ -0,0 +1,201 @@
+import { ADD_ON_IDS, AddOnId, DESTINATION_ZONES, DestinationZone, SHIPPING_METHODS, ShippingMethod } from '../types';
+import rateCard20250101 from './rateCards/2025-01-01.json';
+import rateCard20250701 from './rateCards/2025-07-01.json';
+import rateCard20251001 from './rateCards/2025-10-01.json';
+
+// A volume band; the last band has no upper bound (maxVolumeLitres: null)
+export interface SizeBand {
+  maxVolumeLitres: number | null;
+  multiplier: number;
+  category: string;
+}
+
+export interface MultiPieceDiscount {
+  minPackages: number;
+  percent: number;
+}
+
+// Price and availability of an optional service. Fees are added together; insurance also
+// charges a percentage of the declared value, and no add-on costs less than its minimumFee.
+export interface AddOnRate {
+  label: string;
+  fee?: number; // per shipment
+  perPackageFee?: number;
+  declaredValuePercent?: number;
+  maxDeclaredValue?: number; // the most that can be insured
+  minimumFee?: number;
+  // Only offered for the listed methods/zones; a missing key means any
+  availability?: { shippingMethod?: ShippingMethod[]; destinationZone?: DestinationZone[] };
+}
+
+// Package weights a card accepts, in kg: one minimum, and a maximum per method
+export interface WeightLimits {
+  minKg: number;
+  maxKg: Record<ShippingMethod, number>;
+}
+
+// Versioned tariff that drives every price the engine produces
+export interface RateCard {
+  version: string;
+  effectiveDate: string; // ISO date (YYYY-MM-DD)
+  note?: string; // why it was published, e.g. a rollback
+  baseRate: number;
+  zoneMultipliers: Record<DestinationZone, number>;
+  sizeBands: SizeBand[];
+  methodMultipliers: Record<ShippingMethod, number>;
+  weightSurcharge: {
+    includedWeightKg: number;
+    ratePerKg: number;
+  };
+  // cm³ per kg used to turn volume into volumetric weight; cards without it bill actual weight only
+  volumetricDivisors?: Record<ShippingMethod, Record<DestinationZone, number>>;
+  // Percentage off the shipment subtotal by package count; the highest tier reached applies
+  multiPieceDiscounts?: MultiPieceDiscount[];
+  // Optional services this card offers; cards without them offer none
+  addOns?: Partial<Record<AddOnId, AddOnRate>>;
+  // Replace the validation rules' weight limits while the card is in effect (see withWeightLimits)
+  weightLimits?: WeightLimits;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const checkKeyedNumbers = (value: unknown, keys: string[], name: string) => {
+  if (!isObject(value)) {
+    throw new Error(`Rate card ${name} must be an object`);
+  }
+  keys.forEach((key) => {
+    if (!isNonNegativeNumber(value[key])) {
+      throw new Error(`Rate card ${name}.${key} must be a non-negative number`);
+    }
+  });
+};
+
+const checkAddOnRate = (id: string, addOn: unknown) => {
+  const name = `Rate card addOns.${id}`;
+  if (!ADD_ON_IDS.includes(id as AddOnId)) {
+    throw new Error(`${name} is not a known add-on`);
+  }
+  if (!isObject(addOn) || typeof addOn.label !== 'string' || !addOn.label) {
+    throw new Error(`${name} needs a label`);
+  }
+  (['fee', 'perPackageFee', 'declaredValuePercent', 'maxDeclaredValue', 'minimumFee'] as const).forEach((key) => {
+    if (addOn[key] !== undefined && !isNonNegativeNumber(addOn[key])) {
+      throw new Error(`${name}.${key} must be a non-negative number`);
+    }
+  });
+  if (addOn.availability !== undefined) {
+    const allowed: Record<string, string[]> = { shippingMethod: SHIPPING_METHODS, destinationZone: DESTINATION_ZONES };
+    if (
+      !isObject(addOn.availability) ||
+      !Object.entries(addOn.availability).every(
+        ([key, values]) => allowed[key] && Array.isArray(values) && values.every((value) => allowed[key].includes(value))
+      )
+    ) {
+      throw new Error(`${name}.availability must list shipping methods and/or destination zones`);
+    }
+  }
+};
+
+// Validate raw JSON and return it as a typed rate card (throws on bad input)
+export const parseRateCard = (json: unknown): RateCard => {
+  if (!isObject(json)) {
+    throw new Error('Rate card must be a JSON object');
+  }
+  if (typeof json.version !== 'string' || !json.version) {
+    throw new Error('Rate card version is required');
+  }
+  if (typeof json.effectiveDate !== 'string' || isNaN(Date.parse(json.effectiveDate))) {
+    throw new Error('Rate card effectiveDate must be an ISO date');
+  }
+  if (json.note !== undefined && typeof json.note !== 'string') {
+    throw new Error('Rate card note must be text');
+  }
+  if (!isNonNegativeNumber(json.baseRate)) {
+    throw new Error('Rate card baseRate must be a non-negative number');
+  }
+
+  checkKeyedNumbers(json.zoneMultipliers, DESTINATION_ZONES, 'zoneMultipliers');
+  checkKeyedNumbers(json.methodMultipliers, SHIPPING_METHODS, 'methodMultipliers');
+  checkKeyedNumbers(json.weightSurcharge, ['includedWeightKg', 'ratePerKg'], 'weightSurcharge');
+
+  if (json.volumetricDivisors !== undefined) {
+    if (!isObject(json.volumetricDivisors)) {
+      throw new Error('Rate card volumetricDivisors must be an object');
+    }
+    SHIPPING_METHODS.forEach((method) => {
+      checkKeyedNumbers(json.volumetricDivisors[method], DESTINATION_ZONES, `volumetricDivisors.${method}`);
+      DESTINATION_ZONES.forEach((zone) => {
+        if (json.volumetricDivisors[method][zone] === 0) {
+          throw new Error(`Rate card volumetricDivisors.${method}.${zone} must be greater than zero`);
+        }
+      });
+    });
+  }
+
+  if (json.weightLimits !== undefined) {
+    checkKeyedNumbers(json.weightLimits, ['minKg'], 'weightLimits');
+    checkKeyedNumbers(json.weightLimits.maxKg, SHIPPING_METHODS, 'weightLimits.maxKg');
+    SHIPPING_METHODS.forEach((method) => {
+      if (json.weightLimits.maxKg[method] <= json.weightLimits.minKg) {
+        throw new Error(`Rate card weightLimits.maxKg.${method} must be more than weightLimits.minKg`);
+      }
+    });
+  }
+
+  if (json.multiPieceDiscounts !== undefined) {
+    if (!Array.isArray(json.multiPieceDiscounts)) {
+      throw new Error('Rate card multiPieceDiscounts must be an array');
+    }
+    json.multiPieceDiscounts.forEach((tier: unknown, index: number) => {
+      if (!isObject(tier) || !isNonNegativeNumber(tier.minPackages) || !isNonNegativeNumber(tier.percent) || tier.percent > 100) {
+        throw new Error(`Rate card multiPieceDiscounts[${index}] is invalid`);
+      }
+    });
+  }
+
+  if (json.addOns !== undefined) {
+    if (!isObject(json.addOns)) {
+      throw new Error('Rate card addOns must be an object');
+    }
+    Object.entries(json.addOns).forEach(([id, addOn]) => checkAddOnRate(id, addOn));
+  }
+
+  const bands = json.sizeBands;
+  if (!Array.isArray(bands) || bands.length === 0) {
+    throw new Error('Rate card sizeBands must be a non-empty array');
+  }
+  bands.forEach((band: unknown, index: number) => {
+    if (!isObject(band) || !isNonNegativeNumber(band.multiplier) || typeof band.category !== 'string') {
+      throw new Error(`Rate card sizeBands[${index}] is invalid`);
+    }
+    const isLast = index === bands.length - 1;
+    if (isLast ? band.maxVolumeLitres !== null : !isNonNegativeNumber(band.maxVolumeLitres)) {
+      throw new Error(`Rate card sizeBands[${index}].maxVolumeLitres must be ${isLast ? 'null' : 'a number'}`);
+    }
+    if (index > 0 && !isLast && band.maxVolumeLitres <= bands[index - 1].maxVolumeLitres) {
+      throw new Error('Rate card sizeBands must be in ascending order');
+    }
+  });
+
+  return json as unknown as RateCard;
+};
+
+// All rate cards bundled with the app, oldest first
+export const RATE_CARDS: RateCard[] = [rateCard20250101, rateCard20250701, rateCard20251001]
+  .map(parseRateCard)
+  .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+// Pick the newest rate card already in effect on the given date. Of cards taking effect on the
+// same day, the one later in the list (published later) wins.
+export const selectRateCard = (cards: RateCard[], on: Date = new Date()): RateCard => {
+  const day = on.toISOString().slice(0, 10);
+  const effective = cards.filter((card) => card.effectiveDate <= day);
+  if (effective.length === 0) {
+    throw new Error(`No rate card is in effect on ${day}`);
+  }
+  return effective.reduce((latest, card) => (card.effectiveDate >= latest.effectiveDate ? card : latest));
+};
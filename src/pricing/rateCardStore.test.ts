@@ -0,0 +1,67 @@
+import { RATE_CARDS } from './rateCard';
+import { createRateCardStore, nextRateCardVersion, prepareRateCard, RateCardDraft, RateCardSaveError } from './rateCardStore';
+
+/**
+ * UNIT TESTS: Rate card store
+ *
+ * PURPOSE: Check that published cards get the next version of their year, that
+ * drafts are checked against the rate card schema and can't take effect in the past,
+ * that rolling back publishes an earlier card's rates again instead of editing history, and
+ * that a card which can't be saved never goes live.
+ */
+const now = () => new Date('2026-03-01T12:00:00Z');
+const { version, ...current } = RATE_CARDS[RATE_CARDS.length - 1];
+const draft = (overrides: Partial<RateCardDraft> = {}): RateCardDraft => ({ ...current, effectiveDate: '2026-03-01', ...overrides });
+
+describe('rate card store', () => {
+  test('numbers versions within the year they are published in', () => {
+    expect(nextRateCardVersion(RATE_CARDS, now())).toBe('2026.1');
+    expect(nextRateCardVersion([...RATE_CARDS, { ...RATE_CARDS[0], version: '2026.4' }], now())).toBe('2026.5');
+    expect(nextRateCardVersion(RATE_CARDS, new Date('2025-06-01'))).toBe('2025.4');
+  });
+
+  test('refuses drafts the schema rejects or that take effect in the past', () => {
+    expect(prepareRateCard(draft(), RATE_CARDS, now())).toMatchObject({ version: '2026.1', effectiveDate: '2026-03-01' });
+    expect(() => prepareRateCard(draft({ baseRate: NaN }), RATE_CARDS, now())).toThrow(/baseRate/);
+    expect(() => prepareRateCard(draft({ effectiveDate: '2026-02-28' }), RATE_CARDS, now())).toThrow(
+      "Rate card effectiveDate can't be before 2026-03-01"
+    );
+  });
+
+  test('publishes new versions and keeps them through onPublish', () => {
+    const onPublish = jest.fn();
+    const store = createRateCardStore({ now, onPublish });
+
+    const scheduled = store.publish(draft({ effectiveDate: '2026-04-01', baseRate: 18 }));
+    expect(store.list().activeVersion).toBe(version);
+    const today = store.publish(draft({ baseRate: 16 }));
+    expect(store.list().activeVersion).toBe(today.version);
+
+    expect(onPublish).toHaveBeenLastCalledWith([scheduled, today]);
+    expect(createRateCardStore({ now, published: [scheduled, today] }).list().cards).toHaveLength(RATE_CARDS.length + 2);
+  });
+
+  test('leaves a card that could not be saved unpublished', () => {
+    const store = createRateCardStore({
+      now,
+      onPublish: () => {
+        throw new Error('disk full');
+      },
+    });
+
+    expect(() => store.publish(draft({ baseRate: 16 }))).toThrow(RateCardSaveError);
+    expect(() => store.rollback(version)).toThrow('Rate card 2026.1 could not be saved: disk full');
+    expect(store.list()).toEqual({ activeVersion: version, cards: RATE_CARDS });
+  });
+
+  test('rolls back by publishing an earlier card again, in effect today', () => {
+    const store = createRateCardStore({ now });
+    store.publish(draft({ baseRate: 16 }));
+
+    const rolledBack = store.rollback(version);
+    expect(rolledBack).toEqual({ ...current, version: '2026.2', effectiveDate: '2026-03-01', note: `Rollback to ${version}` });
+    expect(store.list()).toMatchObject({ activeVersion: '2026.2' });
+    expect(store.list().cards.find((card) => card.version === '2026.1')!.baseRate).toBe(16);
+    expect(store.rollback('1999.1')).toBeNull();
+  });
+});
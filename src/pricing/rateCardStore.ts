@@ -0,0 +1,93 @@
+import { parseRateCard, RATE_CARDS, RateCard, selectRateCard } from './rateCard';
+
+// Rate cards published from the admin screen, kept after the bundled ones. A published card is
+// never changed: new prices are a new version, and rolling back publishes an earlier card's
+// rates again as the newest version, in effect from today.
+
+// A card as the editor sends it; the store gives it its version
+export type RateCardDraft = Omit<RateCard, 'version'>;
+
+// GET /api/rate-cards
+export interface RateCardList {
+  activeVersion: string; // the card quotes are priced on today
+  cards: RateCard[]; // bundled, then published, oldest first
+}
+
+// publish and rollback throw RateCardSaveError when onPublish fails; the card is then not published
+export interface RateCardStore {
+  list: () => RateCardList;
+  publish: (draft: RateCardDraft) => RateCard; // throws with the reason a draft is refused
+  rollback: (version: string) => RateCard | null; // null when there's no such version
+}
+
+export interface RateCardStoreOptions {
+  bundled?: RateCard[];
+  published?: RateCard[]; // from an earlier run
+  onPublish?: (published: RateCard[]) => void; // to keep them for the next run (throws when they can't be kept)
+  now?: () => Date;
+}
+
+// A card that passed the schema but couldn't be kept for the next run
+export class RateCardSaveError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, RateCardSaveError.prototype);
+    this.name = 'RateCardSaveError';
+  }
+}
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Versions count up within the year they're published in: 2026.1, 2026.2, ...
+export const nextRateCardVersion = (cards: RateCard[], now: Date = new Date()): string => {
+  const year = String(now.getUTCFullYear());
+  const numbers = cards
+    .map((card) => card.version.split('.'))
+    .filter(([cardYear, number]) => cardYear === year && /^\d+$/.test(number))
+    .map(([, number]) => Number(number));
+  return `${year}.${Math.max(0, ...numbers) + 1}`;
+};
+
+// The card a draft would be published as, checked against the rate card schema (throws on bad
+// input). Cards can't take effect in the past: quotes already given were priced on the cards of
+// their day.
+export const prepareRateCard = (draft: RateCardDraft, cards: RateCard[], now: Date = new Date()): RateCard => {
+  const card = parseRateCard({ ...draft, version: nextRateCardVersion(cards, now) });
+  if (card.effectiveDate < isoDay(now)) {
+    throw new Error(`Rate card effectiveDate can't be before ${isoDay(now)}`);
+  }
+  return card;
+};
+
+export const createRateCardStore = ({
+  bundled = RATE_CARDS,
+  published: initial = [],
+  onPublish,
+  now = () => new Date(),
+}: RateCardStoreOptions = {}): RateCardStore => {
+  let published = initial;
+  const allCards = () => [...bundled, ...published];
+
+  // Kept before it goes live, so quotes are never priced on a card the next run won't have
+  const add = (card: RateCard): RateCard => {
+    const next = [...published, card];
+    try {
+      onPublish?.(next);
+    } catch (error) {
+      throw new RateCardSaveError(`Rate card ${card.version} could not be saved: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    published = next;
+    return card;
+  };
+
+  return {
+    list: () => ({ activeVersion: selectRateCard(allCards(), now()).version, cards: allCards() }),
+    publish: (draft) => add(prepareRateCard(draft, allCards(), now())),
+    rollback: (version) => {
+      const earlier = allCards().find((card) => card.version === version);
+      if (!earlier) return null;
+      const { version: earlierVersion, note, ...rates } = earlier;
+      return add(prepareRateCard({ ...rates, effectiveDate: isoDay(now()), note: `Rollback to ${version}` }, allCards(), now()));
+    },
+  };
+};
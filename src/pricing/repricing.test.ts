@@ -0,0 +1,56 @@
+import { RATE_CARDS } from './rateCard';
+import { DELIVERY_CALENDAR } from '../delivery/deliveryDate';
+import { previewRepricing, REPRICING_SAMPLES } from './repricing';
+import { getValidationMessages } from '../i18n';
+
+/**
+ * UNIT TESTS: Repricing preview
+ *
+ * PURPOSE: Check that every sample shipment is priced on both cards with the
+ * change between them, that their transit days follow each calendar, and that
+ * samples outside a card's weight limits are shown as not accepted rather than priced,
+ * in the reader's language.
+ */
+const current = RATE_CARDS[RATE_CARDS.length - 1];
+
+describe('previewRepricing', () => {
+  test('prices every sample on both cards', () => {
+    const rows = previewRepricing(current, { ...current, version: 'next', baseRate: current.baseRate * 1.1 });
+
+    expect(rows.map((row) => row.id)).toEqual(REPRICING_SAMPLES.map((sample) => sample.id));
+    rows.forEach((row) => {
+      expect(row.after.cost).toBeGreaterThan(row.before.cost!);
+      expect(row.changePercent).toBeGreaterThan(0);
+      expect(row.after.transitDays).toEqual(row.before.transitDays);
+    });
+    expect(previewRepricing(current, current).every((row) => row.changePercent === 0)).toBe(true);
+  });
+
+  test('gives each sample the transit days of the calendar it is priced with', () => {
+    const nextCalendar = {
+      ...DELIVERY_CALENDAR,
+      transitDays: { ...DELIVERY_CALENDAR.transitDays, overnight: { ...DELIVERY_CALENDAR.transitDays.overnight, local: { min: 2, max: 2 } } },
+    };
+    const rows = previewRepricing(current, current, { nextCalendar });
+
+    const document = rows.find((row) => row.id === 'document')!;
+    expect(document.before.transitDays).toEqual({ min: 1, max: 1 });
+    expect(document.after.transitDays).toEqual({ min: 2, max: 2 });
+    expect(document.changePercent).toBe(0);
+    expect(rows.filter((row) => row.after.transitDays !== row.before.transitDays)).toEqual([document]);
+  });
+
+  test("shows samples outside a card's weight limits as not accepted", () => {
+    const next = { ...current, version: 'next', weightLimits: { minKg: 0.5, maxKg: { standard: 10, express: 10, overnight: 5 } } };
+    const rows = previewRepricing(current, next);
+
+    const document = rows.find((row) => row.id === 'document')!;
+    expect(document.before.cost).toBeGreaterThan(0);
+    expect(document.after).toEqual({ error: 'Weight must be at least 0.5kg for overnight shipping' });
+    expect(document.changePercent).toBeNull();
+    expect(rows.find((row) => row.id === 'largeCarton')!.after.error).toMatch(/cannot exceed 10kg/);
+
+    const german = previewRepricing(current, next, { messages: getValidationMessages('de') });
+    expect(german.find((row) => row.id === 'document')!.after.error).toBe('Das Gewicht muss beim Overnight-Versand mindestens 0,5 kg betragen');
+  });
+});
@@ -0,0 +1,78 @@
+import { ShippingFormData } from '../types';
+import { DEFAULT_VALIDATION_RULES, validateShippingForm, ValidationMessages, withWeightLimits } from '../validation';
+import { calculateQuote } from './engine';
+import { RateCard } from './rateCard';
+import { DELIVERY_CALENDAR, DeliveryCalendar, getTransitDays, TransitDays } from '../delivery/deliveryDate';
+
+// Impact preview for the rate-card editor: a fixed set of typical shipments priced on the card
+// in effect and on the one about to be published, with their transit days on the delivery
+// calendar in effect and on the one with the edited transit days.
+
+// id names the sample for the editor's catalog (rateCards.sample)
+export interface RepricingSample {
+  id: string;
+  formData: ShippingFormData;
+}
+
+const box = (weight: number, length: number, width: number, height: number) => ({ weight, dimensions: { length, width, height } });
+
+export const REPRICING_SAMPLES: RepricingSample[] = [
+  { id: 'document', formData: { shippingMethod: 'overnight', destinationZone: 'local', packages: [box(0.3, 32, 23, 1)] } },
+  { id: 'satchel', formData: { shippingMethod: 'standard', destinationZone: 'local', packages: [box(0.5, 35, 23, 4)] } },
+  { id: 'smallCarton', formData: { shippingMethod: 'express', destinationZone: 'domestic', packages: [box(2, 30, 22, 16)] } },
+  { id: 'mediumCarton', formData: { shippingMethod: 'standard', destinationZone: 'domestic', packages: [box(8, 40, 30, 30)] } },
+  { id: 'largeCarton', formData: { shippingMethod: 'standard', destinationZone: 'international', packages: [box(15, 60, 40, 40)] } },
+  { id: 'heavyCarton', formData: { shippingMethod: 'express', destinationZone: 'international', packages: [box(9.5, 50, 40, 30)] } },
+  {
+    id: 'threeCartons',
+    formData: { shippingMethod: 'express', destinationZone: 'domestic', packages: [box(4, 30, 30, 30), box(4, 30, 30, 30), box(4, 30, 30, 30)] },
+  },
+];
+
+// A sample's price and transit days on one card and calendar, or why that card won't carry it
+// (e.g. its weight limits)
+export interface RepricedQuote {
+  cost?: number;
+  transitDays?: TransitDays;
+  error?: string;
+}
+
+export interface RepricingRow {
+  id: string;
+  formData: ShippingFormData;
+  before: RepricedQuote;
+  after: RepricedQuote;
+  changePercent: number | null; // after against before, to one decimal; null unless both are priced
+}
+
+export interface RepricingOptions {
+  samples?: RepricingSample[];
+  currentCalendar?: DeliveryCalendar;
+  nextCalendar?: DeliveryCalendar; // the current one unless the transit days are edited too
+  messages?: ValidationMessages; // the reader's wording for samples a card won't carry
+}
+
+const priceOn = (formData: ShippingFormData, rateCard: RateCard, calendar: DeliveryCalendar, messages?: ValidationMessages): RepricedQuote => {
+  const errors = validateShippingForm(formData, 'metric', withWeightLimits(DEFAULT_VALIDATION_RULES, rateCard.weightLimits), messages);
+  const error = Object.values(errors).find(Boolean);
+  if (error) return { error };
+  return {
+    cost: calculateQuote(formData, rateCard, calendar).shippingCost,
+    transitDays: getTransitDays(formData.shippingMethod, formData.destinationZone, calendar),
+  };
+};
+
+export const previewRepricing = (
+  current: RateCard,
+  next: RateCard,
+  { samples = REPRICING_SAMPLES, currentCalendar = DELIVERY_CALENDAR, nextCalendar = currentCalendar, messages }: RepricingOptions = {}
+): RepricingRow[] =>
+  samples.map(({ id, formData }) => {
+    const before = priceOn(formData, current, currentCalendar, messages);
+    const after = priceOn(formData, next, nextCalendar, messages);
+    const changePercent =
+      before.cost !== undefined && after.cost !== undefined && before.cost > 0
+        ? parseFloat((((after.cost - before.cost) / before.cost) * 100).toFixed(1))
+        : null;
+    return { id, formData, before, after, changePercent };
+  });
@@ -0,0 +1,6 @@
+import { AccountTable, parseAccounts } from '../pricing/accounts';
+import bundledAccounts from './accounts.json';
+
+// The business accounts. They live on the server only: the calculator never has the table, and
+// sends the account number for the pricing service to check.
+export const ACCOUNTS: AccountTable = parseAccounts(bundledAccounts);
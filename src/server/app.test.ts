@@ -0,0 +1,441 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createShippingServer } from './app';
+import { DEFAULT_VALIDATION_RULES } from '../validation';
+import { RATE_CARDS } from '../pricing/rateCard';
+import { createRateCardStore } from '../pricing/rateCardStore';
+import { DELIVERY_CALENDAR } from '../delivery/deliveryDate';
+import { createDeliveryCalendarStore } from '../delivery/calendarStore';
+
+/**
+ * INTEGRATION TESTS: Local shipping API
+ *
+ * PURPOSE: Check the POST /api/calculate-shipping contract end to end over HTTP,
+ * including add-ons, business accounts, promo codes and the 400 (malformed) and 422 (rule violation) error responses,
+ * publishing and rolling back rate cards through /api/rate-cards, and publishing
+ * transit days through /api/delivery-calendar.
+ */
+describe('POST /api/calculate-shipping', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll((done) => {
+    server = createShippingServer().listen(0, () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  const request = (method: string, path: string, body?: string): Promise<{ status: number; json: any }> =>
+    new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, method, path, headers: { 'Content-Type': 'application/json' } }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, json: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+
+  const validPackage = {
+    shippingMethod: 'express',
+    packages: [{ weight: 3, dimensions: { length: 20, width: 20, height: 50 } }],
+    destinationZone: 'international',
+  };
+
+  test('returns a priced ShippingResult for a valid package', async () => {
+    const { status, json } = await request('POST', '/api/calculate-shipping', JSON.stringify(validPackage));
+
+    expect(status).toBe(200);
+    // 20000 cm³ / 5000 = 4 kg volumetric, billed over the 3 kg actual weight
+    expect(json.shippingCost).toBe(72.3);
+    expect(json.breakdown.packages[0].packageSizeCategory).toBe('Medium');
+    expect(json.breakdown.packages[0].weightBasis).toBe('volumetric');
+  });
+
+  test('returns 400 for invalid JSON and wrongly typed fields', async () => {
+    const invalidJson = await request('POST', '/api/calculate-shipping', '{not json');
+    expect(invalidJson.status).toBe(400);
+
+    const wrongTypes = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, packages: [{ ...validPackage.packages[0], weight: '3' }], shippingMethod: 'teleport' }));
+    expect(wrongTypes.status).toBe(400);
+    expect(Object.keys(wrongTypes.json.fieldErrors)).toEqual(['shippingMethod', 'packages.0.weight']);
+  });
+
+  test('returns 422 with field errors when the shipping rules fail', async () => {
+    const { status, json } = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, packages: [validPackage.packages[0], { ...validPackage.packages[0], weight: 12 }] }));
+
+    expect(status).toBe(422);
+    expect(json.fieldErrors).toEqual({ 'packages.1.weight': 'Weight cannot exceed 10kg for express shipping' });
+  });
+
+  test('returns 422 with field errors for services that are not offered', async () => {
+    const { status, json } = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, shippingMethod: 'overnight' }));
+
+    expect(status).toBe(422);
+    expect(json.fieldErrors.shippingMethod).toBe('Overnight shipping is not available for international destinations');
+  });
+
+  test('refuses embargoed destinations with the embargo as the reason', async () => {
+    const embargoed = { ...validPackage, origin: { country: 'US', postcode: '10001' }, destination: { country: 'KP', postcode: '12345' } };
+    const { status, json } = await request('POST', '/api/calculate-shipping', JSON.stringify(embargoed));
+
+    expect(status).toBe(422);
+    expect(json.fieldErrors['destination.country']).toBe('We cannot ship to this country: it is under a trade embargo');
+  });
+
+  test('prices chosen add-ons and rejects ones not offered for the shipment', async () => {
+    const priced = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, addOns: ['insurance', 'signature'], declaredValue: 400 }));
+
+    expect(priced.status).toBe(200);
+    expect(priced.json.breakdown.addOns).toEqual([
+      { id: 'insurance', label: 'Declared-value insurance', cost: 6 },
+      { id: 'signature', label: 'Signature on delivery', cost: 4.5 },
+    ]);
+    expect(priced.json.shippingCost).toBe(82.8);
+
+    const saturday = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, addOns: ['saturdayDelivery'] }));
+    expect(saturday.status).toBe(422);
+    expect(saturday.json.fieldErrors).toEqual({ addOns: 'Saturday delivery is not available for express shipping to international destinations' });
+  });
+
+  test('takes an account discount off the quote and gives the reason for a rejected account', async () => {
+    const discounted = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, accountNumber: 'zza10001' }));
+
+    expect(discounted.status).toBe(200);
+    expect(discounted.json.breakdown.accountDiscount).toEqual({ accountNumber: 'ZZA10001', name: 'Acme Retail', percent: 12, amount: 8.68 });
+    expect(discounted.json.shippingCost).toBe(63.62);
+
+    const unknown = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, accountNumber: 'ZZA99999' }));
+    expect(unknown.status).toBe(422);
+    expect(unknown.json.fieldErrors).toEqual({ accountNumber: 'Account ZZA99999 is not recognised' });
+  });
+
+  test('takes an accepted promo code off the quote and gives the reason for a rejected one', async () => {
+    const promoted = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, promoCode: 'welcome10' }));
+
+    expect(promoted.status).toBe(200);
+    expect(promoted.json.breakdown.promoDiscount).toEqual({ code: 'WELCOME10', description: '10% off your shipment', amount: 7.23 });
+    expect(promoted.json.shippingCost).toBe(65.07);
+
+    const unknown = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, promoCode: 'NOPE' }));
+    expect(unknown.status).toBe(422);
+    expect(unknown.json.fieldErrors).toEqual({ promoCode: 'Promo code NOPE is not recognised' });
+  });
+
+  test('returns 413 for a body over the limit in bytes, even when it is under it in characters', async () => {
+    // 40,000 characters, but two bytes each in UTF-8
+    const { status, json } = await request('POST', '/api/calculate-shipping', JSON.stringify({ ...validPackage, note: 'é'.repeat(40000) }));
+
+    expect(status).toBe(413);
+    expect(json).toEqual({ message: 'Request body too large' });
+  });
+
+  test('rejects other methods and paths', async () => {
+    expect((await request('GET', '/api/calculate-shipping')).status).toBe(405);
+    expect((await request('POST', '/api/unknown', '{}')).status).toBe(404);
+  });
+});
+
+describe('POST /api/calculate-shipping with its own validation rules', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll((done) => {
+    const validationRules = {
+      ...DEFAULT_VALIDATION_RULES,
+      rules: [
+        ...DEFAULT_VALIDATION_RULES.rules,
+        { id: 'international-max', field: 'weight' as const, check: 'max' as const, limit: 2, when: { destinationZone: ['international' as const] }, message: 'Too heavy for {destinationZone}' },
+      ],
+    };
+    server = createShippingServer({ validationRules }).listen(0, () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  test('rejects shipments the configured rules reject', async () => {
+    const body = JSON.stringify({
+      shippingMethod: 'express',
+      packages: [{ weight: 3, dimensions: { length: 20, width: 20, height: 50 } }],
+      destinationZone: 'international',
+    });
+    const { status, json } = await new Promise<{ status: number; json: any }>((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, method: 'POST', path: '/api/calculate-shipping' }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, json: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+
+    expect(status).toBe(422);
+    expect(json.fieldErrors).toEqual({ 'packages.0.weight': 'Too heavy for international' });
+  });
+});
+
+describe('GET /api/tracking/:trackingNumber', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll((done) => {
+    server = createShippingServer().listen(0, () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  const get = (path: string): Promise<{ status: number; json: any }> =>
+    new Promise((resolve, reject) => {
+      http.get({ host: '127.0.0.1', port, path }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, json: JSON.parse(data) }));
+      }).on('error', reject);
+    });
+
+  test('returns the tracking history for a known number', async () => {
+    const { status, json } = await get('/api/tracking/ZZZ100000001');
+
+    expect(status).toBe(200);
+    expect(json.events.map((event: any) => event.status)).toEqual(['picked_up', 'in_transit', 'at_depot', 'out_for_delivery', 'delivered']);
+  });
+
+  test('returns 404 for unknown and 400 for malformed numbers', async () => {
+    expect((await get('/api/tracking/ZZZ999999999')).status).toBe(404);
+    expect((await get('/api/tracking/not-a-number')).status).toBe(400);
+    expect((await get('/api/tracking/%E0%A4%A')).status).toBe(400);
+  });
+});
+
+describe('GET /api/exchange-rates', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll((done) => {
+    server = createShippingServer().listen(0, () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  test('returns the bundled exchange-rate table', async () => {
+    const { status, json } = await new Promise<{ status: number; json: any }>((resolve, reject) => {
+      http.get({ host: '127.0.0.1', port, path: '/api/exchange-rates' }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, json: JSON.parse(data) }));
+      }).on('error', reject);
+    });
+
+    expect(status).toBe(200);
+    expect(json.base).toBe('USD');
+    expect(json.rates.USD).toBe(1);
+    expect(typeof json.asOf).toBe('string');
+  });
+});
+
+describe('/api/rate-cards', () => {
+  let server: http.Server;
+  let port: number;
+  const now = () => new Date('2026-03-01T12:00:00Z');
+
+  beforeAll((done) => {
+    server = createShippingServer({ rateCardStore: createRateCardStore({ now }), now }).listen(0, () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  const request = (method: string, path: string, body?: unknown, to = port): Promise<{ status: number; json: any }> =>
+    new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port: to, method, path, headers: { 'Content-Type': 'application/json' } }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, json: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+
+  const { version, ...current } = RATE_CARDS[RATE_CARDS.length - 1];
+  const heavyExpress = {
+    shippingMethod: 'express',
+    packages: [{ weight: 15, dimensions: { length: 20, width: 20, height: 20 } }],
+    destinationZone: 'international',
+  };
+
+  test('lists the bundled cards and the one in effect', async () => {
+    const { status, json } = await request('GET', '/api/rate-cards');
+
+    expect(status).toBe(200);
+    expect(json.activeVersion).toBe(version);
+    expect(json.cards.map((card: any) => card.version)).toEqual(RATE_CARDS.map((card) => card.version));
+  });
+
+  test('publishes a new version that quotes use, with its weight limits', async () => {
+    expect((await request('POST', '/api/calculate-shipping', heavyExpress)).status).toBe(422);
+
+    const draft = {
+      ...current,
+      effectiveDate: '2026-03-01',
+      baseRate: 20,
+      weightLimits: { minKg: 0.1, maxKg: { standard: 30, express: 20, overnight: 5 } },
+    };
+    const published = await request('POST', '/api/rate-cards', draft);
+    expect(published.status).toBe(201);
+    expect(published.json).toMatchObject({ version: '2026.1', baseRate: 20 });
+
+    expect((await request('GET', '/api/rate-cards')).json.activeVersion).toBe('2026.1');
+    const quote = await request('POST', '/api/calculate-shipping', heavyExpress);
+    expect(quote.status).toBe(200);
+  });
+
+  test('refuses drafts the rate card schema rejects, or that take effect in the past', async () => {
+    const negative = await request('POST', '/api/rate-cards', { ...current, effectiveDate: '2026-03-01', baseRate: -1 });
+    expect(negative.status).toBe(422);
+    expect(negative.json.formErrors).toHaveLength(1);
+
+    const backdated = await request('POST', '/api/rate-cards', { ...current, effectiveDate: '2026-02-01' });
+    expect(backdated.json.formErrors).toEqual(["Rate card effectiveDate can't be before 2026-03-01"]);
+  });
+
+  test('rolls back by publishing an earlier card again', async () => {
+    const rolledBack = await request('POST', `/api/rate-cards/${version}/rollback`);
+    expect(rolledBack.status).toBe(201);
+    expect(rolledBack.json).toMatchObject({ version: '2026.2', effectiveDate: '2026-03-01', baseRate: current.baseRate, note: `Rollback to ${version}` });
+    expect((await request('GET', '/api/rate-cards')).json.activeVersion).toBe('2026.2');
+
+    expect((await request('POST', '/api/rate-cards/1999.1/rollback')).status).toBe(404);
+    expect((await request('GET', '/api/rate-cards/2026.1/rollback')).status).toBe(405);
+    expect((await request('DELETE', '/api/rate-cards')).status).toBe(405);
+  });
+
+  test('answers 500 and keeps the current card when a new one cannot be saved', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = createRateCardStore({
+      now,
+      onPublish: () => {
+        throw new Error('disk full');
+      },
+    });
+    const failingServer = createShippingServer({ rateCardStore: failing, now }).listen(0);
+    await new Promise((resolve) => failingServer.once('listening', resolve));
+    const failingPort = (failingServer.address() as AddressInfo).port;
+
+    try {
+      const published = await request('POST', '/api/rate-cards', { ...current, effectiveDate: '2026-03-01', baseRate: 20 }, failingPort);
+      expect(published).toEqual({ status: 500, json: { message: 'Rate card could not be saved' } });
+      expect((await request('POST', `/api/rate-cards/${version}/rollback`, undefined, failingPort)).status).toBe(500);
+      expect(failing.list().activeVersion).toBe(version);
+    } finally {
+      await new Promise((resolve) => failingServer.close(resolve));
+      jest.restoreAllMocks();
+    }
+  });
+
+  test('answers 500 with an error body when a route fails unexpectedly', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = {
+      ...createRateCardStore({ now }),
+      rollback: () => {
+        throw new Error('store unavailable');
+      },
+    };
+    const brokenServer = createShippingServer({ rateCardStore: broken, now }).listen(0);
+    await new Promise((resolve) => brokenServer.once('listening', resolve));
+    const brokenPort = (brokenServer.address() as AddressInfo).port;
+
+    try {
+      const rolledBack = await request('POST', `/api/rate-cards/${version}/rollback`, undefined, brokenPort);
+      expect(rolledBack).toEqual({ status: 500, json: { message: 'Internal server error' } });
+      expect(console.error).toHaveBeenCalledWith(new Error('store unavailable'));
+    } finally {
+      await new Promise((resolve) => brokenServer.close(resolve));
+      jest.restoreAllMocks();
+    }
+  });
+});
+
+describe('/api/delivery-calendar', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll((done) => {
+    server = createShippingServer({ calendarStore: createDeliveryCalendarStore() }).listen(0, () => {
+      port = (server.address() as AddressInfo).port;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  const request = (method: string, path: string, body?: unknown): Promise<{ status: number; json: any }> =>
+    new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, method, path, headers: { 'Content-Type': 'application/json' } }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, json: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+
+  const localOvernight = {
+    shippingMethod: 'overnight',
+    packages: [{ weight: 1, dimensions: { length: 20, width: 20, height: 20 } }],
+    destinationZone: 'local',
+  };
+
+  test('gives the bundled calendar until transit days are published', async () => {
+    expect(await request('GET', '/api/delivery-calendar')).toEqual({ status: 200, json: DELIVERY_CALENDAR });
+    expect((await request('POST', '/api/calculate-shipping', localOvernight)).json.estimatedDeliveryDays).toBe(1);
+  });
+
+  test('publishes transit days as a new calendar version that quotes use', async () => {
+    const transitDays = { ...DELIVERY_CALENDAR.transitDays, overnight: { ...DELIVERY_CALENDAR.transitDays.overnight, local: { min: 1, max: 2 } } };
+    const published = await request('POST', '/api/delivery-calendar/transit-days', transitDays);
+
+    expect(published.status).toBe(201);
+    expect(published.json).toMatchObject({ version: `${DELIVERY_CALENDAR.version}.1`, transitDays });
+    expect((await request('GET', '/api/delivery-calendar')).json.version).toBe(`${DELIVERY_CALENDAR.version}.1`);
+    expect((await request('POST', '/api/calculate-shipping', localOvernight)).json.estimatedDeliveryDays).toBe(2);
+  });
+
+  test('refuses transit days the calendar schema rejects', async () => {
+    const rejected = await request('POST', '/api/delivery-calendar/transit-days', { standard: {} });
+    expect(rejected.status).toBe(422);
+    expect(rejected.json.formErrors).toEqual(['Delivery calendar transitDays.standard.local must have whole min and max days, min first']);
+
+    expect((await request('PUT', '/api/delivery-calendar')).status).toBe(405);
+    expect((await request('GET', '/api/delivery-calendar/transit-days')).status).toBe(405);
+    expect((await request('GET', '/api/delivery-calendar/holidays')).status).toBe(404);
+  });
+});
@@ -0,0 +1,340 @@
+import http from 'http';
+import {
+  ApiErrorResponse,
+  CALCULATE_SHIPPING_PATH,
+  CalculateShippingResponse,
+  DELIVERY_CALENDAR_PATH,
+  EXCHANGE_RATES_PATH,
+  ExchangeRateTable,
+  RATE_CARDS_PATH,
+  TRACKING_PATH,
+  TrackingInfo,
+} from '../types';
+import { RATE_CARDS, RateCard, selectRateCard } from '../pricing/rateCard';
+import { createRateCardStore, RateCardDraft, RateCardList, RateCardSaveError, RateCardStore } from '../pricing/rateCardStore';
+import { checkAddOns } from '../pricing/addOns';
+import { calculatePromotedQuote, checkPromoCode, PROMO_CODES, PromoCodeTable } from '../pricing/promoCodes';
+import { AccountTable, checkAccount } from '../pricing/accounts';
+import { ACCOUNTS } from './accounts';
+import { formatErrors, translateEnglish } from '../i18n';
+import { DEFAULT_VALIDATION_RULES, validateShippingForm, ValidationRuleSet, withWeightLimits } from '../validation';
+import { parseCalculateShippingRequest } from './requestBody';
+import { findTrackingFixture, validateTrackingNumber } from '../tracking/fixtures';
+import { BUNDLED_EXCHANGE_RATES } from '../currency/exchangeRates';
+import { DeliveryCalendar } from '../delivery/deliveryDate';
+import { createDeliveryCalendarStore, DeliveryCalendarSaveError, DeliveryCalendarStore, TransitTable } from '../delivery/calendarStore';
+
+export interface ServerOptions {
+  rateCards?: RateCard[]; // bundled cards, when no rateCardStore is given
+  rateCardStore?: RateCardStore; // cards published from the admin screen, after the bundled ones
+  calendarStore?: DeliveryCalendarStore; // the delivery calendar, with transit days published from the admin screen
+  exchangeRates?: ExchangeRateTable;
+  validationRules?: ValidationRuleSet;
+  promoCodes?: PromoCodeTable;
+  accounts?: AccountTable;
+  now?: () => Date;
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const sendJson = (
+  res: http.ServerResponse,
+  status: number,
+  body: ApiErrorResponse | CalculateShippingResponse | TrackingInfo | ExchangeRateTable | RateCard | RateCardList | DeliveryCalendar
+) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    // The limit is in bytes, so count the raw chunks before they're decoded
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    const onData = (chunk: Buffer) => {
+      bytes += chunk.length;
+      if (bytes > MAX_BODY_BYTES) {
+        // Drop the rest of the body but keep the connection, so the 413 still gets through
+        req.off('data', onData);
+        req.resume();
+        reject(new Error('Request body too large'));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+// GET /api/tracking/:trackingNumber, served from the tracking fixtures
+const handleTracking = (req: http.IncomingMessage, res: http.ServerResponse, trackingNumber: string) => {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    sendJson(res, 405, { message: `${req.method} is not allowed on ${TRACKING_PATH}` });
+    return;
+  }
+
+  const formatError = validateTrackingNumber(trackingNumber);
+  if (formatError) {
+    sendJson(res, 400, { message: 'Malformed tracking number', fieldErrors: formatErrors({ trackingNumber: formatError }, translateEnglish) });
+    return;
+  }
+
+  const fixture = findTrackingFixture(trackingNumber);
+  if (!fixture) {
+    sendJson(res, 404, { message: `No shipment found with tracking number ${trackingNumber}` });
+    return;
+  }
+  sendJson(res, 200, fixture);
+};
+
+// Body of a JSON request, or the error response it gets (413 too large, 400 not JSON)
+const readJsonBody = async (req: http.IncomingMessage): Promise<{ ok: true; body: unknown } | { ok: false; status: number; message: string }> => {
+  let rawBody: string;
+  try {
+    rawBody = await readBody(req);
+  } catch (error) {
+    return { ok: false, status: 413, message: 'Request body too large' };
+  }
+  try {
+    return { ok: true, body: JSON.parse(rawBody) };
+  } catch (error) {
+    return { ok: false, status: 400, message: 'Request body must be valid JSON' };
+  }
+};
+
+// The card was fine but the server couldn't keep it, so it isn't live: worth trying again later
+const sendRateCardSaveError = (res: http.ServerResponse, error: RateCardSaveError) => {
+  console.error(error.message);
+  sendJson(res, 500, { message: 'Rate card could not be saved' });
+};
+
+// GET /api/rate-cards lists every version, POST publishes a new one (422 when it fails the schema,
+// 500 when it can't be saved), and POST /api/rate-cards/:version/rollback publishes an earlier
+// version's rates again.
+// The stand-in has no sign-in: the real service keeps these behind its admin auth.
+const handleRateCards = async (req: http.IncomingMessage, res: http.ServerResponse, store: RateCardStore, subpath: string) => {
+  if (subpath === '') {
+    if (req.method === 'GET') {
+      sendJson(res, 200, store.list());
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'GET, POST');
+      sendJson(res, 405, { message: `${req.method} is not allowed on ${RATE_CARDS_PATH}` });
+      return;
+    }
+    const read = await readJsonBody(req);
+    if (!read.ok) {
+      sendJson(res, read.status, { message: read.message });
+      return;
+    }
+    try {
+      // publish checks the body against the rate card schema
+      sendJson(res, 201, store.publish(read.body as RateCardDraft));
+    } catch (error) {
+      if (error instanceof RateCardSaveError) {
+        sendRateCardSaveError(res, error);
+        return;
+      }
+      sendJson(res, 422, { message: 'Rate card rejected', formErrors: [error instanceof Error ? error.message : String(error)] });
+    }
+    return;
+  }
+
+  const rollback = /^\/([^/]+)\/rollback$/.exec(subpath);
+  if (!rollback) {
+    sendJson(res, 404, { message: `No route for ${RATE_CARDS_PATH}${subpath}` });
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    sendJson(res, 405, { message: `${req.method} is not allowed on ${RATE_CARDS_PATH}${subpath}` });
+    return;
+  }
+  let version: string;
+  try {
+    version = decodeURIComponent(rollback[1]);
+  } catch (error) {
+    sendJson(res, 400, { message: 'Malformed rate card version' });
+    return;
+  }
+  let card: RateCard | null;
+  try {
+    card = store.rollback(version);
+  } catch (error) {
+    if (!(error instanceof RateCardSaveError)) throw error;
+    sendRateCardSaveError(res, error);
+    return;
+  }
+  if (!card) {
+    sendJson(res, 404, { message: `No rate card with version ${version}` });
+    return;
+  }
+  sendJson(res, 201, card);
+};
+
+// GET /api/delivery-calendar gives the calendar in effect, POST /api/delivery-calendar/transit-days
+// publishes new transit days as its next version (422 when they fail the calendar schema, 500 when
+// they can't be saved). Like the rate cards, the real service keeps publishing behind its admin auth.
+const handleDeliveryCalendar = async (req: http.IncomingMessage, res: http.ServerResponse, store: DeliveryCalendarStore, subpath: string) => {
+  if (subpath === '') {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      sendJson(res, 405, { message: `${req.method} is not allowed on ${DELIVERY_CALENDAR_PATH}` });
+      return;
+    }
+    sendJson(res, 200, store.get());
+    return;
+  }
+
+  if (subpath !== '/transit-days') {
+    sendJson(res, 404, { message: `No route for ${DELIVERY_CALENDAR_PATH}${subpath}` });
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    sendJson(res, 405, { message: `${req.method} is not allowed on ${DELIVERY_CALENDAR_PATH}${subpath}` });
+    return;
+  }
+  const read = await readJsonBody(req);
+  if (!read.ok) {
+    sendJson(res, read.status, { message: read.message });
+    return;
+  }
+  try {
+    // publishTransitDays checks the body against the calendar schema
+    sendJson(res, 201, store.publishTransitDays(read.body as TransitTable));
+  } catch (error) {
+    if (error instanceof DeliveryCalendarSaveError) {
+      console.error(error.message);
+      sendJson(res, 500, { message: 'Transit days could not be saved' });
+      return;
+    }
+    sendJson(res, 422, { message: 'Transit days rejected', formErrors: [error instanceof Error ? error.message : String(error)] });
+  }
+};
+
+// Anything a route throws is logged and answered with a 500, rather than leaving the request hanging
+const answeringErrors =
+  (handler: (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>) =>
+  async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      console.error(error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendJson(res, 500, { message: 'Internal server error' });
+    }
+  };
+
+// Request handler for the local stand-in shipping API
+export const createRequestHandler = ({
+  rateCards = RATE_CARDS,
+  exchangeRates = BUNDLED_EXCHANGE_RATES,
+  validationRules = DEFAULT_VALIDATION_RULES,
+  promoCodes = PROMO_CODES,
+  accounts = ACCOUNTS,
+  now = () => new Date(),
+  rateCardStore = createRateCardStore({ bundled: rateCards, now }),
+  calendarStore = createDeliveryCalendarStore(),
+}: ServerOptions = {}) =>
+  answeringErrors(async (req, res) => {
+    const path = (req.url || '').split('?')[0];
+
+    if (path.startsWith(`${TRACKING_PATH}/`)) {
+      let trackingNumber: string;
+      try {
+        trackingNumber = decodeURIComponent(path.slice(TRACKING_PATH.length + 1));
+      } catch (error) {
+        sendJson(res, 400, { message: 'Malformed tracking number' });
+        return;
+      }
+      handleTracking(req, res, trackingNumber);
+      return;
+    }
+
+    // GET /api/exchange-rates - the stand-in publishes the bundled table
+    if (path === EXCHANGE_RATES_PATH) {
+      if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        sendJson(res, 405, { message: `${req.method} is not allowed on ${path}` });
+        return;
+      }
+      sendJson(res, 200, exchangeRates);
+      return;
+    }
+
+    if (path === RATE_CARDS_PATH || path.startsWith(`${RATE_CARDS_PATH}/`)) {
+      await handleRateCards(req, res, rateCardStore, path.slice(RATE_CARDS_PATH.length));
+      return;
+    }
+
+    if (path === DELIVERY_CALENDAR_PATH || path.startsWith(`${DELIVERY_CALENDAR_PATH}/`)) {
+      await handleDeliveryCalendar(req, res, calendarStore, path.slice(DELIVERY_CALENDAR_PATH.length));
+      return;
+    }
+
+    if (path !== CALCULATE_SHIPPING_PATH) {
+      sendJson(res, 404, { message: `No route for ${path}` });
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJson(res, 405, { message: `${req.method} is not allowed on ${path}` });
+      return;
+    }
+
+    const read = await readJsonBody(req);
+    if (!read.ok) {
+      sendJson(res, read.status, { message: read.message });
+      return;
+    }
+
+    // 400: the body does not match the contract at all
+    const parsed = parseCalculateShippingRequest(read.body);
+    if (!parsed.ok) {
+      sendJson(res, 400, { message: 'Malformed shipping request', fieldErrors: parsed.fieldErrors });
+      return;
+    }
+
+    // 422: well-formed but breaks the shipping rules (services we don't provide among them), with
+    // the weight limits of the card in effect
+    const quotedAt = now();
+    const rateCard = selectRateCard(rateCardStore.list().cards, quotedAt);
+    const fieldErrors = validateShippingForm(parsed.data, 'metric', withWeightLimits(validationRules, rateCard.weightLimits));
+    if (Object.keys(fieldErrors).length > 0) {
+      sendJson(res, 422, { message: 'Shipping request failed validation', fieldErrors });
+      return;
+    }
+
+    // 422: add-ons the rate card doesn't offer for this shipment
+    const addOnErrors = formatErrors(checkAddOns(parsed.data, rateCard), translateEnglish);
+    if (Object.keys(addOnErrors).length > 0) {
+      sendJson(res, 422, { message: 'This shipment cannot be quoted', fieldErrors: addOnErrors });
+      return;
+    }
+
+    // 422: an account that doesn't exist or whose rates don't cover this shipment
+    const accountErrors = formatErrors(checkAccount(parsed.data, { accounts, now: quotedAt }), translateEnglish);
+    if (Object.keys(accountErrors).length > 0) {
+      sendJson(res, 422, { message: 'Account rejected', fieldErrors: accountErrors });
+      return;
+    }
+
+    // 422: a promo code that doesn't exist or can't be used on this shipment
+    const promoErrors = formatErrors(checkPromoCode(parsed.data, rateCard, { promoCodes, accounts, now: quotedAt }), translateEnglish);
+    if (Object.keys(promoErrors).length > 0) {
+      sendJson(res, 422, { message: 'Promo code rejected', fieldErrors: promoErrors });
+      return;
+    }
+
+    sendJson(res, 200, calculatePromotedQuote(parsed.data, rateCard, { promoCodes, accounts, now: quotedAt, calendar: calendarStore.get() }));
+  });
+
+export const createShippingServer = (options?: ServerOptions): http.Server =>
+  http.createServer(createRequestHandler(options));
@@ -0,0 +1,42 @@
+import fs from 'fs';
+import { createShippingServer } from './app';
+import { DEFAULT_VALIDATION_RULES, parseValidationRules } from '../validation';
+import { parseRateCard } from '../pricing/rateCard';
+import { createRateCardStore } from '../pricing/rateCardStore';
+import { createDeliveryCalendarStore } from '../delivery/calendarStore';
+
+const port = Number(process.env.PORT) || 3001;
+
+// VALIDATION_RULES_FILE swaps in a different rule set (same format as src/validation/rules.json)
+const rulesFile = process.env.VALIDATION_RULES_FILE;
+const validationRules = rulesFile ? parseValidationRules(JSON.parse(fs.readFileSync(rulesFile, 'utf8'))) : DEFAULT_VALIDATION_RULES;
+
+// RATE_CARDS_FILE keeps the rate cards published from the admin screen between runs (a JSON array
+// of cards, written on every publish before the card goes live); without it they last until the
+// server stops
+const rateCardsFile = process.env.RATE_CARDS_FILE;
+const publishedRateCards = rateCardsFile && fs.existsSync(rateCardsFile) ? JSON.parse(fs.readFileSync(rateCardsFile, 'utf8')) : [];
+if (!Array.isArray(publishedRateCards)) {
+  throw new Error(`${rateCardsFile} must hold a JSON array of rate cards`);
+}
+const rateCardStore = createRateCardStore({
+  published: publishedRateCards.map(parseRateCard),
+  onPublish: (published) => rateCardsFile && fs.writeFileSync(rateCardsFile, JSON.stringify(published, null, 2)),
+});
+
+// DELIVERY_CALENDAR_FILE keeps the transit days published from the admin screen between runs (a
+// JSON object with the calendar version and its transitDays, written on every publish before they
+// go live); without it the bundled calendar's come back when the server stops
+const calendarFile = process.env.DELIVERY_CALENDAR_FILE;
+const publishedTransitDays = calendarFile && fs.existsSync(calendarFile) ? JSON.parse(fs.readFileSync(calendarFile, 'utf8')) : undefined;
+const calendarStore = createDeliveryCalendarStore({
+  published: publishedTransitDays,
+  onPublish: (published) => calendarFile && fs.writeFileSync(calendarFile, JSON.stringify(published, null, 2)),
+});
+
+createShippingServer({ validationRules, rateCardStore, calendarStore }).listen(port, () => {
+  console.log(`🚚 Shipping API listening on http://localhost:${port}`);
+  if (rulesFile) console.log(`📋 Validation rules ${validationRules.version} from ${rulesFile}`);
+  if (rateCardsFile) console.log(`💲 ${publishedRateCards.length} published rate cards from ${rateCardsFile}`);
+  if (publishedTransitDays) console.log(`📅 Transit days ${calendarStore.get().version} from ${calendarFile}`);
+});
@@ -0,0 +1,103 @@
+import { ADD_ON_IDS, AddOnId, CalculateShippingRequest, DESTINATION_ZONES, packageErrorKey, SHIPPING_METHODS, ValidationErrors } from '../types';
+
+export type ParseResult =
+  | { ok: true; data: CalculateShippingRequest }
+  | { ok: false; fieldErrors: ValidationErrors };
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Check the structure of an untrusted request body before any business rules run
+export const parseCalculateShippingRequest = (body: unknown): ParseResult => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, fieldErrors: { body: 'Request body must be a JSON object' } };
+  }
+
+  const raw = body as Record<string, any>;
+  const fieldErrors: ValidationErrors = {};
+
+  if (!SHIPPING_METHODS.includes(raw.shippingMethod)) {
+    fieldErrors.shippingMethod = `shippingMethod must be one of ${SHIPPING_METHODS.join(', ')}`;
+  }
+  if (!DESTINATION_ZONES.includes(raw.destinationZone)) {
+    fieldErrors.destinationZone = `destinationZone must be one of ${DESTINATION_ZONES.join(', ')}`;
+  }
+  if (!Array.isArray(raw.packages)) {
+    fieldErrors.packages = 'packages must be an array';
+  } else {
+    raw.packages.forEach((pkg: any, index: number) => {
+      if (typeof pkg !== 'object' || pkg === null) {
+        fieldErrors[packageErrorKey(index, 'dimensions')] = `packages[${index}] must be an object`;
+        return;
+      }
+      if (!isNumber(pkg.weight)) {
+        fieldErrors[packageErrorKey(index, 'weight')] = `packages[${index}].weight must be a number`;
+      }
+      const dimensions = pkg.dimensions;
+      if (typeof dimensions !== 'object' || dimensions === null) {
+        fieldErrors[packageErrorKey(index, 'dimensions')] = `packages[${index}].dimensions must be an object with length, width and height`;
+      } else {
+        (['length', 'width', 'height'] as const).forEach((key) => {
+          if (!isNumber(dimensions[key])) {
+            fieldErrors[packageErrorKey(index, key)] = `packages[${index}].dimensions.${key} must be a number`;
+          }
+        });
+      }
+    });
+  }
+
+  // Addresses are optional; when given they need both parts
+  const addresses = (['origin', 'destination'] as const).filter((key) => raw[key] !== undefined);
+  addresses.forEach((key) => {
+    if (typeof raw[key] !== 'object' || raw[key] === null) {
+      fieldErrors[key] = `${key} must be an object with country and postcode`;
+      return;
+    }
+    (['country', 'postcode'] as const).forEach((part) => {
+      if (typeof raw[key][part] !== 'string') {
+        fieldErrors[`${key}.${part}`] = `${key}.${part} must be a string`;
+      }
+    });
+  });
+  if (raw.zoneOverride !== undefined && typeof raw.zoneOverride !== 'boolean') {
+    fieldErrors.zoneOverride = 'zoneOverride must be a boolean';
+  }
+  if (
+    raw.addOns !== undefined &&
+    (!Array.isArray(raw.addOns) ||
+      !raw.addOns.every((id: unknown) => ADD_ON_IDS.includes(id as AddOnId)) ||
+      new Set(raw.addOns).size !== raw.addOns.length)
+  ) {
+    fieldErrors.addOns = `addOns must list each of ${ADD_ON_IDS.join(', ')} at most once`;
+  }
+  if (raw.declaredValue !== undefined && !isNumber(raw.declaredValue)) {
+    fieldErrors.declaredValue = 'declaredValue must be a number';
+  }
+  if (raw.promoCode !== undefined && (typeof raw.promoCode !== 'string' || raw.promoCode.length > 32)) {
+    fieldErrors.promoCode = 'promoCode must be a string of at most 32 characters';
+  }
+  if (raw.accountNumber !== undefined && (typeof raw.accountNumber !== 'string' || raw.accountNumber.length > 32)) {
+    fieldErrors.accountNumber = 'accountNumber must be a string of at most 32 characters';
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { ok: false, fieldErrors };
+  }
+
+  return {
+    ok: true,
+    data: {
+      shippingMethod: raw.shippingMethod,
+      packages: raw.packages.map((pkg: any) => ({
+        weight: pkg.weight,
+        dimensions: { length: pkg.dimensions.length, width: pkg.dimensions.width, height: pkg.dimensions.height },
+      })),
+      destinationZone: raw.destinationZone,
+      ...Object.fromEntries(addresses.map((key) => [key, { country: raw[key].country, postcode: raw[key].postcode }])),
+      ...(raw.zoneOverride !== undefined && { zoneOverride: raw.zoneOverride }),
+      ...(raw.addOns !== undefined && { addOns: raw.addOns }),
+      ...(raw.declaredValue !== undefined && { declaredValue: raw.declaredValue }),
+      ...(raw.promoCode !== undefined && { promoCode: raw.promoCode }),
+      ...(raw.accountNumber !== undefined && { accountNumber: raw.accountNumber }),
+    },
+  };
+};
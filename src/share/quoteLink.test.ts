@@ -0,0 +1,126 @@
+import { parseQuoteLink, serializeQuoteLink } from './quoteLink';
+import { ShippingFormData } from '../types';
+import { createTranslator, getValidationMessages } from '../i18n';
+
+/**
+ * UNIT TESTS: Shareable quote links
+ *
+ * PURPOSE: Check that a shipment survives the round trip through a link and
+ * that malformed or out-of-range links are never trusted.
+ */
+const shipment: ShippingFormData = {
+  shippingMethod: 'express',
+  packages: [
+    { weight: 2, dimensions: { length: 30, width: 20, height: 10 } },
+    { weight: 0.5, dimensions: { length: 10, width: 10, height: 5 } },
+  ],
+  destinationZone: 'domestic',
+};
+
+describe('quote links', () => {
+  test('round-trips a shipment through a compact query string', () => {
+    const query = serializeQuoteLink(shipment);
+
+    expect(query).toBe('v=1&m=express&z=domestic&p=2x30x20x10_0.5x10x10x5&run=1');
+    expect(parseQuoteLink(`?${query}`)).toEqual({ status: 'ok', formData: shipment, errors: {}, autoRun: true });
+    expect(parseQuoteLink(serializeQuoteLink(shipment, { autoRun: false }))).toMatchObject({ autoRun: false });
+  });
+
+  test('carries addresses and works the zone out from them', () => {
+    const addressed: ShippingFormData = {
+      ...shipment,
+      origin: { country: 'GB', postcode: 'SW1A 1AA' },
+      destination: { country: 'US', postcode: '10001' },
+    };
+    const query = serializeQuoteLink(addressed);
+
+    expect(query).toContain('o=GB%3ASW1A+1AA&d=US%3A10001');
+    expect(parseQuoteLink(query)).toMatchObject({ status: 'ok', formData: { ...addressed, destinationZone: 'international' } });
+    expect(parseQuoteLink('v=1&m=express&z=local&p=1x1x1x1&o=GB&d=US:10001')).toEqual({
+      status: 'invalid',
+      reason: 'the addresses are malformed',
+    });
+  });
+
+  test('carries add-ons and checks they are offered for the shipment', () => {
+    const insured: ShippingFormData = { ...shipment, addOns: ['insurance', 'saturdayDelivery'], declaredValue: 250 };
+    const query = serializeQuoteLink(insured);
+
+    expect(query).toContain('a=insurance%2CsaturdayDelivery&dv=250');
+    expect(parseQuoteLink(query)).toEqual({ status: 'ok', formData: insured, errors: {}, autoRun: true });
+    expect(parseQuoteLink(query.replace('m=express', 'm=standard'))).toMatchObject({
+      errors: { addOns: 'Saturday delivery is not available for standard shipping to domestic destinations' },
+    });
+    expect(parseQuoteLink(query.replace('a=insurance%2CsaturdayDelivery', 'a=insurance%2CsaturdayDelivery%2Cinsurance'))).toEqual({
+      status: 'ok',
+      formData: insured,
+      errors: {},
+      autoRun: true,
+    });
+    expect(parseQuoteLink('v=1&m=express&z=local&p=1x1x1x1&a=gift-wrap')).toEqual({
+      status: 'invalid',
+      reason: 'the add-ons are not recognised',
+    });
+  });
+
+  test('carries a promo code and says why it cannot be used', () => {
+    const promoted: ShippingFormData = { ...shipment, promoCode: 'WELCOME10' };
+    const query = serializeQuoteLink(promoted);
+
+    expect(query).toContain('pc=WELCOME10');
+    expect(parseQuoteLink(query)).toEqual({ status: 'ok', formData: promoted, errors: {}, autoRun: true });
+    expect(parseQuoteLink(query.replace('pc=WELCOME10', 'pc=NOPE'))).toMatchObject({
+      status: 'ok',
+      errors: { promoCode: 'Promo code NOPE is not recognised' },
+    });
+    // Normalised like a typed code; a code no normalising can fix makes the link unusable
+    expect(parseQuoteLink(query.replace('pc=WELCOME10', 'pc=+welcome10+'))).toEqual({ status: 'ok', formData: promoted, errors: {}, autoRun: true });
+    expect(parseQuoteLink(query.replace('pc=WELCOME10', 'pc=+'))).toEqual({ status: 'ok', formData: shipment, errors: {}, autoRun: true });
+    expect(parseQuoteLink(query.replace('pc=WELCOME10', 'pc=WELCOME-10'))).toEqual({ status: 'invalid', reason: 'the promo code is malformed' });
+  });
+
+  test('ignores URLs that are not quote links', () => {
+    expect(parseQuoteLink('')).toEqual({ status: 'none' });
+    expect(parseQuoteLink('?utm_source=mail')).toEqual({ status: 'none' });
+  });
+
+  test('rejects malformed parameters', () => {
+    expect(parseQuoteLink('v=2&m=express&z=local&p=1x1x1x1').status).toBe('invalid');
+    expect(parseQuoteLink('v=1&m=teleport&z=local&p=1x1x1x1')).toEqual({
+      status: 'invalid',
+      reason: 'the shipping method is not recognised',
+    });
+    ['1x1x1', '1x1x1xNaN', '-1x1x1x1', '1e3x1x1x1', 'Infinityx1x1x1', ''].forEach((p) => {
+      expect(parseQuoteLink(`v=1&m=express&z=local&p=${p}`).status).toBe('invalid');
+    });
+    expect(parseQuoteLink(`v=1&m=express&z=local&p=${Array(11).fill('1x1x1x1').join('_')}`)).toEqual({
+      status: 'invalid',
+      reason: 'A shipment can contain at most 10 packages',
+    });
+  });
+
+  test('words the reasons and errors in the reader\'s language', () => {
+    const options = { t: createTranslator('de'), messages: getValidationMessages('de') };
+
+    expect(parseQuoteLink('v=1&m=teleport&z=local&p=1x1x1x1', 'metric', options)).toEqual({
+      status: 'invalid',
+      reason: 'die Versandart ist unbekannt',
+    });
+    expect(parseQuoteLink('v=1&m=express&z=local&p=20x10x10x10', 'metric', options)).toMatchObject({
+      status: 'ok',
+      errors: { 'packages.0.weight': 'Das Gewicht darf beim Expressversand höchstens 10 kg betragen' },
+    });
+  });
+
+  test('reports out-of-range values with the form validation rules', () => {
+    const result = parseQuoteLink('v=1&m=overnight&z=local&p=8x30x30x30_1x250x10x10', 'imperial');
+
+    expect(result).toMatchObject({
+      status: 'ok',
+      errors: {
+        'packages.0.weight': 'Weight cannot exceed 11.02lb for overnight shipping',
+        'packages.1.length': 'Length cannot exceed 78.7in',
+      },
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { ADD_ON_IDS, AddOnId, Address, DESTINATION_ZONES, DestinationZone, PackageDetails, SHIPPING_METHODS, ShippingFormData, ShippingMethod, ValidationErrors } from '../types';
+import { DEFAULT_VALIDATION_RULES, validateShippingForm, ValidationMessages, withWeightLimits } from '../validation';
+import { UnitSystem } from '../units';
+import { resolveZone } from '../zones/zoneResolver';
+import { checkAddOns } from '../pricing/addOns';
+import { checkPromoCode, normalisePromoCode, PROMO_CODE_PATTERN } from '../pricing/promoCodes';
+import { RATE_CARDS, RateCard, selectRateCard } from '../pricing/rateCard';
+import { formatErrors, Translate, translateEnglish } from '../i18n';
+
+// Shareable quote links carry the shipment in the query string:
+//   ?v=1&m=express&z=domestic&p=2x30x20x10_0.5x10x10x5&o=US:10001&d=US:94105&a=insurance,signature&dv=250&run=1
+// v - link format version, m - shipping method, z - destination zone,
+// p - packages as weight(kg)xlength(cm)xwidth(cm)xheight(cm), separated by "_",
+// o, d - origin and destination as country:postcode (optional; the zone is worked out from them),
+// a - add-ons separated by "," and dv - the declared value to insure, in the price currency (optional),
+// pc - a promo code (optional; normalised like a typed code and checked again when the link is opened),
+// run - calculate as soon as the link is opened.
+// Values are always metric, whatever units the sender was using. The business account number is
+// never carried: a link can be passed on to someone outside the account.
+
+export const QUOTE_LINK_VERSION = 1;
+
+const PACKAGE_SEPARATOR = '_';
+const VALUE_SEPARATOR = 'x';
+const ADDRESS_SEPARATOR = ':';
+const ADD_ON_SEPARATOR = ',';
+
+// Two-letter country code, then a postcode (checked against the country's format by validation)
+const ADDRESS = /^([A-Z]{2}):(.{1,12})$/;
+
+// Plain decimals only: no signs, exponents, Infinity or NaN
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+export type QuoteLinkResult =
+  | { status: 'none' } // not a quote link
+  | { status: 'invalid'; reason: string } // can't be read at all
+  | { status: 'ok'; formData: ShippingFormData; errors: ValidationErrors; autoRun: boolean };
+
+const serializeAddress = ({ country, postcode }: Address): string => `${country}${ADDRESS_SEPARATOR}${postcode}`;
+
+// undefined when the link has no such address, null when it can't be read
+const parseAddress = (raw: string | null): Address | null | undefined => {
+  if (raw === null) return undefined;
+  const match = ADDRESS.exec(raw);
+  return match ? { country: match[1], postcode: match[2] } : null;
+};
+
+export const serializeQuoteLink = (formData: ShippingFormData, { autoRun = true }: { autoRun?: boolean } = {}): string => {
+  const params = new URLSearchParams({
+    v: String(QUOTE_LINK_VERSION),
+    m: formData.shippingMethod,
+    z: formData.destinationZone,
+    p: formData.packages
+      .map(({ weight, dimensions }) => [weight, dimensions.length, dimensions.width, dimensions.height].join(VALUE_SEPARATOR))
+      .join(PACKAGE_SEPARATOR),
+  });
+  // Addresses still being filled in are left out
+  if (formData.origin?.postcode) params.set('o', serializeAddress(formData.origin));
+  if (formData.destination?.postcode) params.set('d', serializeAddress(formData.destination));
+  if (formData.addOns?.length) params.set('a', formData.addOns.join(ADD_ON_SEPARATOR));
+  if (formData.declaredValue !== undefined) params.set('dv', String(formData.declaredValue));
+  if (formData.promoCode) params.set('pc', formData.promoCode);
+  if (autoRun) params.set('run', '1');
+  return params.toString();
+};
+
+const parsePackage = (raw: string): PackageDetails | null => {
+  const values = raw.split(VALUE_SEPARATOR);
+  if (values.length !== 4 || !values.every((value) => DECIMAL.test(value))) return null;
+  const [weight, length, width, height] = values.map(Number);
+  return { weight, dimensions: { length, width, height } };
+};
+
+// Read a quote link. The shipment goes through the same validation as the form, so out-of-range
+// values come back as errors to show rather than a quote to run, checked against rateCard (the
+// bundled card in effect unless given the service's). Reasons and errors are worded by t and the
+// validation messages (English unless given others).
+export const parseQuoteLink = (
+  search: string,
+  units: UnitSystem = 'metric',
+  {
+    t = translateEnglish,
+    messages,
+    rateCard = selectRateCard(RATE_CARDS),
+  }: { t?: Translate; messages?: ValidationMessages; rateCard?: RateCard } = {}
+): QuoteLinkResult => {
+  const params = new URLSearchParams(search);
+  if (!params.has('v')) return { status: 'none' };
+
+  if (params.get('v') !== String(QUOTE_LINK_VERSION)) {
+    return { status: 'invalid', reason: t('quoteLink.reason.version') };
+  }
+
+  const shippingMethod = params.get('m') as ShippingMethod;
+  if (!SHIPPING_METHODS.includes(shippingMethod)) {
+    return { status: 'invalid', reason: t('quoteLink.reason.method') };
+  }
+  const destinationZone = params.get('z') as DestinationZone;
+  if (!DESTINATION_ZONES.includes(destinationZone)) {
+    return { status: 'invalid', reason: t('quoteLink.reason.zone') };
+  }
+
+  const packages = (params.get('p') || '').split(PACKAGE_SEPARATOR).map(parsePackage);
+  if (packages.some((pkg) => pkg === null)) {
+    return { status: 'invalid', reason: t('quoteLink.reason.packages') };
+  }
+
+  const origin = parseAddress(params.get('o'));
+  const destination = parseAddress(params.get('d'));
+  if (origin === null || destination === null) {
+    return { status: 'invalid', reason: t('quoteLink.reason.addresses') };
+  }
+
+  // An add-on listed twice is chosen once, as in the form
+  const addOns = params.has('a') ? Array.from(new Set((params.get('a') || '').split(ADD_ON_SEPARATOR))) : [];
+  const declaredValue = params.get('dv');
+  if (!addOns.every((id) => ADD_ON_IDS.includes(id as AddOnId)) || (declaredValue !== null && !DECIMAL.test(declaredValue))) {
+    return { status: 'invalid', reason: t('quoteLink.reason.addOns') };
+  }
+
+  const promoCode = normalisePromoCode(params.get('pc') || '');
+  if (promoCode && !PROMO_CODE_PATTERN.test(promoCode)) {
+    return { status: 'invalid', reason: t('quoteLink.reason.promoCode') };
+  }
+
+  // Addresses decide the zone when they can be placed; z is kept for links without them
+  const formData: ShippingFormData = {
+    shippingMethod,
+    destinationZone: resolveZone(origin, destination)?.zone || destinationZone,
+    packages: packages as PackageDetails[],
+    ...(origin && { origin }),
+    ...(destination && { destination }),
+    ...(addOns.length > 0 && { addOns: addOns as AddOnId[] }),
+    ...(declaredValue !== null && { declaredValue: Number(declaredValue) }),
+    ...(promoCode && { promoCode }),
+  };
+  const errors = {
+    ...validateShippingForm(formData, units, withWeightLimits(DEFAULT_VALIDATION_RULES, rateCard.weightLimits), messages),
+    ...formatErrors({ ...checkAddOns(formData, rateCard), ...checkPromoCode(formData, rateCard) }, t),
+  };
+  // Too many packages to even show in the form
+  if (errors.packages) {
+    return { status: 'invalid', reason: errors.packages };
+  }
+
+  return { status: 'ok', formData, errors, autoRun: params.get('run') === '1' };
+};
@@ -0,0 +1,69 @@
+import { TRACKING_NUMBER_PATTERN, TrackingInfo } from '../types';
+import { Message } from '../i18n';
+
+// Deterministic tracking data for development and tests - the same number always returns the same history
+export const TRACKING_FIXTURES: TrackingInfo[] = [
+  {
+    trackingNumber: 'ZZZ100000001',
+    shippingMethod: 'standard',
+    destinationZone: 'domestic',
+    events: [
+      { status: 'picked_up', timestamp: '2025-06-02T09:15:00Z', location: 'Melbourne, VIC' },
+      { status: 'in_transit', timestamp: '2025-06-02T18:40:00Z', location: 'Melbourne Sorting Facility, VIC' },
+      { status: 'at_depot', timestamp: '2025-06-05T06:10:00Z', location: 'Sydney Depot, NSW' },
+      { status: 'out_for_delivery', timestamp: '2025-06-06T07:30:00Z', location: 'Sydney, NSW' },
+      { status: 'delivered', timestamp: '2025-06-06T13:05:00Z', location: 'Surry Hills, NSW' },
+    ],
+  },
+  {
+    trackingNumber: 'ZZZ100000002',
+    shippingMethod: 'express',
+    destinationZone: 'domestic',
+    events: [
+      { status: 'picked_up', timestamp: '2025-06-03T10:00:00Z', location: 'Brisbane, QLD' },
+      { status: 'in_transit', timestamp: '2025-06-03T21:20:00Z', location: 'Brisbane Airport, QLD' },
+      { status: 'at_depot', timestamp: '2025-06-04T05:45:00Z', location: 'Adelaide Depot, SA' },
+    ],
+    estimatedDelivery: '2025-06-05T17:00:00Z',
+  },
+  {
+    trackingNumber: 'ZZZ100000003',
+    shippingMethod: 'overnight',
+    destinationZone: 'local',
+    events: [
+      { status: 'picked_up', timestamp: '2025-06-04T16:20:00Z', location: 'Perth, WA' },
+    ],
+    estimatedDelivery: '2025-06-05T12:00:00Z',
+  },
+  {
+    trackingNumber: 'ZZZ100000004',
+    shippingMethod: 'standard',
+    destinationZone: 'international',
+    events: [
+      { status: 'picked_up', timestamp: '2025-06-01T08:05:00Z', location: 'Melbourne, VIC' },
+      { status: 'in_transit', timestamp: '2025-06-02T23:50:00Z', location: 'Singapore Hub, SG' },
+      { status: 'at_depot', timestamp: '2025-06-06T04:30:00Z', location: 'London Heathrow Depot, UK' },
+      { status: 'out_for_delivery', timestamp: '2025-06-07T08:15:00Z', location: 'London, UK' },
+    ],
+    estimatedDelivery: '2025-06-07T18:00:00Z',
+  },
+];
+
+// Normalise user input ("zzz 1000-0000 1" -> "ZZZ100000001")
+export const normaliseTrackingNumber = (input: string): string => input.replace(/[\s-]/g, '').toUpperCase();
+
+// Why input can't be a tracking number, or null if it can
+export const validateTrackingNumber = (input: string): Message | null => {
+  const trackingNumber = normaliseTrackingNumber(input);
+  if (!trackingNumber) {
+    return { key: 'tracking.error.required' };
+  }
+  if (!TRACKING_NUMBER_PATTERN.test(trackingNumber)) {
+    return { key: 'tracking.error.format', values: { example: 'ZZZ100000001' } };
+  }
+  return null;
+};
+
+// Look up a fixture; null for unknown numbers
+export const findTrackingFixture = (trackingNumber: string): TrackingInfo | null =>
+  TRACKING_FIXTURES.find((fixture) => fixture.trackingNumber === normaliseTrackingNumber(trackingNumber)) || null;
@@ -0,0 +1,171 @@
+// Shared request/response types for the shipping calculator
+
+export type ShippingMethod = 'standard' | 'express' | 'overnight';
+export type DestinationZone = 'local' | 'domestic' | 'international';
+
+export interface Dimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+// One box in a shipment
+export interface PackageDetails {
+  weight: number;
+  dimensions: Dimensions;
+}
+
+export type AddOnId = 'insurance' | 'signature' | 'fragile' | 'saturdayDelivery';
+
+// A postal address, as far as pricing needs it
+export interface Address {
+  country: string; // ISO 3166-1 alpha-2, e.g. "GB"
+  postcode: string;
+}
+
+// A shipment: every package goes by the same method to the same zone
+export interface ShippingFormData {
+  shippingMethod: ShippingMethod;
+  packages: PackageDetails[];
+  destinationZone: DestinationZone;
+  // Where it goes from and to. With both, destinationZone is worked out from them (see
+  // src/zones) unless staff set it by hand; shipments without them give the zone directly.
+  origin?: Address;
+  destination?: Address;
+  zoneOverride?: boolean;
+  // Optional services, priced on top of the shipment (see rate card addOns)
+  addOns?: AddOnId[];
+  declaredValue?: number; // in PRICE_CURRENCY, insured by the insurance add-on
+  promoCode?: string; // see src/pricing/promoCodes.json
+  accountNumber?: string; // a business account with negotiated rates, checked by the pricing service (src/server/accounts.json)
+}
+
+// A single package with the shipment settings it is priced under
+export type PackageQuoteInput = PackageDetails & Pick<ShippingFormData, 'shippingMethod' | 'destinationZone'>;
+
+// Keyed by field name; package fields use packageErrorKey (e.g. "packages.1.weight")
+export interface ValidationErrors {
+  [key: string]: string;
+}
+
+export const packageErrorKey = (index: number, field: string): string => `packages.${index}.${field}`;
+
+// Which weight a quote was billed on
+export type WeightBasis = 'actual' | 'volumetric';
+
+// Where data came from: the API, explicit mock mode, or a fallback after the API failed
+export type DataSource = 'live' | 'mock' | 'fallback';
+
+// Pricing for one package of a shipment
+export interface PackageBreakdown {
+  sizeMultiplier: number;
+  packageSizeCategory: string;
+  weightSurcharge: number;
+  weight: number; // actual weight
+  volumetricWeight: number;
+  chargeableWeight: number; // the weight the surcharge was calculated on
+  weightBasis: WeightBasis;
+  cost: number;
+}
+
+// One add-on as priced on a quote
+export interface AddOnCharge {
+  id: AddOnId;
+  label: string;
+  cost: number;
+}
+
+// An accepted promo code as applied to a quote
+export interface PromoDiscount {
+  code: string;
+  description: string;
+  amount: number; // taken off the total
+}
+
+// A business account's negotiated discount as applied to a quote
+export interface AccountDiscount {
+  accountNumber: string;
+  name: string;
+  percent: number;
+  amount: number; // taken off the shipping charge
+}
+
+export interface ShippingResult {
+  shippingCost: number; // shipment total after discounts
+  estimatedDeliveryDays: number;
+  rateCardVersion?: string;
+  source?: DataSource;
+  breakdown: {
+    baseRate: number;
+    zoneMultiplier: number;
+    shippingMethod: string;
+    destinationZone: string;
+    packages: PackageBreakdown[];
+    subtotal: number; // sum of package costs
+    multiPieceDiscount: number; // amount taken off the subtotal
+    accountDiscount?: AccountDiscount; // taken off the subtotal less the multi-piece discount
+    addOns?: AddOnCharge[]; // added after the discounts
+    promoDiscount?: PromoDiscount; // taken off last; shippingCost = subtotal - discount - account + add-ons - promo
+  };
+}
+
+export const SHIPPING_METHODS: ShippingMethod[] = ['standard', 'express', 'overnight'];
+export const DESTINATION_ZONES: DestinationZone[] = ['local', 'domestic', 'international'];
+export const ADD_ON_IDS: AddOnId[] = ['insurance', 'signature', 'fragile', 'saturdayDelivery'];
+
+// POST /api/calculate-shipping contract
+export const CALCULATE_SHIPPING_PATH = '/api/calculate-shipping';
+
+export type CalculateShippingRequest = ShippingFormData;
+export type CalculateShippingResponse = ShippingResult;
+
+// Body of every non-2xx API response: field errors are keyed like the form's ValidationErrors,
+// form errors apply to the request as a whole
+export interface ApiErrorResponse {
+  message: string;
+  fieldErrors?: ValidationErrors;
+  formErrors?: string[];
+}
+
+// Rate cards for the admin screen: GET and POST /api/rate-cards, POST /api/rate-cards/:version/rollback
+export const RATE_CARDS_PATH = '/api/rate-cards';
+
+// Delivery calendar in effect, GET /api/delivery-calendar; the admin screen publishes new transit
+// days with POST /api/delivery-calendar/transit-days
+export const DELIVERY_CALENDAR_PATH = '/api/delivery-calendar';
+
+// Shipment tracking, GET /api/tracking/:trackingNumber
+export const TRACKING_PATH = '/api/tracking';
+
+// Tracking numbers look like ZZZ123456789
+export const TRACKING_NUMBER_PATTERN = /^ZZZ\d{9}$/;
+
+// Every stage a shipment passes through, in order
+export type TrackingStatus = 'picked_up' | 'in_transit' | 'at_depot' | 'out_for_delivery' | 'delivered';
+export const TRACKING_STATUSES: TrackingStatus[] = ['picked_up', 'in_transit', 'at_depot', 'out_for_delivery', 'delivered'];
+
+export interface TrackingEvent {
+  status: TrackingStatus;
+  timestamp: string; // ISO 8601
+  location: string;
+}
+
+export interface TrackingInfo {
+  trackingNumber: string;
+  shippingMethod: ShippingMethod;
+  destinationZone: DestinationZone;
+  events: TrackingEvent[]; // oldest first
+  estimatedDelivery?: string; // ISO 8601, until delivered
+  source?: DataSource;
+}
+
+// Exchange rates, GET /api/exchange-rates
+export const EXCHANGE_RATES_PATH = '/api/exchange-rates';
+
+// Units of each currency (ISO 4217 code) per one unit of the base currency
+export interface ExchangeRateTable {
+  base: string;
+  asOf: string; // ISO date the rates were published
+  rates: Record<string, number>;
+  source?: DataSource;
+}
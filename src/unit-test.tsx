@@ -1,45 +1,138 @@
-import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
-import '@testing-library/jest-dom';
-import ShippingCalculatorApp from './App';
-
-/**
- * SIMPLE UNIT TEST: Form Input and Validation
- * 
- * PURPOSE: Test that the shipping form accepts user input and shows validation errors
- * when required fields are empty.
- * 
- * WHY THIS TEST: Validates basic form functionality - users can enter data and
- * get feedback when they make mistakes.
- */
-describe('Shipping Calculator Form', () => {
-  
-  test('should accept form input and show validation errors for empty fields', () => {
-    
-    // ARRANGE: Render the shipping calculator
-    render(<ShippingCalculatorApp />);
-    
-    // ACT: Try to calculate without entering any data
-    const calculateButton = screen.getByText(/calculate shipping cost/i);
-    fireEvent.click(calculateButton);
-    
-    // ASSERT: Check that validation errors appear
-    expect(screen.getByText('Weight must be a positive number')).toBeInTheDocument();
-    expect(screen.getByText('Length must be a positive number')).toBeInTheDocument();
-    
-    // ACT: Enter valid weight
-    const weightInput = screen.getByLabelText(/weight \(kg\)/i);
-    fireEvent.change(weightInput, { target: { value: '2.5' } });
-    
-    // ASSERT: Check that weight appears in the package preview (Context working)
-    expect(screen.getByText('2.5 kg')).toBeInTheDocument();
-    
-    // ACT: Enter valid dimensions
-    const lengthInput = screen.getByLabelText(/length/i);
-    fireEvent.change(lengthInput, { target: { value: '25' } });
-    
-    // ASSERT: Check that dimension appears in preview
-    expect(screen.getByText(/25 ×/)).toBeInTheDocument();
-  });
-  
-});
\ No newline at end of file
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import axe from 'axe-core';
+import ShippingCalculatorApp from './App';
+import { calculateQuote } from './pricing/engine';
+import { RATE_CARDS } from './pricing/rateCard';
+import { createRateCardStore } from './pricing/rateCardStore';
+import { CALCULATE_SHIPPING_PATH, RATE_CARDS_PATH } from './types';
+
+/**
+ * SIMPLE UNIT TEST: Form Input and Validation
+ *
+ * PURPOSE: Test that the shipping form accepts user input and shows validation errors
+ * when required fields are empty, and that it stays accessible while doing so: no axe
+ * violations, errors tied to their fields, focus on the first invalid field after a
+ * refused quote, and quotes announced and closable from the keyboard.
+ *
+ * WHY THIS TEST: Validates basic form functionality - users can enter data and
+ * get feedback when they make mistakes, whether or not they can see the screen.
+ */
+
+// Fails with the rule and the elements for each axe violation in the container.
+// Colour contrast needs real layout, which jsdom doesn't do.
+const expectNoAxeViolations = async (container: Element) => {
+  const results = await axe.run(container, { rules: { 'color-contrast': { enabled: false } } });
+  const violations = results.violations.map(
+    ({ id, nodes }) => `${id}: ${nodes.map((node) => node.target.join(' ')).join(', ')}`
+  );
+  expect(violations).toEqual([]);
+};
+
+describe('Shipping Calculator Form', () => {
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // The pricing service: the bundled rate cards, and quotes on the card in effect
+    global.fetch = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) =>
+      ({
+        ok: true,
+        status: 200,
+        json: async () => (url === RATE_CARDS_PATH ? createRateCardStore().list() : calculateQuote(JSON.parse(String(init?.body)), RATE_CARDS[2])),
+      } as Response)
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should accept form input and show validation errors for empty fields', async () => {
+
+    // ARRANGE: Render the shipping calculator
+    const { container } = render(<ShippingCalculatorApp />);
+    await expectNoAxeViolations(container);
+
+    // ACT: Try to calculate without entering any data
+    const calculateButton = screen.getByRole('button', { name: /calculate shipping cost/i });
+    fireEvent.click(calculateButton);
+
+    // ASSERT: Check that validation errors appear next to their fields
+    expect(screen.getByLabelText(/weight \(kg\)/i)).toHaveAccessibleDescription(/^Weight must be a positive number/);
+    expect(screen.getByLabelText(/length/i)).toHaveAccessibleDescription(/^Length must be a positive number/);
+    await expectNoAxeViolations(container);
+
+    // ACT: Enter valid weight
+    const weightInput = screen.getByLabelText(/weight \(kg\)/i);
+    fireEvent.change(weightInput, { target: { value: '2.5' } });
+
+    // ASSERT: Check that weight appears in the package preview (Context working)
+    expect(screen.getByText('2.5 kg')).toBeInTheDocument();
+    expect(weightInput).not.toHaveAttribute('aria-invalid');
+
+    // ACT: Enter valid dimensions
+    const lengthInput = screen.getByLabelText(/length/i);
+    fireEvent.change(lengthInput, { target: { value: '25' } });
+
+    // ASSERT: Check that dimension appears in preview
+    expect(screen.getByText(/25 ×/)).toBeInTheDocument();
+  });
+
+  test('should list the errors and move focus to the first invalid field', () => {
+
+    // ARRANGE: Render the calculator and enter a weight, leaving the dimensions empty
+    render(<ShippingCalculatorApp />);
+    fireEvent.change(screen.getByLabelText(/weight \(kg\)/i), { target: { value: '2' } });
+
+    // ACT: Try to calculate from the button
+    const calculateButton = screen.getByRole('button', { name: /calculate shipping cost/i });
+    calculateButton.focus();
+    fireEvent.click(calculateButton);
+
+    // ASSERT: Focus leaves the button for the first invalid field
+    const lengthInput = screen.getByLabelText(/length/i);
+    expect(lengthInput).toHaveFocus();
+    expect(lengthInput).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByLabelText(/weight \(kg\)/i)).not.toHaveAttribute('aria-invalid');
+
+    // ASSERT: The summary counts the errors and links each to its field
+    const summary = screen.getByRole('region', { name: /please fix \d+ validation errors/i });
+    fireEvent.click(within(summary).getByRole('link', { name: 'Height must be a positive number' }));
+    expect(screen.getByLabelText(/height/i)).toHaveFocus();
+    expect(global.fetch).not.toHaveBeenCalledWith(CALCULATE_SHIPPING_PATH, expect.anything());
+  });
+
+  test('should announce the quote and close it with Escape', async () => {
+
+    // ARRANGE: Render the calculator with a valid package and addresses
+    const { container } = render(<ShippingCalculatorApp />);
+    fireEvent.change(screen.getByLabelText(/origin postcode/i), { target: { value: '10001' } });
+    fireEvent.change(screen.getByLabelText(/destination postcode/i), { target: { value: '10016' } });
+    fireEvent.change(screen.getByLabelText(/weight \(kg\)/i), { target: { value: '2' } });
+    fireEvent.change(screen.getByLabelText(/length/i), { target: { value: '30' } });
+    fireEvent.change(screen.getByLabelText(/width/i), { target: { value: '20' } });
+    fireEvent.change(screen.getByLabelText(/height/i), { target: { value: '10' } });
+
+    // ACT: Calculate
+    fireEvent.click(screen.getByRole('button', { name: /calculate shipping cost/i }));
+
+    // ASSERT: The wait and then the price are announced politely
+    // (the destination zone is an <output>, which is a status too)
+    const status = screen.getAllByRole('status').find((element) => element.getAttribute('aria-live') === 'polite')!;
+    expect(status).toHaveTextContent('Calculating...');
+    const results = await screen.findByRole('region', { name: /shipping cost calculated/i });
+    expect(status).toHaveTextContent(/^Shipping cost calculated: \$\d+\.\d{2}, arriving by /);
+    await expectNoAxeViolations(container);
+
+    // ACT: Press Escape from the result's close button
+    within(results).getByRole('button', { name: 'Close' }).focus();
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    // ASSERT: The result is gone and focus is back on the button that asked for it
+    expect(screen.queryByRole('region', { name: /shipping cost calculated/i })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /calculate shipping cost/i })).toHaveFocus();
+  });
+
+});
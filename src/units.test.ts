@@ -0,0 +1,48 @@
+import { displayLimit, fromMetricLength, fromMetricVolume, fromMetricWeight, roundTo, toMetricLength, toMetricWeight } from './units';
+
+/**
+ * UNIT TESTS: Unit conversion
+ *
+ * PURPOSE: Check kg/lb, cm/in and L/ft³ conversion, and that limits shown in
+ * imperial units are rounded inwards so the shown value itself is allowed.
+ */
+describe('unit conversion', () => {
+  test('converts imperial input to metric and back', () => {
+    expect(toMetricWeight(10, 'imperial')).toBeCloseTo(4.5359237);
+    expect(fromMetricWeight(toMetricWeight(10.5, 'imperial'), 'imperial')).toBeCloseTo(10.5, 6);
+    expect(toMetricLength(12, 'imperial')).toBeCloseTo(30.48);
+    expect(fromMetricLength(30.48, 'imperial')).toBeCloseTo(12);
+    expect(fromMetricVolume(28.316846592, 'imperial')).toBeCloseTo(1);
+  });
+
+  test('leaves metric values untouched', () => {
+    expect(toMetricWeight(2.5, 'metric')).toBe(2.5);
+    expect(fromMetricLength(40, 'metric')).toBe(40);
+    expect(fromMetricVolume(27, 'metric')).toBe(27);
+  });
+});
+
+describe('roundTo', () => {
+  test('rounds to nearest, up or down', () => {
+    expect(roundTo(22.04623, 2)).toBe(22.05);
+    expect(roundTo(22.04623, 2, 'down')).toBe(22.04);
+    expect(roundTo(0.220462, 2, 'up')).toBe(0.23);
+  });
+
+  test('ignores floating point noise', () => {
+    expect(roundTo(2.0000000000000004, 2, 'up')).toBe(2);
+    expect(roundTo(1.9999999999999998, 2, 'down')).toBe(2);
+  });
+});
+
+describe('displayLimit', () => {
+  test('rounds maximums down and minimums up in imperial units', () => {
+    expect(displayLimit(20, 'imperial', 'weight', 'max')).toBe(44.09);
+    expect(displayLimit(0.1, 'imperial', 'weight', 'min')).toBe(0.23);
+    expect(displayLimit(200, 'imperial', 'length', 'max')).toBe(78.7);
+  });
+
+  test('shows metric limits as they are', () => {
+    expect(displayLimit(20, 'metric', 'weight', 'max')).toBe(20);
+  });
+});
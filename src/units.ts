@@ -0,0 +1,52 @@
+// Unit systems for entering and displaying package sizes.
+// Shipments are always stored, priced and sent to the API in metric (kg, cm, L);
+// imperial values are converted at the edges of the UI.
+
+export type UnitSystem = 'metric' | 'imperial';
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+
+export const KG_PER_LB = 0.45359237;
+export const CM_PER_INCH = 2.54;
+export const LITRES_PER_CUBIC_FOOT = 28.316846592;
+
+export const UNIT_LABELS: Record<UnitSystem, { weight: string; length: string; volume: string }> = {
+  metric: { weight: 'kg', length: 'cm', volume: 'L' },
+  imperial: { weight: 'lb', length: 'in', volume: 'ft³' },
+};
+
+// Decimal places limits are shown with - enough to tell 22.04 lb from 22.05 lb
+export const LIMIT_DECIMALS = { weight: 2, length: 1 } as const;
+
+// Round to a number of decimal places: to nearest, or always up/down (for showing limits)
+export const roundTo = (value: number, decimals: number, direction: 'nearest' | 'up' | 'down' = 'nearest'): number => {
+  const factor = Math.pow(10, decimals);
+  // Trim float noise first so e.g. 2.0000000000000004 doesn't round up to 2.01
+  const scaled = parseFloat((value * factor).toFixed(6));
+  const rounded = direction === 'up' ? Math.ceil(scaled) : direction === 'down' ? Math.floor(scaled) : Math.round(scaled);
+  return rounded / factor;
+};
+
+// Conversions to metric keep 6 decimal places, so API requests don't carry float noise
+export const toMetricWeight = (value: number, units: UnitSystem): number =>
+  units === 'imperial' ? roundTo(value * KG_PER_LB, 6) : value;
+export const fromMetricWeight = (kg: number, units: UnitSystem): number => (units === 'imperial' ? kg / KG_PER_LB : kg);
+
+export const toMetricLength = (value: number, units: UnitSystem): number =>
+  units === 'imperial' ? roundTo(value * CM_PER_INCH, 6) : value;
+export const fromMetricLength = (cm: number, units: UnitSystem): number => (units === 'imperial' ? cm / CM_PER_INCH : cm);
+
+export const fromMetricVolume = (litres: number, units: UnitSystem): number =>
+  units === 'imperial' ? litres / LITRES_PER_CUBIC_FOOT : litres;
+
+// A metric limit in the chosen units, rounded inwards so every value inside the shown range is accepted
+// (e.g. 20 kg max is shown as 44.09 lb, not 44.1 lb which would be rejected)
+export const displayLimit = (
+  metricLimit: number,
+  units: UnitSystem,
+  kind: 'weight' | 'length',
+  bound: 'min' | 'max'
+): number => {
+  if (units === 'metric') return metricLimit;
+  const converted = kind === 'weight' ? fromMetricWeight(metricLimit, units) : fromMetricLength(metricLimit, units);
+  return roundTo(converted, LIMIT_DECIMALS[kind], bound === 'min' ? 'up' : 'down');
+};
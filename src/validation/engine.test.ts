@@ -0,0 +1,167 @@
+import { getFieldHint, getFieldLimits, runValidationRules, runValidationRulesAsync } from './engine';
+import { DEFAULT_VALIDATION_RULES, parseValidationRules, ValidationRule, ValidationRuleSet } from './rules';
+import { ShippingFormData } from '../types';
+
+/**
+ * UNIT TESTS: Validation rule engine
+ *
+ * PURPOSE: Check that rule sets loaded from JSON are checked for mistakes, that
+ * method/zone conditions, cross-field sums, refused values and services we don't
+ * provide, and warnings behave as configured, that
+ * async rules only run for otherwise valid shipments, and that hints follow the rules.
+ */
+const shipment = (overrides: Partial<ShippingFormData> = {}): ShippingFormData => ({
+  shippingMethod: 'standard',
+  packages: [{ weight: 2, dimensions: { length: 10, width: 10, height: 10 } }],
+  destinationZone: 'international',
+  ...overrides,
+});
+
+const withRules = (...rules: ValidationRule[]): ValidationRuleSet => ({
+  ...DEFAULT_VALIDATION_RULES,
+  rules: [...DEFAULT_VALIDATION_RULES.rules, ...rules],
+});
+
+describe('parseValidationRules', () => {
+  test('accepts the bundled rule set', () => {
+    expect(DEFAULT_VALIDATION_RULES.rules.length).toBeGreaterThan(0);
+  });
+
+  test('rejects rules it cannot run', () => {
+    const rule = { id: 'r', field: 'weight', check: 'max', limit: 5, message: 'Too heavy' };
+    const parse = (overrides: object) => () => parseValidationRules({ version: '1', rules: [{ ...rule, ...overrides }] });
+
+    expect(parse({})).not.toThrow();
+    expect(parse({ field: 'colour' })).toThrow(/unknown field/);
+    expect(parse({ check: 'between' })).toThrow(/unknown check/);
+    expect(parse({ limit: '5' })).toThrow(/numeric limit/);
+    expect(parse({ check: 'maxSum', of: ['depth'] })).toThrow(/"of"/);
+    expect(parse({ check: 'maxCount' })).toThrow(/only applies to packages/);
+    expect(parse({ when: { destinationZone: ['moon'] } })).toThrow(/when.destinationZone/);
+    expect(parse({ severity: 'fatal' })).toThrow(/severity/);
+    expect(parse({ message: 'Max {limit' })).toThrow(/message is not valid/);
+    expect(parse({ field: 'destination.country', check: 'notIn', values: [] })).toThrow(/"values"/);
+    expect(parse({ field: 'shippingMethod', check: 'unavailable' })).toThrow(/"when"/);
+    expect(() => parseValidationRules({ version: '1', rules: [rule, rule] })).toThrow(/more than once/);
+  });
+});
+
+describe('runValidationRules', () => {
+  test('applies zone-specific rules only in that zone', () => {
+    const rules = withRules({ id: 'intl', field: 'weight', check: 'max', limit: 1, when: { destinationZone: ['international'] }, message: 'Max {limit}{unit} to {destinationZone}' });
+
+    expect(runValidationRules(shipment(), rules).errors).toEqual({ 'packages.0.weight': 'Max 1kg to international' });
+    expect(runValidationRules(shipment({ destinationZone: 'local' }), rules).errors).toEqual({});
+  });
+
+  test('reports the first failing rule for each field', () => {
+    const { errors } = runValidationRules(shipment({ packages: [{ weight: 0, dimensions: { length: 250, width: 190, height: 0 } }] }), DEFAULT_VALIDATION_RULES);
+
+    expect(errors).toEqual({
+      'packages.0.weight': 'Weight must be a positive number',
+      'packages.0.length': 'Length cannot exceed 200cm',
+      'packages.0.height': 'Height must be a positive number',
+      'packages.0.dimensions': 'Combined dimensions (L+W+H) cannot exceed 400cm',
+    });
+  });
+
+  test('checks addresses when the shipment has them', () => {
+    const addressed = (destination: { country: string; postcode: string }, destinationZone: ShippingFormData['destinationZone'] = 'international') =>
+      runValidationRules(shipment({ origin: { country: 'US', postcode: '10001' }, destination, destinationZone }), DEFAULT_VALIDATION_RULES).errors;
+
+    expect(runValidationRules(shipment(), DEFAULT_VALIDATION_RULES).errors).toEqual({});
+    expect(addressed({ country: 'GB', postcode: 'SW1A 1AA' })).toEqual({});
+    expect(addressed({ country: 'GB', postcode: '' })).toEqual({ 'destination.postcode': 'Destination postcode is required' });
+    expect(addressed({ country: 'GB', postcode: '10001' })).toEqual({
+      'destination.postcode': 'Enter a valid United Kingdom postcode, e.g. SW1A 1AA',
+    });
+    expect(addressed({ country: 'XX', postcode: '1' })).toEqual({ 'destination.country': "We don't ship to or from this country yet" });
+    expect(addressed({ country: 'US', postcode: '94105' })).toEqual({ destinationZone: 'These addresses are in the domestic zone' });
+  });
+
+  test("refuses services we don't provide, whatever else is wrong with the field", () => {
+    const from = { country: 'US', postcode: '10001' };
+
+    // KP isn't in the postcode dataset either, but the embargo is the reason given
+    expect(runValidationRules(shipment({ origin: from, destination: { country: ' kp', postcode: '12345' } }), DEFAULT_VALIDATION_RULES).errors).toEqual({
+      'destination.country': 'We cannot ship to this country: it is under a trade embargo',
+    });
+    expect(runValidationRules(shipment({ shippingMethod: 'overnight' }), DEFAULT_VALIDATION_RULES).errors).toEqual({
+      shippingMethod: 'Overnight shipping is not available for international destinations',
+    });
+    expect(runValidationRules(shipment({ shippingMethod: 'overnight', destinationZone: 'domestic' }), DEFAULT_VALIDATION_RULES).errors).toEqual({});
+  });
+
+  test('lets staff override the zone worked out from the addresses', () => {
+    const overridden = shipment({
+      origin: { country: 'US', postcode: '10001' },
+      destination: { country: 'US', postcode: '94105' },
+      zoneOverride: true,
+    });
+
+    expect(runValidationRules(overridden, DEFAULT_VALIDATION_RULES).errors).toEqual({});
+  });
+
+  test('keeps warnings apart from errors and drops them where there is an error', () => {
+    const rules = withRules(
+      { id: 'heavy', field: 'weight', check: 'max', limit: 15, severity: 'warning', message: 'Heavy packages may need two people' },
+      { id: 'tall', field: 'height', check: 'max', limit: 100, severity: 'warning', message: 'Tall packages ship on their side' }
+    );
+    const report = runValidationRules(
+      shipment({
+        packages: [
+          { weight: 16, dimensions: { length: 10, width: 10, height: 10 } },
+          { weight: 16, dimensions: { length: 10, width: 10, height: 250 } },
+        ],
+      }),
+      rules
+    );
+
+    expect(report.errors).toEqual({ 'packages.1.height': 'Height cannot exceed 200cm' });
+    expect(report.warnings).toEqual({
+      'packages.0.weight': 'Heavy packages may need two people',
+      'packages.1.weight': 'Heavy packages may need two people',
+    });
+  });
+});
+
+describe('runValidationRulesAsync', () => {
+  test('adds async findings for valid shipments', async () => {
+    const validate = jest.fn(async () => ({ destinationZone: 'Deliveries to this area may take longer' }));
+    const report = await runValidationRulesAsync(shipment(), DEFAULT_VALIDATION_RULES, [{ id: 'area', severity: 'warning', validate }]);
+
+    expect(report).toEqual({ errors: {}, warnings: { destinationZone: 'Deliveries to this area may take longer' } });
+    expect(validate).toHaveBeenCalledWith(shipment(), { units: 'metric', signal: undefined });
+  });
+
+  test('skips async rules while the shipment has errors, or when their condition does not match', async () => {
+    const validate = jest.fn(async () => ({ destinationZone: 'Not served' }));
+
+    const invalid = await runValidationRulesAsync(shipment({ packages: [] }), DEFAULT_VALIDATION_RULES, [{ id: 'area', validate }]);
+    const local = await runValidationRulesAsync(shipment({ destinationZone: 'local' }), DEFAULT_VALIDATION_RULES, [
+      { id: 'area', when: { destinationZone: ['international'] }, validate },
+    ]);
+
+    expect(invalid.errors).toEqual({ packages: 'Add at least one package' });
+    expect(local.errors).toEqual({});
+    expect(validate).not.toHaveBeenCalled();
+  });
+});
+
+describe('limits and hints', () => {
+  test('the tightest applicable limit wins', () => {
+    const rules = withRules({ id: 'intl', field: 'weight', check: 'max', limit: 8, when: { destinationZone: ['international'] }, message: 'Too heavy' });
+
+    expect(getFieldLimits(rules, 'weight', { shippingMethod: 'standard', destinationZone: 'international' })).toEqual({ min: 0.1, max: 8 });
+    expect(getFieldLimits(rules, 'weight', { shippingMethod: 'express', destinationZone: 'international' })).toEqual({ min: 0.1, max: 8 });
+    expect(getFieldLimits(rules, 'weight', { shippingMethod: 'express', destinationZone: 'local' })).toEqual({ min: 0.1, max: 10 });
+  });
+
+  test('hints are worded from the rules in the chosen units', () => {
+    const context = { shippingMethod: 'express' as const, destinationZone: 'local' as const };
+
+    expect(getFieldHint(DEFAULT_VALIDATION_RULES, 'weight', context)).toBe('Allowed range for express: 0.1kg - 10kg');
+    expect(getFieldHint(DEFAULT_VALIDATION_RULES, 'dimensions', context, 'imperial')).toBe('Each dimension max 78.7in, total max 157.4in');
+    expect(getFieldHint(DEFAULT_VALIDATION_RULES, 'packages', context)).toBeNull();
+  });
+});
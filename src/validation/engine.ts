@@ -0,0 +1,283 @@
+import { Address, PackageDetails, packageErrorKey, ShippingFormData, ValidationErrors } from '../types';
+import { displayLimit, UNIT_LABELS, UnitSystem } from '../units';
+import { getCountry, isValidPostcode, resolveZone } from '../zones/zoneResolver';
+import { formatMessage, MessageValues } from '../i18n/format';
+import {
+  ADDRESS_FIELDS,
+  AddressField,
+  PackageValueField,
+  RuleCondition,
+  RuleField,
+  RuleSeverity,
+  SHIPMENT_FIELDS,
+  ShipmentField,
+  ValidationRule,
+  ValidationRuleSet,
+} from './rules';
+
+// Errors and warnings, both keyed like the form's ValidationErrors (e.g. "packages.1.weight").
+// A field never has both: an error hides any warning for it.
+export interface ValidationReport {
+  errors: ValidationErrors;
+  warnings: ValidationErrors;
+}
+
+// Checks that need a round trip (e.g. asking a service whether an address is served). They run
+// after the rule set passes and resolve to messages keyed like ValidationErrors.
+export interface AsyncValidationRule {
+  id: string;
+  when?: RuleCondition;
+  severity?: RuleSeverity;
+  validate: (formData: ShippingFormData, options: { units: UnitSystem; signal?: AbortSignal }) => Promise<ValidationErrors>;
+}
+
+// What a rule is checked against: the shipment settings it may be limited to
+export type RuleContext = Partial<Pick<ShippingFormData, 'shippingMethod' | 'destinationZone'>>;
+
+// Wording for another language: messages by rule id, hints and field labels by field. Anything
+// missing falls back to the rule set's own wording. The locale decides how numbers and plurals
+// in the messages read (see src/i18n/format.ts).
+export interface ValidationMessages {
+  locale: string;
+  rules?: Record<string, string>;
+  hints?: Partial<Record<RuleField, string>>;
+  labels?: Partial<Record<RuleField, string>>;
+}
+
+const DEFAULT_MESSAGES: ValidationMessages = { locale: 'en' };
+
+export const FIELD_LABELS: Record<RuleField, string> = {
+  shippingMethod: 'Shipping method',
+  destinationZone: 'Destination zone',
+  packages: 'Packages',
+  'origin.country': 'Origin country',
+  'origin.postcode': 'Origin postcode',
+  'destination.country': 'Destination country',
+  'destination.postcode': 'Destination postcode',
+  weight: 'Weight',
+  length: 'Length',
+  width: 'Width',
+  height: 'Height',
+  dimensions: 'Dimensions',
+};
+
+// Which unit a field's limits are in, for converting them to the user's units
+const FIELD_MEASURES: Partial<Record<RuleField, 'weight' | 'length'>> = {
+  weight: 'weight',
+  length: 'length',
+  width: 'length',
+  height: 'length',
+  dimensions: 'length',
+};
+
+const ruleFields = (rule: ValidationRule): RuleField[] => (Array.isArray(rule.field) ? rule.field : [rule.field]);
+
+// A condition only matches when the context has a listed value for each of its keys
+export const ruleApplies = (rule: Pick<ValidationRule, 'when'>, context: RuleContext): boolean =>
+  Object.entries(rule.when || {}).every(([key, values]) => {
+    const value = context[key as keyof RuleContext];
+    return value !== undefined && (values as string[]).includes(value);
+  });
+
+const packageValue = (pkg: PackageDetails, field: PackageValueField): unknown =>
+  field === 'weight' ? pkg.weight : pkg.dimensions[field];
+
+// The address an address field belongs to ("origin.postcode" -> formData.origin)
+const addressOf = (formData: ShippingFormData, field: AddressField): Address | undefined =>
+  field.startsWith('origin.') ? formData.origin : formData.destination;
+
+const shipmentValue = (formData: ShippingFormData, field: ShipmentField): unknown => {
+  if (!ADDRESS_FIELDS.includes(field as AddressField)) return formData[field as keyof ShippingFormData];
+  const address = addressOf(formData, field as AddressField);
+  return field.endsWith('.country') ? address?.country : address?.postcode;
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Whether a value passes a rule (values that aren't numbers are left to the required/positive checks;
+// postcodes in countries we don't know are left to the country check)
+const passes = (rule: ValidationRule, value: unknown, formData: ShippingFormData, field: RuleField, pkg?: PackageDetails): boolean => {
+  const limit = rule.limit!;
+  switch (rule.check) {
+    case 'required':
+      return value !== undefined && value !== null && value !== '';
+    case 'positive':
+      return isNumber(value) && value > 0;
+    case 'min':
+      return !isNumber(value) || value >= limit;
+    case 'max':
+      return !isNumber(value) || value <= limit;
+    case 'maxSum': {
+      const values = rule.of!.map((field) => (pkg ? packageValue(pkg, field) : undefined));
+      return values.reduce<number>((sum, part) => sum + (isNumber(part) ? part : 0), 0) <= limit;
+    }
+    case 'minCount':
+      return !Array.isArray(value) || value.length >= limit;
+    case 'maxCount':
+      return !Array.isArray(value) || value.length <= limit;
+    case 'country':
+      return !value || !!getCountry(String(value));
+    case 'postcode': {
+      const country = addressOf(formData, field as AddressField)?.country || '';
+      return !value || !getCountry(country) || isValidPostcode(country, String(value));
+    }
+    case 'addressZone': {
+      const resolved = resolveZone(formData.origin, formData.destination);
+      return !!formData.zoneOverride || !resolved || resolved.zone === value;
+    }
+    case 'notIn':
+      return !value || !rule.values!.some((refused) => refused.toUpperCase() === String(value).trim().toUpperCase());
+    case 'unavailable':
+      return false;
+    default:
+      return true;
+  }
+};
+
+// A rule's limit as the user should read it (minimums rounded up, maximums down)
+const shownLimit = (rule: ValidationRule, field: RuleField, units: UnitSystem): number | undefined => {
+  const measure = FIELD_MEASURES[field];
+  if (rule.limit === undefined || !measure) return rule.limit;
+  return displayLimit(rule.limit, units, measure, rule.check === 'min' ? 'min' : 'max');
+};
+
+const ruleMessage = (
+  rule: ValidationRule,
+  field: RuleField,
+  formData: ShippingFormData,
+  units: UnitSystem,
+  messages: ValidationMessages
+): string => {
+  const measure = FIELD_MEASURES[field];
+  const address = ADDRESS_FIELDS.includes(field as AddressField) ? addressOf(formData, field as AddressField) : undefined;
+  const country = address && getCountry(address.country);
+  return formatMessage(messages.rules?.[rule.id] ?? rule.message, {
+    limit: shownLimit(rule, field, units),
+    unit: measure ? UNIT_LABELS[units][measure] : '',
+    label: messages.labels?.[field] ?? FIELD_LABELS[field],
+    field,
+    shippingMethod: formData.shippingMethod,
+    destinationZone: formData.destinationZone,
+    country: country?.name,
+    example: country?.postcode.example,
+    expected: rule.check === 'addressZone' ? resolveZone(formData.origin, formData.destination)?.zone : undefined,
+  }, messages.locale);
+};
+
+// Record a finding unless the field already has one of the same severity (the first rule wins)
+const addFinding = (report: ValidationReport, severity: RuleSeverity | undefined, key: string, message: string) => {
+  const findings = severity === 'warning' ? report.warnings : report.errors;
+  if (!findings[key]) findings[key] = message;
+};
+
+const withoutShadowedWarnings = ({ errors, warnings }: ValidationReport): ValidationReport => ({
+  errors,
+  warnings: Object.fromEntries(Object.entries(warnings).filter(([key]) => !errors[key])),
+});
+
+// Run a rule set over a shipment. Values are always metric - units only changes how limits are worded.
+export const runValidationRules = (
+  formData: ShippingFormData,
+  ruleSet: ValidationRuleSet,
+  units: UnitSystem = 'metric',
+  messages: ValidationMessages = DEFAULT_MESSAGES
+): ValidationReport => {
+  const report: ValidationReport = { errors: {}, warnings: {} };
+
+  ruleSet.rules
+    .filter((rule) => ruleApplies(rule, formData))
+    .forEach((rule) => {
+      ruleFields(rule).forEach((field) => {
+        // Address rules only apply to shipments that have that address
+        if (ADDRESS_FIELDS.includes(field as AddressField) && !addressOf(formData, field as AddressField)) return;
+
+        if (SHIPMENT_FIELDS.includes(field as ShipmentField)) {
+          if (!passes(rule, shipmentValue(formData, field as ShipmentField), formData, field)) {
+            addFinding(report, rule.severity, field, ruleMessage(rule, field, formData, units, messages));
+          }
+          return;
+        }
+
+        // Package fields are checked on every package, keyed by package index
+        formData.packages.forEach((pkg, index) => {
+          const value = field === 'dimensions' ? undefined : packageValue(pkg, field as PackageValueField);
+          if (!passes(rule, value, formData, field, pkg)) {
+            addFinding(report, rule.severity, packageErrorKey(index, field), ruleMessage(rule, field, formData, units, messages));
+          }
+        });
+      });
+    });
+
+  return withoutShadowedWarnings(report);
+};
+
+// The rule set, then any async rules. Async rules are skipped while the rule set reports errors,
+// so services are only asked about shipments that are otherwise valid.
+export const runValidationRulesAsync = async (
+  formData: ShippingFormData,
+  ruleSet: ValidationRuleSet,
+  asyncRules: AsyncValidationRule[],
+  { units = 'metric', signal, messages }: { units?: UnitSystem; signal?: AbortSignal; messages?: ValidationMessages } = {}
+): Promise<ValidationReport> => {
+  const report = runValidationRules(formData, ruleSet, units, messages);
+  if (Object.keys(report.errors).length > 0) return report;
+
+  const applicable = asyncRules.filter((rule) => ruleApplies(rule, formData));
+  const results = await Promise.all(applicable.map((rule) => rule.validate(formData, { units, signal })));
+  results.forEach((messages, index) => {
+    Object.entries(messages).forEach(([key, message]) => addFinding(report, applicable[index].severity, key, message));
+  });
+
+  return withoutShadowedWarnings(report);
+};
+
+// The range the blocking rules allow for a field in this context, in the user's units.
+// Where several rules apply the tightest wins; a side with no rule is left undefined.
+export const getFieldLimits = (
+  ruleSet: ValidationRuleSet,
+  field: RuleField,
+  context: RuleContext,
+  units: UnitSystem = 'metric'
+): { min?: number; max?: number } => {
+  const limits: { min?: number; max?: number } = {};
+
+  ruleSet.rules
+    .filter((rule) => rule.severity !== 'warning' && rule.limit !== undefined && ruleFields(rule).includes(field) && ruleApplies(rule, context))
+    .forEach((rule) => {
+      const limit = shownLimit(rule, field, units)!;
+      if (rule.check === 'min' || rule.check === 'minCount') {
+        limits.min = limits.min === undefined ? limit : Math.max(limits.min, limit);
+      } else {
+        limits.max = limits.max === undefined ? limit : Math.min(limits.max, limit);
+      }
+    });
+
+  return limits;
+};
+
+// The hint shown under a field, or null if the rule set has none for it
+export const getFieldHint = (
+  ruleSet: ValidationRuleSet,
+  field: RuleField,
+  context: RuleContext,
+  units: UnitSystem = 'metric',
+  messages: ValidationMessages = DEFAULT_MESSAGES
+): string | null => {
+  // A translation only stands in for a hint the rule set has
+  const hint = ruleSet.hints[field] && (messages.hints?.[field] ?? ruleSet.hints[field]);
+  if (!hint) return null;
+
+  const values: MessageValues = {
+    'unit.weight': UNIT_LABELS[units].weight,
+    'unit.length': UNIT_LABELS[units].length,
+    shippingMethod: context.shippingMethod,
+    destinationZone: context.destinationZone,
+  };
+  (Object.keys(FIELD_LABELS) as RuleField[]).forEach((limitField) => {
+    const { min, max } = getFieldLimits(ruleSet, limitField, context, units);
+    values[`min.${limitField}`] = min;
+    values[`max.${limitField}`] = max;
+  });
+
+  return formatMessage(hint, values, messages.locale);
+};
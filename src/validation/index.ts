@@ -0,0 +1,72 @@
+import { SHIPPING_METHODS, ShippingFormData, ShippingMethod, ValidationErrors } from '../types';
+import { UnitSystem } from '../units';
+import { WeightLimits } from '../pricing/rateCard';
+import { DEFAULT_VALIDATION_RULES, ValidationRuleSet } from './rules';
+import { getFieldLimits, runValidationRules, ValidationMessages, ValidationReport } from './engine';
+
+export * from './rules';
+export * from './engine';
+
+// Limits from the bundled rule set, in metric
+
+// Weight limits for each shipping method
+export const WEIGHT_LIMITS = SHIPPING_METHODS.reduce((limits, method) => {
+  const { min = 0, max = Infinity } = getFieldLimits(DEFAULT_VALIDATION_RULES, 'weight', { shippingMethod: method });
+  return { ...limits, [method]: { min, max } };
+}, {} as Record<ShippingMethod, { min: number; max: number }>);
+
+// Size limits in cm: each side, and length + width + height combined
+export const DIMENSION_LIMITS = {
+  maxSide: getFieldLimits(DEFAULT_VALIDATION_RULES, 'length', {}).max ?? Infinity,
+  maxTotal: getFieldLimits(DEFAULT_VALIDATION_RULES, 'dimensions', {}).max ?? Infinity,
+};
+
+// A rule set with a rate card's weight limits in place of its own: every weight minimum becomes
+// minKg, and a weight maximum for one method becomes that method's maxKg
+export const withWeightLimits = (rules: ValidationRuleSet, limits?: WeightLimits): ValidationRuleSet => {
+  if (!limits) return rules;
+  return {
+    ...rules,
+    rules: rules.rules.map((rule) => {
+      if (rule.field !== 'weight') return rule;
+      if (rule.check === 'min') return { ...rule, limit: limits.minKg };
+      const methods = rule.when?.shippingMethod;
+      if (rule.check === 'max' && methods?.length === 1) return { ...rule, limit: limits.maxKg[methods[0]] };
+      return rule;
+    }),
+  };
+};
+
+// Most packages a single shipment can hold
+export const MAX_PACKAGES = getFieldLimits(DEFAULT_VALIDATION_RULES, 'packages', {}).max ?? Infinity;
+
+// Limits as shown to the user, in their units (see displayLimit for the rounding)
+export const getWeightLimits = (
+  shippingMethod: ShippingMethod,
+  units: UnitSystem = 'metric',
+  rules: ValidationRuleSet = DEFAULT_VALIDATION_RULES
+) => {
+  const { min = 0, max = Infinity } = getFieldLimits(rules, 'weight', { shippingMethod }, units);
+  return { min, max };
+};
+
+export const getDimensionLimits = (units: UnitSystem = 'metric', rules: ValidationRuleSet = DEFAULT_VALIDATION_RULES) => ({
+  maxSide: getFieldLimits(rules, 'length', {}, units).max ?? Infinity,
+  maxTotal: getFieldLimits(rules, 'dimensions', {}, units).max ?? Infinity,
+});
+
+// Errors and warnings for a shipment (in English unless given the messages for another language)
+export const validateShipment = (
+  formData: ShippingFormData,
+  units: UnitSystem = 'metric',
+  rules: ValidationRuleSet = DEFAULT_VALIDATION_RULES,
+  messages?: ValidationMessages
+): ValidationReport => runValidationRules(formData, rules, units, messages);
+
+// Only the errors - what stands between a shipment and a quote
+export const validateShippingForm = (
+  formData: ShippingFormData,
+  units: UnitSystem = 'metric',
+  rules: ValidationRuleSet = DEFAULT_VALIDATION_RULES,
+  messages?: ValidationMessages
+): ValidationErrors => validateShipment(formData, units, rules, messages).errors;
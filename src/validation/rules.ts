@@ -0,0 +1,208 @@
+import { DESTINATION_ZONES, DestinationZone, SHIPPING_METHODS, ShippingMethod } from '../types';
+import { checkMessage } from '../i18n/format';
+import bundledRules from './rules.json';
+
+// Shipment validation is described by data, not code: a rule set lists checks against form
+// fields, each optionally limited to some shipping methods or zones. The bundled set lives in
+// rules.json; the API server can load a different file (see src/server/index.ts).
+// Services we don't provide are rules too (countries under trade embargo, methods not offered
+// to a zone), so the calculator refuses the same shipments the API does before anything is
+// priced, even offline.
+
+// Fields of the shipment itself, and fields checked on every package
+export type AddressField = 'origin.country' | 'origin.postcode' | 'destination.country' | 'destination.postcode';
+export type ShipmentField = 'shippingMethod' | 'destinationZone' | 'packages' | AddressField;
+export type PackageValueField = 'weight' | 'length' | 'width' | 'height';
+export type PackageField = PackageValueField | 'dimensions'; // dimensions: L+W+H together
+export type RuleField = ShipmentField | PackageField;
+
+export const ADDRESS_FIELDS: AddressField[] = ['origin.country', 'origin.postcode', 'destination.country', 'destination.postcode'];
+export const SHIPMENT_FIELDS: ShipmentField[] = ['shippingMethod', 'destinationZone', 'packages', ...ADDRESS_FIELDS];
+export const PACKAGE_VALUE_FIELDS: PackageValueField[] = ['weight', 'length', 'width', 'height'];
+const PACKAGE_RULE_FIELDS: PackageField[] = [...PACKAGE_VALUE_FIELDS, 'dimensions'];
+
+// required: has a value; positive: a number above zero; min/max: a number within `limit`;
+// maxSum: the `of` fields added up stay within `limit`; minCount/maxCount: list length;
+// country: a country we can zone; postcode: the format of the address's country;
+// addressZone: destinationZone is the zone between the addresses (unless staff overrode it);
+// notIn: the value is none of `values` (ignoring case); unavailable: always fails, for a choice
+// that isn't offered where the rule's `when` matches
+export type RuleCheck =
+  | 'required'
+  | 'positive'
+  | 'min'
+  | 'max'
+  | 'maxSum'
+  | 'minCount'
+  | 'maxCount'
+  | 'country'
+  | 'postcode'
+  | 'addressZone'
+  | 'notIn'
+  | 'unavailable';
+export const RULE_CHECKS: RuleCheck[] = [
+  'required',
+  'positive',
+  'min',
+  'max',
+  'maxSum',
+  'minCount',
+  'maxCount',
+  'country',
+  'postcode',
+  'addressZone',
+  'notIn',
+  'unavailable',
+];
+
+// Errors block a quote; warnings are shown but let it through
+export type RuleSeverity = 'error' | 'warning';
+
+// A rule only applies to the listed methods/zones; a missing key means any
+export interface RuleCondition {
+  shippingMethod?: ShippingMethod[];
+  destinationZone?: DestinationZone[];
+}
+
+export interface ValidationRule {
+  id: string;
+  field: RuleField | RuleField[]; // a list applies the rule to each field
+  check: RuleCheck;
+  limit?: number; // min, max, maxSum, minCount and maxCount
+  of?: PackageValueField[]; // maxSum
+  values?: string[]; // notIn
+  when?: RuleCondition;
+  severity?: RuleSeverity; // default error
+  // Placeholders: {limit}, {unit}, {label}, {field}, {shippingMethod}, {destinationZone}; for
+  // address fields also {country} and {example} (a valid postcode), for addressZone {expected}.
+  // Messages may use plural and select (see src/i18n/format.ts).
+  message: string;
+}
+
+export interface ValidationRuleSet {
+  version: string;
+  rules: ValidationRule[]; // in order: the first failing rule for a field wins
+  // Field hints shown under the inputs. Placeholders: {min.<field>}, {max.<field>}, {unit.weight},
+  // {unit.length}, {shippingMethod}, {destinationZone}
+  hints: Partial<Record<RuleField, string>>;
+}
+
+const LIMIT_CHECKS: RuleCheck[] = ['min', 'max', 'maxSum', 'minCount', 'maxCount'];
+// Checks that only make sense on some fields
+const CHECK_FIELDS: Partial<Record<RuleCheck, RuleField[]>> = {
+  minCount: ['packages'],
+  maxCount: ['packages'],
+  country: ['origin.country', 'destination.country'],
+  postcode: ['origin.postcode', 'destination.postcode'],
+  addressZone: ['destinationZone'],
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRuleField = (value: unknown): value is RuleField =>
+  SHIPMENT_FIELDS.includes(value as ShipmentField) || PACKAGE_RULE_FIELDS.includes(value as PackageField);
+
+const checkCondition = (when: unknown, name: string) => {
+  if (!isObject(when)) {
+    throw new Error(`${name}.when must be an object`);
+  }
+  const allowed: Record<string, string[]> = { shippingMethod: SHIPPING_METHODS, destinationZone: DESTINATION_ZONES };
+  Object.entries(when).forEach(([key, values]) => {
+    if (!allowed[key]) {
+      throw new Error(`${name}.when.${key} is not a known condition`);
+    }
+    if (!Array.isArray(values) || values.length === 0 || !values.every((value) => allowed[key].includes(value))) {
+      throw new Error(`${name}.when.${key} must list ${allowed[key].join(', ')}`);
+    }
+  });
+};
+
+const checkRule = (rule: unknown, index: number, ids: Set<string>) => {
+  const name = `Validation rule ${index}`;
+  if (!isObject(rule)) {
+    throw new Error(`${name} must be an object`);
+  }
+  if (typeof rule.id !== 'string' || !rule.id) {
+    throw new Error(`${name} needs an id`);
+  }
+  if (ids.has(rule.id)) {
+    throw new Error(`Validation rule id "${rule.id}" is used more than once`);
+  }
+  ids.add(rule.id);
+
+  const ruleName = `Validation rule "${rule.id}"`;
+  const fields: unknown[] = Array.isArray(rule.field) ? rule.field : [rule.field];
+  if (fields.length === 0 || !fields.every(isRuleField)) {
+    throw new Error(`${ruleName} has an unknown field`);
+  }
+  if (!RULE_CHECKS.includes(rule.check)) {
+    throw new Error(`${ruleName} has an unknown check "${rule.check}"`);
+  }
+  const checkFields = CHECK_FIELDS[rule.check as RuleCheck];
+  if (checkFields && !fields.every((field) => checkFields.includes(field as RuleField))) {
+    throw new Error(`${ruleName}: ${rule.check} only applies to ${checkFields.join(', ')}`);
+  }
+  if (LIMIT_CHECKS.includes(rule.check) && (typeof rule.limit !== 'number' || !Number.isFinite(rule.limit))) {
+    throw new Error(`${ruleName} needs a numeric limit`);
+  }
+  if (rule.check === 'maxSum') {
+    const of: unknown[] = rule.of;
+    if (!Array.isArray(of) || of.length === 0 || !of.every((field) => PACKAGE_VALUE_FIELDS.includes(field as PackageValueField))) {
+      throw new Error(`${ruleName} must list the package values to add up in "of"`);
+    }
+  }
+  if (rule.check === 'notIn') {
+    const values: unknown[] = rule.values;
+    if (!Array.isArray(values) || values.length === 0 || !values.every((value) => typeof value === 'string' && value)) {
+      throw new Error(`${ruleName} must list the values to refuse in "values"`);
+    }
+  }
+  // Without a condition it would refuse every shipment
+  if (rule.check === 'unavailable' && rule.when === undefined) {
+    throw new Error(`${ruleName} needs a "when" saying where it applies`);
+  }
+  if (rule.when !== undefined) checkCondition(rule.when, ruleName);
+  if (rule.severity !== undefined && rule.severity !== 'error' && rule.severity !== 'warning') {
+    throw new Error(`${ruleName} severity must be "error" or "warning"`);
+  }
+  if (typeof rule.message !== 'string' || !rule.message) {
+    throw new Error(`${ruleName} needs a message`);
+  }
+  try {
+    checkMessage(rule.message);
+  } catch (error) {
+    throw new Error(`${ruleName} message is not valid: ${(error as Error).message}`);
+  }
+};
+
+// Validate raw JSON and return it as a typed rule set (throws on bad input)
+export const parseValidationRules = (json: unknown): ValidationRuleSet => {
+  if (!isObject(json)) {
+    throw new Error('Validation rules must be a JSON object');
+  }
+  if (typeof json.version !== 'string' || !json.version) {
+    throw new Error('Validation rules version is required');
+  }
+  if (!Array.isArray(json.rules)) {
+    throw new Error('Validation rules must have a rules array');
+  }
+  const ids = new Set<string>();
+  json.rules.forEach((rule: unknown, index: number) => checkRule(rule, index, ids));
+
+  const hints = json.hints === undefined ? {} : json.hints;
+  if (!isObject(hints) || !Object.entries(hints).every(([field, hint]) => isRuleField(field) && typeof hint === 'string')) {
+    throw new Error('Validation rules hints must map form fields to text');
+  }
+  Object.entries(hints).forEach(([field, hint]) => {
+    try {
+      checkMessage(hint as string);
+    } catch (error) {
+      throw new Error(`Validation rules hint for ${field} is not valid: ${(error as Error).message}`);
+    }
+  });
+
+  return { version: json.version, rules: json.rules, hints } as ValidationRuleSet;
+};
+
+export const DEFAULT_VALIDATION_RULES: ValidationRuleSet = parseValidationRules(bundledRules);
@@ -0,0 +1,90 @@
+import { DEFAULT_VALIDATION_RULES, validateShippingForm, withWeightLimits } from '.';
+import { ShippingFormData } from '../types';
+import { KG_PER_LB, CM_PER_INCH } from '../units';
+
+/**
+ * UNIT TESTS: Shipment validation
+ *
+ * PURPOSE: Check that every package is validated on its own and that errors
+ * are keyed by package index so the form can show them on the right inputs,
+ * that imperial users see limits in their own units, and that a rate card's
+ * weight limits replace the bundled ones.
+ */
+const validPackage = { weight: 2, dimensions: { length: 10, width: 10, height: 10 } };
+
+const shipment = (overrides: Partial<ShippingFormData> = {}): ShippingFormData => ({
+  shippingMethod: 'express',
+  packages: [validPackage],
+  destinationZone: 'local',
+  ...overrides,
+});
+
+describe('validateShippingForm', () => {
+  test('accepts a valid shipment', () => {
+    expect(validateShippingForm(shipment({ packages: [validPackage, validPackage] }))).toEqual({});
+  });
+
+  test('keys package errors by index', () => {
+    const errors = validateShippingForm(shipment({
+      packages: [validPackage, { weight: 12, dimensions: { length: 150, width: 150, height: 150 } }],
+    }));
+
+    expect(errors).toEqual({
+      'packages.1.weight': 'Weight cannot exceed 10kg for express shipping',
+      'packages.1.dimensions': 'Combined dimensions (L+W+H) cannot exceed 400cm',
+    });
+  });
+
+  test('requires between one and ten packages', () => {
+    expect(validateShippingForm(shipment({ packages: [] })).packages).toBe('Add at least one package');
+    expect(validateShippingForm(shipment({ packages: Array(11).fill(validPackage) })).packages).toMatch(/at most 10/);
+  });
+});
+
+describe('validateShippingForm in imperial units', () => {
+  const lbPackage = (lb: number) => ({ ...validPackage, weight: lb * KG_PER_LB });
+
+  test('words limits in pounds and inches', () => {
+    const errors = validateShippingForm(
+      shipment({ packages: [{ weight: 12, dimensions: { length: 201, width: 150, height: 150 } }] }),
+      'imperial'
+    );
+
+    expect(errors).toEqual({
+      'packages.0.weight': 'Weight cannot exceed 22.04lb for express shipping',
+      'packages.0.length': 'Length cannot exceed 78.7in',
+      'packages.0.dimensions': 'Combined dimensions (L+W+H) cannot exceed 157.4in',
+    });
+  });
+
+  test('accepts the limits it shows and rejects values just outside them', () => {
+    // 10kg is 22.046lb and 0.1kg is 0.2205lb: the shown limits are rounded inwards
+    expect(validateShippingForm(shipment({ packages: [lbPackage(22.04)] }), 'imperial')).toEqual({});
+    expect(validateShippingForm(shipment({ packages: [lbPackage(0.23)] }), 'imperial')).toEqual({});
+    expect(validateShippingForm(shipment({ packages: [lbPackage(22.05)] }), 'imperial')['packages.0.weight']).toBe(
+      'Weight cannot exceed 22.04lb for express shipping'
+    );
+    expect(validateShippingForm(shipment({ packages: [lbPackage(0.22)] }), 'imperial')['packages.0.weight']).toBe(
+      'Weight must be at least 0.23lb for express shipping'
+    );
+
+    // 78.7in side, 157.4in combined
+    const dimensions = { length: 78.7 * CM_PER_INCH, width: 40 * CM_PER_INCH, height: 38.7 * CM_PER_INCH };
+    expect(validateShippingForm(shipment({ packages: [{ weight: 2, dimensions }] }), 'imperial')).toEqual({});
+  });
+});
+
+describe('withWeightLimits', () => {
+  test("validates against a rate card's weight limits", () => {
+    const rules = withWeightLimits(DEFAULT_VALIDATION_RULES, { minKg: 0.5, maxKg: { standard: 40, express: 20, overnight: 8 } });
+
+    expect(validateShippingForm(shipment({ packages: [{ ...validPackage, weight: 15 }] }), 'metric', rules)).toEqual({});
+    expect(validateShippingForm(shipment({ packages: [{ ...validPackage, weight: 25 }] }), 'metric', rules)['packages.0.weight']).toBe(
+      'Weight cannot exceed 20kg for express shipping'
+    );
+    expect(validateShippingForm(shipment({ packages: [{ ...validPackage, weight: 0.3 }] }), 'metric', rules)['packages.0.weight']).toBe(
+      'Weight must be at least 0.5kg for express shipping'
+    );
+    expect(withWeightLimits(DEFAULT_VALIDATION_RULES)).toBe(DEFAULT_VALIDATION_RULES);
+  });
+});
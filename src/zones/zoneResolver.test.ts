@@ -0,0 +1,47 @@
+import { isValidPostcode, normalizePostcode, parsePostcodeDataset, resolveArea, resolveZone } from './zoneResolver';
+
+/**
+ * UNIT TESTS: Zones from addresses
+ *
+ * PURPOSE: Check that postcodes are validated in each country's format and that
+ * the zone between two addresses comes out local, domestic or international.
+ */
+describe('zone resolution', () => {
+  test('validates postcodes per country, ignoring case and spacing', () => {
+    expect(normalizePostcode('  sw1a   1aa ')).toBe('SW1A 1AA');
+    expect(isValidPostcode('GB', 'sw1a1aa')).toBe(true);
+    expect(isValidPostcode('US', '10001-1234')).toBe(true);
+    expect(isValidPostcode('CA', 'm5v 3l9')).toBe(true);
+    expect(isValidPostcode('US', 'SW1A 1AA')).toBe(false);
+    expect(isValidPostcode('AU', '20000')).toBe(false);
+    expect(isValidPostcode('XX', '12345')).toBe(false);
+  });
+
+  test('places an address in its local area and region', () => {
+    expect(resolveArea({ country: 'GB', postcode: 'SW1A 1AA' })).toEqual({
+      country: 'GB',
+      countryName: 'United Kingdom',
+      area: 'SW',
+      region: 'London',
+    });
+    expect(resolveArea({ country: 'AU', postcode: '2600' })).toMatchObject({ area: '26', region: 'Australian Capital Territory' });
+    expect(resolveArea({ country: 'US', postcode: 'nope' })).toBeNull();
+  });
+
+  test('works out local, domestic and international zones', () => {
+    const zone = (from: [string, string], to: [string, string]) =>
+      resolveZone({ country: from[0], postcode: from[1] }, { country: to[0], postcode: to[1] })?.zone;
+
+    expect(zone(['US', '10001'], ['US', '10018'])).toBe('local');
+    expect(zone(['US', '10001'], ['US', '94105'])).toBe('domestic');
+    expect(zone(['US', '10001'], ['CA', 'M5V 3L9'])).toBe('international');
+    expect(zone(['US', '10001'], ['US', ''])).toBeUndefined();
+  });
+
+  test('rejects a dataset whose examples break its own patterns', () => {
+    const country = { name: 'Testland', postcode: { pattern: '^\\d{4}$', example: '123' }, localArea: '^\\d', regions: {} };
+
+    expect(() => parsePostcodeDataset({ version: '1', countries: { TL: country } })).toThrow(/example/);
+    expect(parsePostcodeDataset({ version: '1', countries: { TL: { ...country, postcode: { ...country.postcode, example: '1234' } } } })).toBeTruthy();
+  });
+});
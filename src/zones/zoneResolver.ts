@@ -0,0 +1,128 @@
+import { Address, DestinationZone } from '../types';
+import bundledRegions from './postcodeRegions.json';
+
+// Destination zones from addresses, using an offline postcode dataset (postcodeRegions.json):
+// different countries are international, the same local postcode area is local, and anywhere
+// else in the same country is domestic.
+
+export interface CountryPostcodes {
+  name: string;
+  postcode: { pattern: string; example: string };
+  localArea: string; // pattern for the start of a postcode that makes up its local area
+  regions: Record<string, string>; // postcode prefix -> region name; the longest matching prefix wins
+}
+
+export interface PostcodeDataset {
+  version: string;
+  countries: Record<string, CountryPostcodes>; // keyed by ISO 3166-1 alpha-2 code
+}
+
+// Where an address is, as far as zoning goes
+export interface AddressArea {
+  country: string;
+  countryName: string;
+  area: string; // e.g. "SW" for SW1A 1AA
+  region?: string; // e.g. "London"
+}
+
+export interface ZoneResolution {
+  zone: DestinationZone;
+  origin: AddressArea;
+  destination: AddressArea;
+}
+
+// Postcodes are compared upper-case with single spaces ("sw1a  1aa" -> "SW1A 1AA")
+export const normalizePostcode = (postcode: string): string => postcode.trim().toUpperCase().replace(/\s+/g, ' ');
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPattern = (value: unknown): boolean => {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new RegExp(value);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Validate raw JSON and return it as a typed dataset (throws on bad input)
+export const parsePostcodeDataset = (json: unknown): PostcodeDataset => {
+  if (!isObject(json)) {
+    throw new Error('Postcode dataset must be a JSON object');
+  }
+  if (typeof json.version !== 'string' || !json.version) {
+    throw new Error('Postcode dataset version is required');
+  }
+  if (!isObject(json.countries)) {
+    throw new Error('Postcode dataset countries must be an object');
+  }
+  Object.entries(json.countries).forEach(([code, country]) => {
+    if (!/^[A-Z]{2}$/.test(code)) {
+      throw new Error(`Postcode dataset country "${code}" must be an ISO 3166-1 alpha-2 code`);
+    }
+    if (
+      !isObject(country) ||
+      typeof country.name !== 'string' ||
+      !isObject(country.postcode) ||
+      !isPattern(country.postcode.pattern) ||
+      typeof country.postcode.example !== 'string' ||
+      !isPattern(country.localArea) ||
+      !isObject(country.regions) ||
+      !Object.values(country.regions).every((region) => typeof region === 'string')
+    ) {
+      throw new Error(`Postcode dataset country ${code} is invalid`);
+    }
+    if (!new RegExp(country.postcode.pattern).test(normalizePostcode(country.postcode.example))) {
+      throw new Error(`Postcode dataset country ${code} example doesn't match its pattern`);
+    }
+  });
+
+  return json as PostcodeDataset;
+};
+
+export const POSTCODE_DATASET: PostcodeDataset = parsePostcodeDataset(bundledRegions);
+
+// Countries we can zone, by name
+export const SUPPORTED_COUNTRIES = Object.entries(POSTCODE_DATASET.countries)
+  .map(([code, country]) => ({ code, name: country.name }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+export const getCountry = (code: string, dataset: PostcodeDataset = POSTCODE_DATASET): CountryPostcodes | undefined =>
+  Object.prototype.hasOwnProperty.call(dataset.countries, code) ? dataset.countries[code] : undefined;
+
+// Whether a postcode has the format of the given country (false for countries we don't know)
+export const isValidPostcode = (country: string, postcode: string, dataset: PostcodeDataset = POSTCODE_DATASET): boolean => {
+  const entry = getCountry(country, dataset);
+  return !!entry && new RegExp(entry.postcode.pattern).test(normalizePostcode(postcode));
+};
+
+// The local area and region of an address, or null if it can't be placed
+export const resolveArea = (address: Address, dataset: PostcodeDataset = POSTCODE_DATASET): AddressArea | null => {
+  const entry = getCountry(address.country, dataset);
+  if (!entry || !isValidPostcode(address.country, address.postcode, dataset)) return null;
+
+  const postcode = normalizePostcode(address.postcode);
+  const area = (new RegExp(entry.localArea).exec(postcode) || [postcode])[0];
+  const prefix = Object.keys(entry.regions)
+    .filter((key) => postcode.startsWith(key))
+    .reduce<string | undefined>((longest, key) => (!longest || key.length > longest.length ? key : longest), undefined);
+
+  return { country: address.country, countryName: entry.name, area, region: prefix && entry.regions[prefix] };
+};
+
+// The zone between two addresses, or null until both are complete and valid
+export const resolveZone = (
+  origin: Address | undefined,
+  destination: Address | undefined,
+  dataset: PostcodeDataset = POSTCODE_DATASET
+): ZoneResolution | null => {
+  const from = origin && resolveArea(origin, dataset);
+  const to = destination && resolveArea(destination, dataset);
+  if (!from || !to) return null;
+
+  const zone: DestinationZone =
+    from.country !== to.country ? 'international' : from.area === to.area ? 'local' : 'domestic';
+  return { zone, origin: from, destination: to };
+};